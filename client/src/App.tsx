@@ -6,13 +6,20 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/layout";
 import Login from "@/pages/login";
+import AcceptInvitation from "@/pages/accept-invitation";
 import Dashboard from "@/pages/dashboard";
 import Campaigns from "@/pages/campaigns";
+import CampaignDetail from "@/pages/campaign-detail";
 import Bookings from "@/pages/bookings";
+import SupplierInbox from "@/pages/supplier-inbox";
 import Documents from "@/pages/documents";
 import Invoices from "@/pages/invoices";
 import Inventory from "@/pages/inventory";
 import Admin from "@/pages/admin";
+import SupplierTeam from "@/pages/supplier-team";
+import SupplierOnboarding from "@/pages/supplier-onboarding";
+import Contracts from "@/pages/contracts";
+import Audit from "@/pages/audit";
 import NotFound from "@/pages/not-found";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
@@ -59,13 +66,22 @@ function Router() {
   return (
     <Switch>
       <Route path="/login" component={() => <PublicRoute component={Login} />} />
+      <Route path="/invite/:token" component={() => <PublicRoute component={AcceptInvitation} />} />
       <Route path="/" component={() => <ProtectedRoute component={Dashboard} />} />
       <Route path="/campaigns" component={() => <ProtectedRoute component={Campaigns} />} />
+      <Route path="/campaigns/:id" component={() => <ProtectedRoute component={CampaignDetail} />} />
       <Route path="/bookings" component={() => <ProtectedRoute component={Bookings} />} />
+      <Route path="/inbox" component={() => <ProtectedRoute component={SupplierInbox} />} />
       <Route path="/inventory" component={() => <ProtectedRoute component={Inventory} />} />
       <Route path="/documents" component={() => <ProtectedRoute component={Documents} />} />
       <Route path="/invoices" component={() => <ProtectedRoute component={Invoices} />} />
+      <Route path="/team" component={() => <ProtectedRoute component={SupplierTeam} />} />
+      <Route path="/onboarding" component={() => <ProtectedRoute component={SupplierOnboarding} />} />
+      <Route path="/onboarding/:id" component={() => <ProtectedRoute component={SupplierOnboarding} />} />
+      <Route path="/contracts" component={() => <ProtectedRoute component={Contracts} />} />
+      <Route path="/contracts/:id" component={() => <ProtectedRoute component={Contracts} />} />
       <Route path="/admin" component={() => <ProtectedRoute component={Admin} />} />
+      <Route path="/audit" component={() => <ProtectedRoute component={Audit} />} />
       <Route component={NotFound} />
     </Switch>
   );
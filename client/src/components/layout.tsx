@@ -1,15 +1,19 @@
 /**
  * @file Main application layout with role-based sidebar navigation.
  * Renders a persistent sidebar, a top header bar, and a scrollable main content area.
- * Navigation items are filtered based on the authenticated user's role.
+ * Navigation items are filtered using the shared role policy, so a link is only
+ * shown when the API would allow the user to perform the corresponding action.
+ * The header carries the user's notification bell.
  */
 
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import type { Resource, Action } from "@shared/permissions";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { NotificationBell } from "@/components/notification-bell";
 import {
   LayoutDashboard,
   Megaphone,
@@ -25,59 +29,107 @@ import {
   Shield,
   ChevronRight,
   Monitor,
+  ScrollText,
+  Inbox,
+  Users,
+  ClipboardCheck,
+  FileSignature,
 } from "lucide-react";
 
-/** Describes a sidebar navigation link with its label, route, icon, and permitted roles. */
+/** Describes a sidebar navigation link with its label, route, icon, and the permission required to see it. */
 interface NavItem {
   label: string;
   href: string;
   icon: React.ElementType;
-  roles: string[];
+  resource: Resource;
+  action: Action;
 }
 
-/** Sidebar navigation entries. Each item specifies which user roles may see it. */
+/** Sidebar navigation entries. Each item names the policy permission that gates it. */
 const navItems: NavItem[] = [
   {
     label: "Dashboard",
     href: "/",
     icon: LayoutDashboard,
-    roles: ["department_admin", "campaign_planner", "finance_officer", "supplier_admin", "supplier_user", "auditor"],
+    resource: "dashboard",
+    action: "read",
   },
   {
     label: "Campaigns",
     href: "/campaigns",
     icon: Megaphone,
-    roles: ["department_admin", "campaign_planner", "auditor"],
+    resource: "campaigns",
+    action: "read",
   },
   {
     label: "Bookings",
     href: "/bookings",
     icon: CalendarCheck,
-    roles: ["department_admin", "campaign_planner", "supplier_admin", "supplier_user", "auditor"],
+    resource: "bookings",
+    action: "read",
+  },
+  {
+    label: "Bookings Inbox",
+    href: "/inbox",
+    icon: Inbox,
+    resource: "booking_responses",
+    action: "read",
   },
   {
     label: "Live Inventory",
     href: "/inventory",
     icon: Monitor,
-    roles: ["department_admin", "campaign_planner", "supplier_admin", "supplier_user", "auditor"],
+    resource: "inventory",
+    action: "read",
   },
   {
     label: "Documents",
     href: "/documents",
     icon: FileImage,
-    roles: ["department_admin", "campaign_planner", "supplier_admin", "supplier_user", "auditor"],
+    resource: "documents",
+    action: "read",
   },
   {
     label: "Invoices & Reports",
     href: "/invoices",
     icon: Receipt,
-    roles: ["department_admin", "finance_officer", "auditor"],
+    resource: "invoices",
+    action: "read",
+  },
+  {
+    label: "Audit Log",
+    href: "/audit",
+    icon: ScrollText,
+    resource: "audit",
+    action: "read",
+  },
+  {
+    label: "Supplier Onboarding",
+    href: "/onboarding",
+    icon: ClipboardCheck,
+    resource: "supplier_onboarding",
+    action: "read",
+  },
+  {
+    label: "Contracts",
+    href: "/contracts",
+    icon: FileSignature,
+    resource: "contracts",
+    action: "read",
+  },
+  {
+    label: "Team",
+    href: "/team",
+    icon: Users,
+    resource: "supplier_users",
+    action: "read",
   },
   {
     label: "Administration",
     href: "/admin",
     icon: Settings,
-    roles: ["department_admin"],
+    resource: "users",
+    action: "update",
   },
 ];
 
@@ -93,16 +145,14 @@ const roleLabels: Record<string, string> = {
 
 /**
  * Root layout component that renders the collapsible sidebar, top header bar,
- * and scrollable main content area. Navigation links are filtered by user role.
+ * and scrollable main content area. Navigation links are filtered by permission.
  */
 export default function Layout({ children }: { children: React.ReactNode }) {
-  const { user, logout, hasRole } = useAuth();
+  const { user, logout, can } = useAuth();
   const [location] = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  const filteredNav = navItems.filter((item) =>
-    item.roles.some((role) => hasRole(role))
-  );
+  const filteredNav = navItems.filter((item) => can(item.resource, item.action));
 
   return (
     <div className="flex h-screen overflow-hidden" data-testid="layout-container">
@@ -194,6 +244,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
             <div className="h-2 w-2 rounded-full bg-green-500" />
             System Online
           </div>
+          <NotificationBell />
         </header>
 
         <main className="flex-1 overflow-auto bg-background">
@@ -0,0 +1,113 @@
+/**
+ * @file TOTP enrolment panel. Requests a new secret from the server, shows it
+ * as a QR code and as text for manual entry, confirms it with a code from the
+ * authenticator app, and then displays the one-time recovery codes.
+ */
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2 } from "lucide-react";
+
+/** Response of POST /api/auth/mfa/enroll. */
+interface EnrollmentStart {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+/**
+ * Walks the user through enrolment. `onComplete` is called once the user has
+ * acknowledged their recovery codes.
+ */
+export function MfaEnrollment({ onComplete }: { onComplete: () => void | Promise<void> }) {
+  const [enrollment, setEnrollment] = useState<EnrollmentStart | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api
+      .post<EnrollmentStart>("/api/auth/mfa/enroll", {})
+      .then(setEnrollment)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  /** Confirms the secret with the code currently shown in the authenticator app. */
+  const handleConfirm = async () => {
+    setError("");
+    setBusy(true);
+    try {
+      const result = await api.post<{ recoveryCodes: string[] }>("/api/auth/mfa/enroll/confirm", { code });
+      setRecoveryCodes(result.recoveryCodes);
+    } catch (err: any) {
+      setError(err.message || "Verification failed");
+      setCode("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4" data-testid="mfa-recovery-codes">
+        <p className="text-sm text-slate-600">
+          Store these recovery codes somewhere safe. Each can be used once if you lose access to your authenticator app.
+          They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-3 font-mono text-sm">
+          {recoveryCodes.map((c) => (
+            <span key={c}>{c}</span>
+          ))}
+        </div>
+        <Button className="w-full" onClick={() => onComplete()} data-testid="button-mfa-continue">
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="mfa-enrollment">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3" data-testid="text-mfa-error">
+          {error}
+        </div>
+      )}
+      {!enrollment ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-slate-600">
+            Scan this QR code with Microsoft Authenticator or another authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48" data-testid="img-mfa-qr" />
+          </div>
+          <div className="space-y-1 text-center">
+            <p className="text-xs text-slate-500">Or enter this key manually</p>
+            <p className="font-mono text-sm break-all" data-testid="text-mfa-secret">{enrollment.secret}</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Verification code</Label>
+            <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-mfa-enroll-code">
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <Button className="w-full" onClick={handleConfirm} disabled={busy || code.length !== 6} data-testid="button-mfa-confirm">
+            {busy ? "Verifying..." : "Verify and enable"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Header bell listing the signed-in user's latest notifications, with a
+ * badge counting the unread ones. Opening the list marks them read; a
+ * notification with a link navigates to it.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+
+export function NotificationBell() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60_000,
+  });
+  const unread = notifications.filter((n) => !n.readAt);
+
+  const markRead = useMutation({
+    mutationFn: (ids: string[]) => api.post("/api/notifications/read", { ids }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next && unread.length > 0) markRead.mutate(unread.map((n) => n.id));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span
+              className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-medium text-white"
+              data-testid="text-unread-count"
+            >
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-3 py-2 text-sm font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="p-4 text-center text-sm text-slate-500">No notifications.</p>
+        ) : (
+          <ul className="max-h-96 overflow-auto">
+            {notifications.map((n) => (
+              <li key={n.id}>
+                <button
+                  className={`w-full border-b px-3 py-2 text-left text-sm hover:bg-slate-50 ${n.readAt ? "" : "bg-blue-50/50"}`}
+                  onClick={() => {
+                    handleOpenChange(false);
+                    if (n.link) navigate(n.link);
+                  }}
+                  data-testid={`notification-${n.id}`}
+                >
+                  <p className="font-medium">{n.title}</p>
+                  <p className="text-slate-600">{n.message}</p>
+                  <p className="mt-1 text-[11px] text-slate-400">{new Date(n.createdAt).toLocaleString("en-ZA")}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
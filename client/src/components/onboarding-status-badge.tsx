@@ -0,0 +1,22 @@
+/**
+ * @file Badge showing a supplier's onboarding status, used on the onboarding
+ * pages and in the Administration supplier list.
+ */
+
+import type { OnboardingStatus } from "@shared/supplier-onboarding";
+import { Badge } from "@/components/ui/badge";
+
+const onboardingStatusColors: Record<OnboardingStatus, string> = {
+  draft: "bg-slate-100 text-slate-700 border-slate-200",
+  submitted: "bg-blue-50 text-blue-700 border-blue-200",
+  verified: "bg-green-50 text-green-700 border-green-200",
+  suspended: "bg-red-50 text-red-700 border-red-200",
+};
+
+export function OnboardingStatusBadge({ status, testId }: { status: OnboardingStatus; testId?: string }) {
+  return (
+    <Badge variant="outline" className={onboardingStatusColors[status]} data-testid={testId}>
+      {status}
+    </Badge>
+  );
+}
@@ -1,34 +1,46 @@
 /**
  * @file Authentication context provider for the application.
  * Manages user session state, login/logout flows, and role-based access control
- * using React Context and localStorage for persistence.
+ * using React Context. The session itself lives server-side and is identified
+ * by an HTTP-only cookie, so nothing authentication-related is kept in localStorage.
  */
 
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
 import type { User } from "@shared/schema";
+import { can as policyAllows, type Resource, type Action } from "@shared/permissions";
 import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 
-/** User type with the password field omitted for client-side security. */
-type AuthUser = Omit<User, "password">;
+/** User type with the password and MFA secrets omitted for client-side security. */
+type AuthUser = Omit<User, "password" | "mfaSecret" | "mfaRecoveryCodes" | "mfaLastUsedStep">;
+
+/**
+ * Result of the password step: either signed in, or the second factor that
+ * must follow ("verify" an existing enrolment or "enroll" for the first time).
+ */
+export type LoginOutcome = "authenticated" | "mfa_verify" | "mfa_enroll";
 
 /**
  * Shape of the authentication context value.
- * Provides the current user, loading state, login/logout actions, and role checking.
+ * Provides the current user, loading state, login/logout actions, role checking,
+ * and permission checks against the shared role policy.
  */
 interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
-  login: (username: string, password: string) => Promise<void>;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<LoginOutcome>;
+  verifyMfa: (input: { code?: string; recoveryCode?: string }) => Promise<void>;
+  refreshUser: () => Promise<void>;
+  logout: () => Promise<void>;
   hasRole: (...roles: string[]) => boolean;
+  can: (resource: Resource, action: Action) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
 /**
  * Provides authentication state to the component tree.
- * Restores the user session from localStorage on mount and exposes
+ * Restores the user from the server session on mount and exposes
  * login, logout, and role-checking utilities via context.
  */
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -36,29 +48,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const stored = localStorage.getItem("ooh_user");
-    if (stored) {
-      try {
-        setUser(JSON.parse(stored));
-      } catch {}
+    api
+      .get<AuthUser>("/api/auth/me")
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  /**
+   * Submits the password step. The server sets the session cookie; if a second
+   * factor is required the user stays signed out until verifyMfa succeeds.
+   */
+  const login = useCallback(async (username: string, password: string): Promise<LoginOutcome> => {
+    const result = await api.post<AuthUser | { mfa: "verify" | "enroll" }>("/api/auth/login", { username, password });
+    if ("mfa" in result) {
+      return result.mfa === "verify" ? "mfa_verify" : "mfa_enroll";
     }
-    setLoading(false);
+    queryClient.clear();
+    setUser(result);
+    return "authenticated";
   }, []);
 
-  /** Authenticates the user, stores their data in localStorage, and updates state. */
-  const login = useCallback(async (username: string, password: string) => {
-    const result = await api.post<AuthUser>("/api/auth/login", { username, password });
-    localStorage.setItem("ooh_user_id", result.id);
-    localStorage.setItem("ooh_user", JSON.stringify(result));
+  /** Completes a pending login with a TOTP code or a recovery code. */
+  const verifyMfa = useCallback(async (input: { code?: string; recoveryCode?: string }) => {
+    const result = await api.post<AuthUser>("/api/auth/mfa/verify", input);
+    queryClient.clear();
     setUser(result);
   }, []);
 
-  /** Clears user data from localStorage, resets state, and invalidates the React Query cache. */
-  const logout = useCallback(() => {
-    localStorage.removeItem("ooh_user_id");
-    localStorage.removeItem("ooh_user");
-    setUser(null);
+  /** Reloads the user from the server session, e.g. after MFA enrolment signs the user in. */
+  const refreshUser = useCallback(async () => {
+    const result = await api.get<AuthUser>("/api/auth/me");
     queryClient.clear();
+    setUser(result);
+  }, []);
+
+  /** Ends the server session, resets state, and invalidates the React Query cache. */
+  const logout = useCallback(async () => {
+    try {
+      await api.post("/api/auth/logout", {});
+    } finally {
+      setUser(null);
+      queryClient.clear();
+    }
   }, []);
 
   /** Returns true if the current user holds any of the specified roles. */
@@ -70,8 +102,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     [user]
   );
 
+  /** Returns true if the shared policy lets the current user perform the action on the resource. */
+  const can = useCallback(
+    (resource: Resource, action: Action) => policyAllows(user?.role, resource, action),
+    [user]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout, hasRole }}>
+    <AuthContext.Provider value={{ user, loading, login, verifyMfa, refreshUser, logout, hasRole, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,54 +1,63 @@
 /**
  * @file HTTP client module that wraps the Fetch API.
- * Automatically attaches authentication headers from localStorage,
- * handles 401 responses by redirecting to the login page, and
- * provides typed convenience methods for common HTTP verbs.
+ * Sends the session cookie with every request, handles 401 responses by
+ * redirecting to the login page, and provides typed convenience methods
+ * for common HTTP verbs and multipart file uploads.
  */
 
 import { queryClient } from "./queryClient";
 
 const API_BASE = "";
 
+/** A non-2xx response. `body` is the parsed JSON error payload, e.g. `{ message, conflicts }`. */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: Record<string, unknown>) {
+    super(message);
+  }
+}
+
 /**
- * Sends an HTTP request with automatic auth header injection.
- * Reads the user-id from localStorage and attaches it as a request header.
- * On a 401 response, clears stored credentials and redirects to /login.
+ * Sends an HTTP request with the session cookie attached.
+ * On a 401 response from a protected endpoint, clears cached data and
+ * redirects to /login; 401s from /api/auth/* are surfaced to the caller so
+ * the login form can show the server's message. Other failures throw an
+ * ApiError carrying the status and parsed response body.
  * Parses the JSON response body and returns it as the specified type.
  */
 async function request<T>(url: string, options?: RequestInit): Promise<T> {
-  const userId = localStorage.getItem("ooh_user_id");
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...(userId ? { "user-id": userId } : {}),
-  };
-
   const res = await fetch(`${API_BASE}${url}`, {
     ...options,
-    headers: { ...headers, ...(options?.headers as Record<string, string>) },
+    credentials: "include",
+    // Multipart bodies need the browser to set Content-Type with its boundary.
+    headers: options?.body instanceof FormData
+      ? (options.headers as Record<string, string>)
+      : { "Content-Type": "application/json", ...(options?.headers as Record<string, string>) },
   });
 
-  if (res.status === 401) {
-    localStorage.removeItem("ooh_user_id");
-    localStorage.removeItem("ooh_user");
+  if (res.status === 401 && !url.startsWith("/api/auth/")) {
+    queryClient.clear();
     window.location.href = "/login";
     throw new Error("Unauthorized");
   }
 
   if (!res.ok) {
     const error = await res.json().catch(() => ({ message: "Request failed" }));
-    throw new Error(error.message || "Request failed");
+    throw new ApiError(error.message || "Request failed", res.status, error);
   }
 
   if (res.status === 204) return undefined as T;
   return res.json();
 }
 
-/** Convenience methods for GET, POST, PATCH, and DELETE requests. */
+/** Convenience methods for GET, POST, PUT, PATCH, and DELETE requests, and multipart uploads. */
 export const api = {
   get: <T>(url: string) => request<T>(url),
   post: <T>(url: string, data: unknown) =>
     request<T>(url, { method: "POST", body: JSON.stringify(data) }),
+  put: <T>(url: string, data: unknown) =>
+    request<T>(url, { method: "PUT", body: JSON.stringify(data) }),
   patch: <T>(url: string, data: unknown) =>
     request<T>(url, { method: "PATCH", body: JSON.stringify(data) }),
   delete: <T>(url: string) => request<T>(url, { method: "DELETE" }),
+  upload: <T>(url: string, data: FormData) => request<T>(url, { method: "POST", body: data }),
 };
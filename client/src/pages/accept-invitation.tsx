@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Invitation page reached from a supplier admin's invite link
+ * (/invite/:token). Shows who the invitation is for and which supplier it
+ * joins, then has the invitee choose a username and password. Accepting
+ * creates the account and signs the user in. Expired, used and revoked links
+ * show the server's message instead of the form.
+ */
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
+import { MIN_PASSWORD_LENGTH } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+/** Response of GET /api/invitations/:token. */
+interface InvitationDetails {
+  fullName: string;
+  email: string;
+  role: string;
+  supplierName: string | null;
+  expiresAt: string;
+}
+
+const roleLabels: Record<string, string> = {
+  supplier_admin: "Supplier Admin",
+  supplier_user: "Supplier User",
+};
+
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { refreshUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const { data: invitation, error: invitationError, isLoading } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+    queryFn: () => api.get(`/api/invitations/${token}`),
+    retry: false,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (password !== confirm) {
+      setError("The passwords do not match");
+      return;
+    }
+    setLoading(true);
+    try {
+      await api.post(`/api/invitations/${token}/accept`, { username, password });
+      await refreshUser();
+      setLocation("/");
+    } catch (err: any) {
+      setError(err.message || "Could not accept the invitation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50">
+      <div className="w-full max-w-md px-4">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-lg bg-slate-800 mb-4">
+            <span className="text-white text-2xl font-bold">OOH</span>
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-title">
+            OOH Booking System
+          </h1>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-slate-500">Loading invitation...</p>
+        ) : invitationError || !invitation ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Invitation unavailable</CardTitle>
+              <CardDescription data-testid="text-invitation-error">
+                {invitationError?.message ?? "This invitation is not valid"}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Welcome, {invitation.fullName}</CardTitle>
+              <CardDescription>
+                You have been invited to join {invitation.supplierName ?? "your supplier"} as{" "}
+                {roleLabels[invitation.role] ?? invitation.role}. Choose how you will sign in. This invitation
+                expires on {new Date(invitation.expiresAt).toLocaleString("en-ZA")}.
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <div
+                    className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3"
+                    data-testid="text-error"
+                  >
+                    {error}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="invite-username">Username</Label>
+                  <Input
+                    id="invite-username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    data-testid="input-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-password">Password</Label>
+                  <Input
+                    id="invite-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                    required
+                    data-testid="input-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-confirm">Confirm Password</Label>
+                  <Input
+                    id="invite-confirm"
+                    type="password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    required
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loading || !username || password.length < MIN_PASSWORD_LENGTH || !confirm}
+                  data-testid="button-accept-invitation"
+                >
+                  {loading ? "Creating account..." : "Create Account"}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,19 @@
 /**
  * Administration page accessible only to department_admin users. Contains three tabs:
- * Users (create accounts and toggle active/inactive status), Suppliers (register OOH
+ * Users (create accounts, toggle active/inactive status, reset MFA), Suppliers (register OOH
  * suppliers and toggle status), and Settings (placeholder cards for system configuration,
  * audit log, data export, and integration settings).
  */
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import type { User, Supplier, InsertUser, InsertSupplier } from "@shared/schema";
+import { requiresMfa } from "@shared/permissions";
+import { OnboardingStatusBadge } from "@/components/onboarding-status-badge";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -27,7 +30,7 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Users, Building2, Settings, Loader2, Database, ScrollText, Download, Plug } from "lucide-react";
+import { Plus, Users, Building2, Settings, Loader2, Database, ScrollText, Download, Plug, KeyRound } from "lucide-react";
 
 /** All six system roles: department_admin, campaign_planner, finance_officer, supplier_admin, supplier_user, auditor. */
 const ROLES = [
@@ -92,7 +95,10 @@ export default function AdminPage() {
   );
 }
 
-/** Manages user accounts: lists all users, allows creating new accounts, and toggling active/inactive status. */
+/**
+ * Manages user accounts: lists all users, allows creating new accounts, toggling active/inactive status,
+ * and resetting a user's MFA enrolment (e.g. after a lost phone).
+ */
 function UsersTab() {
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -131,6 +137,17 @@ function UsersTab() {
     },
   });
 
+  const resetMfaMutation = useMutation({
+    mutationFn: (id: string) => api.post<User>(`/api/users/${id}/mfa/reset`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "MFA reset", description: "The user will be asked to enrol again at next sign-in if their role requires it." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const resetForm = () => {
     setFullName("");
     setUsername("");
@@ -172,6 +189,7 @@ function UsersTab() {
                   <TableHead>Username</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>MFA</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
@@ -186,6 +204,32 @@ function UsersTab() {
                         {roleLabels[u.role] || u.role}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {u.mfaEnabled ? (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200" data-testid={`badge-mfa-${u.id}`}>
+                            Enabled
+                          </Badge>
+                        ) : requiresMfa(u.role) ? (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200" data-testid={`badge-mfa-${u.id}`}>
+                            Enrolment pending
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-slate-400" data-testid={`badge-mfa-${u.id}`}>Off</span>
+                        )}
+                        {u.mfaEnabled && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => resetMfaMutation.mutate(u.id)}
+                            disabled={resetMfaMutation.isPending}
+                            data-testid={`button-reset-mfa-${u.id}`}
+                          >
+                            <KeyRound className="h-3.5 w-3.5 mr-1" /> Reset
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Switch
@@ -284,7 +328,11 @@ function UsersTab() {
   );
 }
 
-/** Manages supplier registrations: lists registered suppliers, allows adding new ones, and toggling status. */
+/**
+ * Manages supplier registrations: lists registered suppliers with their onboarding status, allows
+ * adding new ones, and toggling status. New suppliers start in draft; their banking details are
+ * added on the onboarding page, where a second person verifies them.
+ */
 function SuppliersTab() {
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -293,6 +341,8 @@ function SuppliersTab() {
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [address, setAddress] = useState("");
+  const [vatNumber, setVatNumber] = useState("");
+  const [csdNumber, setCsdNumber] = useState("");
 
   const { data: suppliers = [], isLoading } = useQuery<Supplier[]>({
     queryKey: ["/api/suppliers"],
@@ -329,6 +379,8 @@ function SuppliersTab() {
     setEmail("");
     setPhone("");
     setAddress("");
+    setVatNumber("");
+    setCsdNumber("");
   };
 
   const handleCreate = () => {
@@ -336,7 +388,15 @@ function SuppliersTab() {
       toast({ title: "Missing fields", description: "Please fill in all required fields.", variant: "destructive" });
       return;
     }
-    createMutation.mutate({ name, contactPerson, email, phone: phone || null, address: address || null });
+    createMutation.mutate({
+      name,
+      contactPerson,
+      email,
+      phone: phone || null,
+      address: address || null,
+      vatNumber: vatNumber || null,
+      csdNumber: csdNumber || null,
+    });
   };
 
   return (
@@ -364,6 +424,7 @@ function SuppliersTab() {
                   <TableHead>Contact Person</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Phone</TableHead>
+                  <TableHead>Onboarding</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
@@ -374,6 +435,11 @@ function SuppliersTab() {
                     <TableCell>{s.contactPerson}</TableCell>
                     <TableCell>{s.email}</TableCell>
                     <TableCell>{s.phone || "—"}</TableCell>
+                    <TableCell>
+                      <Link href={`/onboarding/${s.id}`} data-testid={`link-supplier-onboarding-${s.id}`}>
+                        <OnboardingStatusBadge status={s.onboardingStatus} />
+                      </Link>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Switch
@@ -452,6 +518,26 @@ function SuppliersTab() {
                 data-testid="input-supplier-address"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-vat">VAT Number</Label>
+              <Input
+                id="supplier-vat"
+                value={vatNumber}
+                onChange={(e) => setVatNumber(e.target.value)}
+                placeholder="4123456789"
+                data-testid="input-supplier-vat"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-csd">CSD Supplier Number</Label>
+              <Input
+                id="supplier-csd"
+                value={csdNumber}
+                onChange={(e) => setCsdNumber(e.target.value)}
+                placeholder="MAAA0123456"
+                data-testid="input-supplier-csd"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-supplier">
@@ -468,9 +554,12 @@ function SuppliersTab() {
   );
 }
 
-/** Placeholder settings cards for system configuration, audit log, data export, and integration settings. */
+/**
+ * Settings cards for system configuration, audit log, data export, and integration
+ * settings. Cards with an `href` link to a working page; the rest are placeholders.
+ */
 function SettingsTab() {
-  const settingsCards = [
+  const settingsCards: { title: string; description: string; icon: React.ElementType; href?: string }[] = [
     {
       title: "System Configuration",
       description: "Manage global system parameters, default values, and application behaviour settings.",
@@ -480,6 +569,7 @@ function SettingsTab() {
       title: "Audit Log",
       description: "View system audit trail including user actions, data changes, and access logs.",
       icon: ScrollText,
+      href: "/audit",
     },
     {
       title: "Data Export",
@@ -509,9 +599,15 @@ function SettingsTab() {
             </div>
           </CardHeader>
           <CardContent>
-            <Button variant="outline" disabled data-testid={`button-configure-${card.title.toLowerCase().replace(/\s+/g, "-")}`}>
-              Configure
-            </Button>
+            {card.href ? (
+              <Button variant="outline" asChild data-testid={`button-configure-${card.title.toLowerCase().replace(/\s+/g, "-")}`}>
+                <Link href={card.href}>Open</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" disabled data-testid={`button-configure-${card.title.toLowerCase().replace(/\s+/g, "-")}`}>
+                Configure
+              </Button>
+            )}
           </CardContent>
         </Card>
       ))}
@@ -0,0 +1,292 @@
+/**
+ * Audit Log page for auditors and department admins. Lists audit trail events
+ * newest first with filters for action, entity and date range, exports the
+ * filtered trail as CSV, and verifies the integrity of the hash chain.
+ */
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { AuditEvent } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { FileSpreadsheet, ShieldCheck, ShieldAlert, Loader2, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const actionLabels: Record<string, string> = {
+  create: "Create",
+  update: "Update",
+  delete: "Delete",
+  login: "Sign in",
+  login_failed: "Failed sign-in",
+  logout: "Sign out",
+  mfa_verified: "MFA verified",
+  mfa_failed: "MFA failed",
+  mfa_enrolled: "MFA enrolled",
+  mfa_reset: "MFA reset",
+  download: "Download",
+  export: "Export",
+  match_override: "Match override",
+  payment: "Payment",
+  seed: "Seed data",
+};
+
+const actionColors: Record<string, string> = {
+  create: "bg-green-50 text-green-700 border-green-200",
+  update: "bg-blue-50 text-blue-700 border-blue-200",
+  delete: "bg-red-50 text-red-700 border-red-200",
+  login_failed: "bg-red-50 text-red-700 border-red-200",
+  mfa_failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+const entityTypes = ["session", "user", "user_invitation", "supplier", "supplier_bank_change", "supplier_contract", "campaign", "booking", "document", "invoice", "inventory", "audit", "system"];
+
+/** Result of GET /api/audit/verify. */
+interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  firstInvalidSequence?: number;
+  reason?: string;
+}
+
+const formatTimestamp = (date: string | Date) =>
+  new Date(date).toLocaleString("en-ZA", { dateStyle: "medium", timeStyle: "medium" });
+
+/** Summarises what an event changed, e.g. "status: draft → approved". */
+function describeChanges(event: AuditEvent): string {
+  const changes = event.changes as Record<string, { from: unknown; to: unknown }> | null;
+  if (changes) {
+    const entries = Object.entries(changes);
+    if (entries.length === 0) return "No field changes";
+    return entries.map(([field, { from, to }]) => `${field}: ${String(from ?? "—")} → ${String(to ?? "—")}`).join("; ");
+  }
+  return "";
+}
+
+export default function AuditPage() {
+  const { toast } = useToast();
+  const [action, setAction] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+
+  const params = new URLSearchParams();
+  if (action !== "all") params.set("action", action);
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (entityId) params.set("entityId", entityId);
+  if (from) params.set("from", new Date(from).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const filterQuery = params.toString();
+
+  const pageParams = new URLSearchParams(params);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(page * PAGE_SIZE));
+
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit?${pageParams.toString()}`],
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => api.get<AuditVerification>("/api/audit/verify"),
+    onSuccess: setVerification,
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  /** Applies a filter change and returns to the first page. */
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900" data-testid="text-page-title">
+              Audit Log
+            </h1>
+            <p className="text-sm text-slate-500 mt-1">Tamper-evident record of sign-ins, changes and exports</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => verifyMutation.mutate()}
+              disabled={verifyMutation.isPending}
+              data-testid="button-verify-chain"
+            >
+              {verifyMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <ShieldCheck className="h-4 w-4 mr-1" />
+              )}
+              Verify Integrity
+            </Button>
+            <Button variant="outline" asChild data-testid="button-export-csv">
+              <a href={`/api/audit/export${filterQuery ? `?${filterQuery}` : ""}`} download>
+                <FileSpreadsheet className="h-4 w-4 mr-1" /> Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {verification && (
+          <div
+            className={`flex items-center gap-2 rounded-md border p-3 text-sm ${
+              verification.valid
+                ? "bg-green-50 border-green-200 text-green-700"
+                : "bg-red-50 border-red-200 text-red-700"
+            }`}
+            data-testid="text-verification-result"
+          >
+            {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+            {verification.valid
+              ? `Chain intact: ${verification.checked} events verified.`
+              : `Chain broken at event #${verification.firstInvalidSequence}: ${verification.reason}. ${verification.checked} earlier events verified.`}
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={withReset(setAction)}>
+                  <SelectTrigger data-testid="select-filter-action"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {Object.entries(actionLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select value={entityType} onValueChange={withReset(setEntityType)}>
+                  <SelectTrigger data-testid="select-filter-entity"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All entities</SelectItem>
+                    {entityTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity ID</Label>
+                <Input
+                  value={entityId}
+                  onChange={(e) => withReset(setEntityId)(e.target.value.trim())}
+                  placeholder="Any"
+                  data-testid="input-filter-entity-id"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={from} onChange={(e) => withReset(setFrom)(e.target.value)} data-testid="input-filter-from" />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={to} onChange={(e) => withReset(setTo)(e.target.value)} data-testid="input-filter-to" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-center py-8 text-slate-500" data-testid="text-empty-audit">No audit events match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id} data-testid={`row-audit-${event.sequence}`}>
+                      <TableCell className="font-mono text-xs text-slate-500">{event.sequence}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{formatTimestamp(event.occurredAt)}</TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{event.actorUsername || "—"}</div>
+                        {event.actorRole && (
+                          <div className="text-xs text-slate-500">{event.actorRole.replace(/_/g, " ")}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={actionColors[event.action] || ""}>
+                          {actionLabels[event.action] || event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="capitalize">{event.entityType}</span>
+                        {event.entityId && (
+                          <div className="font-mono text-xs text-slate-500 truncate max-w-[10rem]" title={event.entityId}>
+                            {event.entityId}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-600 max-w-md break-words" data-testid={`text-audit-changes-${event.sequence}`}>
+                        {describeChanges(event)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-slate-500">{event.ipAddress || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="flex justify-end items-center gap-2 mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                data-testid="button-audit-prev"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-slate-500">Page {page + 1}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={events.length < PAGE_SIZE}
+                data-testid="button-audit-next"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,19 +2,34 @@
  * @fileoverview Bookings management page. Lists all site bookings across
  * campaigns with search and status filtering. Each booking links to a campaign
  * and supplier. Supports creating new bookings via a dialog form and viewing
- * booking details in a slide-out sheet panel.
+ * booking details in a slide-out sheet panel. A booking reserves an inventory
+ * screen for a date range; if the screen is already booked for overlapping
+ * dates the server refuses it and the dialog lists the conflicting bookings.
+ * The cost is not entered by hand: once a screen and dates are chosen the
+ * dialog shows the pricing engine's line-by-line quote and the cost it locks in.
+ * A booking that would take the campaign over budget is refused; where the
+ * overspend policy is soft the user may confirm it anyway. The details sheet
+ * shows the supplier's response and negotiation history; planners accept or
+ * reject a supplier's counter-offer from there.
  */
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, ApiError } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import type { Booking, Campaign, Supplier, InsertBooking } from "@shared/schema";
+import type { Booking, BookingNegotiation, Campaign, Supplier, Inventory } from "@shared/schema";
+import { canNegotiate } from "@shared/booking-negotiation";
+import type { Quote } from "@shared/pricing";
+import { isCompliant, type SupplierCompliance } from "@shared/compliance";
+import { bookingMatches, filterQuery } from "@shared/list-filters";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { NegotiationHistory, responseColors, responseLabels } from "@/pages/supplier-inbox";
 import {
   Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
 } from "@/components/ui/table";
@@ -27,7 +42,7 @@ import {
 import {
   Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription,
 } from "@/components/ui/sheet";
-import { Plus, Search } from "lucide-react";
+import { Plus, Search, AlertTriangle, FileSpreadsheet } from "lucide-react";
 
 /** Tailwind CSS classes for each booking status badge. */
 const statusColors: Record<string, string> = {
@@ -47,6 +62,23 @@ const statusLabels: Record<string, string> = {
   completed: "Completed",
 };
 
+/** The 409 response from POST /api/bookings when the booking would exceed the campaign budget. */
+interface BudgetWarning {
+  message: string;
+  budget: number;
+  projected: number;
+  canOverride: boolean;
+}
+
+/** A conflicting booking as listed in the 409 response from POST /api/bookings. */
+interface BookingConflict {
+  id: string;
+  campaignId: string;
+  status: string;
+  startDate: string | null;
+  endDate: string | null;
+}
+
 const formatCurrency = (value: string | number | null) => {
   if (!value) return "—";
   return new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(value));
@@ -57,17 +89,78 @@ const formatDate = (date: string | Date | null) => {
   return new Date(date).toLocaleDateString("en-ZA");
 };
 
+/** Labels for quote rate lines, singular and plural. */
+const rateUnitLabels: Record<string, [string, string]> = {
+  monthly: ["month", "months"],
+  weekly: ["week", "weeks"],
+  daily: ["day", "days"],
+};
+
+/** Line-by-line breakdown of a booking quote: the contract it falls under, rate-card units, adjustments, VAT and total. */
+function QuoteBreakdown({ quote }: { quote: Quote }) {
+  return (
+    <div className="rounded-md border bg-slate-50 p-3 text-sm space-y-1" data-testid="booking-quote">
+      <p className="font-medium text-slate-700">Quote for {quote.days} day{quote.days === 1 ? "" : "s"}</p>
+      {quote.contract ? (
+        <p className="text-slate-500" data-testid="text-quote-contract">
+          Under contract {quote.contract.contractNumber}
+          {quote.contract.negotiatedRates ? " at negotiated rates" : ""}
+        </p>
+      ) : quote.contract === null && (
+        <p className="text-amber-700" data-testid="text-quote-no-contract">
+          No active contract with this supplier covers these dates, so the screen cannot be booked.
+        </p>
+      )}
+      {quote.rateLines.map((line) => (
+        <div key={line.unit} className="flex justify-between" data-testid={`quote-line-${line.unit}`}>
+          <span>
+            {line.quantity} {rateUnitLabels[line.unit][line.quantity === 1 ? 0 : 1]} × {formatCurrency(line.unitPrice)}
+          </span>
+          <span>{formatCurrency(line.amount)}</span>
+        </div>
+      ))}
+      {quote.adjustments.map((adjustment) => (
+        <div
+          key={adjustment.adjustmentId}
+          className={`flex justify-between ${adjustment.kind === "discount" ? "text-green-700" : "text-amber-700"}`}
+          data-testid={`quote-adjustment-${adjustment.adjustmentId}`}
+        >
+          <span>
+            {adjustment.name} ({adjustment.kind === "discount" ? "−" : "+"}{adjustment.percentage}% on {adjustment.days} day{adjustment.days === 1 ? "" : "s"})
+          </span>
+          <span>{formatCurrency(adjustment.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-1">
+        <span>Subtotal (excl. VAT)</span>
+        <span>{formatCurrency(quote.subtotal)}</span>
+      </div>
+      <div className="flex justify-between text-slate-500">
+        <span>VAT ({Math.round(quote.vatRate * 100)}%)</span>
+        <span>{formatCurrency(quote.vat)}</span>
+      </div>
+      <div className="flex justify-between font-medium">
+        <span>Total</span>
+        <span data-testid="text-quote-total">{formatCurrency(quote.total)}</span>
+      </div>
+    </div>
+  );
+}
+
 export default function BookingsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [sheetOpen, setSheetOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [formData, setFormData] = useState({
-    campaignId: "", supplierId: "", siteDescription: "", location: "",
-    mediaType: "", cost: "", startDate: "", endDate: "",
+    campaignId: "", inventoryId: "", startDate: "", endDate: "",
   });
+  const [conflicts, setConflicts] = useState<BookingConflict[]>([]);
+  const [budgetWarning, setBudgetWarning] = useState<BudgetWarning | null>(null);
+  const [counterComment, setCounterComment] = useState("");
 
   const { data: bookings, isLoading } = useQuery<Booking[]>({
     queryKey: ["/api/bookings"],
@@ -81,43 +174,125 @@ export default function BookingsPage() {
     queryKey: ["/api/suppliers"],
   });
 
+  const { data: screens } = useQuery<Inventory[]>({
+    queryKey: ["/api/inventory"],
+  });
+
+  /** Supplier compliance per campaign; pending bookings with non-compliant suppliers cannot be approved. */
+  const { data: compliance = [] } = useQuery<SupplierCompliance[]>({
+    queryKey: ["/api/compliance"],
+    enabled: can("documents", "read"),
+  });
+  const complianceMap = new Map(compliance.map((c) => [`${c.supplierId}:${c.campaignId}`, c]));
+  /** The supplier's compliance for a pending booking, when it would block approval. */
+  const blockingCompliance = (booking: Booking) => {
+    const entry = complianceMap.get(`${booking.supplierId}:${booking.campaignId}`);
+    return booking.status === "pending" && entry && !isCompliant(entry) ? entry : undefined;
+  };
+
+  const quoteReady =
+    !!formData.inventoryId && !!formData.startDate && !!formData.endDate && formData.endDate >= formData.startDate;
+
+  /** The pricing engine's quote for the selected screen and dates; the server charges the same amount. */
+  const { data: quote, error: quoteError, isFetching: quoteLoading } = useQuery<Quote>({
+    queryKey: ["/api/inventory", formData.inventoryId, "quote", formData.startDate, formData.endDate],
+    queryFn: () => {
+      const params = new URLSearchParams({ startDate: formData.startDate, endDate: formData.endDate });
+      return api.get<Quote>(`/api/inventory/${formData.inventoryId}/quote?${params}`);
+    },
+    enabled: dialogOpen && quoteReady,
+    staleTime: 0,
+  });
+
+  const { data: negotiations = [] } = useQuery<BookingNegotiation[]>({
+    queryKey: ["/api/bookings", selectedBooking?.id, "negotiations"],
+    enabled: sheetOpen && !!selectedBooking,
+  });
+
+  /** Accepts or rejects the supplier's counter-offer on the booking open in the sheet. */
+  const counterMutation = useMutation({
+    mutationFn: ({ decision, acknowledgeOverspend }: { decision: "accept" | "reject"; acknowledgeOverspend?: boolean }) =>
+      api.post<Booking>(`/api/bookings/${selectedBooking!.id}/counter-offer/${decision}`, {
+        comment: counterComment || undefined,
+        acknowledgeOverspend,
+      }),
+    onSuccess: (booking, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/budgets"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${booking.campaignId}/budget`] });
+      setSelectedBooking(booking);
+      setCounterComment("");
+      toast({ title: decision === "accept" ? "Counter-offer accepted" : "Counter-offer rejected" });
+    },
+    onError: (err: Error, variables) => {
+      if (err instanceof ApiError && err.status === 409 && err.body.canOverride && !variables.acknowledgeOverspend) {
+        if (window.confirm(`${err.message}. Accept the counter-offer anyway?`)) {
+          counterMutation.mutate({ ...variables, acknowledgeOverspend: true });
+        }
+        return;
+      }
+      toast({ title: "Failed to answer counter-offer", description: err.message, variant: "destructive" });
+    },
+  });
+
   const createMutation = useMutation({
-    mutationFn: (data: Partial<InsertBooking>) => api.post<Booking>("/api/bookings", data),
-    onSuccess: () => {
+    mutationFn: (data: Record<string, unknown>) => api.post<Booking>("/api/bookings", data),
+    onSuccess: (booking) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/budgets"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${booking.campaignId}/budget`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
       setDialogOpen(false);
       resetForm();
       toast({ title: "Booking created successfully" });
     },
     onError: (err: Error) => {
+      if (err instanceof ApiError && err.status === 409 && err.body.budget !== undefined) {
+        setBudgetWarning(err.body as unknown as BudgetWarning);
+        return;
+      }
+      if (err instanceof ApiError && err.status === 409) {
+        setConflicts((err.body.conflicts as BookingConflict[]) ?? []);
+        return;
+      }
       toast({ title: "Failed to create booking", description: err.message, variant: "destructive" });
     },
   });
 
   const resetForm = () => {
-    setFormData({
-      campaignId: "", supplierId: "", siteDescription: "", location: "",
-      mediaType: "", cost: "", startDate: "", endDate: "",
-    });
+    setFormData({ campaignId: "", inventoryId: "", startDate: "", endDate: "" });
+    setConflicts([]);
+    setBudgetWarning(null);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  /** Updates a form field and clears any conflicts or budget warning reported for the previous selection. */
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData({ ...formData, [field]: value });
+    setConflicts([]);
+    setBudgetWarning(null);
+  };
+
+  /** Creates the booking; `acknowledgeOverspend` confirms a booking the server warned would exceed the budget. */
+  const submitBooking = (acknowledgeOverspend = false) => {
     createMutation.mutate({
       campaignId: formData.campaignId,
-      supplierId: formData.supplierId,
-      siteDescription: formData.siteDescription,
-      location: formData.location || undefined,
-      mediaType: formData.mediaType || undefined,
-      cost: formData.cost || undefined,
-      startDate: formData.startDate ? new Date(formData.startDate) : undefined,
-      endDate: formData.endDate ? new Date(formData.endDate) : undefined,
+      inventoryId: formData.inventoryId,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      acknowledgeOverspend: acknowledgeOverspend || undefined,
     });
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitBooking();
+  };
+
   /** Opens the detail sheet panel for the selected booking row. */
   const handleRowClick = (booking: Booking) => {
     setSelectedBooking(booking);
+    setCounterComment("");
     setSheetOpen(true);
   };
 
@@ -125,17 +300,12 @@ export default function BookingsPage() {
   const campaignMap = new Map((campaigns ?? []).map((c) => [c.id, c.name]));
   /** Maps supplier IDs to their display names for table rendering. */
   const supplierMap = new Map((suppliers ?? []).map((s) => [s.id, s.name]));
+  /** Screens that can be booked. */
+  const activeScreens = (screens ?? []).filter((s) => s.active);
 
-  /** Filters bookings by search query (site, location, media type) and selected status. */
-  const filteredBookings = (bookings ?? []).filter((b) => {
-    const matchesSearch =
-      !searchQuery ||
-      b.siteDescription.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (b.location ?? "").toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (b.mediaType ?? "").toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === "all" || b.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  /** Filters bookings by search query (site, location, media type) and selected status; the export applies the same filter. */
+  const listFilter = { search: searchQuery, status: statusFilter };
+  const filteredBookings = (bookings ?? []).filter((b) => bookingMatches(b, listFilter));
 
   return (
     <div className="p-6 max-w-7xl mx-auto space-y-6">
@@ -144,10 +314,20 @@ export default function BookingsPage() {
           <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Bookings</h1>
           <p className="text-slate-500 mt-1">Manage site bookings for your campaigns</p>
         </div>
-        <Button onClick={() => setDialogOpen(true)} data-testid="button-new-booking">
-          <Plus className="h-4 w-4 mr-2" />
-          New Booking
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-export-bookings">
+            <a href={`/api/exports/bookings${filterQuery(listFilter)}`}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export to Excel
+            </a>
+          </Button>
+          {can("bookings", "create") && (
+            <Button onClick={() => setDialogOpen(true)} data-testid="button-new-booking">
+              <Plus className="h-4 w-4 mr-2" />
+              New Booking
+            </Button>
+          )}
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -207,7 +387,14 @@ export default function BookingsPage() {
                   >
                     <TableCell className="font-medium">{booking.siteDescription}</TableCell>
                     <TableCell>{campaignMap.get(booking.campaignId) ?? booking.campaignId}</TableCell>
-                    <TableCell>{supplierMap.get(booking.supplierId) ?? booking.supplierId}</TableCell>
+                    <TableCell>
+                      {supplierMap.get(booking.supplierId) ?? booking.supplierId}
+                      {blockingCompliance(booking) && (
+                        <Badge variant="outline" className="ml-2 bg-red-50 text-red-700 border-red-200" data-testid={`badge-compliance-${booking.id}`}>
+                          Compliance {blockingCompliance(booking)!.status}
+                        </Badge>
+                      )}
+                    </TableCell>
                     <TableCell>{booking.mediaType ?? "—"}</TableCell>
                     <TableCell>{formatCurrency(booking.cost)}</TableCell>
                     <TableCell>
@@ -266,6 +453,12 @@ export default function BookingsPage() {
                   {statusLabels[selectedBooking.status] ?? selectedBooking.status}
                 </Badge>
               </div>
+              <div>
+                <p className="text-sm text-slate-500">Supplier Response</p>
+                <Badge variant="outline" className={responseColors[selectedBooking.supplierResponse] ?? ""} data-testid="badge-detail-response">
+                  {responseLabels[selectedBooking.supplierResponse] ?? selectedBooking.supplierResponse}
+                </Badge>
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm text-slate-500">Start Date</p>
@@ -276,6 +469,43 @@ export default function BookingsPage() {
                   <p className="text-sm font-medium">{formatDate(selectedBooking.endDate)}</p>
                 </div>
               </div>
+              <div>
+                <p className="text-sm text-slate-500 mb-2">Negotiation History</p>
+                <NegotiationHistory
+                  negotiations={negotiations}
+                  screenName={(id) => screens?.find((s) => s.id === id)?.screenName ?? id}
+                />
+              </div>
+              {can("bookings", "update") && canNegotiate(selectedBooking, "accept_counter") && (
+                <div className="space-y-2 border-t pt-4">
+                  <p className="text-sm font-medium">Answer the counter-offer</p>
+                  <Textarea
+                    placeholder="Comment (required to reject)"
+                    value={counterComment}
+                    onChange={(e) => setCounterComment(e.target.value)}
+                    data-testid="input-counter-comment"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={counterMutation.isPending}
+                      onClick={() => counterMutation.mutate({ decision: "accept" })}
+                      data-testid="button-accept-counter"
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!counterComment.trim() || counterMutation.isPending}
+                      onClick={() => counterMutation.mutate({ decision: "reject" })}
+                      data-testid="button-reject-counter"
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </SheetContent>
@@ -288,75 +518,33 @@ export default function BookingsPage() {
             <DialogDescription>Add a new site booking for a campaign.</DialogDescription>
           </DialogHeader>
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label>Campaign</Label>
-                <Select value={formData.campaignId} onValueChange={(v) => setFormData({ ...formData, campaignId: v })}>
-                  <SelectTrigger data-testid="select-booking-campaign">
-                    <SelectValue placeholder="Select campaign" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {(campaigns ?? []).map((c) => (
-                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label>Supplier</Label>
-                <Select value={formData.supplierId} onValueChange={(v) => setFormData({ ...formData, supplierId: v })}>
-                  <SelectTrigger data-testid="select-booking-supplier">
-                    <SelectValue placeholder="Select supplier" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {(suppliers ?? []).map((s) => (
-                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
             <div className="space-y-2">
-              <Label htmlFor="booking-site">Site Description</Label>
-              <Input
-                id="booking-site"
-                value={formData.siteDescription}
-                onChange={(e) => setFormData({ ...formData, siteDescription: e.target.value })}
-                required
-                data-testid="input-booking-site"
-              />
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="booking-location">Location</Label>
-                <Input
-                  id="booking-location"
-                  value={formData.location}
-                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                  data-testid="input-booking-location"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="booking-media">Media Type</Label>
-                <Input
-                  id="booking-media"
-                  value={formData.mediaType}
-                  onChange={(e) => setFormData({ ...formData, mediaType: e.target.value })}
-                  placeholder="e.g. Billboard, Digital"
-                  data-testid="input-booking-media-type"
-                />
-              </div>
+              <Label>Campaign</Label>
+              <Select value={formData.campaignId} onValueChange={(v) => updateField("campaignId", v)}>
+                <SelectTrigger data-testid="select-booking-campaign">
+                  <SelectValue placeholder="Select campaign" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(campaigns ?? []).map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="booking-cost">Cost (ZAR)</Label>
-              <Input
-                id="booking-cost"
-                type="number"
-                step="0.01"
-                value={formData.cost}
-                onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
-                data-testid="input-booking-cost"
-              />
+              <Label>Screen</Label>
+              <Select value={formData.inventoryId} onValueChange={(v) => updateField("inventoryId", v)}>
+                <SelectTrigger data-testid="select-booking-screen">
+                  <SelectValue placeholder="Select screen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeScreens.map((screen) => (
+                    <SelectItem key={screen.id} value={screen.id}>
+                      {screen.screenName} — {screen.location} ({supplierMap.get(screen.supplierId) ?? "Unknown supplier"})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -365,7 +553,8 @@ export default function BookingsPage() {
                   id="booking-start"
                   type="date"
                   value={formData.startDate}
-                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  onChange={(e) => updateField("startDate", e.target.value)}
+                  required
                   data-testid="input-booking-start-date"
                 />
               </div>
@@ -375,18 +564,81 @@ export default function BookingsPage() {
                   id="booking-end"
                   type="date"
                   value={formData.endDate}
-                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  onChange={(e) => updateField("endDate", e.target.value)}
+                  required
                   data-testid="input-booking-end-date"
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-cost">Cost (ZAR, excl. VAT)</Label>
+              <Input
+                id="booking-cost"
+                value={quoteReady && quote ? quote.subtotal.toFixed(2) : ""}
+                placeholder={quoteLoading ? "Calculating..." : "Calculated from the screen's rate card"}
+                readOnly
+                className="bg-slate-50"
+                data-testid="input-booking-cost"
+              />
+            </div>
+            {quoteReady && quote && <QuoteBreakdown quote={quote} />}
+            {quoteReady && quoteError && (
+              <p className="text-sm text-red-600" data-testid="text-quote-error">
+                Could not calculate a quote: {quoteError.message}
+              </p>
+            )}
+            {conflicts.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700" data-testid="booking-conflicts">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  This screen is already booked for overlapping dates:
+                </p>
+                <ul className="mt-2 space-y-1 pl-6 list-disc">
+                  {conflicts.map((c) => (
+                    <li key={c.id} data-testid={`booking-conflict-${c.id}`}>
+                      {campaignMap.get(c.campaignId) ?? c.campaignId}: {formatDate(c.startDate)} – {formatDate(c.endDate)} ({statusLabels[c.status] ?? c.status})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {budgetWarning && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800" data-testid="booking-budget-warning">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  {budgetWarning.message}
+                </p>
+                <p className="mt-1">
+                  Booked spend would be {formatCurrency(budgetWarning.projected)} against a budget of {formatCurrency(budgetWarning.budget)}
+                  {" "}({formatCurrency(budgetWarning.projected - budgetWarning.budget)} over).
+                </p>
+                {budgetWarning.canOverride ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="mt-2"
+                    disabled={createMutation.isPending}
+                    onClick={() => submitBooking(true)}
+                    data-testid="button-confirm-overspend"
+                  >
+                    Book anyway
+                  </Button>
+                ) : (
+                  <p className="mt-1">Reduce the booking or increase the campaign budget before booking.</p>
+                )}
+              </div>
+            )}
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-booking">
                 Cancel
               </Button>
               <Button
                 type="submit"
-                disabled={createMutation.isPending || !formData.campaignId || !formData.supplierId || !formData.siteDescription}
+                disabled={
+                  createMutation.isPending || !formData.campaignId || !formData.inventoryId
+                  || !formData.startDate || !formData.endDate
+                }
                 data-testid="button-submit-booking"
               >
                 {createMutation.isPending ? "Creating..." : "Create Booking"}
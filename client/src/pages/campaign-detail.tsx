@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Campaign detail page. Shows a campaign's details, its budget
+ * position (committed, pending, invoiced, paid and remaining spend in ZAR)
+ * with a burn-down chart of the remaining budget against a straight-line
+ * burn, and the campaign's bookings. Budget figures and the post-flight
+ * report PDF are only offered to roles allowed to read budgets; an
+ * overcommitted campaign is flagged so finance can act before suppliers
+ * start flighting.
+ */
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import type { Booking, Campaign } from "@shared/schema";
+import type { CampaignBudgetDetail } from "@shared/budget";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import { ArrowLeft, AlertTriangle, FileDown } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from "recharts";
+
+/** Tailwind CSS classes for each campaign status badge. */
+const statusColors: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-200",
+  pending_approval: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  in_progress: "bg-blue-50 text-blue-700 border-blue-200",
+  completed: "bg-green-50 text-green-700 border-green-200",
+  cancelled: "bg-red-50 text-red-700 border-red-200",
+};
+
+/** Formats a value as South African Rand (ZAR) currency. */
+const formatCurrency = (value: string | number | null) => {
+  if (value == null) return "—";
+  return new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(value));
+};
+
+/** Formats a date value using the en-ZA locale, returning a dash for null values. */
+const formatDate = (date: string | Date | null) => {
+  if (!date) return "—";
+  return new Date(date).toLocaleDateString("en-ZA");
+};
+
+export default function CampaignDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useAuth();
+  const canReadBudget = can("budgets", "read");
+
+  const { data: campaign, isLoading } = useQuery<Campaign>({
+    queryKey: [`/api/campaigns/${id}`],
+  });
+
+  const { data: budget } = useQuery<CampaignBudgetDetail>({
+    queryKey: [`/api/campaigns/${id}/budget`],
+    enabled: canReadBudget,
+  });
+
+  const { data: bookings = [] } = useQuery<Booking[]>({
+    queryKey: [`/api/bookings?campaignId=${id}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <p className="text-slate-500" data-testid="text-campaign-not-found">Campaign not found.</p>
+      </div>
+    );
+  }
+
+  const budgetCards = budget
+    ? [
+        { id: "budget", title: "Budget", value: budget.budget },
+        { id: "committed", title: "Committed", value: budget.committed },
+        { id: "pending", title: "Pending Approval", value: budget.pending },
+        { id: "invoiced", title: "Invoiced", value: budget.invoiced },
+        { id: "paid", title: "Paid", value: budget.paid },
+        { id: "remaining", title: "Remaining", value: budget.remaining },
+      ]
+    : [];
+
+  const chartData = (budget?.burndown ?? []).map((point) => ({
+    date: formatDate(point.date),
+    remaining: point.remaining,
+    ideal: point.ideal,
+  }));
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <Link href="/campaigns" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700" data-testid="link-back-campaigns">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Campaigns
+        </Link>
+        <div className="flex items-center gap-3 mt-2">
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-campaign-name">{campaign.name}</h1>
+          <Badge variant="outline" className={statusColors[campaign.status] ?? ""}>
+            {campaign.status.replace(/_/g, " ")}
+          </Badge>
+          {canReadBudget && (
+            <Button variant="outline" size="sm" className="ml-auto" asChild data-testid="button-download-report">
+              <a href={`/api/campaigns/${campaign.id}/report/pdf`}>
+                <FileDown className="h-4 w-4 mr-1" /> Post-flight report
+              </a>
+            </Button>
+          )}
+        </div>
+        <p className="text-slate-500 mt-1">
+          {campaign.region ?? "All regions"} · {formatDate(campaign.startDate)} – {formatDate(campaign.endDate)}
+        </p>
+        {campaign.description && <p className="text-sm text-slate-600 mt-2">{campaign.description}</p>}
+      </div>
+
+      {budget?.overcommitted && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 flex items-center gap-2" data-testid="alert-overcommitted">
+          <AlertTriangle className="h-4 w-4" />
+          Committed and pending bookings ({formatCurrency(budget.committed + budget.pending)}) exceed the budget of {formatCurrency(budget.budget)}.
+        </div>
+      )}
+
+      {budget && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {budgetCards.map((card) => (
+            <Card key={card.id} data-testid={`card-budget-${card.id}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-500">{card.title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p
+                  className={`text-lg font-bold ${card.id === "remaining" && (card.value ?? 0) < 0 ? "text-red-600" : "text-slate-900"}`}
+                  data-testid={`text-budget-${card.id}`}
+                >
+                  {formatCurrency(card.value)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {budget && budget.budget != null && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Budget Burn-down</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chartData.length === 0 ? (
+              <p className="text-sm text-slate-500">Set campaign dates or book screens to see the burn-down.</p>
+            ) : (
+              <div className="h-72" data-testid="chart-burndown">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12 }} stroke="#94a3b8" />
+                    <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(v) => `R${(Number(v) / 1000).toFixed(0)}k`} />
+                    <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                    <Legend />
+                    <ReferenceLine y={0} stroke="#dc2626" />
+                    <Line type="stepAfter" dataKey="remaining" name="Remaining budget" stroke="#334155" strokeWidth={2} />
+                    <Line type="linear" dataKey="ideal" name="Planned burn" stroke="#94a3b8" strokeDasharray="5 5" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Bookings</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {bookings.length === 0 ? (
+            <div className="p-6 text-center text-slate-500" data-testid="text-no-campaign-bookings">No bookings for this campaign.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bookings.map((booking) => (
+                  <TableRow key={booking.id} data-testid={`row-campaign-booking-${booking.id}`}>
+                    <TableCell className="font-medium">{booking.siteDescription}</TableCell>
+                    <TableCell>{formatDate(booking.startDate)} – {formatDate(booking.endDate)}</TableCell>
+                    <TableCell className="capitalize">{booking.status.replace(/_/g, " ")}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(booking.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,16 +1,32 @@
 /**
  * @fileoverview Campaigns management page. Displays all OOH advertising
  * campaigns in a data table with status badges, budget (ZAR), region, and date
- * range. Supports creating new campaigns via a dialog form with fields for
+ * range; the budget and approval level are hidden from roles that may not
+ * read budgets. Supports creating new campaigns via a dialog form with fields for
  * name, description, budget, SA province, dates, and target reach.
+ * Each row offers the approval workflow actions the current user may take
+ * (submit, approve, reject, start, complete, cancel) and the campaign's
+ * approval history. Rejecting or cancelling asks for a reason. Roles that may
+ * read budgets see each campaign's committed spend against its budget, with
+ * overcommitted campaigns flagged; the campaign name opens its detail page.
  */
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import type { Campaign, InsertCampaign } from "@shared/schema";
+import type { Campaign, CampaignApproval, InsertCampaign } from "@shared/schema";
+import type { CampaignBudget } from "@shared/budget";
+import {
+  canTransition,
+  pendingApprovalLevel,
+  requiredApprovalLevels,
+  transitionsRequiringReason,
+  type ApprovalLevel,
+  type CampaignTransition,
+} from "@shared/campaign-workflow";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,7 +42,7 @@ import {
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
-import { Plus } from "lucide-react";
+import { Plus, History, FileSpreadsheet } from "lucide-react";
 
 /** The nine South African provinces used as region options for campaigns. */
 const SA_PROVINCES = [
@@ -54,6 +70,26 @@ const statusLabels: Record<string, string> = {
   cancelled: "Cancelled",
 };
 
+/** Button labels for each workflow transition, in display order. */
+const transitionLabels: Record<CampaignTransition, string> = {
+  submit: "Submit",
+  approve: "Approve",
+  reject: "Reject",
+  start: "Start",
+  complete: "Complete",
+  cancel: "Cancel",
+};
+
+/** Human-readable role names used to describe approval levels. */
+const roleLabels: Record<string, string> = {
+  department_admin: "Department Admin",
+  campaign_planner: "Campaign Planner",
+  finance_officer: "Finance Officer",
+};
+
+/** An approval history entry as returned by GET /api/campaigns/:id/approvals. */
+type ApprovalHistoryEntry = CampaignApproval & { actorName: string | null };
+
 /** Formats a value as South African Rand (ZAR) currency, returning a dash for null/zero values. */
 const formatCurrency = (value: string | number | null) => {
   if (!value) return "—";
@@ -67,7 +103,7 @@ const formatDate = (date: string | Date | null) => {
 };
 
 export default function CampaignsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
@@ -78,6 +114,62 @@ export default function CampaignsPage() {
     queryKey: ["/api/campaigns"],
   });
 
+  const { data: approvalLevels = [] } = useQuery<ApprovalLevel[]>({
+    queryKey: ["/api/campaigns/approval-levels"],
+  });
+
+  const canReadBudgets = can("budgets", "read");
+  const { data: budgets = [] } = useQuery<CampaignBudget[]>({
+    queryKey: ["/api/campaigns/budgets"],
+    enabled: canReadBudgets,
+  });
+  const budgetMap = new Map(budgets.map((b) => [b.campaignId, b]));
+
+  const [reasonAction, setReasonAction] = useState<{ campaign: Campaign; transition: CampaignTransition } | null>(null);
+  const [reason, setReason] = useState("");
+  const [historyCampaign, setHistoryCampaign] = useState<Campaign | null>(null);
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<ApprovalHistoryEntry[]>({
+    queryKey: [`/api/campaigns/${historyCampaign?.id}/approvals`],
+    enabled: !!historyCampaign,
+  });
+
+  /** Applies a workflow transition and refreshes the campaign list. */
+  const transitionMutation = useMutation({
+    mutationFn: ({ campaign, transition, comment }: { campaign: Campaign; transition: CampaignTransition; comment?: string }) =>
+      api.post<Campaign>(`/api/campaigns/${campaign.id}/${transition}`, { comment }),
+    onSuccess: (updated, { transition }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${updated.id}/approvals`] });
+      setReasonAction(null);
+      setReason("");
+      toast({
+        title: `Campaign ${statusLabels[updated.status]?.toLowerCase() ?? updated.status}`,
+        description: transition === "approve" && updated.status === "pending_approval"
+          ? "Awaiting the next approval level."
+          : undefined,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Action failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  /** Lists the transitions the current user may apply to a campaign. */
+  const availableTransitions = (campaign: Campaign) =>
+    (Object.keys(transitionLabels) as CampaignTransition[]).filter(
+      (t) => canTransition(campaign, t, user?.role, approvalLevels) && !(t === "approve" && campaign.submittedBy === user?.id),
+    );
+
+  const handleTransition = (campaign: Campaign, transition: CampaignTransition) => {
+    if (transitionsRequiringReason.includes(transition)) {
+      setReason("");
+      setReasonAction({ campaign, transition });
+    } else {
+      transitionMutation.mutate({ campaign, transition });
+    }
+  };
+
   /** Sends a POST request to create a new campaign and refreshes the campaign list on success. */
   const createMutation = useMutation({
     mutationFn: (data: Partial<InsertCampaign>) => api.post<Campaign>("/api/campaigns", data),
@@ -117,10 +209,20 @@ export default function CampaignsPage() {
           <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Campaigns</h1>
           <p className="text-slate-500 mt-1">Manage your out-of-home advertising campaigns</p>
         </div>
-        <Button onClick={() => setDialogOpen(true)} data-testid="button-new-campaign">
-          <Plus className="h-4 w-4 mr-2" />
-          New Campaign
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-export-campaigns">
+            <a href="/api/exports/campaigns">
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export to Excel
+            </a>
+          </Button>
+          {can("campaigns", "create") && (
+            <Button onClick={() => setDialogOpen(true)} data-testid="button-new-campaign">
+              <Plus className="h-4 w-4 mr-2" />
+              New Campaign
+            </Button>
+          )}
+        </div>
       </div>
 
       <Card>
@@ -137,16 +239,22 @@ export default function CampaignsPage() {
                 <TableRow>
                   <TableHead>Name</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Budget</TableHead>
+                  {canReadBudgets && <TableHead>Budget</TableHead>}
+                  {canReadBudgets && <TableHead>Committed</TableHead>}
                   <TableHead>Region</TableHead>
                   <TableHead>Start Date</TableHead>
                   <TableHead>End Date</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {campaigns.map((campaign) => (
                   <TableRow key={campaign.id} data-testid={`row-campaign-${campaign.id}`}>
-                    <TableCell className="font-medium">{campaign.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/campaigns/${campaign.id}`} className="hover:underline" data-testid={`link-campaign-${campaign.id}`}>
+                        {campaign.name}
+                      </Link>
+                    </TableCell>
                     <TableCell>
                       <Badge
                         variant="outline"
@@ -155,11 +263,55 @@ export default function CampaignsPage() {
                       >
                         {statusLabels[campaign.status] ?? campaign.status}
                       </Badge>
+                      {canReadBudgets && campaign.status === "pending_approval" && (() => {
+                        const level = pendingApprovalLevel(campaign, approvalLevels);
+                        const total = requiredApprovalLevels(campaign, approvalLevels).length;
+                        return level ? (
+                          <div className="text-xs text-slate-500 mt-1" data-testid={`text-approval-level-${campaign.id}`}>
+                            Level {level.level} of {total}: {roleLabels[level.role] ?? level.role}
+                          </div>
+                        ) : null;
+                      })()}
                     </TableCell>
-                    <TableCell>{formatCurrency(campaign.budget)}</TableCell>
+                    {canReadBudgets && <TableCell>{formatCurrency(campaign.budget)}</TableCell>}
+                    {canReadBudgets && (
+                      <TableCell data-testid={`text-committed-${campaign.id}`}>
+                        {formatCurrency(budgetMap.get(campaign.id)?.committed ?? null)}
+                        {budgetMap.get(campaign.id)?.overcommitted && (
+                          <Badge variant="outline" className="ml-2 bg-red-50 text-red-700 border-red-200" data-testid={`badge-overcommitted-${campaign.id}`}>
+                            Over budget
+                          </Badge>
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell>{campaign.region ?? "—"}</TableCell>
                     <TableCell>{formatDate(campaign.startDate)}</TableCell>
                     <TableCell>{formatDate(campaign.endDate)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {availableTransitions(campaign).map((t) => (
+                          <Button
+                            key={t}
+                            size="sm"
+                            variant={t === "approve" ? "default" : t === "reject" || t === "cancel" ? "destructive" : "outline"}
+                            disabled={transitionMutation.isPending}
+                            onClick={() => handleTransition(campaign, t)}
+                            data-testid={`button-${t}-${campaign.id}`}
+                          >
+                            {transitionLabels[t]}
+                          </Button>
+                        ))}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setHistoryCampaign(campaign)}
+                          title="Approval history"
+                          data-testid={`button-history-${campaign.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -264,6 +416,88 @@ export default function CampaignsPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!reasonAction} onOpenChange={(open) => !open && setReasonAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reasonAction?.transition === "reject" ? "Reject Campaign" : "Cancel Campaign"}
+            </DialogTitle>
+            <DialogDescription>
+              {reasonAction?.transition === "reject"
+                ? `"${reasonAction?.campaign.name}" will return to draft so the planner can revise and resubmit it.`
+                : `"${reasonAction?.campaign.name}" will be cancelled. This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transition-reason">Reason</Label>
+            <Textarea
+              id="transition-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              data-testid="input-transition-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReasonAction(null)} data-testid="button-cancel-transition">
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || transitionMutation.isPending}
+              onClick={() => reasonAction && transitionMutation.mutate({ ...reasonAction, comment: reason.trim() })}
+              data-testid="button-confirm-transition"
+            >
+              {reasonAction ? transitionLabels[reasonAction.transition] : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyCampaign} onOpenChange={(open) => !open && setHistoryCampaign(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Approval History</DialogTitle>
+            <DialogDescription>{historyCampaign?.name}</DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <div className="p-4 text-center text-slate-500">Loading history...</div>
+          ) : history.length === 0 ? (
+            <div className="p-4 text-center text-slate-500" data-testid="text-empty-history">
+              No workflow actions recorded yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Comment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((entry) => (
+                  <TableRow key={entry.id} data-testid={`row-approval-${entry.id}`}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                    <TableCell>
+                      {transitionLabels[entry.transition]}
+                      {entry.level != null && <span className="text-xs text-slate-500"> (level {entry.level})</span>}
+                    </TableCell>
+                    <TableCell>{entry.actorName ?? "—"}</TableCell>
+                    <TableCell className="text-xs">
+                      {statusLabels[entry.fromStatus]} → {statusLabels[entry.toStatus]}
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-600">{entry.comment ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
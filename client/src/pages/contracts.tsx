@@ -0,0 +1,584 @@
+/**
+ * @fileoverview Supplier contracts. Lists every framework contract (suppliers
+ * see only their own) with how much of its ceiling value approved bookings
+ * have consumed, flagging contracts past a warning threshold. Department
+ * admins and finance officers record new contracts, activate or terminate
+ * them, and keep each contract's negotiated rate card at /contracts/:id,
+ * which also lists the bookings made under the contract.
+ */
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, ContractRate, Inventory, Supplier, SupplierContract } from "@shared/schema";
+import { supplierRoles } from "@shared/permissions";
+import { contractTransitions, type ContractConsumption, type ContractStatus } from "@shared/contracts";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, ArrowLeft, Loader2, Plus, Pencil } from "lucide-react";
+
+const statusColors: Record<ContractStatus, string> = {
+  draft: "bg-slate-100 text-slate-700 border-slate-200",
+  active: "bg-green-50 text-green-700 border-green-200",
+  terminated: "bg-red-50 text-red-700 border-red-200",
+};
+
+const transitionLabels: Record<ContractStatus, string> = {
+  draft: "Return to draft",
+  active: "Activate",
+  terminated: "Terminate",
+};
+
+type ContractWithConsumption = SupplierContract & { consumption: ContractConsumption };
+
+/** Response of GET /api/contracts/:id. */
+interface ContractDetail extends ContractWithConsumption {
+  rates: ContractRate[];
+  screens: Inventory[];
+  bookings: Booking[];
+}
+
+/** The contract fields, as strings for the form inputs. */
+type ContractForm = {
+  supplierId: string;
+  contractNumber: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  ceilingValue: string;
+  terms: string;
+};
+
+/** A screen's negotiated rates being edited; an empty daily rate leaves the screen on its list rates. */
+type RateForm = Record<string, { dailyRate: string; weeklyRate: string; monthlyRate: string }>;
+
+const emptyForm: ContractForm = {
+  supplierId: "",
+  contractNumber: "",
+  title: "",
+  startDate: "",
+  endDate: "",
+  ceilingValue: "",
+  terms: "",
+};
+
+const toDateInput = (date: string | Date | null) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString("en-ZA") : "—");
+
+const formatCurrency = (value: string | number | null) => {
+  if (value == null || value === "") return "—";
+  return new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(value));
+};
+
+const formFrom = (contract: SupplierContract): ContractForm => ({
+  supplierId: contract.supplierId,
+  contractNumber: contract.contractNumber,
+  title: contract.title,
+  startDate: toDateInput(contract.startDate),
+  endDate: toDateInput(contract.endDate),
+  ceilingValue: contract.ceilingValue,
+  terms: contract.terms ?? "",
+});
+
+/** Consumed share of the ceiling as a bar, amber once a warning threshold is reached. */
+function ConsumptionBar({ consumption }: { consumption: ContractConsumption }) {
+  const warned = consumption.warningThreshold !== null;
+  return (
+    <div className="space-y-1 min-w-[10rem]">
+      <Progress
+        value={Math.min(100, consumption.percentConsumed)}
+        className={warned ? "bg-amber-100 [&>div]:bg-amber-500" : undefined}
+      />
+      <div className={`text-xs ${warned ? "text-amber-700" : "text-slate-500"}`}>
+        {consumption.percentConsumed}% of {formatCurrency(consumption.ceiling)}
+      </div>
+    </div>
+  );
+}
+
+export default function ContractsPage() {
+  const { id } = useParams<{ id?: string }>();
+  return id ? <ContractDetailView contractId={id} /> : <ContractList />;
+}
+
+/** Every contract the user may see, with consumption. */
+function ContractList() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ContractForm>(emptyForm);
+
+  const { data: contracts = [], isLoading } = useQuery<ContractWithConsumption[]>({
+    queryKey: ["/api/contracts"],
+  });
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+  const supplierName = (supplierId: string) => suppliers.find((s) => s.id === supplierId)?.name ?? "—";
+
+  const createMutation = useMutation({
+    mutationFn: (data: ContractForm) =>
+      api.post<SupplierContract>("/api/contracts", { ...data, terms: data.terms || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      setDialogOpen(false);
+      setForm(emptyForm);
+      toast({ title: "Contract recorded" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const set = (field: keyof ContractForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Supplier Contracts</h1>
+          <p className="text-slate-500 mt-1">Framework contracts, negotiated rates and how much of each ceiling is committed</p>
+        </div>
+        {can("contracts", "create") && (
+          <Button onClick={() => setDialogOpen(true)} data-testid="button-new-contract">
+            <Plus className="h-4 w-4 mr-1" /> New Contract
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : contracts.length === 0 ? (
+            <p className="text-center py-8 text-slate-500" data-testid="text-empty-contracts">No contracts have been recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Consumed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contracts.map((c) => (
+                  <TableRow key={c.id} data-testid={`row-contract-${c.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{c.contractNumber}</div>
+                      <div className="text-xs text-slate-500">{c.title}</div>
+                    </TableCell>
+                    <TableCell>{supplierName(c.supplierId)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(c.startDate)} – {formatDate(c.endDate)}</TableCell>
+                    <TableCell><ConsumptionBar consumption={c.consumption} /></TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline" className={statusColors[c.status]}>{c.status}</Badge>
+                        {c.consumption.warningThreshold !== null && (
+                          <AlertTriangle className="h-4 w-4 text-amber-500" data-testid={`icon-contract-warning-${c.id}`} />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild data-testid={`button-open-contract-${c.id}`}>
+                        <Link href={`/contracts/${c.id}`}>Open</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Contract</DialogTitle>
+            <DialogDescription>Contracts start in draft; activate one to book against it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={form.supplierId} onValueChange={(supplierId) => setForm({ ...form, supplierId })}>
+                <SelectTrigger data-testid="select-contract-supplier"><SelectValue placeholder="Select a supplier" /></SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ContractFields form={form} set={set} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={createMutation.isPending || !form.supplierId}
+              data-testid="button-save-contract"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/** The contract number, title, period, ceiling and terms inputs shared by the create and edit dialogs. */
+function ContractFields({
+  form,
+  set,
+}: {
+  form: ContractForm;
+  set: (field: keyof ContractForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+}) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Contract Number</Label>
+          <Input value={form.contractNumber} onChange={set("contractNumber")} data-testid="input-contract-number" />
+        </div>
+        <div className="space-y-2">
+          <Label>Ceiling Value (ZAR, excl. VAT)</Label>
+          <Input type="number" step="0.01" value={form.ceilingValue} onChange={set("ceilingValue")} data-testid="input-contract-ceiling" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Title</Label>
+        <Input value={form.title} onChange={set("title")} data-testid="input-contract-title" />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Start Date</Label>
+          <Input type="date" value={form.startDate} onChange={set("startDate")} data-testid="input-contract-start" />
+        </div>
+        <div className="space-y-2">
+          <Label>End Date</Label>
+          <Input type="date" value={form.endDate} onChange={set("endDate")} data-testid="input-contract-end" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Terms</Label>
+        <Textarea value={form.terms} onChange={set("terms")} rows={3} data-testid="input-contract-terms" />
+      </div>
+    </>
+  );
+}
+
+/** One contract: consumption, terms, rate card and bookings. */
+function ContractDetailView({ contractId }: { contractId: string }) {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const canUpdate = can("contracts", "update");
+  const [editOpen, setEditOpen] = useState(false);
+  const [form, setForm] = useState<ContractForm>(emptyForm);
+  const [rates, setRates] = useState<RateForm>({});
+
+  const queryKey = ["/api/contracts", contractId];
+  const { data: contract, isLoading, error } = useQuery<ContractDetail>({ queryKey });
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  useEffect(() => {
+    if (!contract) return;
+    setRates(Object.fromEntries(contract.rates.map((r) => [r.inventoryId, {
+      dailyRate: r.dailyRate,
+      weeklyRate: r.weeklyRate ?? "",
+      monthlyRate: r.monthlyRate ?? "",
+    }])));
+  }, [contract]);
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/contracts"], exact: true });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Partial<Omit<ContractForm, "terms">> & { terms?: string | null; status?: ContractStatus }) =>
+      api.patch<SupplierContract>(`/api/contracts/${contractId}`, data),
+    onSuccess: () => {
+      refresh();
+      setEditOpen(false);
+      toast({ title: "Contract updated" });
+    },
+    onError,
+  });
+
+  const ratesMutation = useMutation({
+    mutationFn: (card: RateForm) =>
+      api.put<ContractRate[]>(`/api/contracts/${contractId}/rates`, {
+        rates: Object.entries(card)
+          .filter(([, r]) => r.dailyRate !== "")
+          .map(([inventoryId, r]) => ({
+            inventoryId,
+            dailyRate: r.dailyRate,
+            weeklyRate: r.weeklyRate || null,
+            monthlyRate: r.monthlyRate || null,
+          })),
+      }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Rate card saved" });
+    },
+    onError,
+  });
+
+  if (isLoading || !contract) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        {error ? (
+          <p className="text-slate-500" data-testid="text-contract-error">{error.message}</p>
+        ) : (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { consumption } = contract;
+  const editable = canUpdate && contract.status !== "terminated";
+  const isSupplier = !!user && supplierRoles.includes(user.role);
+  const openEdit = () => {
+    setForm(formFrom(contract));
+    setEditOpen(true);
+  };
+  const setField = (field: keyof ContractForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+  const setRate = (inventoryId: string, field: keyof RateForm[string]) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setRates({
+      ...rates,
+      [inventoryId]: { ...(rates[inventoryId] ?? { dailyRate: "", weeklyRate: "", monthlyRate: "" }), [field]: e.target.value },
+    });
+  const { supplierId: _supplier, ...details } = form;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <Link href="/contracts" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700" data-testid="link-back-contracts">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Supplier Contracts
+        </Link>
+        <div className="flex items-center gap-3 mt-2">
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">{contract.contractNumber}</h1>
+          <Badge variant="outline" className={statusColors[contract.status]} data-testid="badge-contract-status">
+            {contract.status}
+          </Badge>
+          {editable && (
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" size="sm" onClick={openEdit} data-testid="button-edit-contract">
+                <Pencil className="h-4 w-4 mr-1" /> Edit
+              </Button>
+              {contractTransitions[contract.status].map((status) => (
+                <Button
+                  key={status}
+                  variant={status === "terminated" ? "outline" : "default"}
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ status })}
+                  disabled={updateMutation.isPending}
+                  data-testid={`button-contract-${status}`}
+                >
+                  {transitionLabels[status]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        <p className="text-slate-500 mt-1">
+          {contract.title} · {suppliers.find((s) => s.id === contract.supplierId)?.name ?? "—"} ·{" "}
+          {formatDate(contract.startDate)} – {formatDate(contract.endDate)}
+        </p>
+      </div>
+
+      {consumption.warningThreshold !== null && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700 flex items-center gap-2" data-testid="alert-contract-warning">
+          <AlertTriangle className="h-4 w-4" />
+          {consumption.percentConsumed}% of this contract's ceiling is committed, past the {consumption.warningThreshold}% warning level.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          { id: "ceiling", title: "Ceiling Value", value: consumption.ceiling },
+          { id: "consumed", title: "Consumed", value: consumption.consumed },
+          { id: "remaining", title: "Remaining", value: consumption.remaining },
+        ].map((card) => (
+          <Card key={card.id}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-slate-500">{card.title}</p>
+              <p className="text-lg font-bold text-slate-900" data-testid={`text-contract-${card.id}`}>{formatCurrency(card.value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {contract.terms && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Terms</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-slate-700 whitespace-pre-wrap" data-testid="text-contract-terms">{contract.terms}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Rate Card</CardTitle>
+          <CardDescription>
+            Negotiated rates replace a screen's list rates for bookings under this contract; supplier discounts and
+            surcharges do not apply to them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Screen</TableHead>
+                <TableHead>List Rates (day / week / month)</TableHead>
+                <TableHead>Daily</TableHead>
+                <TableHead>Weekly</TableHead>
+                <TableHead>Monthly</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contract.screens.map((screen) => {
+                const rate = rates[screen.id];
+                return (
+                  <TableRow key={screen.id} data-testid={`row-contract-rate-${screen.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{screen.screenName}</div>
+                      <div className="text-xs text-slate-500">{screen.location}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-500">
+                      {formatCurrency(screen.dailyRate)} / {formatCurrency(screen.weeklyRate)} / {formatCurrency(screen.monthlyRate)}
+                    </TableCell>
+                    {(["dailyRate", "weeklyRate", "monthlyRate"] as const).map((field) => (
+                      <TableCell key={field}>
+                        {editable ? (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            className="w-32"
+                            value={rate?.[field] ?? ""}
+                            onChange={setRate(screen.id, field)}
+                            placeholder="List rate"
+                            data-testid={`input-rate-${field}-${screen.id}`}
+                          />
+                        ) : (
+                          formatCurrency(rate?.[field] ?? null)
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {editable && (
+            <div className="flex justify-end">
+              <Button onClick={() => ratesMutation.mutate(rates)} disabled={ratesMutation.isPending} data-testid="button-save-rates">
+                {ratesMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save Rate Card
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Bookings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {contract.bookings.length === 0 ? (
+            <p className="text-sm text-slate-500" data-testid="text-empty-contract-bookings">No bookings have been made under this contract.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Cost (excl. VAT)</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contract.bookings.map((b) => (
+                  <TableRow key={b.id} data-testid={`row-contract-booking-${b.id}`}>
+                    <TableCell>
+                      {isSupplier ? b.siteDescription : <Link href="/bookings" className="hover:underline">{b.siteDescription}</Link>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(b.startDate)} – {formatDate(b.endDate)}</TableCell>
+                    <TableCell>{formatCurrency(b.cost)}</TableCell>
+                    <TableCell className="capitalize">{b.status.replace(/_/g, " ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Contract</DialogTitle>
+            <DialogDescription>The period cannot exclude existing bookings, nor the ceiling fall below the value consumed.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <ContractFields form={form} set={setField} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => updateMutation.mutate({ ...details, terms: details.terms || null })}
+              disabled={updateMutation.isPending}
+              data-testid="button-update-contract"
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
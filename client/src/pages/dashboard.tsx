@@ -1,7 +1,7 @@
 /**
  * @fileoverview Dashboard page displaying an overview of campaign and booking
  * statistics. Shows six stat cards (total campaigns, active campaigns, total
- * bookings, pending bookings, completed bookings, total spend in ZAR), a
+ * bookings, pending bookings, completed bookings, committed spend in ZAR), a
  * campaign status distribution bar chart, and a recent activity feed.
  */
 import { useQuery } from "@tanstack/react-query";
@@ -50,7 +50,7 @@ export default function DashboardPage() {
     { title: "Total Bookings", value: stats?.totalBookings ?? 0, icon: BarChart3, id: "total-bookings" },
     { title: "Pending Bookings", value: stats?.pendingBookings ?? 0, icon: Clock, id: "pending-bookings" },
     { title: "Completed Bookings", value: stats?.completedBookings ?? 0, icon: CheckCircle, id: "completed-bookings" },
-    { title: "Total Spend", value: formatCurrency(stats?.totalSpend ?? 0), icon: DollarSign, id: "total-spend", isCurrency: true },
+    { title: "Committed Spend", value: formatCurrency(Number(stats?.totalSpend ?? 0)), icon: DollarSign, id: "total-spend", isCurrency: true },
   ];
 
   return (
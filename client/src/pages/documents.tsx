@@ -1,7 +1,17 @@
 /**
  * Document Management page for uploading and tracking campaign artwork, proof-of-flighting
- * photos (with GPS geotag data), and compliance documents (SBD/CSO). Organised into three
+ * photos, and compliance documents (SBD/CSO). Organised into three
  * tabs. Each tab has an upload form and a table listing existing documents with status badges.
+ * Files are uploaded to the server as multipart form data and can be downloaded again from
+ * each table; the server records the uploader and a SHA-256 hash of the contents.
+ * Proof photos are uploaded against a booking: the server reads their GPS position and
+ * capture time from EXIF and rejects photos taken away from the screen or outside the booking.
+ * Artwork uploaded against a booking is validated against the booked screen's specifications;
+ * its validation report can be opened from the artwork table. Planners and admins approve or
+ * reject documents with a comment from the review queue; a rejected document is corrected by
+ * uploading a new version, and each document's versions and review decisions can be viewed.
+ * Compliance documents belong to a supplier and carry issue and expiry dates; the Compliance
+ * tab shows a matrix of each booked supplier's SBD/CSO status per campaign.
  */
 import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -9,7 +19,7 @@ import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import type { Document, Campaign } from "@shared/schema";
+import { MAX_DOCUMENT_BYTES, type Document, type DocumentReview, type Campaign, type Booking, type Supplier } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,23 +32,67 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, FileText, MapPin, Shield, Download, Loader2 } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type { ArtworkCheck } from "@shared/artwork";
+import {
+  AWAITING_REVIEW_STATUSES, canResubmit, documentReviewTransitions, isAwaitingReview, type DocumentReviewDecision,
+} from "@shared/document-review";
+import {
+  isComplianceType, type ComplianceStatus, type SupplierCompliance,
+} from "@shared/compliance";
+import {
+  Upload, FileText, MapPin, Shield, Download, Loader2, ClipboardCheck, ListChecks, History, RefreshCw, Check, X,
+} from "lucide-react";
 
-/** Maximum allowed upload file size in bytes (5 MB). */
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
+/** Maximum allowed upload file size in bytes (5 MB), as enforced by the server. */
+const MAX_FILE_SIZE = MAX_DOCUMENT_BYTES;
 
 const statusColors: Record<string, string> = {
   uploaded: "bg-gray-100 text-gray-700 border-gray-200",
-  validated: "bg-green-50 text-green-700 border-green-200",
+  validated: "bg-blue-50 text-blue-700 border-blue-200",
   rejected: "bg-red-50 text-red-700 border-red-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  superseded: "bg-gray-50 text-gray-500 border-gray-200",
 };
 
 const statusLabels: Record<string, string> = {
   uploaded: "Uploaded",
   validated: "Validated",
   rejected: "Rejected",
+  approved: "Approved",
+  superseded: "Superseded",
 };
 
+/** Compliance upload campaign choice for a document covering all of the supplier's campaigns. */
+const ALL_CAMPAIGNS = "all";
+
+const typeLabels: Record<string, string> = {
+  artwork: "Artwork",
+  proof_of_flighting: "Proof of Flighting",
+  compliance_sbd: "SBD",
+  compliance_cso: "CSO",
+  bbbee_certificate: "B-BBEE Certificate",
+  tax_clearance: "Tax Clearance",
+  bank_confirmation: "Bank Confirmation",
+  invoice: "Invoice",
+  other: "Other",
+};
+
+/** A document's version chain and the review decisions made on it, from GET /api/documents/:id/history. */
+interface DocumentHistory {
+  versions: Document[];
+  reviews: (DocumentReview & { actorName: string | null })[];
+}
+
+/** Refetches the document list, any open document histories and the compliance matrix. */
+const invalidateDocuments = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/documents") || query.queryKey[0] === "/api/compliance",
+  });
+
 const formatDate = (date: string | Date | null) => {
   if (!date) return "—";
   return new Date(date).toLocaleDateString("en-ZA");
@@ -50,9 +104,323 @@ const formatFileSize = (bytes: number) => {
   return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
 };
 
-export default function DocumentsPage() {
+/** Builds the multipart body for POST /api/documents; empty fields are left out. */
+const uploadForm = (file: File, fields: Record<string, string | null | undefined>) => {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value) form.append(name, value);
+  }
+  form.append("file", file);
+  return form;
+};
+
+const checkColors: Record<ArtworkCheck["result"], string> = {
+  passed: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+  skipped: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+/** Opens the artwork's validation report: each rule with what the screen expects and what the file has. */
+function ValidationReportButton({ doc }: { doc: Document }) {
+  const report = doc.validationReport;
+  if (!report) return null;
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid={`button-report-${doc.id}`}>
+          <ClipboardCheck className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Artwork Validation</DialogTitle>
+          <DialogDescription>
+            {doc.fileName} against {report.screenName} ({report.digital ? "digital" : "print"}), checked {new Date(report.checkedAt).toLocaleString("en-ZA")}
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Check</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead>Artwork</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.checks.map((check) => (
+              <TableRow key={check.rule} data-testid={`row-check-${check.rule}`}>
+                <TableCell className="capitalize">{check.rule.replace(/_/g, " ")}</TableCell>
+                <TableCell>{check.expected}</TableCell>
+                <TableCell>{check.actual}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={checkColors[check.result]}>{check.result}</Badge>
+                  {check.result !== "passed" && <p className="text-xs text-slate-500 mt-1">{check.message}</p>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** File name with its version number once the document has been resubmitted. */
+function FileNameCell({ doc }: { doc: Document }) {
+  return (
+    <TableCell className="font-medium">
+      {doc.fileName}
+      {doc.version > 1 && (
+        <Badge variant="outline" className="ml-2 text-xs" data-testid={`badge-version-${doc.id}`}>v{doc.version}</Badge>
+      )}
+    </TableCell>
+  );
+}
+
+/** Shows every version of a document, oldest first, with the review decisions made on each. */
+function HistoryButton({ doc }: { doc: Document }) {
+  const [open, setOpen] = useState(false);
+  const { data: history, isLoading } = useQuery<DocumentHistory>({
+    queryKey: [`/api/documents/${doc.id}/history`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="History" data-testid={`button-doc-history-${doc.id}`}>
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Document History</DialogTitle>
+          <DialogDescription>Versions of {doc.fileName} and the reviews of each.</DialogDescription>
+        </DialogHeader>
+        {isLoading || !history ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {history.versions.map((version) => (
+              <div key={version.id} className="rounded-md border p-3 space-y-2" data-testid={`version-${version.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">v{version.version} — {version.fileName}</p>
+                    <p className="text-xs text-slate-500">Uploaded {new Date(version.uploadedAt).toLocaleString("en-ZA")}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge className={statusColors[version.status] || ""} variant="outline">
+                      {statusLabels[version.status] || version.status}
+                    </Badge>
+                    <DownloadButton doc={version} />
+                  </div>
+                </div>
+                {version.rejectionReason && <p className="text-xs text-red-600">{version.rejectionReason}</p>}
+                {history.reviews.filter((r) => r.documentId === version.id).map((review) => (
+                  <div key={review.id} className="text-xs text-slate-600 border-l-2 pl-2" data-testid={`review-${review.id}`}>
+                    <span className="font-medium">{review.decision === "approve" ? "Approved" : "Rejected"}</span>
+                    {" by "}{review.actorName ?? review.actorId} on {new Date(review.createdAt).toLocaleString("en-ZA")}: {review.comment}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Uploads a corrected file as the next version of a rejected document. */
+function ResubmitButton({ doc }: { doc: Document }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [issuedAt, setIssuedAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const needsDates = isComplianceType(doc.type);
+
+  const resubmitMutation = useMutation({
+    mutationFn: (data: FormData) => api.upload<Document>("/api/documents", data),
+    onSuccess: (created) => {
+      invalidateDocuments();
+      setOpen(false);
+      setFile(null);
+      setIssuedAt("");
+      setExpiresAt("");
+      if (created.status === "rejected") {
+        toast({ title: "New version rejected", description: created.rejectionReason ?? undefined, variant: "destructive" });
+      } else {
+        toast({ title: "New version uploaded", description: `${created.fileName} replaces version ${doc.version}.` });
+      }
+    },
+    onError: (err: Error) => {
+      toast({ title: "Upload failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    if (selected.size > MAX_FILE_SIZE) {
+      toast({ title: "File too large", description: "Maximum file size is 5MB.", variant: "destructive" });
+      e.target.value = "";
+      return;
+    }
+    setFile(selected);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setFile(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Upload a corrected version" data-testid={`button-resubmit-${doc.id}`}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Upload Corrected Version</DialogTitle>
+          <DialogDescription>
+            The new file replaces version {doc.version} of {doc.fileName} and keeps its campaign and booking.
+          </DialogDescription>
+        </DialogHeader>
+        {doc.rejectionReason && (
+          <p className="text-sm text-red-600" data-testid="text-resubmit-reason">Rejected: {doc.rejectionReason}</p>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`resubmit-file-${doc.id}`}>File (max 5MB)</Label>
+          <Input id={`resubmit-file-${doc.id}`} type="file" onChange={handleFileSelect} data-testid="input-resubmit-file" />
+        </div>
+        {needsDates && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`resubmit-issued-${doc.id}`}>Issue Date</Label>
+              <Input id={`resubmit-issued-${doc.id}`} type="date" value={issuedAt} onChange={(e) => setIssuedAt(e.target.value)} data-testid="input-resubmit-issued" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`resubmit-expires-${doc.id}`}>Expiry Date</Label>
+              <Input id={`resubmit-expires-${doc.id}`} type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} data-testid="input-resubmit-expires" />
+            </div>
+          </div>
+        )}
+        <Button
+          onClick={() => file && resubmitMutation.mutate(uploadForm(file, { supersedesId: doc.id, issuedAt, expiresAt }))}
+          disabled={!file || (needsDates && (!issuedAt || !expiresAt)) || resubmitMutation.isPending}
+          data-testid="button-confirm-resubmit"
+        >
+          {resubmitMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+          Upload Version {doc.version + 1}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Approve and reject buttons for a reviewer; both decisions need a comment. */
+function ReviewButtons({ doc }: { doc: Document }) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [decision, setDecision] = useState<DocumentReviewDecision | null>(null);
+  const [comment, setComment] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ decision, comment }: { decision: DocumentReviewDecision; comment: string }) =>
+      api.post<Document>(`/api/documents/${doc.id}/${decision}`, { comment }),
+    onSuccess: (updated) => {
+      invalidateDocuments();
+      setDecision(null);
+      setComment("");
+      toast({ title: `Document ${statusLabels[updated.status]?.toLowerCase() ?? updated.status}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Review failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (doc.uploadedBy === user?.id) return null;
+  const allowed = (Object.keys(documentReviewTransitions) as DocumentReviewDecision[]).filter((d) =>
+    (documentReviewTransitions[d].from as readonly string[]).includes(doc.status),
+  );
+  if (allowed.length === 0) return null;
+
+  return (
+    <>
+      {allowed.includes("approve") && (
+        <Button variant="ghost" size="sm" title="Approve" onClick={() => setDecision("approve")} data-testid={`button-approve-doc-${doc.id}`}>
+          <Check className="h-4 w-4 text-green-600" />
+        </Button>
+      )}
+      {allowed.includes("reject") && (
+        <Button variant="ghost" size="sm" title="Reject" onClick={() => setDecision("reject")} data-testid={`button-reject-doc-${doc.id}`}>
+          <X className="h-4 w-4 text-red-600" />
+        </Button>
+      )}
+      <Dialog open={decision !== null} onOpenChange={(open) => { if (!open) { setDecision(null); setComment(""); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{decision === "approve" ? "Approve" : "Reject"} {doc.fileName}</DialogTitle>
+            <DialogDescription>
+              {decision === "reject"
+                ? "Explain what must be corrected; the uploader sees this comment and can upload a new version."
+                : "Record why the document is acceptable."}
+            </DialogDescription>
+          </DialogHeader>
+          {doc.status === "rejected" && doc.rejectionReason && (
+            <p className="text-sm text-red-600">Automatic checks: {doc.rejectionReason}</p>
+          )}
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            placeholder="Comment (required)"
+            data-testid="input-review-comment"
+          />
+          <Button
+            onClick={() => decision && reviewMutation.mutate({ decision, comment: comment.trim() })}
+            disabled={!comment.trim() || reviewMutation.isPending}
+            variant={decision === "reject" ? "destructive" : "default"}
+            data-testid="button-confirm-review"
+          >
+            {reviewMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+            {decision === "approve" ? "Approve" : "Reject"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+/** Row actions shared by every document table. */
+function DocumentActions({ doc }: { doc: Document }) {
+  const { can } = useAuth();
+  return (
+    <div className="flex items-center">
+      {can("documents", "update") && <ReviewButtons doc={doc} />}
+      {can("documents", "create") && canResubmit(doc) && <ResubmitButton doc={doc} />}
+      <ValidationReportButton doc={doc} />
+      <HistoryButton doc={doc} />
+      <DownloadButton doc={doc} />
+    </div>
+  );
+}
+
+/** Downloads a stored document file; rows without a stored file have nothing to download. */
+function DownloadButton({ doc }: { doc: Document }) {
+  if (!doc.storageKey) return <span className="text-xs text-slate-400">No file</span>;
+  return (
+    <Button variant="ghost" size="sm" asChild data-testid={`button-download-${doc.id}`}>
+      <a href={`/api/documents/${doc.id}/download`} title={doc.sha256 ? `SHA-256 ${doc.sha256}` : undefined}>
+        <Download className="h-4 w-4" />
+      </a>
+    </Button>
+  );
+}
+
+export default function DocumentsPage() {
+  const { can } = useAuth();
 
   const { data: documents = [], isLoading: docsLoading } = useQuery<Document[]>({
     queryKey: ["/api/documents"],
@@ -62,9 +430,13 @@ export default function DocumentsPage() {
     queryKey: ["/api/campaigns"],
   });
 
-  const artworkDocs = documents.filter((d) => d.type === "artwork");
-  const proofDocs = documents.filter((d) => d.type === "proof_of_flighting");
-  const complianceDocs = documents.filter((d) => d.type === "compliance_sbd" || d.type === "compliance_cso");
+  // Superseded versions are reached through each document's history.
+  const currentDocs = documents.filter((d) => d.status !== "superseded");
+  const artworkDocs = currentDocs.filter((d) => d.type === "artwork");
+  const proofDocs = currentDocs.filter((d) => d.type === "proof_of_flighting");
+  const complianceDocs = currentDocs.filter((d) => d.type === "compliance_sbd" || d.type === "compliance_cso");
+  const canReview = can("documents", "update");
+  const reviewQueue = currentDocs.filter(isAwaitingReview);
 
   return (
     <div className="min-h-screen bg-slate-50 p-6">
@@ -87,6 +459,14 @@ export default function DocumentsPage() {
             <TabsTrigger value="compliance" data-testid="tab-compliance">
               <Shield className="h-4 w-4 mr-1" /> Compliance
             </TabsTrigger>
+            {canReview && (
+              <TabsTrigger value="review" data-testid="tab-review">
+                <ListChecks className="h-4 w-4 mr-1" /> Review Queue
+                {reviewQueue.length > 0 && (
+                  <Badge variant="secondary" className="ml-2" data-testid="badge-review-count">{reviewQueue.length}</Badge>
+                )}
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="artwork">
@@ -94,7 +474,7 @@ export default function DocumentsPage() {
               documents={artworkDocs}
               campaigns={campaigns}
               loading={docsLoading}
-              userId={user?.id || ""}
+              canUpload={can("documents", "create")}
             />
           </TabsContent>
 
@@ -103,7 +483,7 @@ export default function DocumentsPage() {
               documents={proofDocs}
               campaigns={campaigns}
               loading={docsLoading}
-              userId={user?.id || ""}
+              canUpload={can("documents", "create")}
             />
           </TabsContent>
 
@@ -112,34 +492,122 @@ export default function DocumentsPage() {
               documents={complianceDocs}
               campaigns={campaigns}
               loading={docsLoading}
-              userId={user?.id || ""}
+              canUpload={can("documents", "create")}
             />
           </TabsContent>
+
+          {canReview && (
+            <TabsContent value="review">
+              <ReviewQueueTab documents={reviewQueue} campaigns={campaigns} loading={docsLoading} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
   );
 }
 
-/** Handles artwork file uploads linked to campaigns and displays a table of existing artwork documents. */
-function ArtworkTab({ documents, campaigns, loading, userId }: {
+/**
+ * Lists documents of every type awaiting review, oldest first, so reviewers
+ * can work through them; validated documents have passed the automatic checks.
+ */
+function ReviewQueueTab({ documents, campaigns, loading }: {
+  documents: Document[];
+  campaigns: Campaign[];
+  loading: boolean;
+}) {
+  const queue = [...documents].sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+
+  return (
+    <div className="space-y-6 mt-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Awaiting Review</CardTitle>
+          <p className="text-sm text-slate-500">
+            Documents that are {AWAITING_REVIEW_STATUSES.map((s) => statusLabels[s].toLowerCase()).join(" or ")}. Approving or rejecting requires a comment.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : queue.length === 0 ? (
+            <p className="text-center py-8 text-slate-500" data-testid="text-empty-review">No documents are awaiting review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((doc) => (
+                  <TableRow key={doc.id} data-testid={`row-review-${doc.id}`}>
+                    <FileNameCell doc={doc} />
+                    <TableCell>{typeLabels[doc.type] ?? doc.type}</TableCell>
+                    <TableCell>{campaigns.find((c) => c.id === doc.campaignId)?.name || doc.campaignId || "—"}</TableCell>
+                    <TableCell>
+                      <Badge className={statusColors[doc.status] || ""} variant="outline" data-testid={`status-review-${doc.id}`}>
+                        {statusLabels[doc.status] || doc.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(doc.uploadedAt)}</TableCell>
+                    <TableCell>
+                      <DocumentActions doc={doc} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Handles artwork file uploads linked to campaigns and displays a table of existing artwork documents.
+ * Artwork uploaded against a booking is validated by the server against the booked screen.
+ */
+function ArtworkTab({ documents, campaigns, loading, canUpload }: {
   documents: Document[];
   campaigns: Campaign[];
   loading: boolean;
-  userId: string;
+  canUpload: boolean;
 }) {
   const { toast } = useToast();
   const fileRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [campaignId, setCampaignId] = useState("");
+  const [bookingId, setBookingId] = useState("");
+
+  const { data: campaignBookings = [] } = useQuery<Booking[]>({
+    queryKey: [`/api/bookings?campaignId=${campaignId}`],
+    enabled: !!campaignId,
+  });
+  const screenBookings = campaignBookings.filter((b) => b.inventoryId);
 
   const uploadMutation = useMutation({
-    mutationFn: (data: Record<string, unknown>) => api.post<Document>("/api/documents", data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      toast({ title: "Document uploaded", description: "Artwork document record created successfully." });
+    mutationFn: (data: FormData) => api.upload<Document>("/api/documents", data),
+    onSuccess: (doc) => {
+      invalidateDocuments();
+      if (doc.status === "rejected") {
+        toast({ title: "Artwork rejected", description: doc.rejectionReason ?? "The artwork does not meet the screen's specifications.", variant: "destructive" });
+      } else if (doc.status === "validated") {
+        toast({ title: "Artwork validated", description: "The artwork meets the booked screen's specifications." });
+      } else {
+        toast({ title: "Document uploaded", description: "Artwork document uploaded successfully." });
+      }
       setSelectedFile(null);
       setCampaignId("");
+      setBookingId("");
       if (fileRef.current) fileRef.current.value = "";
     },
     onError: (err: Error) => {
@@ -163,60 +631,69 @@ function ArtworkTab({ documents, campaigns, loading, userId }: {
       toast({ title: "Missing fields", description: "Please select a file and campaign.", variant: "destructive" });
       return;
     }
-    uploadMutation.mutate({
-      type: "artwork",
-      fileName: selectedFile.name,
-      fileSize: selectedFile.size,
-      mimeType: selectedFile.type,
-      campaignId,
-      uploadedBy: userId,
-      status: "uploaded",
-    });
+    uploadMutation.mutate(uploadForm(selectedFile, { type: "artwork", campaignId, bookingId }));
   };
 
   return (
     <div className="space-y-6 mt-4">
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-base">Upload Artwork</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="artwork-file">File (max 5MB)</Label>
-              <Input
-                id="artwork-file"
-                type="file"
-                ref={fileRef}
-                onChange={handleFileSelect}
-                data-testid="input-artwork-file"
-              />
-              {selectedFile && (
-                <p className="text-xs text-slate-500" data-testid="text-file-meta">
-                  {selectedFile.name} — {formatFileSize(selectedFile.size)}
-                </p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label>Campaign</Label>
-              <Select value={campaignId} onValueChange={setCampaignId}>
-                <SelectTrigger data-testid="select-artwork-campaign">
-                  <SelectValue placeholder="Select campaign" />
-                </SelectTrigger>
-                <SelectContent>
-                  {campaigns.map((c) => (
-                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+      {canUpload && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Upload Artwork</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="artwork-file">File (max 5MB)</Label>
+                <Input
+                  id="artwork-file"
+                  type="file"
+                  ref={fileRef}
+                  onChange={handleFileSelect}
+                  data-testid="input-artwork-file"
+                />
+                {selectedFile && (
+                  <p className="text-xs text-slate-500" data-testid="text-file-meta">
+                    {selectedFile.name} — {formatFileSize(selectedFile.size)}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Campaign</Label>
+                <Select value={campaignId} onValueChange={(value) => { setCampaignId(value); setBookingId(""); }}>
+                  <SelectTrigger data-testid="select-artwork-campaign">
+                    <SelectValue placeholder="Select campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaigns.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Booking (to validate against its screen)</Label>
+                <Select value={bookingId} onValueChange={setBookingId} disabled={screenBookings.length === 0}>
+                  <SelectTrigger data-testid="select-artwork-booking">
+                    <SelectValue placeholder={campaignId && screenBookings.length === 0 ? "No screen bookings" : "Optional"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {screenBookings.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.siteDescription} ({formatDate(b.startDate)} – {formatDate(b.endDate)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-artwork">
+                {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+                Upload
+              </Button>
             </div>
-            <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-artwork">
-              {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
-              Upload
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardContent className="pt-6">
@@ -236,21 +713,28 @@ function ArtworkTab({ documents, campaigns, loading, userId }: {
                   <TableHead>Status</TableHead>
                   <TableHead>Uploaded By</TableHead>
                   <TableHead>Date</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {documents.map((doc) => (
                   <TableRow key={doc.id} data-testid={`row-artwork-${doc.id}`}>
-                    <TableCell className="font-medium">{doc.fileName}</TableCell>
+                    <FileNameCell doc={doc} />
                     <TableCell>{campaigns.find((c) => c.id === doc.campaignId)?.name || doc.campaignId || "—"}</TableCell>
                     <TableCell>{formatFileSize(doc.fileSize)}</TableCell>
                     <TableCell>
                       <Badge className={statusColors[doc.status] || ""} variant="outline" data-testid={`status-artwork-${doc.id}`}>
                         {statusLabels[doc.status] || doc.status}
                       </Badge>
+                      {doc.rejectionReason && (
+                        <p className="text-xs text-red-600 mt-1 max-w-xs" data-testid={`text-artwork-reason-${doc.id}`}>{doc.rejectionReason}</p>
+                      )}
                     </TableCell>
                     <TableCell>{doc.uploadedBy}</TableCell>
                     <TableCell>{formatDate(doc.uploadedAt)}</TableCell>
+                    <TableCell>
+                      <DocumentActions doc={doc} />
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -262,31 +746,37 @@ function ArtworkTab({ documents, campaigns, loading, userId }: {
   );
 }
 
-/** Handles proof-of-flighting photo uploads with GPS coordinates and capture timestamp metadata. */
-function ProofTab({ documents, campaigns, loading, userId }: {
+/** Handles proof-of-flighting photo uploads against a booking and lists proofs with their EXIF location, capture time and verification result. */
+function ProofTab({ documents, campaigns, loading, canUpload }: {
   documents: Document[];
   campaigns: Campaign[];
   loading: boolean;
-  userId: string;
+  canUpload: boolean;
 }) {
   const { toast } = useToast();
   const fileRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [campaignId, setCampaignId] = useState("");
-  const [latitude, setLatitude] = useState("");
-  const [longitude, setLongitude] = useState("");
-  const [capturedAt, setCapturedAt] = useState("");
+  const [bookingId, setBookingId] = useState("");
+
+  const { data: campaignBookings = [] } = useQuery<Booking[]>({
+    queryKey: [`/api/bookings?campaignId=${campaignId}`],
+    enabled: !!campaignId,
+  });
+  const screenBookings = campaignBookings.filter((b) => b.inventoryId);
 
   const uploadMutation = useMutation({
-    mutationFn: (data: Record<string, unknown>) => api.post<Document>("/api/documents", data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      toast({ title: "Document uploaded", description: "Proof of flighting record created successfully." });
+    mutationFn: (data: FormData) => api.upload<Document>("/api/documents", data),
+    onSuccess: (doc) => {
+      invalidateDocuments();
+      if (doc.status === "rejected") {
+        toast({ title: "Proof rejected", description: doc.rejectionReason ?? "The photo did not match the booking.", variant: "destructive" });
+      } else {
+        toast({ title: "Document uploaded", description: "Proof of flighting uploaded successfully." });
+      }
       setSelectedFile(null);
       setCampaignId("");
-      setLatitude("");
-      setLongitude("");
-      setCapturedAt("");
+      setBookingId("");
       if (fileRef.current) fileRef.current.value = "";
     },
     onError: (err: Error) => {
@@ -306,99 +796,80 @@ function ProofTab({ documents, campaigns, loading, userId }: {
   };
 
   const handleUpload = () => {
-    if (!selectedFile || !campaignId) {
-      toast({ title: "Missing fields", description: "Please select a file and campaign.", variant: "destructive" });
+    if (!selectedFile || !bookingId) {
+      toast({ title: "Missing fields", description: "Please select a photo and booking.", variant: "destructive" });
       return;
     }
-    uploadMutation.mutate({
+    uploadMutation.mutate(uploadForm(selectedFile, {
       type: "proof_of_flighting",
-      fileName: selectedFile.name,
-      fileSize: selectedFile.size,
-      mimeType: selectedFile.type,
-      campaignId,
-      uploadedBy: userId,
-      status: "uploaded",
-      gpsLatitude: latitude || null,
-      gpsLongitude: longitude || null,
-      capturedAt: capturedAt ? new Date(capturedAt).toISOString() : null,
-    });
+      bookingId,
+    }));
   };
 
   return (
     <div className="space-y-6 mt-4">
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-base">Upload Proof of Flighting</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="proof-file">File (max 5MB)</Label>
-              <Input
-                id="proof-file"
-                type="file"
-                ref={fileRef}
-                onChange={handleFileSelect}
-                data-testid="input-proof-file"
-              />
-              {selectedFile && (
-                <p className="text-xs text-slate-500" data-testid="text-proof-file-meta">
-                  {selectedFile.name} — {formatFileSize(selectedFile.size)}
-                </p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label>Campaign</Label>
-              <Select value={campaignId} onValueChange={setCampaignId}>
-                <SelectTrigger data-testid="select-proof-campaign">
-                  <SelectValue placeholder="Select campaign" />
-                </SelectTrigger>
-                <SelectContent>
-                  {campaigns.map((c) => (
-                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="proof-lat">GPS Latitude</Label>
-              <Input
-                id="proof-lat"
-                placeholder="-33.9249"
-                value={latitude}
-                onChange={(e) => setLatitude(e.target.value)}
-                data-testid="input-proof-latitude"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="proof-lng">GPS Longitude</Label>
-              <Input
-                id="proof-lng"
-                placeholder="18.4241"
-                value={longitude}
-                onChange={(e) => setLongitude(e.target.value)}
-                data-testid="input-proof-longitude"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="proof-captured">Captured At</Label>
-              <Input
-                id="proof-captured"
-                type="datetime-local"
-                value={capturedAt}
-                onChange={(e) => setCapturedAt(e.target.value)}
-                data-testid="input-proof-captured"
-              />
+      {canUpload && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Upload Proof of Flighting</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="proof-file">Photo (JPEG or HEIC, max 5MB)</Label>
+                <Input
+                  id="proof-file"
+                  type="file"
+                  accept="image/jpeg,image/heic,image/heif"
+                  ref={fileRef}
+                  onChange={handleFileSelect}
+                  data-testid="input-proof-file"
+                />
+                {selectedFile && (
+                  <p className="text-xs text-slate-500" data-testid="text-proof-file-meta">
+                    {selectedFile.name} — {formatFileSize(selectedFile.size)}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Campaign</Label>
+                <Select value={campaignId} onValueChange={(value) => { setCampaignId(value); setBookingId(""); }}>
+                  <SelectTrigger data-testid="select-proof-campaign">
+                    <SelectValue placeholder="Select campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaigns.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Booking</Label>
+                <Select value={bookingId} onValueChange={setBookingId} disabled={!campaignId}>
+                  <SelectTrigger data-testid="select-proof-booking">
+                    <SelectValue placeholder={campaignId && screenBookings.length === 0 ? "No screen bookings" : "Select booking"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {screenBookings.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.siteDescription} ({formatDate(b.startDate)} – {formatDate(b.endDate)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">GPS location and capture time are read from the photo.</p>
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-proof" className="w-full">
+                  {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+                  Upload
+                </Button>
+              </div>
             </div>
-            <div className="flex items-end">
-              <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-proof" className="w-full">
-                {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
-                Upload
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardContent className="pt-6">
@@ -418,25 +889,32 @@ function ProofTab({ documents, campaigns, loading, userId }: {
                   <TableHead>Captured At</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {documents.map((doc) => (
                   <TableRow key={doc.id} data-testid={`row-proof-${doc.id}`}>
-                    <TableCell className="font-medium">{doc.fileName}</TableCell>
+                    <FileNameCell doc={doc} />
                     <TableCell>{campaigns.find((c) => c.id === doc.campaignId)?.name || doc.campaignId || "—"}</TableCell>
                     <TableCell>
                       {doc.gpsLatitude && doc.gpsLongitude
                         ? `${doc.gpsLatitude}, ${doc.gpsLongitude}`
                         : "—"}
                     </TableCell>
-                    <TableCell>{doc.capturedAt ? formatDate(doc.capturedAt) : "—"}</TableCell>
+                    <TableCell>{doc.capturedAt ? new Date(doc.capturedAt).toLocaleString("en-ZA") : "—"}</TableCell>
                     <TableCell>
                       <Badge className={statusColors[doc.status] || ""} variant="outline" data-testid={`status-proof-${doc.id}`}>
                         {statusLabels[doc.status] || doc.status}
                       </Badge>
+                      {doc.rejectionReason && (
+                        <p className="text-xs text-red-600 mt-1 max-w-xs" data-testid={`text-proof-reason-${doc.id}`}>{doc.rejectionReason}</p>
+                      )}
                     </TableCell>
                     <TableCell>{formatDate(doc.uploadedAt)}</TableCell>
+                    <TableCell>
+                      <DocumentActions doc={doc} />
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -448,27 +926,128 @@ function ProofTab({ documents, campaigns, loading, userId }: {
   );
 }
 
-/** Handles SBD and CSO compliance document uploads and lists existing compliance records. */
-function ComplianceTab({ documents, campaigns, loading, userId }: {
+const complianceColors: Record<ComplianceStatus, string> = {
+  complete: "bg-green-50 text-green-700 border-green-200",
+  expiring: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  expired: "bg-red-50 text-red-700 border-red-200",
+  missing: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const complianceLabels: Record<ComplianceStatus, string> = {
+  complete: "Complete",
+  expiring: "Expiring",
+  expired: "Expired",
+  missing: "Missing",
+};
+
+/**
+ * Suppliers down the side, campaigns they are booked on across the top, and
+ * each supplier's SBD/CSO status for that campaign in the cells. Missing and
+ * expired suppliers cannot have their bookings approved.
+ */
+function ComplianceMatrix({ campaigns, suppliers }: { campaigns: Campaign[]; suppliers: Supplier[] }) {
+  const { data: matrix = [], isLoading } = useQuery<SupplierCompliance[]>({
+    queryKey: ["/api/compliance"],
+  });
+
+  const campaignIds = Array.from(new Set(matrix.map((m) => m.campaignId)));
+  const supplierIds = Array.from(new Set(matrix.map((m) => m.supplierId)));
+  const cells = new Map(matrix.map((m) => [`${m.supplierId}:${m.campaignId}`, m]));
+  const campaignName = (id: string) => campaigns.find((c) => c.id === id)?.name ?? id;
+  const supplierName = (id: string) => suppliers.find((s) => s.id === id)?.name ?? id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Compliance Matrix</CardTitle>
+        <p className="text-sm text-slate-500">
+          Approved, unexpired SBD and CSO documents held by each supplier booked on each campaign.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : matrix.length === 0 ? (
+          <p className="text-center py-8 text-slate-500" data-testid="text-empty-compliance-matrix">No suppliers are booked on any campaign.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table data-testid="table-compliance-matrix">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  {campaignIds.map((id) => (
+                    <TableHead key={id}>{campaignName(id)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {supplierIds.map((supplierId) => (
+                  <TableRow key={supplierId} data-testid={`row-compliance-supplier-${supplierId}`}>
+                    <TableCell className="font-medium">{supplierName(supplierId)}</TableCell>
+                    {campaignIds.map((campaignId) => {
+                      const cell = cells.get(`${supplierId}:${campaignId}`);
+                      if (!cell) return <TableCell key={campaignId} className="text-slate-300">—</TableCell>;
+                      return (
+                        <TableCell key={campaignId} data-testid={`cell-compliance-${supplierId}-${campaignId}`}>
+                          <Badge variant="outline" className={complianceColors[cell.status]}>{complianceLabels[cell.status]}</Badge>
+                          <div className="mt-1 space-y-0.5">
+                            {cell.items.map((item) => (
+                              <p key={item.type} className="text-xs text-slate-500">
+                                {typeLabels[item.type]}: {item.expiresAt ? `until ${formatDate(item.expiresAt)}` : complianceLabels[item.status].toLowerCase()}
+                                {item.status !== "complete" && item.awaitingReview && " (awaiting review)"}
+                              </p>
+                            ))}
+                          </div>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Handles SBD and CSO compliance document uploads for a supplier, with their validity dates,
+ * and shows the compliance matrix and the existing compliance records.
+ */
+function ComplianceTab({ documents, campaigns, loading, canUpload }: {
   documents: Document[];
   campaigns: Campaign[];
   loading: boolean;
-  userId: string;
+  canUpload: boolean;
 }) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const fileRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [campaignId, setCampaignId] = useState("");
+  const [campaignId, setCampaignId] = useState(ALL_CAMPAIGNS);
   const [docType, setDocType] = useState<string>("");
+  const [supplierId, setSupplierId] = useState(user?.supplierId ?? "");
+  const [issuedAt, setIssuedAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
 
   const uploadMutation = useMutation({
-    mutationFn: (data: Record<string, unknown>) => api.post<Document>("/api/documents", data),
+    mutationFn: (data: FormData) => api.upload<Document>("/api/documents", data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      toast({ title: "Document uploaded", description: "Compliance document record created successfully." });
+      invalidateDocuments();
+      toast({ title: "Document uploaded", description: "Compliance document uploaded successfully." });
       setSelectedFile(null);
-      setCampaignId("");
+      setCampaignId(ALL_CAMPAIGNS);
       setDocType("");
+      setIssuedAt("");
+      setExpiresAt("");
       if (fileRef.current) fileRef.current.value = "";
     },
     onError: (err: Error) => {
@@ -488,85 +1067,122 @@ function ComplianceTab({ documents, campaigns, loading, userId }: {
   };
 
   const handleUpload = () => {
-    if (!selectedFile || !campaignId || !docType) {
-      toast({ title: "Missing fields", description: "Please select a file, campaign, and document type.", variant: "destructive" });
+    if (!selectedFile || !docType || !supplierId || !issuedAt || !expiresAt) {
+      toast({
+        title: "Missing fields",
+        description: "Please select a file, document type and supplier, and enter the issue and expiry dates.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (expiresAt <= issuedAt) {
+      toast({ title: "Invalid dates", description: "The expiry date must be after the issue date.", variant: "destructive" });
       return;
     }
-    uploadMutation.mutate({
+    uploadMutation.mutate(uploadForm(selectedFile, {
       type: docType,
-      fileName: selectedFile.name,
-      fileSize: selectedFile.size,
-      mimeType: selectedFile.type,
-      campaignId,
-      uploadedBy: userId,
-      status: "uploaded",
-    });
+      supplierId,
+      campaignId: campaignId === ALL_CAMPAIGNS ? null : campaignId,
+      issuedAt,
+      expiresAt,
+    }));
   };
 
-  const handleDownload = () => {
-    toast({ title: "Download", description: "Download functionality will connect to Azure Blob Storage" });
-  };
-
-  const docTypeLabels: Record<string, string> = {
-    compliance_sbd: "SBD",
-    compliance_cso: "CSO",
-  };
+  const today = new Date().toISOString().slice(0, 10);
 
   return (
     <div className="space-y-6 mt-4">
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-base">Upload Compliance Document</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="compliance-file">File (max 5MB)</Label>
-              <Input
-                id="compliance-file"
-                type="file"
-                ref={fileRef}
-                onChange={handleFileSelect}
-                data-testid="input-compliance-file"
-              />
-              {selectedFile && (
-                <p className="text-xs text-slate-500" data-testid="text-compliance-file-meta">
-                  {selectedFile.name} — {formatFileSize(selectedFile.size)}
-                </p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label>Document Type</Label>
-              <Select value={docType} onValueChange={setDocType}>
-                <SelectTrigger data-testid="select-compliance-type">
-                  <SelectValue placeholder="Select type" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="compliance_sbd">SBD</SelectItem>
-                  <SelectItem value="compliance_cso">CSO</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label>Campaign</Label>
-              <Select value={campaignId} onValueChange={setCampaignId}>
-                <SelectTrigger data-testid="select-compliance-campaign">
-                  <SelectValue placeholder="Select campaign" />
-                </SelectTrigger>
-                <SelectContent>
-                  {campaigns.map((c) => (
-                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+      {canUpload && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Upload Compliance Document</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="compliance-file">File (max 5MB)</Label>
+                <Input
+                  id="compliance-file"
+                  type="file"
+                  ref={fileRef}
+                  onChange={handleFileSelect}
+                  data-testid="input-compliance-file"
+                />
+                {selectedFile && (
+                  <p className="text-xs text-slate-500" data-testid="text-compliance-file-meta">
+                    {selectedFile.name} — {formatFileSize(selectedFile.size)}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Document Type</Label>
+                <Select value={docType} onValueChange={setDocType}>
+                  <SelectTrigger data-testid="select-compliance-type">
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="compliance_sbd">SBD</SelectItem>
+                    <SelectItem value="compliance_cso">CSO</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId} disabled={!!user?.supplierId}>
+                  <SelectTrigger data-testid="select-compliance-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Campaign</Label>
+                <Select value={campaignId} onValueChange={setCampaignId}>
+                  <SelectTrigger data-testid="select-compliance-campaign">
+                    <SelectValue placeholder="Select campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CAMPAIGNS}>All campaigns</SelectItem>
+                    {campaigns.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="compliance-issued">Issue Date</Label>
+                <Input
+                  id="compliance-issued"
+                  type="date"
+                  value={issuedAt}
+                  onChange={(e) => setIssuedAt(e.target.value)}
+                  data-testid="input-compliance-issued"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="compliance-expires">Expiry Date</Label>
+                <Input
+                  id="compliance-expires"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  data-testid="input-compliance-expires"
+                />
+              </div>
+              <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-compliance">
+                {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+                Upload
+              </Button>
             </div>
-            <Button onClick={handleUpload} disabled={uploadMutation.isPending} data-testid="button-upload-compliance">
-              {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
-              Upload
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
+
+      <ComplianceMatrix campaigns={campaigns} suppliers={suppliers} />
 
       <Card>
         <CardContent className="pt-6">
@@ -582,8 +1198,9 @@ function ComplianceTab({ documents, campaigns, loading, userId }: {
                 <TableRow>
                   <TableHead>File Name</TableHead>
                   <TableHead>Type</TableHead>
+                  <TableHead>Supplier</TableHead>
                   <TableHead>Campaign</TableHead>
-                  <TableHead>Size</TableHead>
+                  <TableHead>Valid</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Actions</TableHead>
@@ -592,10 +1209,15 @@ function ComplianceTab({ documents, campaigns, loading, userId }: {
               <TableBody>
                 {documents.map((doc) => (
                   <TableRow key={doc.id} data-testid={`row-compliance-${doc.id}`}>
-                    <TableCell className="font-medium">{doc.fileName}</TableCell>
-                    <TableCell>{docTypeLabels[doc.type] || doc.type}</TableCell>
-                    <TableCell>{campaigns.find((c) => c.id === doc.campaignId)?.name || doc.campaignId || "—"}</TableCell>
-                    <TableCell>{formatFileSize(doc.fileSize)}</TableCell>
+                    <FileNameCell doc={doc} />
+                    <TableCell>{typeLabels[doc.type] || doc.type}</TableCell>
+                    <TableCell>{suppliers.find((s) => s.id === doc.supplierId)?.name || doc.supplierId || "—"}</TableCell>
+                    <TableCell>
+                      {doc.campaignId ? campaigns.find((c) => c.id === doc.campaignId)?.name || doc.campaignId : "All campaigns"}
+                    </TableCell>
+                    <TableCell className={doc.expiresAt && new Date(doc.expiresAt).toISOString().slice(0, 10) < today ? "text-red-600" : ""}>
+                      {doc.issuedAt || doc.expiresAt ? `${formatDate(doc.issuedAt)} – ${formatDate(doc.expiresAt)}` : "—"}
+                    </TableCell>
                     <TableCell>
                       <Badge className={statusColors[doc.status] || ""} variant="outline" data-testid={`status-compliance-${doc.id}`}>
                         {statusLabels[doc.status] || doc.status}
@@ -603,9 +1225,7 @@ function ComplianceTab({ documents, campaigns, loading, userId }: {
                     </TableCell>
                     <TableCell>{formatDate(doc.uploadedAt)}</TableCell>
                     <TableCell>
-                      <Button variant="ghost" size="sm" onClick={handleDownload} data-testid={`button-download-${doc.id}`}>
-                        <Download className="h-4 w-4" />
-                      </Button>
+                      <DocumentActions doc={doc} />
                     </TableCell>
                   </TableRow>
                 ))}
@@ -2,7 +2,9 @@
  * Live Inventory page showing real-time OOH screen availability across all suppliers.
  * Displays stats cards (total, available, booked, maintenance), search and filter controls
  * (region, status, screen type), a data table with screen details, and a slide-out detail
- * panel with status update capability. Supplier-role users only see their own organisation's
+ * panel with the screen's booking calendar, rate card with the supplier's discounts and
+ * surcharges, and a maintenance toggle. Booked and reserved
+ * statuses are derived by the server from bookings. Supplier-role users only see their own organisation's
  * screens and cannot select a different supplier when adding new screens.
  */
 import { useState } from "react";
@@ -11,7 +13,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Inventory, Supplier } from "@shared/schema";
+import type { Booking, Inventory, PricingAdjustment, Supplier } from "@shared/schema";
+import { inventoryMatches, filterQuery } from "@shared/list-filters";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -55,6 +58,8 @@ import {
   Clock,
   AlertTriangle,
   Wrench,
+  Trash2,
+  FileSpreadsheet,
 } from "lucide-react";
 
 /** Formats numeric values as South African Rand (ZAR) currency strings. */
@@ -85,7 +90,7 @@ const statusConfig: Record<string, { label: string; color: string; icon: React.E
 };
 
 export default function InventoryPage() {
-  const { user, hasRole } = useAuth();
+  const { user, hasRole, can } = useAuth();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [regionFilter, setRegionFilter] = useState("all");
@@ -96,8 +101,8 @@ export default function InventoryPage() {
 
   /** True when the logged-in user has a supplier role; restricts visibility to their own organisation's screens. */
   const isSupplierUser = hasRole("supplier_admin", "supplier_user");
-  /** True when the user is allowed to add or update inventory (department admins and supplier roles). */
-  const canManage = hasRole("department_admin", "supplier_admin", "supplier_user");
+  /** True when the shared policy allows the user to add or update inventory. */
+  const canManage = can("inventory", "create") && can("inventory", "update");
 
   const { data: items = [], isLoading } = useQuery<Inventory[]>({
     queryKey: ["inventory", user?.id],
@@ -124,27 +129,26 @@ export default function InventoryPage() {
     },
   });
 
-  /** Mutation to patch an existing inventory item (e.g. status change) via PATCH /api/inventory/:id. */
+  /**
+   * Mutation to patch an existing inventory item (e.g. maintenance toggle) via PATCH /api/inventory/:id.
+   * The response carries the status re-derived from bookings, which replaces the optimistic value.
+   */
   const updateMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Record<string, unknown> }) =>
-      api.patch(`/api/inventory/${id}`, data),
-    onSuccess: () => {
+      api.patch<Inventory>(`/api/inventory/${id}`, data),
+    onSuccess: (item) => {
       queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      setSelectedItem((current) => (current?.id === item.id ? item : current));
       toast({ title: "Updated", description: "Screen status updated." });
     },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
   });
 
-  /** Client-side filtered list: applies search text, region, status, and screen type filters to the full inventory. */
-  const filtered = items.filter((item) => {
-    const matchSearch =
-      !search ||
-      item.screenName.toLowerCase().includes(search.toLowerCase()) ||
-      item.location.toLowerCase().includes(search.toLowerCase());
-    const matchRegion = regionFilter === "all" || item.region === regionFilter;
-    const matchStatus = statusFilter === "all" || item.status === statusFilter;
-    const matchType = typeFilter === "all" || item.screenType === typeFilter;
-    return matchSearch && matchRegion && matchStatus && matchType;
-  });
+  /** Client-side filtered list: applies search text, region, status, and screen type filters to the full inventory; the export applies the same filter. */
+  const listFilter = { search, region: regionFilter, status: statusFilter, screenType: typeFilter };
+  const filtered = items.filter((item) => inventoryMatches(item, listFilter));
 
   /** Computed summary statistics derived from the unfiltered inventory list for the stats cards. */
   const stats = {
@@ -190,119 +194,127 @@ export default function InventoryPage() {
               : "Real-time screen availability across all suppliers"}
           </p>
         </div>
-        {canManage && (
-          <Dialog open={addOpen} onOpenChange={setAddOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-add-screen">
-                <Plus className="mr-2 h-4 w-4" />
-                Add Screen
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Add Screen to Inventory</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="screenName">Screen Name</Label>
-                    <Input id="screenName" name="screenName" required data-testid="input-screen-name" />
-                  </div>
-                  {isSupplierUser && user?.supplierId ? (
+        <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-export-inventory">
+            <a href={`/api/exports/inventory${filterQuery(listFilter)}`}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Export to Excel
+            </a>
+          </Button>
+          {canManage && (
+            <Dialog open={addOpen} onOpenChange={setAddOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-screen">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Screen
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Add Screen to Inventory</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label>Supplier</Label>
-                      <Input value={supplierMap[user.supplierId] || "Your Organisation"} disabled className="bg-muted" />
+                      <Label htmlFor="screenName">Screen Name</Label>
+                      <Input id="screenName" name="screenName" required data-testid="input-screen-name" />
                     </div>
-                  ) : (
+                    {isSupplierUser && user?.supplierId ? (
+                      <div className="space-y-2">
+                        <Label>Supplier</Label>
+                        <Input value={supplierMap[user.supplierId] || "Your Organisation"} disabled className="bg-muted" />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="supplierId">Supplier</Label>
+                        <select name="supplierId" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-supplier">
+                          <option value="">Select supplier</option>
+                          {suppliers.map((s) => (
+                            <option key={s.id} value={s.id}>{s.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     <div className="space-y-2">
-                      <Label htmlFor="supplierId">Supplier</Label>
-                      <select name="supplierId" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-supplier">
-                        <option value="">Select supplier</option>
-                        {suppliers.map((s) => (
-                          <option key={s.id} value={s.id}>{s.name}</option>
+                      <Label htmlFor="screenType">Screen Type</Label>
+                      <select name="screenType" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-screen-type">
+                        <option value="">Select type</option>
+                        {screenTypes.map((t) => (
+                          <option key={t} value={t}>{t}</option>
                         ))}
                       </select>
                     </div>
-                  )}
-                  <div className="space-y-2">
-                    <Label htmlFor="screenType">Screen Type</Label>
-                    <select name="screenType" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-screen-type">
-                      <option value="">Select type</option>
-                      {screenTypes.map((t) => (
-                        <option key={t} value={t}>{t}</option>
-                      ))}
-                    </select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="region">Region</Label>
-                    <select name="region" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-region">
-                      <option value="">Select region</option>
-                      {regions.map((r) => (
-                        <option key={r} value={r}>{r}</option>
-                      ))}
-                    </select>
-                  </div>
-                  <div className="col-span-2 space-y-2">
-                    <Label htmlFor="location">Location</Label>
-                    <Input id="location" name="location" required placeholder="e.g. N1 Highway, Midrand" data-testid="input-location" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dimensions">Dimensions</Label>
-                    <Input id="dimensions" name="dimensions" placeholder="e.g. 6m x 3m" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="facing">Facing</Label>
-                    <Input id="facing" name="facing" placeholder="e.g. North-facing" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dailyRate">Daily Rate (ZAR)</Label>
-                    <Input id="dailyRate" name="dailyRate" type="number" step="0.01" required data-testid="input-daily-rate" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="weeklyRate">Weekly Rate (ZAR)</Label>
-                    <Input id="weeklyRate" name="weeklyRate" type="number" step="0.01" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="monthlyRate">Monthly Rate (ZAR)</Label>
-                    <Input id="monthlyRate" name="monthlyRate" type="number" step="0.01" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="trafficCount">Daily Traffic Count</Label>
-                    <Input id="trafficCount" name="trafficCount" type="number" placeholder="e.g. 45000" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="resolution">Resolution (digital only)</Label>
-                    <Input id="resolution" name="resolution" placeholder="e.g. 1920x1080" />
+                    <div className="space-y-2">
+                      <Label htmlFor="region">Region</Label>
+                      <select name="region" required className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm" data-testid="select-region">
+                        <option value="">Select region</option>
+                        {regions.map((r) => (
+                          <option key={r} value={r}>{r}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="location">Location</Label>
+                      <Input id="location" name="location" required placeholder="e.g. N1 Highway, Midrand" data-testid="input-location" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="dimensions">Dimensions</Label>
+                      <Input id="dimensions" name="dimensions" placeholder="e.g. 6m x 3m" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="facing">Facing</Label>
+                      <Input id="facing" name="facing" placeholder="e.g. North-facing" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="dailyRate">Daily Rate (ZAR)</Label>
+                      <Input id="dailyRate" name="dailyRate" type="number" step="0.01" required data-testid="input-daily-rate" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="weeklyRate">Weekly Rate (ZAR)</Label>
+                      <Input id="weeklyRate" name="weeklyRate" type="number" step="0.01" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyRate">Monthly Rate (ZAR)</Label>
+                      <Input id="monthlyRate" name="monthlyRate" type="number" step="0.01" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="trafficCount">Daily Traffic Count</Label>
+                      <Input id="trafficCount" name="trafficCount" type="number" placeholder="e.g. 45000" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="resolution">Resolution (digital only)</Label>
+                      <Input id="resolution" name="resolution" placeholder="e.g. 1920x1080" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Illuminated</Label>
+                      <select name="illuminated" className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm">
+                        <option value="false">No</option>
+                        <option value="true">Yes</option>
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Digital</Label>
+                      <select name="digital" className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm">
+                        <option value="false">No</option>
+                        <option value="true">Yes</option>
+                      </select>
+                    </div>
                   </div>
                   <div className="space-y-2">
-                    <Label>Illuminated</Label>
-                    <select name="illuminated" className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm">
-                      <option value="false">No</option>
-                      <option value="true">Yes</option>
-                    </select>
+                    <Label htmlFor="notes">Notes</Label>
+                    <Input id="notes" name="notes" placeholder="Any additional details" />
                   </div>
-                  <div className="space-y-2">
-                    <Label>Digital</Label>
-                    <select name="digital" className="flex h-10 w-full rounded-md border bg-background px-3 py-2 text-sm">
-                      <option value="false">No</option>
-                      <option value="true">Yes</option>
-                    </select>
+                  <div className="flex justify-end gap-2 pt-2">
+                    <Button type="button" variant="outline" onClick={() => setAddOpen(false)}>Cancel</Button>
+                    <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-screen">
+                      {createMutation.isPending ? "Adding..." : "Add Screen"}
+                    </Button>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
-                  <Input id="notes" name="notes" placeholder="Any additional details" />
-                </div>
-                <div className="flex justify-end gap-2 pt-2">
-                  <Button type="button" variant="outline" onClick={() => setAddOpen(false)}>Cancel</Button>
-                  <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-screen">
-                    {createMutation.isPending ? "Adding..." : "Add Screen"}
-                  </Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
-        )}
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
@@ -525,7 +537,7 @@ export default function InventoryPage() {
                   })()}
                   {canManage && (
                     <Select
-                      value={selectedItem.status}
+                      value={selectedItem.status === "maintenance" ? "maintenance" : "available"}
                       onValueChange={(val) => {
                         updateMutation.mutate({ id: selectedItem.id, data: { status: val } });
                         setSelectedItem({ ...selectedItem, status: val as Inventory["status"] });
@@ -535,10 +547,8 @@ export default function InventoryPage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="available">Available</SelectItem>
-                        <SelectItem value="booked">Booked</SelectItem>
+                        <SelectItem value="available">In Service</SelectItem>
                         <SelectItem value="maintenance">Maintenance</SelectItem>
-                        <SelectItem value="reserved">Reserved</SelectItem>
                       </SelectContent>
                     </Select>
                   )}
@@ -642,8 +652,13 @@ export default function InventoryPage() {
                       </Card>
                     )}
                   </div>
+                  <PricingAdjustments screen={selectedItem} />
                 </div>
 
+                <Separator />
+
+                <BookingCalendar inventoryId={selectedItem.id} />
+
                 {selectedItem.notes && (
                   <>
                     <Separator />
@@ -667,3 +682,190 @@ export default function InventoryPage() {
     </div>
   );
 }
+
+/** Lists a screen's bookings, earliest first. Its current status is derived from these. */
+function BookingCalendar({ inventoryId }: { inventoryId: string }) {
+  const { data: bookings = [], isLoading } = useQuery<Booking[]>({
+    queryKey: [`/api/inventory/${inventoryId}/bookings`],
+  });
+  const upcoming = bookings.filter((b) => b.status !== "rejected");
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Booking Calendar</h3>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading bookings...</p>
+      ) : upcoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-bookings">No bookings for this screen.</p>
+      ) : (
+        <div className="space-y-2">
+          {upcoming.map((b) => (
+            <div key={b.id} className="flex items-center justify-between rounded-md border p-2 text-sm" data-testid={`calendar-booking-${b.id}`}>
+              <span>
+                {b.startDate ? new Date(b.startDate).toLocaleDateString("en-ZA") : "—"} –{" "}
+                {b.endDate ? new Date(b.endDate).toLocaleDateString("en-ZA") : "—"}
+              </span>
+              <Badge variant="outline" className="capitalize">{b.status.replace(/_/g, " ")}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The supplier's discounts and surcharges that apply to a screen — those for
+ * all of the supplier's screens plus any for this screen only. Users who may
+ * manage pricing can add, pause and remove them here.
+ */
+function PricingAdjustments({ screen }: { screen: Inventory }) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [adding, setAdding] = useState(false);
+  const canManage = can("pricing", "create");
+
+  const { data: adjustments = [] } = useQuery<PricingAdjustment[]>({
+    queryKey: ["pricing-adjustments", screen.supplierId],
+    queryFn: () => api.get(`/api/pricing-adjustments?supplierId=${screen.supplierId}`),
+    enabled: can("pricing", "read"),
+  });
+  const applicable = adjustments.filter((a) => !a.inventoryId || a.inventoryId === screen.id);
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["pricing-adjustments"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => api.post("/api/pricing-adjustments", data),
+    onSuccess: () => {
+      onSuccess();
+      setAdding(false);
+      toast({ title: "Adjustment added" });
+    },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Record<string, unknown> }) =>
+      api.patch(`/api/pricing-adjustments/${id}`, data),
+    onSuccess,
+    onError,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/api/pricing-adjustments/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fd = new FormData(e.currentTarget);
+    createMutation.mutate({
+      supplierId: screen.supplierId,
+      inventoryId: fd.get("thisScreenOnly") ? screen.id : null,
+      kind: fd.get("kind"),
+      name: fd.get("name"),
+      percentage: fd.get("percentage"),
+      startDate: fd.get("startDate") || null,
+      endDate: fd.get("endDate") || null,
+      minDays: fd.get("minDays") ? Number(fd.get("minDays")) : null,
+      active: true,
+    });
+  };
+
+  const formatDay = (date: string | Date) => new Date(date).toLocaleDateString("en-ZA");
+
+  if (!can("pricing", "read")) return null;
+
+  return (
+    <div className="space-y-2" data-testid="pricing-adjustments">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">Discounts &amp; Surcharges</p>
+        {canManage && !adding && (
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setAdding(true)} data-testid="button-add-adjustment">
+            <Plus className="mr-1 h-3 w-3" />
+            Add
+          </Button>
+        )}
+      </div>
+      {applicable.length === 0 && !adding && (
+        <p className="text-sm text-muted-foreground">List rates apply; no discounts or surcharges.</p>
+      )}
+      {applicable.map((a) => (
+        <div key={a.id} className="flex items-center justify-between rounded-md border p-2 text-sm" data-testid={`adjustment-${a.id}`}>
+          <div className={a.active ? "" : "text-muted-foreground line-through"}>
+            <p className="font-medium">
+              {a.name}{" "}
+              <span className={a.kind === "discount" ? "text-emerald-700" : "text-amber-700"}>
+                {a.kind === "discount" ? "−" : "+"}{Number(a.percentage)}%
+              </span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {a.inventoryId ? "This screen" : "All supplier screens"}
+              {(a.startDate || a.endDate) && ` · ${a.startDate ? formatDay(a.startDate) : "…"} – ${a.endDate ? formatDay(a.endDate) : "…"}`}
+              {a.minDays && ` · bookings of ${a.minDays}+ days`}
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() => updateMutation.mutate({ id: a.id, data: { active: !a.active } })}
+                data-testid={`button-toggle-adjustment-${a.id}`}
+              >
+                {a.active ? "Pause" : "Resume"}
+              </Button>
+              {can("pricing", "delete") && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => deleteMutation.mutate(a.id)}
+                  data-testid={`button-delete-adjustment-${a.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {adding && (
+        <form onSubmit={handleSubmit} className="space-y-2 rounded-md border p-3" data-testid="form-add-adjustment">
+          <div className="grid grid-cols-2 gap-2">
+            <Input name="name" placeholder="Name, e.g. Festive season" required className="col-span-2 h-8 text-sm" data-testid="input-adjustment-name" />
+            <select name="kind" className="h-8 rounded-md border bg-background px-2 text-sm" data-testid="select-adjustment-kind">
+              <option value="discount">Discount</option>
+              <option value="surcharge">Surcharge</option>
+            </select>
+            <Input name="percentage" type="number" step="0.01" min="0.01" max="100" placeholder="%" required className="h-8 text-sm" data-testid="input-adjustment-percentage" />
+            <div className="space-y-1">
+              <Label className="text-xs">From (optional)</Label>
+              <Input name="startDate" type="date" className="h-8 text-sm" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To (optional)</Label>
+              <Input name="endDate" type="date" className="h-8 text-sm" />
+            </div>
+            <Input name="minDays" type="number" min="1" placeholder="Minimum days (optional)" className="h-8 text-sm" />
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" name="thisScreenOnly" />
+              This screen only
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setAdding(false)}>Cancel</Button>
+            <Button type="submit" size="sm" disabled={createMutation.isPending} data-testid="button-save-adjustment">
+              {createMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
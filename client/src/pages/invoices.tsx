@@ -1,8 +1,13 @@
 /**
  * Invoices and Reporting page. The Invoices tab lists all invoices with campaign/supplier
- * links, amounts in ZAR, status badges, and PDF download. The Reports tab shows financial
- * summary cards (total invoiced, paid, outstanding, overdue), a monthly spend bar chart,
- * and a payment status pie chart.
+ * links, amounts in ZAR, status badges, line details and PDF download; invoices are
+ * generated from a supplier's approved bookings on a campaign, one line per booking, with
+ * 15% VAT. Issued invoices are settled by recording full or partial payments and corrected
+ * only by credit notes reversing some or all of their lines. The Statements tab shows a
+ * supplier's invoices, credit notes and payments with the running balance. The Reports
+ * tab shows financial summary cards (total invoiced, paid, outstanding, overdue), payments
+ * by month, balances by payment status, and each supplier's days-to-pay against the PFMA
+ * 30-day requirement.
  */
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -10,12 +15,17 @@ import { api } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import type { Invoice, Campaign, Supplier } from "@shared/schema";
+import type { Invoice, InvoiceLine, Campaign, Supplier, Payment, CreditNote, CreditNoteLine } from "@shared/schema";
+import { invoiceTotals } from "@shared/invoicing";
+import { invoiceBalance, PFMA_PAYMENT_DAYS, type InvoiceReport, type SupplierStatement } from "@shared/payments";
+import type { InvoiceMatchReport, MatchStatus } from "@shared/invoice-match";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
 } from "@/components/ui/table";
@@ -26,21 +36,50 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, FileDown, FileSpreadsheet, DollarSign, TrendingUp, AlertCircle, Loader2 } from "lucide-react";
+import { Plus, FileDown, FileSpreadsheet, DollarSign, TrendingUp, AlertCircle, Loader2, Eye } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from "recharts";
 
 const statusColors: Record<string, string> = {
   draft: "bg-gray-100 text-gray-700 border-gray-200",
   sent: "bg-blue-50 text-blue-700 border-blue-200",
+  partially_paid: "bg-amber-50 text-amber-700 border-amber-200",
   paid: "bg-green-50 text-green-700 border-green-200",
   overdue: "bg-red-50 text-red-700 border-red-200",
+  cancelled: "bg-slate-100 text-slate-500 border-slate-200 line-through",
 };
 
 const statusLabels: Record<string, string> = {
   draft: "Draft",
   sent: "Sent",
+  partially_paid: "Partially paid",
   paid: "Paid",
   overdue: "Overdue",
+  cancelled: "Cancelled",
+};
+
+const matchColors: Record<MatchStatus, string> = {
+  matched: "bg-green-50 text-green-700 border-green-200",
+  partial: "bg-amber-50 text-amber-700 border-amber-200",
+  exception: "bg-red-50 text-red-700 border-red-200",
+};
+
+const matchLabels: Record<MatchStatus, string> = {
+  matched: "Matched",
+  partial: "Partial",
+  exception: "Exception",
+};
+
+const matchRuleLabels: Record<string, string> = {
+  booking: "Booking",
+  proof: "Proof of flighting",
+  amount: "Amount",
+};
+
+const paymentMethodLabels: Record<string, string> = {
+  eft: "EFT",
+  cheque: "Cheque",
+  card: "Card",
+  other: "Other",
 };
 
 const formatCurrency = (value: string | number | null) => {
@@ -53,24 +92,38 @@ const formatDate = (date: string | Date | null) => {
   return new Date(date).toLocaleDateString("en-ZA");
 };
 
-/** Sample monthly spend data used to render the bar chart on the Reports tab. */
-const monthlySpendData = [
-  { month: "Jul", amount: 245000 },
-  { month: "Aug", amount: 312000 },
-  { month: "Sep", amount: 198000 },
-  { month: "Oct", amount: 425000 },
-  { month: "Nov", amount: 367000 },
-  { month: "Dec", amount: 289000 },
-  { month: "Jan", amount: 410000 },
-  { month: "Feb", amount: 356000 },
-];
-
-/** Sample payment status distribution data used to render the pie chart on the Reports tab. */
-const pieData = [
-  { name: "Paid", value: 1250000, color: "#16a34a" },
-  { name: "Outstanding", value: 480000, color: "#2563eb" },
-  { name: "Overdue", value: 120000, color: "#dc2626" },
-];
+const formatPeriod = (start: string | Date | null, end: string | Date | null) =>
+  start || end ? `${formatDate(start)} – ${formatDate(end)}` : "—";
+
+/** A previewed invoice line, as returned by /api/invoices/billable. */
+type BillableLine = Omit<InvoiceLine, "id" | "invoiceId">;
+
+type InvoiceWithLines = Invoice & { lines: InvoiceLine[] };
+
+type CreditNoteWithLines = CreditNote & { lines: CreditNoteLine[] };
+
+const statementEntryLabels: Record<string, string> = {
+  invoice: "Invoice",
+  credit_note: "Credit note",
+  payment: "Payment",
+};
+
+/**
+ * Refreshes invoice lists, billable previews, the payment report, supplier
+ * statements and the campaign budgets that count invoiced amounts.
+ */
+const invalidateInvoices = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && (
+        key.startsWith("/api/invoices") ||
+        key === "/api/reports/invoices" ||
+        key === "/api/campaigns/budgets" ||
+        query.queryKey[2] === "statement"
+      );
+    },
+  });
 
 export default function InvoicesPage() {
   const { toast } = useToast();
@@ -101,6 +154,7 @@ export default function InvoicesPage() {
         <Tabs defaultValue="invoices">
           <TabsList data-testid="tabs-invoices">
             <TabsTrigger value="invoices" data-testid="tab-invoices">Invoices</TabsTrigger>
+            <TabsTrigger value="statements" data-testid="tab-statements">Statements</TabsTrigger>
             <TabsTrigger value="reports" data-testid="tab-reports">Reports</TabsTrigger>
           </TabsList>
 
@@ -115,8 +169,12 @@ export default function InvoicesPage() {
             />
           </TabsContent>
 
+          <TabsContent value="statements">
+            <StatementsTab suppliers={suppliers} />
+          </TabsContent>
+
           <TabsContent value="reports">
-            <ReportsTab invoices={invoices} />
+            <ReportsTab />
           </TabsContent>
         </Tabs>
       </div>
@@ -124,7 +182,7 @@ export default function InvoicesPage() {
   );
 }
 
-/** Manages the invoice listing table and the create-invoice dialog with campaign/supplier selection. */
+/** Manages the invoice listing table and the generate-invoice dialog, which previews the selected supplier's uninvoiced bookings. */
 function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setDialogOpen }: {
   invoices: Invoice[];
   campaigns: Campaign[];
@@ -134,21 +192,30 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
   setDialogOpen: (v: boolean) => void;
 }) {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [campaignId, setCampaignId] = useState("");
   const [supplierId, setSupplierId] = useState("");
-  const [invoiceNumber, setInvoiceNumber] = useState("");
-  const [amount, setAmount] = useState("");
+  const [excluded, setExcluded] = useState<string[]>([]);
   const [dueDate, setDueDate] = useState("");
 
+  const { data: billable = [], isLoading: billableLoading } = useQuery<BillableLine[]>({
+    queryKey: [`/api/invoices/billable?campaignId=${campaignId}&supplierId=${supplierId}`],
+    enabled: dialogOpen && !!campaignId && !!supplierId,
+  });
+
+  const selectedLines = billable.filter((line) => !excluded.includes(line.bookingId));
+  const totals = invoiceTotals(selectedLines.map((line) => Number(line.amount)));
+
   const createMutation = useMutation({
-    mutationFn: (data: Record<string, unknown>) => api.post<Invoice>("/api/invoices", data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
-      toast({ title: "Invoice created", description: "Invoice has been generated successfully." });
+    mutationFn: (data: Record<string, unknown>) => api.post<InvoiceWithLines>("/api/invoices", data),
+    onSuccess: (invoice) => {
+      invalidateInvoices();
+      toast({ title: "Invoice generated", description: `${invoice.invoiceNumber} for ${formatCurrency(invoice.amount)} incl. VAT.` });
       setDialogOpen(false);
       resetForm();
     },
     onError: (err: Error) => {
+      invalidateInvoices();
       toast({ title: "Error", description: err.message, variant: "destructive" });
     },
   });
@@ -156,46 +223,42 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
   const resetForm = () => {
     setCampaignId("");
     setSupplierId("");
-    setInvoiceNumber("");
-    setAmount("");
+    setExcluded([]);
     setDueDate("");
   };
 
+  const toggleLine = (bookingId: string, included: boolean) => {
+    setExcluded((current) => included ? current.filter((id) => id !== bookingId) : [...current, bookingId]);
+  };
+
   const handleCreate = () => {
-    if (!campaignId || !invoiceNumber || !amount) {
-      toast({ title: "Missing fields", description: "Please fill in all required fields.", variant: "destructive" });
+    if (!campaignId || !supplierId || selectedLines.length === 0) {
+      toast({ title: "Missing fields", description: "Select a campaign, a supplier and at least one booking.", variant: "destructive" });
       return;
     }
     createMutation.mutate({
       campaignId,
-      supplierId: supplierId || null,
-      invoiceNumber,
-      amount,
-      dueDate: dueDate ? new Date(dueDate).toISOString() : null,
-      status: "draft",
-      issuedAt: new Date().toISOString(),
+      supplierId,
+      bookingIds: selectedLines.map((line) => line.bookingId),
+      dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
     });
   };
 
-  const handleDownloadPdf = () => {
-    toast({ title: "Download PDF", description: "PDF download functionality will be connected in production." });
-  };
-
-  const handleExportExcel = () => {
-    toast({ title: "Export to Excel", description: "Excel export functionality will be connected in production." });
-  };
-
   return (
     <div className="space-y-6 mt-4">
       <div className="flex justify-between items-center">
         <h2 className="text-lg font-medium text-slate-800">All Invoices</h2>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={handleExportExcel} data-testid="button-export-excel">
-            <FileSpreadsheet className="h-4 w-4 mr-1" /> Export to Excel
-          </Button>
-          <Button onClick={() => setDialogOpen(true)} data-testid="button-generate-invoice">
-            <Plus className="h-4 w-4 mr-1" /> Generate Invoice
+          <Button variant="outline" asChild data-testid="button-export-excel">
+            <a href="/api/exports/invoices">
+              <FileSpreadsheet className="h-4 w-4 mr-1" /> Export to Excel
+            </a>
           </Button>
+          {can("invoices", "create") && (
+            <Button onClick={() => setDialogOpen(true)} data-testid="button-generate-invoice">
+              <Plus className="h-4 w-4 mr-1" /> Generate Invoice
+            </Button>
+          )}
         </div>
       </div>
 
@@ -214,8 +277,10 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
                   <TableHead>Invoice #</TableHead>
                   <TableHead>Campaign</TableHead>
                   <TableHead>Supplier</TableHead>
-                  <TableHead>Amount</TableHead>
+                  <TableHead>Total (incl. VAT)</TableHead>
+                  <TableHead>Balance</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Match</TableHead>
                   <TableHead>Issued</TableHead>
                   <TableHead>Due Date</TableHead>
                   <TableHead>Actions</TableHead>
@@ -228,17 +293,24 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
                     <TableCell>{campaigns.find((c) => c.id === inv.campaignId)?.name || inv.campaignId}</TableCell>
                     <TableCell>{suppliers.find((s) => s.id === inv.supplierId)?.name || inv.supplierId || "—"}</TableCell>
                     <TableCell>{formatCurrency(inv.amount)}</TableCell>
+                    <TableCell data-testid={`text-invoice-balance-${inv.id}`}>{formatCurrency(invoiceBalance(inv))}</TableCell>
                     <TableCell>
                       <Badge className={statusColors[inv.status] || ""} variant="outline" data-testid={`status-invoice-${inv.id}`}>
                         {statusLabels[inv.status] || inv.status}
                       </Badge>
                     </TableCell>
+                    <TableCell><MatchBadge invoice={inv} /></TableCell>
                     <TableCell>{formatDate(inv.issuedAt)}</TableCell>
                     <TableCell>{formatDate(inv.dueDate)}</TableCell>
                     <TableCell>
-                      <Button variant="ghost" size="sm" onClick={handleDownloadPdf} data-testid={`button-download-pdf-${inv.id}`}>
-                        <FileDown className="h-4 w-4" />
-                      </Button>
+                      <div className="flex gap-1">
+                        <InvoiceDetailsButton invoice={inv} />
+                        <Button variant="ghost" size="sm" asChild data-testid={`button-download-pdf-${inv.id}`}>
+                          <a href={`/api/invoices/${inv.id}/pdf`} title="Download tax invoice PDF">
+                            <FileDown className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -248,60 +320,60 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
         </CardContent>
       </Card>
 
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent>
+      <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-3xl">
           <DialogHeader>
             <DialogTitle>Generate Invoice</DialogTitle>
-            <DialogDescription>Create a new invoice for a campaign booking.</DialogDescription>
+            <DialogDescription>
+              Invoice a supplier's approved bookings on a campaign. The invoice number is allocated automatically.
+            </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label>Campaign *</Label>
-              <Select value={campaignId} onValueChange={setCampaignId}>
-                <SelectTrigger data-testid="select-invoice-campaign">
-                  <SelectValue placeholder="Select campaign" />
-                </SelectTrigger>
-                <SelectContent>
-                  {campaigns.map((c) => (
-                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label>Supplier</Label>
-              <Select value={supplierId} onValueChange={setSupplierId}>
-                <SelectTrigger data-testid="select-invoice-supplier">
-                  <SelectValue placeholder="Select supplier" />
-                </SelectTrigger>
-                <SelectContent>
-                  {suppliers.map((s) => (
-                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="invoice-number">Invoice Number *</Label>
-              <Input
-                id="invoice-number"
-                value={invoiceNumber}
-                onChange={(e) => setInvoiceNumber(e.target.value)}
-                placeholder="INV-2026-001"
-                data-testid="input-invoice-number"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="invoice-amount">Amount (ZAR) *</Label>
-              <Input
-                id="invoice-amount"
-                type="number"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                placeholder="0.00"
-                data-testid="input-invoice-amount"
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Campaign *</Label>
+                <Select value={campaignId} onValueChange={(v) => { setCampaignId(v); setExcluded([]); }}>
+                  <SelectTrigger data-testid="select-invoice-campaign">
+                    <SelectValue placeholder="Select campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaigns.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Supplier *</Label>
+                <Select value={supplierId} onValueChange={(v) => { setSupplierId(v); setExcluded([]); }}>
+                  <SelectTrigger data-testid="select-invoice-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+            {campaignId && supplierId && (
+              billableLoading ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+                </div>
+              ) : billable.length === 0 ? (
+                <p className="text-sm text-slate-500 py-2" data-testid="text-no-billable">
+                  No approved bookings left to invoice for this supplier and campaign.
+                </p>
+              ) : (
+                <InvoiceLinesTable
+                  lines={billable}
+                  totals={totals}
+                  selectable={{ isSelected: (id) => !excluded.includes(id), onToggle: toggleLine }}
+                />
+              )
+            )}
             <div className="space-y-2">
               <Label htmlFor="invoice-due">Due Date</Label>
               <Input
@@ -317,7 +389,7 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
             <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-invoice">
               Cancel
             </Button>
-            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-submit-invoice">
+            <Button onClick={handleCreate} disabled={createMutation.isPending || selectedLines.length === 0} data-testid="button-submit-invoice">
               {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
               Generate
             </Button>
@@ -328,19 +400,682 @@ function InvoicesTab({ invoices, campaigns, suppliers, loading, dialogOpen, setD
   );
 }
 
-/** Displays financial summary cards and visualisation charts (monthly spend bar chart, payment status pie chart). */
-function ReportsTab({ invoices }: { invoices: Invoice[] }) {
-  const totalInvoiced = invoices.reduce((sum, inv) => sum + Number(inv.amount || 0), 0);
-  const totalPaid = invoices.filter((inv) => inv.status === "paid").reduce((sum, inv) => sum + Number(inv.amount || 0), 0);
-  const outstanding = invoices.filter((inv) => inv.status === "sent" || inv.status === "draft").reduce((sum, inv) => sum + Number(inv.amount || 0), 0);
-  const overdueCount = invoices.filter((inv) => inv.status === "overdue").length;
+/** Invoice lines (site, period, days, daily rate, amount) with subtotal, VAT and total; optionally with a checkbox per line. */
+function InvoiceLinesTable({ lines, totals, selectable }: {
+  lines: BillableLine[];
+  totals: { subtotal: number; vat: number; total: number };
+  selectable?: { isSelected: (bookingId: string) => boolean; onToggle: (bookingId: string, included: boolean) => void };
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {selectable && <TableHead className="w-8" />}
+          <TableHead>Site</TableHead>
+          <TableHead>Period</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead className="text-right">Daily Rate</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line) => (
+          <TableRow key={line.bookingId} data-testid={`row-invoice-line-${line.bookingId}`}>
+            {selectable && (
+              <TableCell>
+                <Checkbox
+                  checked={selectable.isSelected(line.bookingId)}
+                  onCheckedChange={(checked) => selectable.onToggle(line.bookingId, checked === true)}
+                  data-testid={`checkbox-invoice-line-${line.bookingId}`}
+                />
+              </TableCell>
+            )}
+            <TableCell className="font-medium">{line.description}</TableCell>
+            <TableCell>{formatPeriod(line.periodStart, line.periodEnd)}</TableCell>
+            <TableCell className="text-right">{line.units}</TableCell>
+            <TableCell className="text-right">{formatCurrency(line.unitPrice)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+          </TableRow>
+        ))}
+        <TableRow>
+          <TableCell colSpan={selectable ? 5 : 4} className="text-right text-slate-500">Subtotal</TableCell>
+          <TableCell className="text-right" data-testid="text-invoice-subtotal">{formatCurrency(totals.subtotal)}</TableCell>
+        </TableRow>
+        <TableRow>
+          <TableCell colSpan={selectable ? 5 : 4} className="text-right text-slate-500">VAT (15%)</TableCell>
+          <TableCell className="text-right" data-testid="text-invoice-vat">{formatCurrency(totals.vat)}</TableCell>
+        </TableRow>
+        <TableRow>
+          <TableCell colSpan={selectable ? 5 : 4} className="text-right font-medium">Total</TableCell>
+          <TableCell className="text-right font-semibold" data-testid="text-invoice-total">{formatCurrency(totals.total)}</TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+}
+
+/** Opens an invoice's lines and totals. */
+function InvoiceDetailsButton({ invoice }: { invoice: Invoice }) {
+  const [open, setOpen] = useState(false);
+  const { data: details, isLoading } = useQuery<InvoiceWithLines>({
+    queryKey: ["/api/invoices", invoice.id],
+    enabled: open,
+  });
+
+  const totals = {
+    subtotal: Number(invoice.subtotal ?? invoice.amount),
+    vat: Number(invoice.vatAmount ?? 0),
+    total: Number(invoice.amount),
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => setOpen(true)} data-testid={`button-view-invoice-${invoice.id}`}>
+        <Eye className="h-4 w-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{invoice.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              Issued {formatDate(invoice.issuedAt)}, due {formatDate(invoice.dueDate)}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading || !details ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : details.lines.length === 0 ? (
+            <p className="text-sm text-slate-500 py-2">This invoice was captured without line items. Total: {formatCurrency(invoice.amount)}</p>
+          ) : (
+            <InvoiceLinesTable lines={details.lines} totals={totals} />
+          )}
+          <InvoiceMatchPanel invoice={invoice} />
+          <InvoicePaymentsPanel invoice={invoice} />
+          {details && <InvoiceCreditNotesPanel invoice={invoice} lines={details.lines} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+/** The invoice's three-way match status, marked when a finance officer has overridden an exception. */
+function MatchBadge({ invoice }: { invoice: Invoice }) {
+  const status = invoice.matchStatus as MatchStatus | null;
+  if (!status) return <span className="text-slate-400">—</span>;
+  return (
+    <Badge variant="outline" className={matchColors[status]} data-testid={`status-match-${invoice.id}`}>
+      {matchLabels[status]}{status === "exception" && invoice.matchOverriddenAt ? " (overridden)" : ""}
+    </Badge>
+  );
+}
+
+/**
+ * The three-way match report with the invoice's status actions. Payments are
+ * refused while the invoice has unresolved exceptions; a finance officer can
+ * record an override with a reason.
+ */
+function InvoiceMatchPanel({ invoice }: { invoice: Invoice }) {
+  const { toast } = useToast();
+  const { can, hasRole } = useAuth();
+  const [overriding, setOverriding] = useState(false);
+  const [reason, setReason] = useState("");
+  const report = invoice.matchReport as InvoiceMatchReport | null;
+  const canUpdate = can("invoices", "update");
+
+  const onError = (err: Error) => {
+    invalidateInvoices();
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const matchMutation = useMutation({
+    mutationFn: () => api.post<Invoice>(`/api/invoices/${invoice.id}/match`, {}),
+    onSuccess: () => invalidateInvoices(),
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (status: string) => api.patch<Invoice>(`/api/invoices/${invoice.id}`, { status }),
+    onSuccess: (updated) => {
+      invalidateInvoices();
+      toast({ title: "Invoice updated", description: `${updated.invoiceNumber} is now ${statusLabels[updated.status] ?? updated.status}.` });
+    },
+    onError,
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: () => api.post<Invoice>(`/api/invoices/${invoice.id}/match/override`, { reason }),
+    onSuccess: () => {
+      invalidateInvoices();
+      setOverriding(false);
+      setReason("");
+      toast({ title: "Override recorded", description: "Payments can now be recorded against the invoice." });
+    },
+    onError,
+  });
+
+  const needsOverride = invoice.matchStatus === "exception" && !invoice.matchOverriddenAt;
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="panel-invoice-match">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-slate-700">Three-way match</span>
+          <MatchBadge invoice={invoice} />
+          {report && <span className="text-xs text-slate-400">checked {new Date(report.checkedAt).toLocaleString("en-ZA")}</span>}
+        </div>
+        {canUpdate && (
+          <Button variant="outline" size="sm" onClick={() => matchMutation.mutate()} disabled={matchMutation.isPending} data-testid="button-run-match">
+            {matchMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+            Re-run match
+          </Button>
+        )}
+      </div>
+
+      {report && report.lines.length > 0 && (
+        <div className="space-y-2">
+          {report.lines.map((line) => (
+            <div key={line.lineId} className="rounded border p-2 text-sm" data-testid={`match-line-${line.lineId}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{line.description}</span>
+                <Badge variant="outline" className={matchColors[line.status]}>{matchLabels[line.status]}</Badge>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {line.checks.map((check) => (
+                  <li key={check.rule} className={check.status === "matched" ? "text-slate-500" : check.status === "partial" ? "text-amber-700" : "text-red-700"}>
+                    {matchRuleLabels[check.rule] ?? check.rule}: {check.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+      {report && report.lines.length === 0 && (
+        <p className="text-sm text-red-700">{report.reasons.join("; ")}</p>
+      )}
+
+      {invoice.matchOverriddenAt && (
+        <p className="text-sm text-slate-600" data-testid="text-match-override">
+          Overridden {new Date(invoice.matchOverriddenAt).toLocaleString("en-ZA")}: {invoice.matchOverrideReason}
+        </p>
+      )}
+
+      {overriding && (
+        <div className="space-y-2">
+          <Label htmlFor="override-reason">Reason for paying despite the exceptions *</Label>
+          <Textarea
+            id="override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-override-reason"
+          />
+        </div>
+      )}
+
+      {canUpdate && (
+        <div className="flex justify-end gap-2">
+          {needsOverride && hasRole("finance_officer") && (
+            overriding ? (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setOverriding(false)}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => overrideMutation.mutate()}
+                  disabled={!reason.trim() || overrideMutation.isPending}
+                  data-testid="button-confirm-override"
+                >
+                  Record override
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setOverriding(true)} data-testid="button-override-match">
+                Override exceptions
+              </Button>
+            )
+          )}
+          {invoice.status === "draft" && (
+            <Button size="sm" variant="outline" onClick={() => statusMutation.mutate("sent")} disabled={statusMutation.isPending} data-testid="button-mark-sent">
+              Mark as sent
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Payments recorded against the invoice, with a form to record a full or
+ * partial payment once it is issued. The amount defaults to the balance.
+ */
+function InvoicePaymentsPanel({ invoice }: { invoice: Invoice }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const balance = invoiceBalance(invoice);
+  const [recording, setRecording] = useState(false);
+  const [paidOn, setPaidOn] = useState(today);
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+  const [method, setMethod] = useState("eft");
+  const { data: payments = [], isLoading } = useQuery<Payment[]>({
+    queryKey: ["/api/invoices", invoice.id, "payments"],
+  });
+
+  const needsOverride = invoice.matchStatus === "exception" && !invoice.matchOverriddenAt;
+  const canRecord = can("invoices", "update") && invoice.status !== "draft" && balance > 0;
+
+  const startRecording = () => {
+    setPaidOn(today());
+    setAmount(balance.toFixed(2));
+    setReference("");
+    setMethod("eft");
+    setRecording(true);
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: () => api.post<{ invoice: Invoice; payment: Payment }>(`/api/invoices/${invoice.id}/payments`, {
+      paidOn, amount, reference, method,
+    }),
+    onSuccess: ({ invoice: updated, payment }) => {
+      invalidateInvoices();
+      setRecording(false);
+      toast({
+        title: "Payment recorded",
+        description: `${formatCurrency(payment.amount)} against ${updated.invoiceNumber}; it is now ${statusLabels[updated.status] ?? updated.status}.`,
+      });
+    },
+    onError: (err: Error) => {
+      invalidateInvoices();
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="panel-invoice-payments">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          <span className="font-medium text-slate-700">Payments</span>
+          <span className="ml-2 text-slate-500">
+            Paid {formatCurrency(invoice.amountPaid)} of {formatCurrency(invoice.amount)}, balance {formatCurrency(balance)}
+          </span>
+        </div>
+        {canRecord && !recording && (
+          <Button
+            size="sm"
+            onClick={startRecording}
+            disabled={needsOverride}
+            title={needsOverride ? "Resolve or override the match exceptions first" : undefined}
+            data-testid="button-record-payment"
+          >
+            Record payment
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-slate-500">No payments recorded.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.map((p) => (
+              <TableRow key={p.id} data-testid={`row-payment-${p.id}`}>
+                <TableCell>{formatDate(p.paidOn)}</TableCell>
+                <TableCell>{p.reference}</TableCell>
+                <TableCell>{paymentMethodLabels[p.method] ?? p.method}</TableCell>
+                <TableCell className="text-right">{formatCurrency(p.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {recording && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="payment-date">Date paid *</Label>
+              <Input id="payment-date" type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} data-testid="input-payment-date" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-amount">Amount (R) *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-payment-amount"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-reference">Reference *</Label>
+              <Input id="payment-reference" value={reference} onChange={(e) => setReference(e.target.value)} data-testid="input-payment-reference" />
+            </div>
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger data-testid="select-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setRecording(false)}>Cancel</Button>
+            <Button
+              size="sm"
+              onClick={() => paymentMutation.mutate()}
+              disabled={!paidOn || !(Number(amount) > 0) || !reference.trim() || paymentMutation.isPending}
+              data-testid="button-submit-payment"
+            >
+              {paymentMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+              Record
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Credit notes issued against the invoice, with a form to reverse part or
+ * all of its lines. Each selected line defaults to crediting what is left of
+ * it; crediting every line in full cancels the invoice.
+ */
+function InvoiceCreditNotesPanel({ invoice, lines }: { invoice: Invoice; lines: InvoiceLine[] }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [crediting, setCrediting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const { data: notes = [], isLoading } = useQuery<CreditNoteWithLines[]>({
+    queryKey: ["/api/invoices", invoice.id, "credit-notes"],
+  });
+
+  const remainingOf = (line: InvoiceLine) => {
+    const credited = notes.flatMap((n) => n.lines).filter((l) => l.invoiceLineId === line.id)
+      .reduce((sum, l) => sum + Number(l.amount), 0);
+    return Math.round((Number(line.amount) - credited) * 100) / 100;
+  };
+  const creditable = lines.filter((line) => remainingOf(line) > 0);
+  const canCredit = can("invoices", "create") && invoice.status !== "draft" && creditable.length > 0;
+  const selected = creditable.filter((line) => amounts[line.id] !== undefined);
+  const totals = invoiceTotals(selected.map((line) => Number(amounts[line.id]) || 0));
 
+  const toggleLine = (line: InvoiceLine, checked: boolean) =>
+    setAmounts((current) => {
+      const { [line.id]: _removed, ...rest } = current;
+      return checked ? { ...rest, [line.id]: remainingOf(line).toFixed(2) } : rest;
+    });
+
+  const creditAll = () =>
+    setAmounts(Object.fromEntries(creditable.map((line) => [line.id, remainingOf(line).toFixed(2)])));
+
+  const close = () => {
+    setCrediting(false);
+    setReason("");
+    setAmounts({});
+  };
+
+  const creditMutation = useMutation({
+    mutationFn: () => api.post<CreditNoteWithLines & { invoice: Invoice }>(`/api/invoices/${invoice.id}/credit-notes`, {
+      reason,
+      // A line credited in full is sent without an amount so the server credits exactly what is left.
+      lines: selected.map((line) => (
+        Number(amounts[line.id]) === remainingOf(line)
+          ? { invoiceLineId: line.id }
+          : { invoiceLineId: line.id, amount: amounts[line.id] }
+      )),
+    }),
+    onSuccess: (note) => {
+      invalidateInvoices();
+      close();
+      toast({
+        title: "Credit note issued",
+        description: `${note.creditNoteNumber} credits ${formatCurrency(note.amount)}; ${note.invoice.invoiceNumber} is now ${statusLabels[note.invoice.status] ?? note.invoice.status}.`,
+      });
+    },
+    onError: (err: Error) => {
+      invalidateInvoices();
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const valid = selected.length > 0 && !!reason.trim() &&
+    selected.every((line) => Number(amounts[line.id]) > 0 && Number(amounts[line.id]) <= remainingOf(line));
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="panel-invoice-credit-notes">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          <span className="font-medium text-slate-700">Credit notes</span>
+          {Number(invoice.amountCredited) > 0 && (
+            <span className="ml-2 text-slate-500">Credited {formatCurrency(invoice.amountCredited)}</span>
+          )}
+        </div>
+        {canCredit && !crediting && (
+          <Button size="sm" variant="outline" onClick={() => setCrediting(true)} data-testid="button-issue-credit-note">
+            Issue credit note
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-slate-500">No credit notes issued.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Number</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Lines</TableHead>
+              <TableHead className="text-right">Amount (incl. VAT)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {notes.map((note) => (
+              <TableRow key={note.id} data-testid={`row-credit-note-${note.id}`}>
+                <TableCell className="font-medium">{note.creditNoteNumber}</TableCell>
+                <TableCell>{formatDate(note.issuedAt)}</TableCell>
+                <TableCell>{note.reason}</TableCell>
+                <TableCell className="text-xs text-slate-500">
+                  {note.lines.map((l) => `${l.description} (${formatCurrency(l.amount)})`).join("; ")}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(note.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {crediting && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Lines to credit (excl. VAT)</Label>
+            <Button variant="link" size="sm" onClick={creditAll} data-testid="button-credit-all">
+              Credit the whole invoice
+            </Button>
+          </div>
+          {creditable.map((line) => (
+            <div key={line.id} className="flex items-center gap-3 text-sm" data-testid={`credit-line-${line.id}`}>
+              <Checkbox
+                checked={amounts[line.id] !== undefined}
+                onCheckedChange={(checked) => toggleLine(line, checked === true)}
+              />
+              <span className="flex-1">{line.description}</span>
+              <span className="text-slate-500">of {formatCurrency(remainingOf(line))}</span>
+              <Input
+                className="w-32"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={remainingOf(line)}
+                disabled={amounts[line.id] === undefined}
+                value={amounts[line.id] ?? ""}
+                onChange={(e) => setAmounts((current) => ({ ...current, [line.id]: e.target.value }))}
+                data-testid={`input-credit-amount-${line.id}`}
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="credit-reason">Reason *</Label>
+            <Textarea id="credit-reason" value={reason} onChange={(e) => setReason(e.target.value)} data-testid="input-credit-reason" />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-500">
+              {formatCurrency(totals.subtotal)} + VAT {formatCurrency(totals.vat)} = {formatCurrency(totals.total)}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={close}>Cancel</Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => creditMutation.mutate()}
+                disabled={!valid || creditMutation.isPending}
+                data-testid="button-submit-credit-note"
+              >
+                {creditMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+                Issue credit note
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** A supplier's invoices, credit notes and payments in date order with the running balance owed. */
+function StatementsTab({ suppliers }: { suppliers: Supplier[] }) {
+  const [supplierId, setSupplierId] = useState("");
+  const { data: statement, isLoading } = useQuery<SupplierStatement>({
+    queryKey: ["/api/suppliers", supplierId, "statement"],
+    enabled: !!supplierId,
+  });
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Supplier Statement</CardTitle>
+        <Select value={supplierId} onValueChange={setSupplierId}>
+          <SelectTrigger className="w-64" data-testid="select-statement-supplier">
+            <SelectValue placeholder="Select supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            {suppliers.map((s) => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {!supplierId ? (
+          <p className="text-center py-8 text-slate-500">Select a supplier to see their statement.</p>
+        ) : isLoading || !statement ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : statement.entries.length === 0 ? (
+          <p className="text-center py-8 text-slate-500" data-testid="text-empty-statement">No invoices issued to this supplier yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+              <div><p className="text-slate-500">Invoiced</p><p className="font-semibold">{formatCurrency(statement.totals.invoiced)}</p></div>
+              <div><p className="text-slate-500">Credited</p><p className="font-semibold">{formatCurrency(statement.totals.credited)}</p></div>
+              <div><p className="text-slate-500">Paid</p><p className="font-semibold">{formatCurrency(statement.totals.paid)}</p></div>
+              <div><p className="text-slate-500">Balance owed</p><p className="font-semibold" data-testid="text-statement-balance">{formatCurrency(statement.totals.balance)}</p></div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.entries.map((entry, index) => (
+                  <TableRow key={`${entry.type}-${entry.reference}-${index}`}>
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell>{statementEntryLabels[entry.type] ?? entry.type}</TableCell>
+                    <TableCell className="font-medium">{entry.reference}</TableCell>
+                    <TableCell className="text-slate-600">{entry.description}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-ZA", { month: "short", year: "2-digit", timeZone: "UTC" });
+
+/**
+ * Financial summary cards, payments by month, balances by payment status, and
+ * each supplier's days-to-pay against the PFMA 30-day requirement.
+ */
+function ReportsTab() {
+  const { data: report, isLoading } = useQuery<InvoiceReport>({
+    queryKey: ["/api/reports/invoices"],
+  });
+
+  if (isLoading || !report) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const { totals } = report;
   const summaryCards = [
-    { title: "Total Invoiced", value: formatCurrency(totalInvoiced), icon: DollarSign, color: "text-slate-700" },
-    { title: "Total Paid", value: formatCurrency(totalPaid), icon: TrendingUp, color: "text-green-600" },
-    { title: "Outstanding", value: formatCurrency(outstanding), icon: DollarSign, color: "text-blue-600" },
-    { title: "Overdue Count", value: overdueCount.toString(), icon: AlertCircle, color: "text-red-600" },
+    { title: "Total Invoiced", value: formatCurrency(totals.invoiced), icon: DollarSign, color: "text-slate-700" },
+    { title: "Total Paid", value: formatCurrency(totals.paid), icon: TrendingUp, color: "text-green-600" },
+    { title: "Outstanding", value: formatCurrency(totals.outstanding), icon: DollarSign, color: "text-blue-600" },
+    { title: "Overdue Count", value: totals.overdueCount.toString(), icon: AlertCircle, color: "text-red-600" },
   ];
+  const monthlySpendData = report.monthlySpend.map((m) => ({ month: monthLabel(m.month), amount: m.amount }));
+  const pieData = [
+    { name: "Paid", value: totals.paid, color: "#16a34a" },
+    { name: "Outstanding", value: Math.round((totals.outstanding - totals.overdue) * 100) / 100, color: "#2563eb" },
+    { name: "Overdue", value: totals.overdue, color: "#dc2626" },
+  ].filter((entry) => entry.value > 0);
 
   return (
     <div className="space-y-6 mt-4">
@@ -385,28 +1120,73 @@ function ReportsTab({ invoices }: { invoices: Invoice[] }) {
             <CardTitle className="text-base">Payment Status Distribution</CardTitle>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <PieChart>
-                <Pie
-                  data={pieData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={60}
-                  outerRadius={100}
-                  paddingAngle={2}
-                  dataKey="value"
-                >
-                  {pieData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
-                  ))}
-                </Pie>
-                <Tooltip formatter={(value: number) => formatCurrency(value)} />
-                <Legend />
-              </PieChart>
-            </ResponsiveContainer>
+            {pieData.length === 0 ? (
+              <p className="text-center py-8 text-slate-500">No invoices issued yet.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie
+                    data={pieData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={60}
+                    outerRadius={100}
+                    paddingAngle={2}
+                    dataKey="value"
+                  >
+                    {pieData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">PFMA Payment Compliance</CardTitle>
+          <p className="text-sm text-slate-500">Days from invoice to final payment; suppliers must be paid within {PFMA_PAYMENT_DAYS} days.</p>
+        </CardHeader>
+        <CardContent>
+          {report.paymentCompliance.length === 0 ? (
+            <p className="text-center py-4 text-slate-500">No invoices issued yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Paid Invoices</TableHead>
+                  <TableHead className="text-right">Average Days to Pay</TableHead>
+                  <TableHead className="text-right">Within {PFMA_PAYMENT_DAYS} Days</TableHead>
+                  <TableHead className="text-right">Paid Late</TableHead>
+                  <TableHead className="text-right">Unpaid Past {PFMA_PAYMENT_DAYS} Days</TableHead>
+                  <TableHead className="text-right">Compliance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.paymentCompliance.map((row) => (
+                  <TableRow key={row.supplierId} data-testid={`row-pfma-${row.supplierId}`}>
+                    <TableCell className="font-medium">{row.supplierName}</TableCell>
+                    <TableCell className="text-right">{row.paidInvoices}</TableCell>
+                    <TableCell className="text-right">{row.averageDaysToPay ?? "—"}</TableCell>
+                    <TableCell className="text-right">{row.paidWithinTerms}</TableCell>
+                    <TableCell className={`text-right ${row.paidLate > 0 ? "text-red-700" : ""}`}>{row.paidLate}</TableCell>
+                    <TableCell className={`text-right ${row.unpaidPastTerms > 0 ? "text-red-700" : ""}`}>{row.unpaidPastTerms}</TableCell>
+                    <TableCell className="text-right">
+                      {row.complianceRate == null ? "—" : `${Math.round(row.complianceRate * 100)}%`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -1,32 +1,62 @@
 /**
  * @fileoverview Login page for the OOH Booking System. Displays a centered
- * sign-in form with username/password fields. On successful authentication,
- * redirects to the dashboard.
+ * sign-in form with username/password fields and, when the server has OpenID
+ * Connect configured, a single sign-on button. On successful authentication,
+ * redirects to the dashboard. Errors from a failed single sign-on attempt are
+ * passed back in the ?error= query parameter and shown above the form.
+ * When the account requires a second factor, the form is replaced by a TOTP
+ * verification step, or by TOTP enrolment if the user has not enrolled yet.
  */
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { useAuth } from "@/hooks/use-auth";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth, type LoginOutcome } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { MfaEnrollment } from "@/components/mfa-enrollment";
+
+/** Single sign-on availability as reported by GET /api/auth/oidc/config. */
+interface OidcStatus {
+  enabled: boolean;
+  displayName?: string;
+}
 
 export default function LoginPage() {
   const [, setLocation] = useLocation();
-  const { login } = useAuth();
+  const { login, verifyMfa, refreshUser } = useAuth();
+  const [step, setStep] = useState<LoginOutcome | "credentials">("credentials");
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  const [error, setError] = useState(() => new URLSearchParams(window.location.search).get("error") || "");
   const [loading, setLoading] = useState(false);
 
-  /** Submits login credentials via the auth context and redirects to the dashboard on success. */
+  const { data: oidc } = useQuery<OidcStatus>({
+    queryKey: ["/api/auth/oidc/config"],
+    queryFn: () => api.get("/api/auth/oidc/config"),
+  });
+
+  /**
+   * Submits login credentials via the auth context. Redirects to the dashboard
+   * on success, or moves on to the MFA step the server asked for.
+   */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setLoading(true);
     try {
-      await login(username, password);
-      setLocation("/");
+      const outcome = await login(username, password);
+      if (outcome === "authenticated") {
+        setLocation("/");
+      } else {
+        setStep(outcome);
+      }
     } catch (err: any) {
       setError(err.message || "Login failed. Please check your credentials.");
     } finally {
@@ -34,6 +64,31 @@ export default function LoginPage() {
     }
   };
 
+  /** Submits the TOTP or recovery code for a pending login. */
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      await verifyMfa(useRecoveryCode ? { recoveryCode: mfaCode } : { code: mfaCode });
+      setLocation("/");
+    } catch (err: any) {
+      setError(err.message || "Verification failed.");
+      setMfaCode("");
+      if (err.message?.startsWith("Too many")) {
+        setStep("credentials");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Signs the user in once enrolment has established the session. */
+  const handleEnrollmentComplete = async () => {
+    await refreshUser();
+    setLocation("/");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50">
       <div className="w-full max-w-md px-4">
@@ -49,58 +104,153 @@ export default function LoginPage() {
           </p>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Sign In</CardTitle>
-            <CardDescription>Enter your credentials to access the platform</CardDescription>
-          </CardHeader>
-          <form onSubmit={handleSubmit}>
-            <CardContent className="space-y-4">
-              {error && (
-                <div
-                  className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3"
-                  data-testid="text-error"
-                >
-                  {error}
+        {step === "credentials" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Sign In</CardTitle>
+              <CardDescription>Enter your credentials to access the platform</CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <div
+                    className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3"
+                    data-testid="text-error"
+                  >
+                    {error}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="Enter your username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    data-testid="input-username"
+                  />
                 </div>
-              )}
-              <div className="space-y-2">
-                <Label htmlFor="username">Username</Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="Enter your username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
-                  data-testid="input-username"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  data-testid="input-password"
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-password"
+                  />
+                </div>
+              </CardContent>
+              <CardFooter className="flex flex-col gap-4">
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loading || !username || !password}
+                  data-testid="button-login"
+                >
+                  {loading ? "Signing in..." : "Sign In"}
+                </Button>
+                {oidc?.enabled && (
+                  <>
+                    <div className="flex w-full items-center gap-3">
+                      <Separator className="flex-1" />
+                      <span className="text-xs text-slate-400">or</span>
+                      <Separator className="flex-1" />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => { window.location.href = "/api/auth/oidc/login"; }}
+                      data-testid="button-login-sso"
+                    >
+                      Sign in with {oidc.displayName}
+                    </Button>
+                  </>
+                )}
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+
+        {step === "mfa_verify" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Two-Step Verification</CardTitle>
+              <CardDescription>
+                {useRecoveryCode
+                  ? "Enter one of your recovery codes"
+                  : "Enter the 6-digit code from your authenticator app"}
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleVerify}>
+              <CardContent className="space-y-4">
+                  {error && (
+                    <div
+                      className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3"
+                      data-testid="text-error"
+                    >
+                      {error}
+                    </div>
+                  )}
+                {useRecoveryCode ? (
+                  <Input
+                    placeholder="XXXX-XXXX-XXXX-XXXX"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    data-testid="input-recovery-code"
+                  />
+                ) : (
+                  <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode} data-testid="input-mfa-code">
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, i) => (
+                        <InputOTPSlot key={i} index={i} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                )}
+              </CardContent>
+              <CardFooter className="flex flex-col gap-2">
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loading || (!useRecoveryCode && mfaCode.length !== 6) || !mfaCode}
+                  data-testid="button-verify-mfa"
+                >
+                  {loading ? "Verifying..." : "Verify"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setMfaCode("");
+                  }}
+                  data-testid="button-toggle-recovery"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+
+        {step === "mfa_enroll" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Set Up Two-Step Verification</CardTitle>
+              <CardDescription>Your role requires an authenticator app to sign in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MfaEnrollment onComplete={handleEnrollmentComplete} />
             </CardContent>
-            <CardFooter className="flex flex-col gap-4">
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={loading || !username || !password}
-                data-testid="button-login"
-              >
-                {loading ? "Signing in..." : "Sign In"}
-              </Button>
-            </CardFooter>
-          </form>
-        </Card>
+          </Card>
+        )}
 
         <p className="text-center text-xs text-slate-400 mt-6" data-testid="text-security-footer">
           Secured by Azure Entra ID
@@ -0,0 +1,339 @@
+/**
+ * @fileoverview Supplier bookings inbox. Lists the bookings government
+ * planners have made with the signed-in user's supplier and lets the supplier
+ * accept one, decline it with a reason, or counter-offer another of its
+ * screens, other dates or another price. Each booking shows its negotiation
+ * history; the planner is notified of every response.
+ */
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, BookingNegotiation, Campaign, Inventory } from "@shared/schema";
+import { canNegotiate, type NegotiationAction } from "@shared/booking-negotiation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Check, X, ArrowLeftRight, History } from "lucide-react";
+
+/** A booking in the inbox with its negotiation history, oldest step first. */
+type InboxBooking = Booking & { negotiations: BookingNegotiation[] };
+
+/** Tailwind CSS classes for each supplier response badge. */
+export const responseColors: Record<string, string> = {
+  awaiting: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  accepted: "bg-green-50 text-green-700 border-green-200",
+  declined: "bg-red-50 text-red-700 border-red-200",
+  countered: "bg-blue-50 text-blue-700 border-blue-200",
+};
+
+/** Human-readable labels for each supplier response. */
+export const responseLabels: Record<string, string> = {
+  awaiting: "Awaiting Response",
+  accepted: "Accepted",
+  declined: "Declined",
+  countered: "Counter-offer",
+};
+
+/** Human-readable labels for each negotiation step, as shown in the history. */
+export const negotiationActionLabels: Record<NegotiationAction, string> = {
+  accept: "Supplier accepted",
+  decline: "Supplier declined",
+  counter: "Supplier counter-offered",
+  accept_counter: "Planner accepted counter-offer",
+  reject_counter: "Planner rejected counter-offer",
+};
+
+const formatCurrency = (value: string | number | null) => {
+  if (!value) return "—";
+  return new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(value));
+};
+
+const formatDate = (date: string | Date | null) => {
+  if (!date) return "—";
+  return new Date(date).toLocaleDateString("en-ZA");
+};
+
+/** The date part of a date for a date input. */
+const inputDate = (date: string | Date | null) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+/** A booking's negotiation history, with what each counter-offer proposed. */
+export function NegotiationHistory({
+  negotiations,
+  screenName,
+}: {
+  negotiations: BookingNegotiation[];
+  screenName: (inventoryId: string) => string;
+}) {
+  if (negotiations.length === 0) {
+    return <p className="text-sm text-slate-500">No responses yet.</p>;
+  }
+  return (
+    <ol className="space-y-2" data-testid="negotiation-history">
+      {negotiations.map((entry) => (
+        <li key={entry.id} className="rounded-md border bg-slate-50 p-2 text-sm">
+          <div className="flex justify-between">
+            <span className="font-medium">{negotiationActionLabels[entry.action]}</span>
+            <span className="text-slate-500">{new Date(entry.createdAt).toLocaleString("en-ZA")}</span>
+          </div>
+          {entry.action === "counter" && (
+            <ul className="mt-1 text-slate-600">
+              {entry.proposedInventoryId && <li>Screen: {screenName(entry.proposedInventoryId)}</li>}
+              {(entry.proposedStartDate || entry.proposedEndDate) && (
+                <li>Dates: {formatDate(entry.proposedStartDate)} – {formatDate(entry.proposedEndDate)}</li>
+              )}
+              <li>Price: {formatCurrency(entry.proposedCost)} excl. VAT</li>
+            </ul>
+          )}
+          {entry.comment && <p className="mt-1 text-slate-600">"{entry.comment}"</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default function SupplierInboxPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [selected, setSelected] = useState<InboxBooking | null>(null);
+  const [dialog, setDialog] = useState<"decline" | "counter" | "history" | null>(null);
+  const [reason, setReason] = useState("");
+  const [counter, setCounter] = useState({ inventoryId: "", startDate: "", endDate: "", cost: "", comment: "" });
+
+  const { data: bookings, isLoading } = useQuery<InboxBooking[]>({
+    queryKey: ["/api/supplier/bookings"],
+  });
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: screens } = useQuery<Inventory[]>({
+    queryKey: ["/api/inventory"],
+  });
+
+  const campaignMap = new Map((campaigns ?? []).map((c) => [c.id, c.name]));
+  const screenMap = new Map((screens ?? []).map((s) => [s.id, s.screenName]));
+  /** The supplier's own screens that can be offered instead. */
+  const ownScreens = (screens ?? []).filter((s) => s.active && s.supplierId === user?.supplierId);
+
+  const respondMutation = useMutation({
+    mutationFn: ({ booking, step, body }: { booking: Booking; step: string; body: Record<string, unknown> }) =>
+      api.post<Booking>(`/api/bookings/${booking.id}/${step}`, body),
+    onSuccess: (_booking, { step }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      closeDialog();
+      toast({ title: step === "accept" ? "Booking accepted" : step === "decline" ? "Booking declined" : "Counter-offer sent" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to respond to booking", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    setReason("");
+    setCounter({ inventoryId: "", startDate: "", endDate: "", cost: "", comment: "" });
+  };
+
+  const openDialog = (booking: InboxBooking, kind: "decline" | "counter" | "history") => {
+    setSelected(booking);
+    if (kind === "counter") {
+      setCounter({
+        inventoryId: booking.inventoryId ?? "",
+        startDate: inputDate(booking.startDate),
+        endDate: inputDate(booking.endDate),
+        cost: "",
+        comment: "",
+      });
+    }
+    setDialog(kind);
+  };
+
+  /** Sends only what the counter-offer changes; an empty price is quoted from the rate card. */
+  const submitCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const body: Record<string, unknown> = { comment: counter.comment || undefined };
+    if (counter.inventoryId && counter.inventoryId !== selected.inventoryId) body.inventoryId = counter.inventoryId;
+    if (counter.startDate && counter.startDate !== inputDate(selected.startDate)) body.startDate = counter.startDate;
+    if (counter.endDate && counter.endDate !== inputDate(selected.endDate)) body.endDate = counter.endDate;
+    if (counter.cost) body.cost = Number(counter.cost);
+    respondMutation.mutate({ booking: selected, step: "counter-offer", body });
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Bookings Inbox</h1>
+        <p className="text-slate-500 mt-1">Accept, decline or counter-offer bookings made with you</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-8 text-center text-sm text-slate-500">Loading bookings...</div>
+          ) : !bookings || bookings.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500" data-testid="text-inbox-empty">
+              No bookings have been made with you yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Cost</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bookings.map((booking) => (
+                  <TableRow key={booking.id} data-testid={`row-inbox-${booking.id}`}>
+                    <TableCell className="font-medium">{booking.siteDescription}</TableCell>
+                    <TableCell>{campaignMap.get(booking.campaignId) ?? booking.campaignId}</TableCell>
+                    <TableCell>{formatDate(booking.startDate)} – {formatDate(booking.endDate)}</TableCell>
+                    <TableCell>{formatCurrency(booking.cost)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={responseColors[booking.supplierResponse] ?? ""}>
+                        {responseLabels[booking.supplierResponse] ?? booking.supplierResponse}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {canNegotiate(booking, "accept") && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={respondMutation.isPending}
+                            onClick={() => respondMutation.mutate({ booking, step: "accept", body: {} })}
+                            data-testid={`button-accept-${booking.id}`}
+                          >
+                            <Check className="mr-1 h-3 w-3" /> Accept
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(booking, "decline")} data-testid={`button-decline-${booking.id}`}>
+                            <X className="mr-1 h-3 w-3" /> Decline
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(booking, "counter")} data-testid={`button-counter-${booking.id}`}>
+                            <ArrowLeftRight className="mr-1 h-3 w-3" /> Counter
+                          </Button>
+                        </>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(booking, "history")} data-testid={`button-history-${booking.id}`}>
+                        <History className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialog === "decline"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline Booking</DialogTitle>
+            <DialogDescription>The booking is rejected and the planner is told your reason.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (selected) respondMutation.mutate({ booking: selected, step: "decline", body: { reason } });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="decline-reason">Reason</Label>
+              <Textarea id="decline-reason" value={reason} onChange={(e) => setReason(e.target.value)} required data-testid="input-decline-reason" />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>Cancel</Button>
+              <Button type="submit" variant="destructive" disabled={!reason.trim() || respondMutation.isPending} data-testid="button-confirm-decline">
+                Decline
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "counter"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Counter-offer</DialogTitle>
+            <DialogDescription>
+              Offer another of your screens, other dates or another price. Leave the price empty to quote from your rate card.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={submitCounter} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Screen</Label>
+              <Select value={counter.inventoryId} onValueChange={(v) => setCounter({ ...counter, inventoryId: v })}>
+                <SelectTrigger data-testid="select-counter-screen">
+                  <SelectValue placeholder="Select a screen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ownScreens.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.screenName} — {s.location}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="counter-start">Start Date</Label>
+                <Input id="counter-start" type="date" value={counter.startDate} onChange={(e) => setCounter({ ...counter, startDate: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="counter-end">End Date</Label>
+                <Input id="counter-end" type="date" value={counter.endDate} onChange={(e) => setCounter({ ...counter, endDate: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counter-cost">Price excl. VAT (R)</Label>
+              <Input id="counter-cost" type="number" min="0.01" step="0.01" value={counter.cost} onChange={(e) => setCounter({ ...counter, cost: e.target.value })} data-testid="input-counter-cost" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counter-comment">Comment</Label>
+              <Textarea id="counter-comment" value={counter.comment} onChange={(e) => setCounter({ ...counter, comment: e.target.value })} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>Cancel</Button>
+              <Button type="submit" disabled={respondMutation.isPending} data-testid="button-send-counter">Send Counter-offer</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "history"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Negotiation History</DialogTitle>
+            <DialogDescription>{selected?.siteDescription}</DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <NegotiationHistory negotiations={selected.negotiations} screenName={(id) => screenMap.get(id) ?? id} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
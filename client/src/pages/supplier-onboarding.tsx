@@ -0,0 +1,774 @@
+/**
+ * @fileoverview Supplier onboarding. Supplier admins reach their own supplier
+ * at /onboarding, fill in its CSD, registration, VAT, B-BBEE and tax details,
+ * upload the certificates and submit it; once submitted only the department
+ * can change it. Department admins and finance officers see every supplier's
+ * onboarding status at /onboarding and open one at /onboarding/:id to verify,
+ * return, suspend or reinstate it. Banking details are changed by request
+ * with a bank confirmation letter and take effect once someone other than the
+ * requester verifies them.
+ */
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Document, Supplier, SupplierBankChange, SupplierOnboardingReview } from "@shared/schema";
+import { supplierRoles } from "@shared/permissions";
+import {
+  bbbeeLevelLabels,
+  canReviewBankChange,
+  onboardingTransitions,
+  type BbbeeLevel,
+  type OnboardingAction,
+  type OnboardingRequirement,
+  type OnboardingStatus,
+} from "@shared/supplier-onboarding";
+import { OnboardingStatusBadge } from "@/components/onboarding-status-badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, CheckCircle2, XCircle, Loader2, Download, Upload } from "lucide-react";
+
+const bankChangeColors: Record<SupplierBankChange["status"], string> = {
+  pending: "bg-amber-50 text-amber-700 border-amber-200",
+  verified: "bg-green-50 text-green-700 border-green-200",
+  rejected: "bg-red-50 text-red-700 border-red-200",
+};
+
+const actionLabels: Record<OnboardingAction, string> = {
+  submit: "Submit for verification",
+  verify: "Verify",
+  return: "Return to draft",
+  suspend: "Suspend",
+  reinstate: "Reinstate",
+};
+
+const historyLabels: Record<OnboardingAction, string> = {
+  submit: "Submitted",
+  verify: "Verified",
+  return: "Returned to draft",
+  suspend: "Suspended",
+  reinstate: "Reinstated",
+};
+
+const documentTypeLabels: Record<string, string> = {
+  bbbee_certificate: "B-BBEE Certificate",
+  tax_clearance: "Tax Clearance",
+  bank_confirmation: "Bank Confirmation",
+};
+
+/** Response of GET /api/suppliers/:id/onboarding. */
+interface Onboarding {
+  supplier: Supplier;
+  checklist: OnboardingRequirement[];
+  complete: boolean;
+  reviews: (SupplierOnboardingReview & { actorName: string | null })[];
+  bankChanges: (SupplierBankChange & { requestedByName: string | null; reviewedByName: string | null })[];
+  documents: Document[];
+}
+
+/** The editable onboarding fields, as strings for the form inputs. */
+type DetailsForm = {
+  contactPerson: string;
+  email: string;
+  phone: string;
+  address: string;
+  vatNumber: string;
+  csdNumber: string;
+  registrationNumber: string;
+  bbbeeLevel: string;
+  bbbeeExpiresAt: string;
+  taxComplianceStatus: string;
+  taxComplianceExpiresAt: string;
+};
+
+const toDateInput = (date: string | Date | null) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString("en-ZA") : "—");
+
+const formatDateTime = (date: string | Date) => new Date(date).toLocaleString("en-ZA");
+
+const detailsFrom = (supplier: Supplier): DetailsForm => ({
+  contactPerson: supplier.contactPerson,
+  email: supplier.email,
+  phone: supplier.phone ?? "",
+  address: supplier.address ?? "",
+  vatNumber: supplier.vatNumber ?? "",
+  csdNumber: supplier.csdNumber ?? "",
+  registrationNumber: supplier.registrationNumber ?? "",
+  bbbeeLevel: supplier.bbbeeLevel ?? "",
+  bbbeeExpiresAt: toDateInput(supplier.bbbeeExpiresAt),
+  taxComplianceStatus: supplier.taxComplianceStatus ?? "",
+  taxComplianceExpiresAt: toDateInput(supplier.taxComplianceExpiresAt),
+});
+
+/** Builds the multipart body for uploading an onboarding document against the supplier. */
+const onboardingUpload = (file: File, type: string, supplierId: string) => {
+  const form = new FormData();
+  form.append("type", type);
+  form.append("supplierId", supplierId);
+  form.append("file", file);
+  return form;
+};
+
+export default function SupplierOnboardingPage() {
+  const { id } = useParams<{ id?: string }>();
+  const { user } = useAuth();
+  const supplierId = id ?? user?.supplierId;
+
+  if (supplierId) return <OnboardingDetail supplierId={supplierId} />;
+  if (user && supplierRoles.includes(user.role)) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <p className="text-slate-500" data-testid="text-not-linked">Your account is not linked to a supplier.</p>
+      </div>
+    );
+  }
+  return <OnboardingQueue />;
+}
+
+/** Every supplier with its onboarding status, for reviewers. */
+function OnboardingQueue() {
+  const { data: suppliers = [], isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+  const order: OnboardingStatus[] = ["submitted", "draft", "suspended", "verified"];
+  const sorted = [...suppliers].sort(
+    (a, b) => order.indexOf(a.onboardingStatus) - order.indexOf(b.onboardingStatus) || a.name.localeCompare(b.name),
+  );
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Supplier Onboarding</h1>
+        <p className="text-slate-500 mt-1">Verify suppliers before they can be booked</p>
+      </div>
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>CSD Number</TableHead>
+                  <TableHead>B-BBEE</TableHead>
+                  <TableHead>Tax Compliance</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((s) => (
+                  <TableRow key={s.id} data-testid={`row-onboarding-${s.id}`}>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell>{s.csdNumber ?? "—"}</TableCell>
+                    <TableCell>{s.bbbeeLevel ? bbbeeLevelLabels[s.bbbeeLevel] : "—"}</TableCell>
+                    <TableCell>
+                      {s.taxComplianceStatus === "compliant"
+                        ? `Until ${formatDate(s.taxComplianceExpiresAt)}`
+                        : s.taxComplianceStatus === "non_compliant" ? "Non-compliant" : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <OnboardingStatusBadge status={s.onboardingStatus} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild data-testid={`button-open-onboarding-${s.id}`}>
+                        <Link href={`/onboarding/${s.id}`}>Open</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/** One supplier's onboarding: checklist, details, documents, banking and history. */
+function OnboardingDetail({ supplierId }: { supplierId: string }) {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const isSupplier = !!user && supplierRoles.includes(user.role);
+  const canUpdate = can("supplier_onboarding", "update");
+  const [form, setForm] = useState<DetailsForm | null>(null);
+  const [step, setStep] = useState<OnboardingAction | null>(null);
+  const [comment, setComment] = useState("");
+
+  const queryKey = ["/api/suppliers", supplierId, "onboarding"];
+  const { data, isLoading, error } = useQuery<Onboarding>({ queryKey });
+  const supplier = data?.supplier;
+
+  useEffect(() => {
+    if (supplier) setForm(detailsFrom(supplier));
+  }, [supplier]);
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/suppliers"], exact: true });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (details: DetailsForm) =>
+      api.patch<Supplier>(
+        `/api/suppliers/${supplierId}/onboarding`,
+        Object.fromEntries(Object.entries(details).map(([key, value]) => [key, value === "" ? null : value])),
+      ),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Details saved" });
+    },
+    onError,
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: ({ action, comment }: { action: OnboardingAction; comment: string }) =>
+      api.post<Supplier>(`/api/suppliers/${supplierId}/onboarding/${action}`, { comment: comment || undefined }),
+    onSuccess: (_updated, { action }) => {
+      refresh();
+      setStep(null);
+      setComment("");
+      toast({ title: historyLabels[action] });
+    },
+    onError,
+  });
+
+  if (isLoading || !form) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        {error ? (
+          <p className="text-slate-500" data-testid="text-onboarding-error">{error.message}</p>
+        ) : (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        )}
+      </div>
+    );
+  }
+  if (!data || !supplier) return null;
+
+  const editable = canUpdate && (!isSupplier || supplier.onboardingStatus === "draft");
+  const available = (Object.keys(onboardingTransitions) as OnboardingAction[]).filter((action) => {
+    const { from, by } = onboardingTransitions[action];
+    return canUpdate && from.includes(supplier.onboardingStatus) && (by === "supplier" || !isSupplier);
+  });
+  const runStep = (action: OnboardingAction) => {
+    if (onboardingTransitions[action].needsComment) {
+      setStep(action);
+    } else {
+      stepMutation.mutate({ action, comment: "" });
+    }
+  };
+  const set = (field: keyof DetailsForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        {!isSupplier && (
+          <Link href="/onboarding" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700" data-testid="link-back-onboarding">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Supplier Onboarding
+          </Link>
+        )}
+        <div className="flex items-center gap-3 mt-2">
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">{supplier.name}</h1>
+          <OnboardingStatusBadge status={supplier.onboardingStatus} testId="badge-onboarding-status" />
+          <div className="ml-auto flex gap-2">
+            {available.map((action) => (
+              <Button
+                key={action}
+                variant={action === "suspend" || action === "return" ? "outline" : "default"}
+                size="sm"
+                onClick={() => runStep(action)}
+                disabled={stepMutation.isPending || (["submit", "verify", "reinstate"].includes(action) && !data.complete)}
+                data-testid={`button-onboarding-${action}`}
+              >
+                {actionLabels[action]}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <p className="text-slate-500 mt-1">
+          {supplier.onboardingStatus === "verified"
+            ? "This supplier has been verified and can be booked."
+            : "This supplier cannot be booked until its onboarding has been verified."}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Checklist</CardTitle>
+            <CardDescription>Everything needed before submission and verification</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {data.checklist.map((item) => (
+                <li key={item.key} className="flex items-center gap-2 text-sm" data-testid={`checklist-${item.key}`}>
+                  {item.met
+                    ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    : <XCircle className="h-4 w-4 text-red-500" />}
+                  <span className={item.met ? "text-slate-700" : "text-slate-500"}>{item.label}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Company Details</CardTitle>
+            {!editable && isSupplier && (
+              <CardDescription>Submitted details can only be changed once the department returns them to draft.</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-csd">CSD Supplier Number</Label>
+                <Input id="onboarding-csd" value={form.csdNumber} onChange={set("csdNumber")} disabled={!editable} placeholder="MAAA0123456" data-testid="input-onboarding-csd" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-registration">Company Registration Number</Label>
+                <Input id="onboarding-registration" value={form.registrationNumber} onChange={set("registrationNumber")} disabled={!editable} placeholder="2001/123456/07" data-testid="input-onboarding-registration" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-vat">VAT Number</Label>
+                <Input id="onboarding-vat" value={form.vatNumber} onChange={set("vatNumber")} disabled={!editable} placeholder="4123456789" data-testid="input-onboarding-vat" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-contact">Contact Person</Label>
+                <Input id="onboarding-contact" value={form.contactPerson} onChange={set("contactPerson")} disabled={!editable} data-testid="input-onboarding-contact" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-email">Email</Label>
+                <Input id="onboarding-email" type="email" value={form.email} onChange={set("email")} disabled={!editable} data-testid="input-onboarding-email" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-phone">Phone</Label>
+                <Input id="onboarding-phone" value={form.phone} onChange={set("phone")} disabled={!editable} data-testid="input-onboarding-phone" />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="onboarding-address">Address</Label>
+                <Input id="onboarding-address" value={form.address} onChange={set("address")} disabled={!editable} data-testid="input-onboarding-address" />
+              </div>
+              <div className="space-y-2">
+                <Label>B-BBEE Level</Label>
+                <Select value={form.bbbeeLevel} onValueChange={(bbbeeLevel) => setForm({ ...form, bbbeeLevel })} disabled={!editable}>
+                  <SelectTrigger data-testid="select-onboarding-bbbee">
+                    <SelectValue placeholder="Select level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(bbbeeLevelLabels) as BbbeeLevel[]).map((level) => (
+                      <SelectItem key={level} value={level}>{bbbeeLevelLabels[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-bbbee-expires">B-BBEE Certificate Expiry</Label>
+                <Input
+                  id="onboarding-bbbee-expires"
+                  type="date"
+                  value={form.bbbeeExpiresAt}
+                  onChange={set("bbbeeExpiresAt")}
+                  disabled={!editable || form.bbbeeLevel === "non_compliant"}
+                  data-testid="input-onboarding-bbbee-expires"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tax Compliance Status</Label>
+                <Select value={form.taxComplianceStatus} onValueChange={(taxComplianceStatus) => setForm({ ...form, taxComplianceStatus })} disabled={!editable}>
+                  <SelectTrigger data-testid="select-onboarding-tax">
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="compliant">Compliant</SelectItem>
+                    <SelectItem value="non_compliant">Non-compliant</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="onboarding-tax-expires">Tax Compliance Valid Until</Label>
+                <Input id="onboarding-tax-expires" type="date" value={form.taxComplianceExpiresAt} onChange={set("taxComplianceExpiresAt")} disabled={!editable} data-testid="input-onboarding-tax-expires" />
+              </div>
+            </div>
+            {editable && (
+              <div className="flex justify-end">
+                <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending} data-testid="button-save-onboarding">
+                  {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+                  Save Details
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <OnboardingDocuments supplierId={supplier.id} documents={data.documents} onUploaded={refresh} />
+
+      <BankingCard supplier={supplier} changes={data.bankChanges} isSupplier={isSupplier} canUpdate={canUpdate} onChanged={refresh} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.reviews.length === 0 ? (
+            <p className="text-sm text-slate-500" data-testid="text-no-onboarding-history">Not submitted yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {data.reviews.map((review) => (
+                <li key={review.id} className="text-sm" data-testid={`onboarding-review-${review.id}`}>
+                  <span className="font-medium">{historyLabels[review.action]}</span>
+                  <span className="text-slate-500"> by {review.actorName ?? "unknown user"} · {formatDateTime(review.createdAt)}</span>
+                  {review.comment && <p className="text-slate-600 mt-0.5">{review.comment}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={step !== null} onOpenChange={(open) => !open && setStep(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{step ? actionLabels[step] : ""}</DialogTitle>
+            <DialogDescription>The supplier's admins are notified with your comment.</DialogDescription>
+          </DialogHeader>
+          <Textarea value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Comment (required)" data-testid="input-onboarding-comment" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStep(null)}>Cancel</Button>
+            <Button
+              onClick={() => step && stepMutation.mutate({ action: step, comment })}
+              disabled={!comment.trim() || stepMutation.isPending}
+              data-testid="button-confirm-onboarding-step"
+            >
+              {step ? actionLabels[step] : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/** The supplier's B-BBEE certificate, tax clearance and bank confirmation documents, with an upload form. */
+function OnboardingDocuments({ supplierId, documents, onUploaded }: {
+  supplierId: string;
+  documents: Document[];
+  onUploaded: () => void;
+}) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [type, setType] = useState("bbbee_certificate");
+  const [file, setFile] = useState<File | null>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: () => api.upload<Document>("/api/documents", onboardingUpload(file!, type, supplierId)),
+    onSuccess: () => {
+      onUploaded();
+      setFile(null);
+      toast({ title: "Document uploaded" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Upload failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Certificates</CardTitle>
+        <CardDescription>Uploaded documents are reviewed in the document review queue</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {documents.length === 0 ? (
+          <p className="text-sm text-slate-500" data-testid="text-no-onboarding-documents">No documents uploaded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead className="text-right">Download</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((doc) => (
+                <TableRow key={doc.id} data-testid={`row-onboarding-document-${doc.id}`}>
+                  <TableCell>{documentTypeLabels[doc.type] ?? doc.type}</TableCell>
+                  <TableCell className="font-medium">{doc.fileName}</TableCell>
+                  <TableCell><Badge variant="outline">{doc.status}</Badge></TableCell>
+                  <TableCell>{formatDate(doc.uploadedAt)}</TableCell>
+                  <TableCell className="text-right">
+                    {doc.storageKey ? (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/documents/${doc.id}/download`}><Download className="h-4 w-4" /></a>
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-slate-400">No file</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {can("documents", "create") && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>Document Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="w-52" data-testid="select-onboarding-document-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bbbee_certificate">B-BBEE Certificate</SelectItem>
+                  <SelectItem value="tax_clearance">Tax Clearance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="onboarding-file">File</Label>
+              <Input id="onboarding-file" type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} data-testid="input-onboarding-file" />
+            </div>
+            <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending} data-testid="button-upload-onboarding-document">
+              {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+              Upload
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The supplier's verified banking details and its change requests. A change
+ * is requested with its bank confirmation letter; reviewers other than the
+ * requester verify or reject it.
+ */
+function BankingCard({ supplier, changes, isSupplier, canUpdate, onChanged }: {
+  supplier: Supplier;
+  changes: Onboarding["bankChanges"];
+  isSupplier: boolean;
+  canUpdate: boolean;
+  onChanged: () => void;
+}) {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [details, setDetails] = useState({ bankName: "", bankAccountNumber: "", bankBranchCode: "" });
+  const [letter, setLetter] = useState<File | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const pending = changes.some((c) => c.status === "pending");
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const document = await api.upload<Document>("/api/documents", onboardingUpload(letter!, "bank_confirmation", supplier.id));
+      return api.post<SupplierBankChange>(`/api/suppliers/${supplier.id}/bank-changes`, { ...details, documentId: document.id });
+    },
+    onSuccess: () => {
+      onChanged();
+      setDialogOpen(false);
+      setDetails({ bankName: "", bankAccountNumber: "", bankBranchCode: "" });
+      setLetter(null);
+      toast({ title: "Banking change requested", description: "The new details apply once they have been verified." });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision, comment }: { id: string; decision: "verify" | "reject"; comment?: string }) =>
+      api.post<SupplierBankChange>(`/api/suppliers/${supplier.id}/bank-changes/${id}/${decision}`, { comment }),
+    onSuccess: (_change, { decision }) => {
+      onChanged();
+      setRejecting(null);
+      setComment("");
+      toast({ title: decision === "verify" ? "Banking details verified" : "Banking change rejected" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-base">Banking Details</CardTitle>
+          <CardDescription>Printed on invoices; changes take effect once verified by a second person</CardDescription>
+        </div>
+        {canUpdate && can("documents", "create") && (
+          <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)} disabled={pending} data-testid="button-request-bank-change">
+            Request Change
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div><p className="text-slate-500">Bank</p><p className="font-medium" data-testid="text-bank-name">{supplier.bankName ?? "—"}</p></div>
+          <div><p className="text-slate-500">Account Number</p><p className="font-medium" data-testid="text-bank-account">{supplier.bankAccountNumber ?? "—"}</p></div>
+          <div><p className="text-slate-500">Branch Code</p><p className="font-medium" data-testid="text-bank-branch">{supplier.bankBranchCode ?? "—"}</p></div>
+        </div>
+        {changes.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>New Details</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Reviewed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.id} data-testid={`row-bank-change-${change.id}`}>
+                  <TableCell>
+                    {formatDateTime(change.requestedAt)}
+                    <p className="text-xs text-slate-500">{change.requestedByName ?? "unknown user"}</p>
+                  </TableCell>
+                  <TableCell>
+                    {change.bankName} · {change.bankAccountNumber} · {change.bankBranchCode}
+                    <a href={`/api/documents/${change.documentId}/download`} className="block text-xs text-blue-600 hover:underline">
+                      Bank confirmation letter
+                    </a>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={bankChangeColors[change.status]}>{change.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {change.reviewedAt ? (
+                      <>
+                        {formatDateTime(change.reviewedAt)}
+                        <p className="text-xs text-slate-500">{change.reviewedByName ?? "unknown user"}</p>
+                        {change.comment && <p className="text-xs text-slate-600">{change.comment}</p>}
+                      </>
+                    ) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!isSupplier && canUpdate && user && canReviewBankChange(change, user.id) && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ id: change.id, decision: "verify" })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-verify-bank-change-${change.id}`}
+                        >
+                          Verify
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRejecting(change.id)}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-reject-bank-change-${change.id}`}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Banking Change</DialogTitle>
+            <DialogDescription>Attach a bank confirmation letter. The current details stay on record until the change is verified.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank-change-name">Bank *</Label>
+              <Input id="bank-change-name" value={details.bankName} onChange={(e) => setDetails({ ...details, bankName: e.target.value })} data-testid="input-bank-change-name" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="bank-change-account">Account Number *</Label>
+                <Input id="bank-change-account" value={details.bankAccountNumber} onChange={(e) => setDetails({ ...details, bankAccountNumber: e.target.value })} data-testid="input-bank-change-account" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bank-change-branch">Branch Code *</Label>
+                <Input id="bank-change-branch" value={details.bankBranchCode} onChange={(e) => setDetails({ ...details, bankBranchCode: e.target.value })} data-testid="input-bank-change-branch" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-change-letter">Bank Confirmation Letter *</Label>
+              <Input id="bank-change-letter" type="file" onChange={(e) => setLetter(e.target.files?.[0] ?? null)} data-testid="input-bank-change-letter" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => requestMutation.mutate()}
+              disabled={!details.bankName || !details.bankAccountNumber || !details.bankBranchCode || !letter || requestMutation.isPending}
+              data-testid="button-submit-bank-change"
+            >
+              {requestMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+              Request Change
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Banking Change</DialogTitle>
+            <DialogDescription>The supplier's admins are notified with your comment.</DialogDescription>
+          </DialogHeader>
+          <Textarea value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Comment (required)" data-testid="input-bank-change-comment" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              onClick={() => rejecting && reviewMutation.mutate({ id: rejecting, decision: "reject", comment })}
+              disabled={!comment.trim() || reviewMutation.isPending}
+              data-testid="button-confirm-reject-bank-change"
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Team page for supplier admins. Lists the users of the admin's
+ * own supplier, where their role can be switched between supplier admin and
+ * supplier user and they can be deactivated, and the pending invitations.
+ * Inviting someone produces a link that expires; it is shown once for the
+ * admin to send, and the invitee sets their own username and password.
+ */
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { User, UserInvitation } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table, TableHeader, TableBody, TableRow, TableHead, TableCell,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Plus, Loader2, Copy } from "lucide-react";
+
+/** The two roles a supplier admin can give. */
+const SUPPLIER_ROLES = [
+  { value: "supplier_admin", label: "Supplier Admin" },
+  { value: "supplier_user", label: "Supplier User" },
+];
+
+const roleLabels: Record<string, string> = Object.fromEntries(SUPPLIER_ROLES.map((r) => [r.value, r.label]));
+
+type TeamMember = Omit<User, "password" | "mfaSecret" | "mfaRecoveryCodes" | "mfaLastUsedStep">;
+
+/** Response of GET /api/supplier/users. */
+interface Team {
+  users: TeamMember[];
+  invitations: Omit<UserInvitation, "tokenHash">[];
+}
+
+const formatDateTime = (date: string | Date) => new Date(date).toLocaleString("en-ZA");
+
+export default function SupplierTeamPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState({ fullName: "", email: "", role: "supplier_user" });
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const { data: team, isLoading } = useQuery<Team>({
+    queryKey: ["/api/supplier/users"],
+  });
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: (data: typeof form) => api.post<{ inviteUrl: string }>("/api/supplier/invitations", data),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier/users"] });
+      setInviteUrl(result.inviteUrl);
+      setForm({ fullName: "", email: "", role: "supplier_user" });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/api/supplier/invitations/${id}/revoke`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier/users"] });
+      toast({ title: "Invitation revoked" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: string; role?: string; active?: boolean }) =>
+      api.patch<TeamMember>(`/api/supplier/users/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier/users"] });
+      toast({ title: "User updated" });
+    },
+    onError,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setInviteUrl(null);
+  };
+
+  const copyLink = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900" data-testid="text-page-title">Team</h1>
+          <p className="text-slate-500 mt-1">Invite and manage your organisation's users</p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} data-testid="button-invite-user">
+          <Plus className="h-4 w-4 mr-1" /> Invite User
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Full Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(team?.users ?? []).map((u) => {
+                  const isSelf = u.id === currentUser?.id;
+                  return (
+                    <TableRow key={u.id} data-testid={`row-team-user-${u.id}`}>
+                      <TableCell className="font-medium">{u.fullName}</TableCell>
+                      <TableCell>{u.username}</TableCell>
+                      <TableCell>{u.email}</TableCell>
+                      <TableCell>
+                        {isSelf ? (
+                          <Badge variant="outline">{roleLabels[u.role] ?? u.role}</Badge>
+                        ) : (
+                          <Select value={u.role} onValueChange={(role) => updateMutation.mutate({ id: u.id, role })}>
+                            <SelectTrigger className="w-40" data-testid={`select-team-role-${u.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SUPPLIER_ROLES.map((r) => (
+                                <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={u.active}
+                            disabled={isSelf}
+                            onCheckedChange={(active) => updateMutation.mutate({ id: u.id, active })}
+                            data-testid={`switch-team-status-${u.id}`}
+                          />
+                          <span className={`text-xs ${u.active ? "text-green-600" : "text-slate-400"}`}>
+                            {u.active ? "Active" : "Inactive"}
+                          </span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Pending Invitations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!team?.invitations.length ? (
+            <p className="text-center py-4 text-sm text-slate-500" data-testid="text-no-invitations">No pending invitations.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {team.invitations.map((invitation) => {
+                  const expired = new Date(invitation.expiresAt) <= new Date();
+                  return (
+                    <TableRow key={invitation.id} data-testid={`row-invitation-${invitation.id}`}>
+                      <TableCell className="font-medium">{invitation.fullName}</TableCell>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>{roleLabels[invitation.role] ?? invitation.role}</TableCell>
+                      <TableCell className={expired ? "text-red-600" : ""}>
+                        {expired ? "Expired" : formatDateTime(invitation.expiresAt)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(invitation.id)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`button-revoke-${invitation.id}`}
+                        >
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              {inviteUrl
+                ? "Send this link to the person you invited. It is shown only once."
+                : "The invitee receives a link to set their own username and password."}
+            </DialogDescription>
+          </DialogHeader>
+          {inviteUrl ? (
+            <div className="flex gap-2">
+              <Input readOnly value={inviteUrl} data-testid="text-invite-url" />
+              <Button variant="outline" onClick={copyLink} data-testid="button-copy-invite">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-fullname">Full Name *</Label>
+                <Input
+                  id="invite-fullname"
+                  value={form.fullName}
+                  onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                  data-testid="input-invite-fullname"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email *</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select value={form.role} onValueChange={(role) => setForm({ ...form, role })}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPLIER_ROLES.map((r) => (
+                      <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {inviteUrl ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                <Button
+                  onClick={() => inviteMutation.mutate(form)}
+                  disabled={!form.fullName || !form.email || inviteMutation.isPending}
+                  data-testid="button-send-invite"
+                >
+                  {inviteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+                  Create Invitation
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
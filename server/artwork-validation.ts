@@ -0,0 +1,212 @@
+/**
+ * @file Artwork validation against the booked screen's specifications.
+ *
+ * The file is inspected from its bytes, never its name or declared MIME
+ * type: images through sharp, MP4 video by reading the track header. Each
+ * rule in shared/artwork.ts becomes one check in the report; any failed
+ * check rejects the artwork.
+ */
+
+import sharp from "sharp";
+import type { Inventory } from "@shared/schema";
+import {
+  ARTWORK_LIMITS,
+  type ArtworkCheck,
+  type ArtworkProperties,
+  type ArtworkValidationReport,
+} from "@shared/artwork";
+
+const DIGITAL_FORMATS = ["jpeg", "png", "mp4"];
+const PRINT_FORMATS = ["jpeg", "tiff"];
+
+/** Reads the width and height of the first visual track from an MP4's track headers. */
+function readMp4Dimensions(data: Buffer): { width: number; height: number } | null {
+  const boxes = (start: number, end: number, visit: (type: string, contentStart: number, boxEnd: number) => boolean) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = data.readUInt32BE(offset);
+      const type = data.toString("latin1", offset + 4, offset + 8);
+      let header = 8;
+      if (size === 1) {
+        if (offset + 16 > end) return false;
+        size = Number(data.readBigUInt64BE(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) return false;
+      if (visit(type, offset + header, offset + size)) return true;
+      offset += size;
+    }
+    return false;
+  };
+
+  let found: { width: number; height: number } | null = null;
+  boxes(0, data.length, (type, start, end) => {
+    if (type !== "moov") return false;
+    return boxes(start, end, (trackType, trackStart, trackEnd) => {
+      if (trackType !== "trak") return false;
+      return boxes(trackStart, trackEnd, (headerType, headerStart, headerEnd) => {
+        if (headerType !== "tkhd") return false;
+        const widthAt = headerStart + (data[headerStart] === 1 ? 88 : 76);
+        if (widthAt + 8 > headerEnd) return false;
+        const width = Math.round(data.readUInt32BE(widthAt) / 65536);
+        const height = Math.round(data.readUInt32BE(widthAt + 4) / 65536);
+        if (width > 0 && height > 0) found = { width, height };
+        return found != null;
+      });
+    });
+  });
+  return found;
+}
+
+/** Reads format, pixel size, colour mode and DPI from the artwork file. */
+export async function inspectArtwork(data: Buffer): Promise<ArtworkProperties> {
+  if (data.length >= 12 && data.toString("latin1", 4, 8) === "ftyp") {
+    const dimensions = readMp4Dimensions(data);
+    return {
+      format: "mp4",
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      colourMode: null,
+      dpi: null,
+      fileSize: data.length,
+    };
+  }
+  try {
+    const metadata = await sharp(data).metadata();
+    return {
+      format: metadata.format ?? null,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      colourMode: metadata.space ?? null,
+      dpi: metadata.density ?? null,
+      fileSize: data.length,
+    };
+  } catch {
+    return { format: null, width: null, height: null, colourMode: null, dpi: null, fileSize: data.length };
+  }
+}
+
+/** Parses "1920x1080" style pixel resolutions. */
+function parseResolution(value: string | null) {
+  const match = value && /^\s*(\d+)\s*[x×]\s*(\d+)\s*$/i.exec(value);
+  if (!match) return null;
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/** Parses physical sizes such as "6m x 3m" or "1.8m x 1.2m" into a width-to-height ratio. */
+function parseDimensionsRatio(value: string | null) {
+  const match = value && /^\s*(\d+(?:\.\d+)?)\s*(mm|cm|m)?\s*[x×]\s*(\d+(?:\.\d+)?)\s*(mm|cm|m)?\s*$/i.exec(value);
+  if (!match) return null;
+  const toMetres = (amount: string, unit: string | undefined) =>
+    Number(amount) * ({ mm: 0.001, cm: 0.01, m: 1 }[(unit ?? "m").toLowerCase()] ?? 1);
+  const width = toMetres(match[1], match[2] ?? match[4]);
+  const height = toMetres(match[3], match[4] ?? match[2]);
+  return width > 0 && height > 0 ? width / height : null;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)}MB`;
+
+function check(rule: ArtworkCheck["rule"], passed: boolean, expected: string, actual: string, failure: string): ArtworkCheck {
+  return { rule, result: passed ? "passed" : "failed", expected, actual, message: passed ? "OK" : failure };
+}
+
+function skip(rule: ArtworkCheck["rule"], message: string): ArtworkCheck {
+  return { rule, result: "skipped", expected: "—", actual: "—", message };
+}
+
+/** Checks inspected artwork against the screen it is booked on. */
+export function validateArtwork(artwork: ArtworkProperties, screen: Inventory): ArtworkValidationReport {
+  const checks: ArtworkCheck[] = [];
+  const allowedFormats = screen.digital ? DIGITAL_FORMATS : PRINT_FORMATS;
+  const format = artwork.format ?? "unrecognised";
+  const formatOk = artwork.format != null && allowedFormats.includes(artwork.format);
+  checks.push(check(
+    "format",
+    formatOk,
+    allowedFormats.join(", "),
+    format,
+    screen.digital
+      ? `Digital screens take JPEG or PNG images or MP4 video, not ${format}`
+      : `Print billboards take JPEG or TIFF files, not ${format}`,
+  ));
+
+  const hasSize = artwork.width != null && artwork.height != null;
+  const actualSize = hasSize ? `${artwork.width}x${artwork.height}` : "unknown";
+  const resolution = screen.digital ? parseResolution(screen.resolution) : null;
+  if (!screen.digital) {
+    checks.push(skip("dimensions", "Print billboards are checked by aspect ratio and DPI"));
+  } else if (!resolution) {
+    checks.push(skip("dimensions", "The screen has no resolution on record"));
+  } else {
+    const expected = `${resolution.width}x${resolution.height}`;
+    checks.push(check(
+      "dimensions",
+      hasSize && artwork.width === resolution.width && artwork.height === resolution.height,
+      expected,
+      actualSize,
+      `Artwork is ${actualSize} pixels; the screen displays ${expected}`,
+    ));
+  }
+
+  const expectedRatio = resolution ? resolution.width / resolution.height : parseDimensionsRatio(screen.dimensions);
+  if (expectedRatio == null) {
+    checks.push(skip("aspect_ratio", "The screen has no dimensions on record"));
+  } else {
+    const actualRatio = hasSize ? artwork.width! / artwork.height! : null;
+    checks.push(check(
+      "aspect_ratio",
+      actualRatio != null && Math.abs(actualRatio / expectedRatio - 1) <= ARTWORK_LIMITS.aspectRatioTolerance,
+      expectedRatio.toFixed(3),
+      actualRatio?.toFixed(3) ?? "unknown",
+      `Artwork aspect ratio ${actualRatio?.toFixed(3) ?? "unknown"} does not match the screen's ${expectedRatio.toFixed(3)}`,
+    ));
+  }
+
+  if (screen.digital) {
+    checks.push(skip("colour_mode", "Digital screens display RGB"));
+    checks.push(skip("dpi", "DPI does not apply to digital screens"));
+  } else {
+    const colourMode = artwork.colourMode ?? "unknown";
+    checks.push(check("colour_mode", artwork.colourMode === "cmyk", "cmyk", colourMode, `Print artwork must be CMYK, not ${colourMode}`));
+    checks.push(check(
+      "dpi",
+      artwork.dpi != null && artwork.dpi >= ARTWORK_LIMITS.minPrintDpi,
+      `≥ ${ARTWORK_LIMITS.minPrintDpi}`,
+      artwork.dpi != null ? String(artwork.dpi) : "unknown",
+      `Print artwork must be at least ${ARTWORK_LIMITS.minPrintDpi} DPI, not ${artwork.dpi ?? "unspecified"}`,
+    ));
+  }
+
+  const maxBytes = !screen.digital
+    ? ARTWORK_LIMITS.maxPrintBytes
+    : artwork.format === "mp4"
+      ? ARTWORK_LIMITS.maxVideoBytes
+      : ARTWORK_LIMITS.maxDigitalImageBytes;
+  checks.push(check(
+    "file_size",
+    artwork.fileSize <= maxBytes,
+    `≤ ${formatMb(maxBytes)}`,
+    formatMb(artwork.fileSize),
+    `Artwork is ${formatMb(artwork.fileSize)}; the limit for this screen is ${formatMb(maxBytes)}`,
+  ));
+
+  return {
+    inventoryId: screen.id,
+    screenName: screen.screenName,
+    digital: screen.digital,
+    checkedAt: new Date().toISOString(),
+    passed: checks.every((c) => c.result !== "failed"),
+    artwork,
+    checks,
+  };
+}
+
+/** Summarises the failed checks of a report as a rejection reason. */
+export function artworkRejectionReason(report: ArtworkValidationReport): string | null {
+  const failures = report.checks.filter((c) => c.result === "failed").map((c) => c.message);
+  return failures.length > 0 ? failures.join("; ") : null;
+}
@@ -0,0 +1,233 @@
+/**
+ * @file Tamper-evident audit trail.
+ *
+ * Records security-relevant and mutating actions to the append-only
+ * `audit_events` table. Each event is sealed with a SHA-256 hash over its
+ * canonicalised content and the previous event's hash, so any later edit,
+ * deletion or reordering is detected by {@link verifyAuditChain}. Database
+ * triggers installed at startup additionally reject UPDATE, DELETE and
+ * TRUNCATE on the table.
+ */
+
+import type { Request } from "express";
+import { createHash } from "crypto";
+import type { AuditEvent, User } from "@shared/schema";
+import { pool, storage, AUDIT_GENESIS_HASH, type NewAuditEvent } from "./storage";
+import { getRequestUser } from "./auth";
+
+/** Kinds of action recorded in the audit trail. */
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "login"
+  | "login_failed"
+  | "logout"
+  | "mfa_verified"
+  | "mfa_failed"
+  | "mfa_enrolled"
+  | "mfa_reset"
+  | "download"
+  | "export"
+  | "budget_override"
+  | "match_override"
+  | "payment"
+  | "seed";
+
+/** Details of a single audited action. */
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  /**
+   * Actor override for requests without a session user, e.g. the account a
+   * login was attempted for. Defaults to the authenticated user.
+   */
+  actor?: Pick<User, "id" | "username" | "role"> | { username: string };
+}
+
+/** Result of walking the hash chain. */
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  firstInvalidSequence?: number;
+  reason?: string;
+}
+
+/** Fields never written to the audit trail in clear. */
+const REDACTED_FIELDS = new Set(["password", "mfaSecret", "mfaRecoveryCodes", "mfaLastUsedStep"]);
+
+/** Rows fetched per round trip while verifying the chain. */
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Converts a value to the JSON form it will have once stored in jsonb
+ * (dates become ISO strings) and masks sensitive fields.
+ */
+function toSnapshot(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (REDACTED_FIELDS.has(key) && v != null ? "[redacted]" : v)),
+  );
+}
+
+/** Serialises JSON with object keys sorted, so the hash is independent of jsonb key ordering. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Lists the fields whose values differ between two snapshots, as `{ field: { from, to } }`. */
+function diffSnapshots(before: unknown, after: unknown): Record<string, { from: unknown; to: unknown }> | null {
+  if (!before || !after || typeof before !== "object" || typeof after !== "object") return null;
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = Object.keys(a).concat(Object.keys(b).filter((k) => !(k in a)));
+  for (const key of keys) {
+    if (canonicalJson(a[key]) !== canonicalJson(b[key])) {
+      changes[key] = { from: a[key] ?? null, to: b[key] ?? null };
+    }
+  }
+  return changes;
+}
+
+/** Computes the chain hash of an event. Must cover every stored content column. */
+export function computeAuditHash(event: NewAuditEvent, occurredAt: Date, prevHash: string): string {
+  const content = canonicalJson({
+    occurredAt: occurredAt.toISOString(),
+    actorId: event.actorId ?? null,
+    actorUsername: event.actorUsername ?? null,
+    actorRole: event.actorRole ?? null,
+    ipAddress: event.ipAddress ?? null,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId ?? null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    changes: event.changes ?? null,
+  });
+  return createHash("sha256").update(prevHash).update(content).digest("hex");
+}
+
+/**
+ * Records an audited action. Failures are logged rather than thrown: by the
+ * time an action is audited it has already taken effect, and the caller's
+ * response should reflect that.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    const actor: { id?: string; username: string; role?: string } | undefined =
+      entry.actor ?? (await getRequestUser(req));
+    const before = toSnapshot(entry.before);
+    const after = toSnapshot(entry.after);
+    await storage.appendAuditEvent(
+      {
+        actorId: actor?.id ?? null,
+        actorUsername: actor?.username ?? null,
+        actorRole: actor?.role ?? null,
+        ipAddress: req.ip ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        before,
+        after,
+        changes: entry.action === "update" ? diffSnapshots(before, after) : null,
+      },
+      computeAuditHash,
+    );
+  } catch (error) {
+    console.error("Failed to record audit event:", error);
+  }
+}
+
+/** Recomputes a stored event's hash from its columns. */
+function rehash(event: AuditEvent): string {
+  return computeAuditHash(event, event.occurredAt, event.prevHash);
+}
+
+/**
+ * Walks the whole chain in sequence order, checking that each row links to
+ * its predecessor and that its hash matches its content.
+ */
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  let expectedPrev = AUDIT_GENESIS_HASH;
+  let lastSequence = 0;
+  let checked = 0;
+
+  for (;;) {
+    const batch = await storage.getAuditEventsAfter(lastSequence, VERIFY_BATCH_SIZE);
+    for (const event of batch) {
+      if (event.prevHash !== expectedPrev) {
+        return { valid: false, checked, firstInvalidSequence: event.sequence, reason: "Chain link broken (previous row missing or altered)" };
+      }
+      if (rehash(event) !== event.hash) {
+        return { valid: false, checked, firstInvalidSequence: event.sequence, reason: "Row content does not match its hash" };
+      }
+      expectedPrev = event.hash;
+      lastSequence = event.sequence;
+      checked++;
+    }
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return { valid: true, checked };
+}
+
+/**
+ * Installs triggers that make `audit_events` append-only at the database
+ * level. Safe to run on every start; skipped with a warning if the table has
+ * not been created yet (run `npm run db:push`).
+ */
+export async function installAuditGuards(): Promise<void> {
+  try {
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS audit_events_no_modify ON audit_events;
+      CREATE TRIGGER audit_events_no_modify BEFORE UPDATE OR DELETE ON audit_events
+        FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+
+      DROP TRIGGER IF EXISTS audit_events_no_truncate ON audit_events;
+      CREATE TRIGGER audit_events_no_truncate BEFORE TRUNCATE ON audit_events
+        FOR EACH STATEMENT EXECUTE FUNCTION audit_events_append_only();
+    `);
+  } catch (error) {
+    console.warn("Audit trail guards not installed:", (error as Error).message);
+  }
+}
+
+/** Column order for CSV exports of the audit trail. */
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  "sequence", "occurredAt", "actorUsername", "actorRole", "ipAddress",
+  "action", "entityType", "entityId", "changes", "before", "after", "prevHash", "hash",
+];
+
+/**
+ * Renders audit events as RFC 4180 CSV, JSON-encoding snapshot columns.
+ * Cells that a spreadsheet would evaluate as a formula are prefixed with a quote.
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const escape = (value: unknown) => {
+    if (value === null || value === undefined) return "";
+    let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = events.map((e) => CSV_COLUMNS.map((c) => escape(e[c])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
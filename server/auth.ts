@@ -0,0 +1,250 @@
+/**
+ * @file Session authentication for the OOH Booking System.
+ *
+ * Configures a PostgreSQL-backed express-session store, provides scrypt
+ * password hashing with transparent migration of legacy plaintext passwords,
+ * and exposes helpers for resolving the authenticated user of a request.
+ * A session is either fully authenticated (userId) or, between the password
+ * step and the TOTP step of a multi-factor login, pending (mfaPendingUserId).
+ */
+
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import type { User } from "@shared/schema";
+import { can, type Resource, type Action } from "@shared/permissions";
+import { pool, storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+    /** User who passed the password check but has not yet completed MFA. */
+    mfaPendingUserId: string;
+    /** Failed MFA codes in this session, when verifying or confirming an enrolment. */
+    mfaFailedAttempts: number;
+    /** Secret generated for an enrolment that has not been confirmed yet. */
+    mfaEnrollmentSecret: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated user, populated by {@link authorize}. */
+      currentUser?: User;
+    }
+  }
+}
+
+/** Prefix identifying a password hash produced by {@link hashPassword}. */
+const HASH_PREFIX = "scrypt";
+
+/** scrypt cost parameters as stored alongside each hash. */
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/** scrypt cost parameters (N=2^15, r=8, p=1), roughly 100ms per hash on commodity hardware. */
+const SCRYPT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/** Session lifetime, matching a single government working day. */
+const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Promise wrapper around crypto.scrypt. The memory ceiling is raised to twice
+ * the 128*N*r bytes scrypt needs, as Node's 32MB default is too low for N=2^15.
+ */
+function deriveKey(password: string, salt: Buffer, keyLength: number, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...params, maxmem: 256 * params.N * params.r }, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hashes a password with scrypt and a random salt.
+ * The result is self-describing: `scrypt$N$r$p$salt$hash` (salt and hash base64).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [HASH_PREFIX, N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+/** Returns true if the stored value is a hash produced by {@link hashPassword}. */
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+/** Hash of a random password, checked in place of a missing user's; created on first use. */
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Verifies a candidate password against a stored value.
+ * Stored values that are not scrypt hashes are treated as legacy plaintext
+ * passwords and compared in constant time; callers should rehash on success.
+ * With no stored value (an unknown username) a dummy hash is checked and
+ * false returned, so the response takes as long as for a known user.
+ */
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (stored === undefined) {
+    dummyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString("base64"));
+    await verifyPassword(password, await dummyHash);
+    return false;
+  }
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$");
+  const expected = Buffer.from(hashB64, "base64");
+  const key = await deriveKey(password, Buffer.from(saltB64, "base64"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return timingSafeEqual(key, expected);
+}
+
+/** Removes the password hash and MFA secrets from a user record before it is sent to a client. */
+export function sanitizeUser(user: User) {
+  const { password: _, mfaSecret: _secret, mfaRecoveryCodes: _codes, mfaLastUsedStep: _step, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Resolves the authenticated user from the session cookie, reusing the user
+ * already loaded by {@link authorize} when present.
+ * Returns undefined if there is no session or the user no longer exists or is inactive.
+ */
+export async function getRequestUser(req: Request): Promise<User | undefined> {
+  if (req.currentUser) return req.currentUser;
+  const userId = req.session.userId;
+  if (!userId) return undefined;
+  const user = await storage.getUser(userId);
+  if (!user || !user.active) return undefined;
+  return user;
+}
+
+/** Regenerates the session id and stores the given data in the fresh session. */
+function regenerateSession(req: Request, data: { userId?: string; mfaPendingUserId?: string }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      Object.assign(req.session, data);
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+/**
+ * Starts an authenticated session for the user. The session id is regenerated
+ * first so that a pre-login session identifier can never be reused (session fixation).
+ */
+export function establishSession(req: Request, user: User): Promise<void> {
+  return regenerateSession(req, { userId: user.id });
+}
+
+/**
+ * Starts a pending session after a correct password for a user who must still
+ * verify or enrol a second factor. Only the MFA endpoints accept it.
+ */
+export function beginMfaChallenge(req: Request, user: User): Promise<void> {
+  return regenerateSession(req, { mfaPendingUserId: user.id });
+}
+
+/**
+ * Resolves the user completing an MFA step: the pending user during login,
+ * or the signed-in user enrolling voluntarily.
+ */
+export async function getMfaSubject(req: Request): Promise<{ user: User; pending: boolean } | undefined> {
+  const pendingId = req.session.mfaPendingUserId;
+  if (pendingId) {
+    const user = await storage.getUser(pendingId);
+    return user && user.active ? { user, pending: true } : undefined;
+  }
+  const user = await getRequestUser(req);
+  return user ? { user, pending: false } : undefined;
+}
+
+/** Destroys the current session. */
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Route middleware enforcing the shared role policy. Responds 401 when there
+ * is no authenticated user and 403 when the user's role may not perform the
+ * action on the resource; otherwise stores the user on `req.currentUser`.
+ */
+export function authorize(resource: Resource, action: Action): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!can(user.role, resource, action)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      req.currentUser = user;
+      return next();
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/** Name of the session cookie, also used when clearing it on logout. */
+export const SESSION_COOKIE_NAME = "ooh.sid";
+
+/**
+ * Installs the express-session middleware backed by the `user_sessions`
+ * table in PostgreSQL. The table is created on first start if missing.
+ * Tests pass their own store instead.
+ */
+export function setupAuth(app: Express, store?: session.Store) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const PgSession = connectPgSimple(session);
+
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(
+    session({
+      name: SESSION_COOKIE_NAME,
+      store: store ?? new PgSession({
+        pool,
+        tableName: "user_sessions",
+        createTableIfMissing: true,
+      }),
+      secret: secret || "dev-only-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      rolling: true,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * @file Blob storage for uploaded document files.
+ *
+ * Document bytes live outside the database behind the BlobStore interface.
+ * BLOB_STORAGE selects the backend: "local" (default) writes under
+ * BLOB_STORAGE_PATH on the server's disk; "azure" uses Azure Blob Storage via
+ * AZURE_STORAGE_CONNECTION_STRING, which can point at the Azurite emulator
+ * (`UseDevelopmentStorage=true`) for local testing.
+ */
+
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { BlobServiceClient, RestError, type ContainerClient } from "@azure/storage-blob";
+
+/** Thrown when a stored blob is missing. */
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+  }
+}
+
+/** A place to keep file contents, addressed by server-generated keys. */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Opens the blob for streaming; throws BlobNotFoundError if it does not exist. */
+  get(key: string): Promise<Readable>;
+  /** Removes the blob; succeeds if it is already gone. */
+  delete(key: string): Promise<void>;
+}
+
+/** Keys are generated by the server, but are still checked so no key can reach outside the store. */
+function assertSafeKey(key: string) {
+  if (!/^[a-zA-Z0-9][a-zA-Z0-9/_.-]*$/.test(key) || key.split("/").includes("..")) {
+    throw new Error(`Invalid blob key "${key}"`);
+  }
+}
+
+/** Stores blobs as files under a root directory. */
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private pathFor(key: string) {
+    assertSafeKey(key);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data, { flag: "wx" });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const file = this.pathFor(key);
+    try {
+      await stat(file);
+    } catch {
+      throw new BlobNotFoundError(key);
+    }
+    return createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+/** Stores blobs in one Azure Blob Storage container, created on first use. */
+export class AzureBlobStore implements BlobStore {
+  private ready: Promise<unknown> | undefined;
+  private container: ContainerClient;
+
+  constructor(connectionString: string, containerName: string) {
+    this.container = BlobServiceClient.fromConnectionString(connectionString).getContainerClient(containerName);
+  }
+
+  private ensureContainer() {
+    if (!this.ready) {
+      this.ready = this.container.createIfNotExists().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    assertSafeKey(key);
+    await this.ensureContainer();
+    await this.container.getBlockBlobClient(key).uploadData(data, {
+      blobHTTPHeaders: { blobContentType: contentType },
+    });
+  }
+
+  async get(key: string): Promise<Readable> {
+    assertSafeKey(key);
+    await this.ensureContainer();
+    try {
+      const response = await this.container.getBlobClient(key).download();
+      return response.readableStreamBody as Readable;
+    } catch (error) {
+      if (error instanceof RestError && error.statusCode === 404) {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertSafeKey(key);
+    await this.ensureContainer();
+    await this.container.deleteBlob(key).catch((error) => {
+      if (!(error instanceof RestError && error.statusCode === 404)) throw error;
+    });
+  }
+}
+
+let cachedStore: BlobStore | undefined;
+
+/** Returns the configured blob store. Throws on startup-time misconfiguration. */
+export function getBlobStore(): BlobStore {
+  if (!cachedStore) {
+    const backend = process.env.BLOB_STORAGE ?? "local";
+    if (backend === "local") {
+      cachedStore = new LocalBlobStore(path.resolve(process.env.BLOB_STORAGE_PATH ?? "uploads"));
+    } else if (backend === "azure") {
+      const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+      if (!connectionString) {
+        throw new Error("AZURE_STORAGE_CONNECTION_STRING is required when BLOB_STORAGE=azure");
+      }
+      cachedStore = new AzureBlobStore(connectionString, process.env.AZURE_STORAGE_CONTAINER ?? "documents");
+    } else {
+      throw new Error(`Invalid BLOB_STORAGE "${backend}"; expected "local" or "azure"`);
+    }
+  }
+  return cachedStore;
+}
+
+/** Reads a whole blob into memory; for files already known to be within the upload limit. */
+export async function readBlob(store: BlobStore, key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await store.get(key)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
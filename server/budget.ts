@@ -0,0 +1,107 @@
+/**
+ * @file Campaign budget tracking.
+ *
+ * Totals a campaign's bookings and invoices against its budget and builds the
+ * burn-down shown on the campaign page. The overspend guard itself runs in
+ * storage, inside the booking transaction; this module only reads its policy.
+ */
+
+import type { Booking, Campaign, Invoice } from "@shared/schema";
+import {
+  COMMITTED_BOOKING_STATUSES,
+  type BurndownPoint,
+  type CampaignBudget,
+  type OverspendPolicy,
+} from "@shared/budget";
+
+/** Invoice statuses counted as invoiced. */
+const INVOICED_STATUSES = ["sent", "partially_paid", "paid", "overdue"];
+
+let cachedPolicy: OverspendPolicy | undefined;
+
+/**
+ * Reads BUDGET_OVERSPEND_POLICY: "hard" refuses any booking that would take a
+ * campaign over budget, "soft" (the default) allows it once the user has
+ * acknowledged the overspend.
+ */
+export function getOverspendPolicy(): OverspendPolicy {
+  if (!cachedPolicy) {
+    const configured = process.env.BUDGET_OVERSPEND_POLICY ?? "soft";
+    if (configured !== "hard" && configured !== "soft") {
+      throw new Error(`Invalid BUDGET_OVERSPEND_POLICY "${configured}"; expected "hard" or "soft"`);
+    }
+    cachedPolicy = configured;
+  }
+  return cachedPolicy;
+}
+
+function isCommitted(booking: Booking) {
+  return (COMMITTED_BOOKING_STATUSES as readonly string[]).includes(booking.status);
+}
+
+function total(amounts: (string | number | null)[]) {
+  return Math.round(amounts.reduce<number>((sum, amount) => sum + Number(amount ?? 0), 0) * 100) / 100;
+}
+
+/** Totals the campaign's bookings and invoices against its budget. */
+export function summarizeBudget(campaign: Campaign, campaignBookings: Booking[], campaignInvoices: Invoice[]): CampaignBudget {
+  const budget = campaign.budget == null ? null : Number(campaign.budget);
+  const committed = total(campaignBookings.filter(isCommitted).map((b) => b.cost));
+  const pending = total(campaignBookings.filter((b) => b.status === "pending").map((b) => b.cost));
+  const invoiced = total(
+    campaignInvoices
+      .filter((i) => INVOICED_STATUSES.includes(i.status))
+      .map((i) => Number(i.amount) - Number(i.amountCredited)),
+  );
+  const paid = total(campaignInvoices.map((i) => i.amountPaid));
+
+  return {
+    campaignId: campaign.id,
+    budget,
+    committed,
+    pending,
+    invoiced,
+    paid,
+    remaining: budget == null ? null : Math.round((budget - committed) * 100) / 100,
+    overcommitted: budget != null && committed + pending > budget,
+  };
+}
+
+/**
+ * Remaining budget over the campaign's life: committed bookings are spent on
+ * the day they start flighting. Points fall on the campaign start, each day a
+ * booking starts, and the campaign end; empty when the campaign has no budget.
+ */
+export function budgetBurndown(campaign: Campaign, campaignBookings: Booking[]): BurndownPoint[] {
+  if (campaign.budget == null) return [];
+  const budget = Number(campaign.budget);
+  const start = campaign.startDate?.getTime();
+  const end = campaign.endDate?.getTime();
+
+  const ideal = (time: number) => {
+    if (start == null || end == null || end <= start) return null;
+    const fraction = Math.min(1, Math.max(0, (time - start) / (end - start)));
+    return Math.round(budget * (1 - fraction) * 100) / 100;
+  };
+
+  const spendByDay = new Map<number, number>();
+  for (const booking of campaignBookings) {
+    if (!isCommitted(booking) || !booking.startDate) continue;
+    const day = booking.startDate.getTime();
+    spendByDay.set(day, (spendByDay.get(day) ?? 0) + Number(booking.cost ?? 0));
+  }
+  const days = Array.from(spendByDay.keys());
+  if (start != null) days.push(start);
+  if (end != null) days.push(end);
+  const timeline = days.filter((day, index) => days.indexOf(day) === index).sort((a, b) => a - b);
+
+  let remaining = budget;
+  return timeline.map((day) => {
+    remaining -= spendByDay.get(day) ?? 0;
+    return {
+      date: new Date(day).toISOString(),
+      remaining: Math.round(remaining * 100) / 100,
+      ideal: ideal(day),
+    };
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * @file Server side of the campaign approval workflow.
+ *
+ * Loads the approval chain from configuration and works out the effect of a
+ * transition on a campaign, enforcing the shared rules in
+ * `@shared/campaign-workflow` plus the checks that need the approval history:
+ * nobody may approve a campaign they submitted, or approve it at two levels.
+ */
+
+import type { Campaign, CampaignApproval, User } from "@shared/schema";
+import type { Role } from "@shared/permissions";
+import {
+  DEFAULT_APPROVAL_LEVELS,
+  campaignTransitions,
+  canTransition,
+  pendingApprovalLevel,
+  requiredApprovalLevels,
+  transitionsRequiringReason,
+  type ApprovalLevel,
+  type CampaignStatus,
+  type CampaignTransition,
+} from "@shared/campaign-workflow";
+
+/** A transition that cannot be applied; `status` is the HTTP status to respond with. */
+export class WorkflowError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/** Roles that may be given an approval level. */
+const APPROVER_ROLES: Role[] = ["department_admin", "finance_officer", "campaign_planner"];
+
+/**
+ * Parses CAMPAIGN_APPROVAL_LEVELS, a comma-separated list of
+ * `minBudget:role` pairs in level order, e.g. `0:department_admin,500000:finance_officer`.
+ */
+function parseApprovalLevels(value: string): ApprovalLevel[] {
+  const levels = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      const minBudget = Number(entry.slice(0, separator));
+      const role = entry.slice(separator + 1).trim() as Role;
+      if (separator <= 0 || !Number.isFinite(minBudget) || minBudget < 0 || !APPROVER_ROLES.includes(role)) {
+        throw new Error(`Invalid CAMPAIGN_APPROVAL_LEVELS entry "${entry}"`);
+      }
+      return { level: index + 1, minBudget, role };
+    });
+  if (levels.length === 0 || levels[0].minBudget !== 0) {
+    throw new Error("CAMPAIGN_APPROVAL_LEVELS must start with a level for a budget of 0");
+  }
+  return levels;
+}
+
+let cachedLevels: ApprovalLevel[] | undefined;
+
+/** Returns the configured approval chain, falling back to the defaults. */
+export function getApprovalLevels(): ApprovalLevel[] {
+  if (!cachedLevels) {
+    const configured = process.env.CAMPAIGN_APPROVAL_LEVELS;
+    cachedLevels = configured ? parseApprovalLevels(configured) : [...DEFAULT_APPROVAL_LEVELS];
+  }
+  return cachedLevels;
+}
+
+/** Campaign fields changed by a transition, and the details recorded in its history entry. */
+export interface TransitionResult {
+  update: Partial<Pick<Campaign, "status" | "approvalLevel" | "submittedBy" | "submittedAt">>;
+  toStatus: CampaignStatus;
+  level: number | null;
+}
+
+/**
+ * Works out the effect of a transition. `history` is the campaign's approval
+ * history, oldest first. Throws a WorkflowError when the transition is not
+ * allowed for this user and campaign.
+ */
+export function planTransition(
+  campaign: Campaign,
+  transition: CampaignTransition,
+  user: User,
+  comment: string | undefined,
+  history: CampaignApproval[],
+): TransitionResult {
+  const levels = getApprovalLevels();
+
+  if (!campaignTransitions[transition].from.includes(campaign.status)) {
+    throw new WorkflowError(409, `Cannot ${transition} a campaign that is ${campaign.status.replace(/_/g, " ")}`);
+  }
+  if (!canTransition(campaign, transition, user.role, levels)) {
+    throw new WorkflowError(403, "Your role cannot perform this action on the campaign");
+  }
+  if (transitionsRequiringReason.includes(transition) && !comment) {
+    throw new WorkflowError(400, "A reason is required");
+  }
+
+  switch (transition) {
+    case "submit":
+      return {
+        update: { status: "pending_approval", approvalLevel: 0, submittedBy: user.id, submittedAt: new Date() },
+        toStatus: "pending_approval",
+        level: null,
+      };
+
+    case "approve": {
+      if (campaign.submittedBy === user.id) {
+        throw new WorkflowError(403, "You cannot approve a campaign you submitted");
+      }
+      const lastSubmit = history.map((h) => h.transition).lastIndexOf("submit");
+      const alreadyApproved = history
+        .slice(lastSubmit + 1)
+        .some((h) => h.transition === "approve" && h.actorId === user.id);
+      if (alreadyApproved) {
+        throw new WorkflowError(403, "You have already approved this campaign at another level");
+      }
+      const level = pendingApprovalLevel(campaign, levels)!;
+      const approvalLevel = campaign.approvalLevel + 1;
+      const toStatus = approvalLevel >= requiredApprovalLevels(campaign, levels).length ? "approved" : "pending_approval";
+      return { update: { status: toStatus, approvalLevel }, toStatus, level: level.level };
+    }
+
+    case "reject":
+      return {
+        update: { status: "draft", approvalLevel: 0 },
+        toStatus: "draft",
+        level: pendingApprovalLevel(campaign, levels)!.level,
+      };
+
+    case "start":
+      return { update: { status: "in_progress" }, toStatus: "in_progress", level: null };
+
+    case "complete":
+      return { update: { status: "completed" }, toStatus: "completed", level: null };
+
+    case "cancel":
+      return { update: { status: "cancelled" }, toStatus: "cancelled", level: null };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file Supplier compliance tracking.
+ *
+ * Builds the compliance matrix of every supplier booked on every campaign
+ * from the rules in `@shared/compliance`, and reads how far ahead of expiry
+ * a document is reported as expiring.
+ */
+
+import type { Booking, Document } from "@shared/schema";
+import { DEFAULT_EXPIRY_WARNING_DAYS, supplierCompliance, type SupplierCompliance } from "@shared/compliance";
+
+let cachedWarningDays: number | undefined;
+
+/** Reads COMPLIANCE_EXPIRY_WARNING_DAYS (default 30). */
+export function getExpiryWarningDays(): number {
+  if (cachedWarningDays === undefined) {
+    const configured = process.env.COMPLIANCE_EXPIRY_WARNING_DAYS ?? String(DEFAULT_EXPIRY_WARNING_DAYS);
+    const days = Number(configured);
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`Invalid COMPLIANCE_EXPIRY_WARNING_DAYS "${configured}"; expected a whole number of days`);
+    }
+    cachedWarningDays = days;
+  }
+  return cachedWarningDays;
+}
+
+/** Compliance of one supplier for one campaign, as of now. */
+export function complianceFor(supplierId: string, campaignId: string, documents: Document[]): SupplierCompliance {
+  return supplierCompliance(supplierId, campaignId, documents, new Date(), getExpiryWarningDays());
+}
+
+/** Compliance of each supplier with a non-rejected booking on each campaign. */
+export function complianceMatrix(bookings: Booking[], documents: Document[]): SupplierCompliance[] {
+  const pairs = new Map<string, { supplierId: string; campaignId: string }>();
+  for (const booking of bookings) {
+    if (booking.status === "rejected") continue;
+    pairs.set(`${booking.supplierId}:${booking.campaignId}`, { supplierId: booking.supplierId, campaignId: booking.campaignId });
+  }
+  return Array.from(pairs.values()).map(({ supplierId, campaignId }) => complianceFor(supplierId, campaignId, documents));
+}
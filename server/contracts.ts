@@ -0,0 +1,34 @@
+/**
+ * @file Supplier contract configuration.
+ *
+ * The contract ceiling itself is enforced in storage, inside the booking
+ * transaction; this module only reads the consumption warning thresholds.
+ */
+
+const DEFAULT_WARNING_THRESHOLDS = [80];
+
+/** Parses a comma-separated list of percentages such as "80,95". */
+function parseWarningThresholds(configured: string): number[] {
+  const thresholds = configured.split(",").map((entry) => {
+    const value = Number(entry.trim());
+    if (!Number.isInteger(value) || value < 1 || value > 100) {
+      throw new Error(`Invalid CONTRACT_WARNING_THRESHOLDS entry "${entry}"; expected whole percentages from 1 to 100`);
+    }
+    return value;
+  });
+  return thresholds.filter((value, index) => thresholds.indexOf(value) === index).sort((a, b) => a - b);
+}
+
+let cachedThresholds: number[] | undefined;
+
+/**
+ * Reads CONTRACT_WARNING_THRESHOLDS: the percentages of a contract's ceiling
+ * at which its consumption is flagged and reviewers notified (default 80).
+ */
+export function getContractWarningThresholds(): number[] {
+  if (!cachedThresholds) {
+    const configured = process.env.CONTRACT_WARNING_THRESHOLDS;
+    cachedThresholds = configured ? parseWarningThresholds(configured) : [...DEFAULT_WARNING_THRESHOLDS];
+  }
+  return cachedThresholds;
+}
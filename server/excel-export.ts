@@ -0,0 +1,139 @@
+/**
+ * @file XLSX exports of the invoice, booking, campaign and inventory lists.
+ *
+ * Each entity has typed column definitions; currency cells carry a ZAR
+ * number format and date cells an en-ZA (yyyy/mm/dd) date format, so Excel
+ * sorts and sums them as numbers and dates rather than text. Every sheet has
+ * a frozen, bold header row with an autofilter.
+ */
+
+import ExcelJS from "exceljs";
+import type { Booking, Campaign, Inventory, Invoice, Supplier } from "@shared/schema";
+import { invoiceBalance } from "@shared/payments";
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** How a column's values are written: currency and number cells are numeric, date cells are dates. */
+export type ExportCellType = "text" | "number" | "currency" | "date";
+
+export interface ExportColumn<T> {
+  header: string;
+  type: ExportCellType;
+  /** Column width in characters. */
+  width?: number;
+  value: (row: T) => string | number | Date | null | undefined;
+}
+
+const NUMBER_FORMATS: Record<ExportCellType, string | undefined> = {
+  text: undefined,
+  number: "#,##0",
+  currency: '"R" #,##0.00',
+  date: "yyyy/mm/dd",
+};
+
+const DEFAULT_WIDTHS: Record<ExportCellType, number> = { text: 24, number: 12, currency: 16, date: 12 };
+
+/** Converts a value to what the cell should hold for its column type. */
+function cellValue(type: ExportCellType, value: string | number | Date | null | undefined) {
+  if (value == null || value === "") return null;
+  switch (type) {
+    case "currency":
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case "date": {
+      const date = value instanceof Date ? value : new Date(value);
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    default:
+      return String(value);
+  }
+}
+
+/** Writes the rows as a single-sheet workbook. */
+export async function buildWorkbook<T>(sheetName: string, columns: ExportColumn<T>[], rows: T[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? DEFAULT_WIDTHS[column.type],
+    style: NUMBER_FORMATS[column.type] ? { numFmt: NUMBER_FORMATS[column.type] } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(columns.map((column) => cellValue(column.type, column.value(row)))));
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: Math.max(rows.length + 1, 1), column: columns.length } };
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/** Names shown in place of ids. */
+export interface ExportLookups {
+  campaigns: Campaign[];
+  suppliers: Supplier[];
+}
+
+const nameOf = (items: { id: string; name: string }[], id: string | null) =>
+  id ? items.find((item) => item.id === id)?.name ?? id : null;
+
+export function invoiceColumns({ campaigns, suppliers }: ExportLookups): ExportColumn<Invoice>[] {
+  return [
+    { header: "Invoice Number", type: "text", width: 20, value: (i) => i.invoiceNumber },
+    { header: "Campaign", type: "text", width: 30, value: (i) => nameOf(campaigns, i.campaignId) },
+    { header: "Supplier", type: "text", width: 26, value: (i) => nameOf(suppliers, i.supplierId) },
+    { header: "Subtotal", type: "currency", value: (i) => i.subtotal },
+    { header: "VAT", type: "currency", value: (i) => i.vatAmount },
+    { header: "Total (incl. VAT)", type: "currency", width: 18, value: (i) => i.amount },
+    { header: "Credited", type: "currency", value: (i) => i.amountCredited },
+    { header: "Amount Paid", type: "currency", value: (i) => i.amountPaid },
+    { header: "Balance", type: "currency", value: (i) => invoiceBalance(i) },
+    { header: "Status", type: "text", width: 14, value: (i) => i.status },
+    { header: "Issued", type: "date", value: (i) => i.issuedAt },
+    { header: "Due Date", type: "date", value: (i) => i.dueDate },
+  ];
+}
+
+export function bookingColumns({ campaigns, suppliers }: ExportLookups): ExportColumn<Booking>[] {
+  return [
+    { header: "Site", type: "text", width: 34, value: (b) => b.siteDescription },
+    { header: "Location", type: "text", value: (b) => b.location },
+    { header: "Media Type", type: "text", width: 14, value: (b) => b.mediaType },
+    { header: "Campaign", type: "text", width: 30, value: (b) => nameOf(campaigns, b.campaignId) },
+    { header: "Supplier", type: "text", width: 26, value: (b) => nameOf(suppliers, b.supplierId) },
+    { header: "Start Date", type: "date", value: (b) => b.startDate },
+    { header: "End Date", type: "date", value: (b) => b.endDate },
+    { header: "Cost (excl. VAT)", type: "currency", width: 18, value: (b) => b.cost },
+    { header: "Status", type: "text", width: 12, value: (b) => b.status },
+  ];
+}
+
+/** Campaign columns; the budget is left out for roles that may not read budgets. */
+export function campaignColumns(includeBudget: boolean): ExportColumn<Campaign>[] {
+  return [
+    { header: "Name", type: "text", width: 34, value: (c) => c.name },
+    { header: "Region", type: "text", width: 16, value: (c) => c.region },
+    { header: "Status", type: "text", width: 18, value: (c) => c.status },
+    ...(includeBudget ? [{ header: "Budget", type: "currency", value: (c) => c.budget } satisfies ExportColumn<Campaign>] : []),
+    { header: "Start Date", type: "date", value: (c) => c.startDate },
+    { header: "End Date", type: "date", value: (c) => c.endDate },
+    { header: "Target Reach", type: "number", width: 14, value: (c) => c.targetReach },
+    { header: "Created", type: "date", value: (c) => c.createdAt },
+  ];
+}
+
+export function inventoryColumns({ suppliers }: Pick<ExportLookups, "suppliers">): ExportColumn<Inventory>[] {
+  return [
+    { header: "Screen", type: "text", width: 30, value: (i) => i.screenName },
+    { header: "Type", type: "text", width: 14, value: (i) => i.screenType },
+    { header: "Supplier", type: "text", width: 26, value: (i) => nameOf(suppliers, i.supplierId) },
+    { header: "Location", type: "text", width: 30, value: (i) => i.location },
+    { header: "Region", type: "text", width: 16, value: (i) => i.region },
+    { header: "Digital", type: "text", width: 8, value: (i) => (i.digital ? "Yes" : "No") },
+    { header: "Dimensions", type: "text", width: 14, value: (i) => i.dimensions },
+    { header: "Resolution", type: "text", width: 14, value: (i) => i.resolution },
+    { header: "Daily Rate", type: "currency", value: (i) => i.dailyRate },
+    { header: "Weekly Rate", type: "currency", value: (i) => i.weeklyRate },
+    { header: "Monthly Rate", type: "currency", value: (i) => i.monthlyRate },
+    { header: "Status", type: "text", width: 12, value: (i) => i.status },
+  ];
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { setupAuth } from "./auth";
+import { setupMockOidc } from "./mock-oidc";
+import { installAuditGuards } from "./audit";
 import { createServer } from "http";
 
 const app = express();
@@ -22,6 +25,12 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
+setupAuth(app);
+
+if (process.env.OIDC_MOCK === "true" && process.env.NODE_ENV !== "production") {
+  setupMockOidc(app);
+}
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -33,6 +42,15 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+/**
+ * API paths whose response bodies are never logged: they carry TOTP secrets,
+ * recovery codes, invitation links and other sign-in material.
+ */
+const UNLOGGED_BODY_PATHS = ["/api/auth/", "/api/supplier/invitations", "/api/invitations/"];
+
+/** Invitation tokens in request paths are credentials too; the log shows the route instead. */
+const loggedPath = (path: string) => path.replace(/^\/api\/invitations\/[^/]+/, "/api/invitations/:token");
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -47,8 +65,8 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      let logLine = `${req.method} ${loggedPath(path)} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse && !UNLOGGED_BODY_PATHS.some((prefix) => path.startsWith(prefix))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -60,6 +78,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await installAuditGuards();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
@@ -100,4 +119,9 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
-})();
+})().catch((error: Error) => {
+  // Configuration checks run while routes are registered; report the setting
+  // at fault on one line rather than as an unhandled rejection.
+  log(`failed to start: ${error.message}`);
+  process.exit(1);
+});
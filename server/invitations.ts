@@ -0,0 +1,76 @@
+/**
+ * @file Invitation tokens for supplier staff.
+ *
+ * A supplier admin's invitation is a link carrying a random token; only its
+ * SHA-256 hash is stored, so the database never holds a usable link. Links
+ * expire after INVITATION_TTL_HOURS and point at PUBLIC_BASE_URL, never at
+ * the Host header of the request that created them.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+const DEFAULT_TTL_HOURS = 72;
+
+let cachedTtlHours: number | undefined;
+let cachedBaseUrl: string | undefined;
+
+/** Reads INVITATION_TTL_HOURS (default 72). */
+export function getInvitationTtlHours(): number {
+  if (cachedTtlHours === undefined) {
+    const configured = process.env.INVITATION_TTL_HOURS ?? String(DEFAULT_TTL_HOURS);
+    const hours = Number(configured);
+    if (!Number.isInteger(hours) || hours < 1) {
+      throw new Error(`Invalid INVITATION_TTL_HOURS "${configured}"; expected a whole number of hours`);
+    }
+    cachedTtlHours = hours;
+  }
+  return cachedTtlHours;
+}
+
+/**
+ * Reads PUBLIC_BASE_URL, the address users open the app at. Required in
+ * production; elsewhere it defaults to http://localhost on PORT.
+ */
+export function getPublicBaseUrl(): string {
+  if (cachedBaseUrl === undefined) {
+    const configured = process.env.PUBLIC_BASE_URL;
+    if (!configured) {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("PUBLIC_BASE_URL must be set in production to the address users open the app at, e.g. https://ooh.example.gov.za");
+      }
+      cachedBaseUrl = `http://localhost:${process.env.PORT || "5000"}`;
+    } else {
+      let url: URL;
+      try {
+        url = new URL(configured);
+      } catch {
+        throw new Error(`Invalid PUBLIC_BASE_URL "${configured}"; expected an http or https URL`);
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error(`Invalid PUBLIC_BASE_URL "${configured}"; expected an http or https URL`);
+      }
+      cachedBaseUrl = url.href.replace(/\/+$/, "");
+    }
+  }
+  return cachedBaseUrl;
+}
+
+/** The link an invitee opens to accept their invitation. */
+export function invitationUrl(token: string): string {
+  return `${getPublicBaseUrl()}/invite/${token}`;
+}
+
+/** Hash under which a token is stored and looked up. */
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** A new token, its hash and when it expires. */
+export function newInvitationToken(now = new Date()): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(now.getTime() + getInvitationTtlHours() * 60 * 60 * 1000),
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * @file Three-way match of an invoice against its bookings and proof of flighting.
+ *
+ * The booking period is split into intervals of PROOF_COVERAGE_INTERVAL_DAYS
+ * (default 30) from the first day; every interval that has started needs at
+ * least one validated or approved proof photo captured in it. Amounts may
+ * differ from the booked cost by INVOICE_MATCH_TOLERANCE_PERCENT (default 1).
+ */
+
+import type { Booking, Document, InvoiceLine } from "@shared/schema";
+import {
+  worstMatchStatus,
+  type InvoiceMatchReport,
+  type LineMatch,
+  type MatchCheck,
+} from "@shared/invoice-match";
+import { isInvoiceable } from "./invoicing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cachedTolerance: number | undefined;
+let cachedInterval: number | undefined;
+
+/** Reads INVOICE_MATCH_TOLERANCE_PERCENT as a fraction. */
+export function getMatchTolerance(): number {
+  if (cachedTolerance === undefined) {
+    const configured = process.env.INVOICE_MATCH_TOLERANCE_PERCENT ?? "1";
+    const percent = Number(configured);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new Error(`Invalid INVOICE_MATCH_TOLERANCE_PERCENT "${configured}"; expected a percentage from 0 to 100`);
+    }
+    cachedTolerance = percent / 100;
+  }
+  return cachedTolerance;
+}
+
+/** Reads PROOF_COVERAGE_INTERVAL_DAYS. */
+export function getProofCoverageInterval(): number {
+  if (cachedInterval === undefined) {
+    const configured = process.env.PROOF_COVERAGE_INTERVAL_DAYS ?? "30";
+    const days = Number(configured);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`Invalid PROOF_COVERAGE_INTERVAL_DAYS "${configured}"; expected a whole number of days`);
+    }
+    cachedInterval = days;
+  }
+  return cachedInterval;
+}
+
+const formatDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+function isVerifiedProof(document: Document) {
+  return document.type === "proof_of_flighting" && (document.status === "validated" || document.status === "approved");
+}
+
+function bookingCheck(booking: Booking | undefined): MatchCheck {
+  if (!booking) return { rule: "booking", status: "exception", message: "The booking no longer exists" };
+  if (!isInvoiceable(booking)) {
+    return { rule: "booking", status: "exception", message: `The booking is ${booking.status}, not approved` };
+  }
+  return { rule: "booking", status: "matched", message: `Booking is ${booking.status.replace(/_/g, " ")}` };
+}
+
+/** Checks that every interval of the booking flighted by `now` has a verified proof photo. */
+function proofCheck(booking: Booking, proofs: Document[], intervalDays: number, now: Date): MatchCheck {
+  const verified = proofs.filter((d) => d.bookingId === booking.id && isVerifiedProof(d));
+  if (!booking.startDate || !booking.endDate) {
+    return verified.length > 0
+      ? { rule: "proof", status: "matched", message: `${verified.length} verified proof photo(s)` }
+      : { rule: "proof", status: "exception", message: "No verified proof of flighting" };
+  }
+
+  const start = new Date(booking.startDate).getTime();
+  const lastDay = new Date(booking.endDate).getTime();
+  const until = Math.min(lastDay, now.getTime());
+  if (until < start) {
+    return { rule: "proof", status: "exception", message: "Flighting has not started, so there is no proof yet" };
+  }
+
+  const captured = verified
+    .filter((d) => d.capturedAt)
+    .map((d) => new Date(d.capturedAt!).getTime());
+  const missing: string[] = [];
+  let intervals = 0;
+  for (let from = start; from <= until; from += intervalDays * DAY_MS) {
+    intervals++;
+    const to = Math.min(from + intervalDays * DAY_MS, lastDay + DAY_MS);
+    if (!captured.some((time) => time >= from && time < to)) {
+      missing.push(`${formatDay(from)} – ${formatDay(to - DAY_MS)}`);
+    }
+  }
+
+  if (missing.length === 0) {
+    return { rule: "proof", status: "matched", message: `Verified proof covers all ${intervals} period(s) flighted` };
+  }
+  if (missing.length === intervals) {
+    return { rule: "proof", status: "exception", message: "No verified proof of flighting during the booking period" };
+  }
+  return { rule: "proof", status: "partial", message: `No verified proof for ${missing.join(", ")}` };
+}
+
+function amountCheck(line: InvoiceLine, booking: Booking, tolerance: number): MatchCheck {
+  const invoiced = Number(line.amount);
+  const booked = Number(booking.cost ?? 0);
+  const difference = Math.abs(invoiced - booked);
+  if (difference <= Math.max(booked * tolerance, 0.005)) {
+    return { rule: "amount", status: "matched", message: `Invoiced R${invoiced.toFixed(2)} agrees with the booked cost` };
+  }
+  return {
+    rule: "amount",
+    status: "exception",
+    message: `Invoiced R${invoiced.toFixed(2)} differs from the booked cost of R${booked.toFixed(2)} by more than ${(tolerance * 100).toFixed(1)}%`,
+  };
+}
+
+/** Matches each invoice line against its booking and the booking's proof-of-flighting documents. */
+export function matchInvoice(
+  lines: InvoiceLine[],
+  bookings: Booking[],
+  proofs: Document[],
+  options: { tolerance: number; proofIntervalDays: number; now: Date },
+): InvoiceMatchReport {
+  const lineMatches = lines.map((line): LineMatch => {
+    const booking = bookings.find((b) => b.id === line.bookingId);
+    const checks = [bookingCheck(booking)];
+    if (booking) {
+      checks.push(proofCheck(booking, proofs, options.proofIntervalDays, options.now));
+      checks.push(amountCheck(line, booking, options.tolerance));
+    }
+    return {
+      lineId: line.id,
+      bookingId: line.bookingId,
+      description: line.description,
+      status: worstMatchStatus(checks.map((c) => c.status)),
+      checks,
+    };
+  });
+
+  const reasons = lineMatches.flatMap((line) =>
+    line.checks.filter((c) => c.status !== "matched").map((c) => `${line.description}: ${c.message}`),
+  );
+  if (lines.length === 0) reasons.push("The invoice has no lines linked to bookings");
+
+  return {
+    status: lines.length === 0 ? "exception" : worstMatchStatus(lineMatches.map((l) => l.status)),
+    checkedAt: options.now.toISOString(),
+    tolerance: options.tolerance,
+    proofIntervalDays: options.proofIntervalDays,
+    lines: lineMatches,
+    reasons,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * @file Builds invoices from a supplier's bookings on a campaign.
+ *
+ * Each booking becomes one line: the site, the booked period, the number of
+ * days booked and the average daily rate, with the booking's cost (excluding
+ * VAT) as the line amount. The invoice totals add VAT to the line amounts.
+ */
+
+import type { Booking, InsertInvoiceLine } from "@shared/schema";
+import {
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  INVOICEABLE_BOOKING_STATUSES,
+  invoiceTotals,
+} from "@shared/invoicing";
+import type { NewInvoice } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Returns true if the booking's status allows it to be invoiced. */
+export function isInvoiceable(booking: Booking): boolean {
+  return (INVOICEABLE_BOOKING_STATUSES as readonly string[]).includes(booking.status);
+}
+
+/** Days booked, counting both the first and last day; 1 when the booking has no dates. */
+function bookedDays(booking: Booking): number {
+  if (!booking.startDate || !booking.endDate) return 1;
+  const days = Math.round((new Date(booking.endDate).getTime() - new Date(booking.startDate).getTime()) / DAY_MS) + 1;
+  return Math.max(days, 1);
+}
+
+/** The invoice line for one booking. */
+export function invoiceLineFor(booking: Booking): Omit<InsertInvoiceLine, "invoiceId"> {
+  const units = bookedDays(booking);
+  const amount = Number(booking.cost ?? 0);
+  return {
+    bookingId: booking.id,
+    description: booking.location ? `${booking.siteDescription} (${booking.location})` : booking.siteDescription,
+    periodStart: booking.startDate,
+    periodEnd: booking.endDate,
+    units,
+    unitPrice: (Math.round((amount / units) * 100) / 100).toFixed(2),
+    amount: amount.toFixed(2),
+  };
+}
+
+/**
+ * The draft invoice and lines for a supplier's bookings on a campaign,
+ * issued at `issuedAt` and due `dueDate` or after the default payment terms.
+ */
+export function buildInvoice(
+  campaignId: string,
+  supplierId: string,
+  bookings: Booking[],
+  issuedAt: Date,
+  dueDate?: Date,
+): { invoice: NewInvoice; lines: Omit<InsertInvoiceLine, "invoiceId">[] } {
+  const lines = bookings.map(invoiceLineFor);
+  const totals = invoiceTotals(lines.map((line) => Number(line.amount)));
+  return {
+    invoice: {
+      campaignId,
+      supplierId,
+      subtotal: totals.subtotal.toFixed(2),
+      vatAmount: totals.vat.toFixed(2),
+      amount: totals.total.toFixed(2),
+      status: "draft",
+      issuedAt,
+      dueDate: dueDate ?? new Date(issuedAt.getTime() + DEFAULT_PAYMENT_TERMS_DAYS * DAY_MS),
+    },
+    lines,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * @file Minimal OpenID Connect provider for offline development and testing.
+ *
+ * Mounted at /mock-oidc when OIDC_MOCK=true (never in production). It supports
+ * discovery, an authorization endpoint with an identity picker, the token
+ * endpoint with PKCE (S256) verification, and a JWKS endpoint. ID tokens are
+ * RS256-signed with a key pair generated at startup, so the application
+ * exercises exactly the same validation path it uses against Entra ID.
+ */
+
+import express, { type Express, type Request, type Response } from "express";
+import { createHash, generateKeyPairSync, randomBytes, sign, randomUUID } from "crypto";
+
+/** Directory identities offered on the mock sign-in page. */
+const MOCK_IDENTITIES = [
+  { oid: "6f1c1d2e-0000-4000-8000-000000000001", username: "lindiwe.dlamini@gov.za", name: "Lindiwe Dlamini", groups: ["ooh-department-admins"] },
+  { oid: "6f1c1d2e-0000-4000-8000-000000000002", username: "sipho.ndlovu@gov.za", name: "Sipho Ndlovu", groups: ["ooh-campaign-planners"] },
+  { oid: "6f1c1d2e-0000-4000-8000-000000000003", username: "naledi.khumalo@gov.za", name: "Naledi Khumalo", groups: ["ooh-finance"] },
+  { oid: "6f1c1d2e-0000-4000-8000-000000000004", username: "pieter.botha@gov.za", name: "Pieter Botha", groups: ["ooh-auditors"] },
+  { oid: "6f1c1d2e-0000-4000-8000-000000000005", username: "guest.user@gov.za", name: "Unassigned Guest", groups: [] as string[] },
+];
+
+/** Issued authorization codes awaiting redemption. */
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  identity: (typeof MOCK_IDENTITIES)[number];
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 3600;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Registers the mock provider routes under /mock-oidc. */
+export function setupMockOidc(app: Express) {
+  const port = process.env.PORT || "5000";
+  const issuer = `http://localhost:${port}/mock-oidc`;
+  const kid = randomUUID();
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+
+  const router = express.Router();
+
+  router.get("/.well-known/openid-configuration", (_req: Request, res: Response) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  router.get("/jwks", (_req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" }] });
+  });
+
+  /** Renders an identity picker that re-posts the original authorization parameters. */
+  router.get("/authorize", (req: Request, res: Response) => {
+    const hidden = Object.entries(req.query)
+      .filter(([, v]) => typeof v === "string")
+      .map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v as string)}">`)
+      .join("");
+    const buttons = MOCK_IDENTITIES.map(
+      (identity) =>
+        `<button name="login_hint" value="${identity.oid}">${escapeHtml(identity.name)}<br><small>${escapeHtml(identity.username)} &middot; ${escapeHtml(identity.groups.join(", ") || "no groups")}</small></button>`,
+    ).join("");
+    res.type("html").send(`<!doctype html>
+<html><head><title>Mock Identity Provider</title>
+<style>body{font-family:system-ui;max-width:420px;margin:60px auto;color:#0f172a}button{display:block;width:100%;margin:8px 0;padding:12px;text-align:left;border:1px solid #cbd5e1;border-radius:6px;background:#fff;cursor:pointer}small{color:#64748b}</style>
+</head><body><h2>Mock Identity Provider</h2><p>Choose an identity to sign in as.</p>
+<form method="post">${hidden}${buttons}</form></body></html>`);
+  });
+
+  router.post("/authorize", (req: Request, res: Response) => {
+    const { client_id, redirect_uri, response_type, state, nonce, code_challenge, code_challenge_method, login_hint } = req.body;
+    const identity = MOCK_IDENTITIES.find((i) => i.oid === login_hint);
+    if (response_type !== "code" || code_challenge_method !== "S256" || !code_challenge || !redirect_uri || !identity) {
+      return res.status(400).send("Invalid authorization request");
+    }
+
+    const code = randomBytes(24).toString("base64url");
+    codes.set(code, {
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge,
+      nonce,
+      identity,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const target = new URL(redirect_uri);
+    target.searchParams.set("code", code);
+    if (state) target.searchParams.set("state", state);
+    return res.redirect(target.toString());
+  });
+
+  router.post("/token", (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+    const pending = codes.get(code);
+    codes.delete(code);
+
+    const challenge = code_verifier ? createHash("sha256").update(code_verifier).digest("base64url") : "";
+    if (
+      grant_type !== "authorization_code" ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.clientId !== client_id ||
+      pending.redirectUri !== redirect_uri ||
+      pending.codeChallenge !== challenge
+    ) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const { identity } = pending;
+    const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid })).toString("base64url");
+    const payload = Buffer.from(
+      JSON.stringify({
+        iss: issuer,
+        sub: identity.oid,
+        oid: identity.oid,
+        aud: client_id,
+        iat: now,
+        exp: now + TOKEN_TTL_SECONDS,
+        nonce: pending.nonce,
+        name: identity.name,
+        email: identity.username,
+        preferred_username: identity.username,
+        groups: identity.groups,
+      }),
+    ).toString("base64url");
+    const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+
+    return res.json({
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      access_token: randomBytes(32).toString("base64url"),
+      id_token: `${header}.${payload}.${signature}`,
+    });
+  });
+
+  app.use("/mock-oidc", router);
+}
@@ -0,0 +1,342 @@
+/**
+ * @file OpenID Connect sign-in for Azure Entra ID.
+ *
+ * Implements the authorization-code flow with PKCE: building the authorization
+ * redirect, exchanging the code at the token endpoint, validating the ID token
+ * signature against the provider's JWKS and its standard claims, mapping group
+ * claims to an application role, and just-in-time provisioning of the user.
+ * All settings come from environment variables (see .env.example); when
+ * OIDC_MOCK=true the bundled mock provider in mock-oidc.ts is used instead.
+ */
+
+import type { Request } from "express";
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from "crypto";
+import type { User } from "@shared/schema";
+import type { Role } from "@shared/permissions";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Pending authorization request, held between the redirect and the callback. */
+    oidc: {
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+      redirectUri: string;
+    };
+  }
+}
+
+/** Resolved OIDC client configuration. */
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  scopes: string;
+  displayName: string;
+  groupRoles: Map<string, Role>;
+}
+
+/** Subset of the provider metadata published at /.well-known/openid-configuration. */
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** ID token claims used by the application. */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  oid?: string;
+  name?: string;
+  email?: string;
+  preferred_username?: string;
+  groups?: string[];
+}
+
+/** Raised for any failure in the sign-in flow; the message is safe to show the user. */
+export class OidcError extends Error {}
+
+/**
+ * Roles that may be granted through group claims, from most to least privileged.
+ * Supplier roles are excluded because they require a supplier link that the
+ * identity provider cannot supply.
+ */
+const ASSIGNABLE_ROLES: Role[] = ["department_admin", "finance_officer", "campaign_planner", "auditor"];
+
+/** Group names issued by the mock provider, mapped by default when OIDC_MOCK=true. */
+const MOCK_GROUP_ROLES = "ooh-department-admins:department_admin,ooh-finance:finance_officer,ooh-campaign-planners:campaign_planner,ooh-auditors:auditor";
+
+/** Allowed clock skew when checking token timestamps. */
+const CLOCK_SKEW_SECONDS = 120;
+
+/**
+ * Parses OIDC_GROUP_ROLES ("groupId:role,groupId:role"). Entra issues group
+ * object IDs in the groups claim, so the keys are normally GUIDs.
+ */
+function parseGroupRoles(value: string): Map<string, Role> {
+  const map = new Map<string, Role>();
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(":");
+    const group = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim() as Role;
+    if (separator <= 0 || !ASSIGNABLE_ROLES.includes(role)) {
+      throw new Error(`Invalid OIDC_GROUP_ROLES entry "${entry}"`);
+    }
+    map.set(group, role);
+  }
+  return map;
+}
+
+let cachedConfig: OidcConfig | null | undefined;
+
+/** Returns the OIDC configuration, or null when single sign-on is not configured. */
+export function getOidcConfig(): OidcConfig | null {
+  if (cachedConfig !== undefined) return cachedConfig;
+
+  const mock = process.env.OIDC_MOCK === "true" && process.env.NODE_ENV !== "production";
+  const issuer = process.env.OIDC_ISSUER || (mock ? `http://localhost:${process.env.PORT || "5000"}/mock-oidc` : "");
+  const clientId = process.env.OIDC_CLIENT_ID || (mock ? "ooh-booking-local" : "");
+
+  if (!issuer || !clientId) {
+    cachedConfig = null;
+    return cachedConfig;
+  }
+
+  cachedConfig = {
+    issuer: issuer.replace(/\/$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    displayName: process.env.OIDC_DISPLAY_NAME || (mock ? "Mock Identity Provider" : "Microsoft Entra ID"),
+    groupRoles: parseGroupRoles(process.env.OIDC_GROUP_ROLES || (mock ? MOCK_GROUP_ROLES : "")),
+  };
+  return cachedConfig;
+}
+
+let metadataCache: ProviderMetadata | undefined;
+let jwksCache: JsonWebKey[] = [];
+
+/** Fetches and caches the provider's discovery document. */
+async function getMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+  if (metadataCache) return metadataCache;
+  const res = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  if (!res.ok) {
+    throw new OidcError("Identity provider is unavailable");
+  }
+  metadataCache = (await res.json()) as ProviderMetadata;
+  return metadataCache;
+}
+
+/**
+ * Looks up a signing key by key id. The JWKS is refetched when the id is
+ * unknown so that provider key rotation is picked up without a restart.
+ */
+async function getSigningKey(metadata: ProviderMetadata, kid: string): Promise<JsonWebKey> {
+  let key = jwksCache.find((k) => k.kid === kid);
+  if (!key) {
+    const res = await fetch(metadata.jwks_uri);
+    if (!res.ok) {
+      throw new OidcError("Unable to retrieve identity provider signing keys");
+    }
+    jwksCache = ((await res.json()) as { keys: JsonWebKey[] }).keys;
+    key = jwksCache.find((k) => k.kid === kid);
+  }
+  if (!key) {
+    throw new OidcError("ID token was signed with an unknown key");
+  }
+  return key;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verifies an RS256-signed ID token against the provider's JWKS and checks
+ * issuer, audience, expiry, issued-at and nonce.
+ */
+export async function validateIdToken(
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  idToken: string,
+  expectedNonce: string,
+): Promise<IdTokenClaims> {
+  const segments = idToken.split(".");
+  if (segments.length !== 3) {
+    throw new OidcError("Malformed ID token");
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = decodeSegment<{ alg: string; kid?: string }>(headerSegment);
+  if (header.alg !== "RS256" || !header.kid) {
+    throw new OidcError("Unsupported ID token signature algorithm");
+  }
+
+  const jwk = await getSigningKey(metadata, header.kid);
+  const valid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    createPublicKey({ key: jwk, format: "jwk" }),
+    Buffer.from(signatureSegment, "base64url"),
+  );
+  if (!valid) {
+    throw new OidcError("ID token signature is invalid");
+  }
+
+  const claims = decodeSegment<IdTokenClaims>(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new OidcError("ID token issuer does not match");
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new OidcError("ID token was not issued for this application");
+  }
+  if (typeof claims.exp !== "number" || claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new OidcError("ID token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new OidcError("ID token was issued in the future");
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new OidcError("ID token nonce does not match");
+  }
+  return claims;
+}
+
+/**
+ * Starts a sign-in: generates state, nonce and a PKCE verifier, stores them in
+ * the session, and returns the provider URL to redirect the browser to.
+ */
+export async function beginAuthorization(req: Request, config: OidcConfig): Promise<string> {
+  const metadata = await getMetadata(config);
+  const state = base64url(randomBytes(32));
+  const nonce = base64url(randomBytes(32));
+  const codeVerifier = base64url(randomBytes(32));
+  const codeChallenge = base64url(createHash("sha256").update(codeVerifier).digest());
+  const redirectUri = config.redirectUri || `${req.protocol}://${req.get("host")}/api/auth/oidc/callback`;
+
+  req.session.oidc = { state, nonce, codeVerifier, redirectUri };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Completes a sign-in on the callback: checks state, redeems the code with the
+ * PKCE verifier, and returns the validated ID token claims.
+ */
+export async function completeAuthorization(req: Request, config: OidcConfig): Promise<IdTokenClaims> {
+  const pending = req.session.oidc;
+  delete req.session.oidc;
+
+  if (typeof req.query.error === "string") {
+    throw new OidcError(
+      typeof req.query.error_description === "string" ? req.query.error_description : "Sign-in was cancelled",
+    );
+  }
+  const { code, state } = req.query;
+  if (!pending || typeof code !== "string" || typeof state !== "string" || state !== pending.state) {
+    throw new OidcError("Sign-in request expired or is invalid; please try again");
+  }
+
+  const metadata = await getMetadata(config);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: pending.redirectUri,
+    client_id: config.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const res = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+  if (!res.ok) {
+    throw new OidcError("Identity provider rejected the authorization code");
+  }
+  const tokens = (await res.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new OidcError("Identity provider did not return an ID token");
+  }
+  return validateIdToken(config, metadata, tokens.id_token, pending.nonce);
+}
+
+/**
+ * Maps the groups claim to the most privileged assignable role.
+ * Returns undefined when none of the user's groups is mapped.
+ */
+export function resolveRole(config: OidcConfig, groups: string[] = []): Role | undefined {
+  const granted = new Set(groups.map((g) => config.groupRoles.get(g)).filter(Boolean));
+  return ASSIGNABLE_ROLES.find((role) => granted.has(role));
+}
+
+/**
+ * Finds or creates the local user for a validated identity. The role, name
+ * and email are refreshed from the token on every sign-in so that group
+ * changes in the directory take effect at the next login. Provisioned users
+ * get a random, never-disclosed password so they cannot use the local form.
+ */
+export async function provisionUser(config: OidcConfig, claims: IdTokenClaims): Promise<User> {
+  const role = resolveRole(config, claims.groups);
+  if (!role) {
+    throw new OidcError("Your account is not assigned to any OOH Booking role");
+  }
+
+  const externalId = claims.oid || claims.sub;
+  const username = claims.preferred_username || claims.email || externalId;
+  const profile = {
+    fullName: claims.name || username,
+    email: claims.email || claims.preferred_username || "",
+    role,
+  };
+
+  const existing = await storage.getUserByExternalId(externalId);
+  if (existing) {
+    if (!existing.active) {
+      throw new OidcError("Your account has been deactivated");
+    }
+    return (await storage.updateUser(existing.id, profile))!;
+  }
+
+  if (await storage.getUserByUsername(username)) {
+    throw new OidcError("A local account with this username already exists; ask an administrator to link it");
+  }
+
+  return storage.createUser({
+    ...profile,
+    username,
+    externalId,
+    password: await hashPassword(base64url(randomBytes(32))),
+    active: true,
+  });
+}
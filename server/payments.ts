@@ -0,0 +1,156 @@
+/**
+ * @file Invoice payment report (spend by month, balances by status, and each
+ * supplier's days-to-pay against the PFMA 30-day requirement) and supplier
+ * statements.
+ *
+ * Expects invoices with their derived status (see derivedInvoiceStatus), so
+ * overdue balances are current as of the day the report is built.
+ */
+
+import type { CreditNote, Invoice, Payment, Supplier } from "@shared/schema";
+import {
+  invoiceBalance,
+  PFMA_PAYMENT_DAYS,
+  type InvoiceReport,
+  type MonthlySpend,
+  type StatementEntry,
+  type SupplierPaymentCompliance,
+  type SupplierStatement,
+} from "@shared/payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+/** Whole days from an invoice's issue date to a payment. */
+export function daysToPay(issuedAt: Date, paidOn: Date): number {
+  return Math.max(0, Math.floor((paidOn.getTime() - issuedAt.getTime()) / DAY_MS));
+}
+
+/** Payments in each of the twelve months up to and including the current one. */
+function monthlySpend(payments: Payment[], today: Date): MonthlySpend[] {
+  const months: MonthlySpend[] = [];
+  for (let offset = 11; offset >= 0; offset--) {
+    const month = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - offset, 1));
+    months.push({ month: monthKey(month), amount: 0 });
+  }
+  for (const payment of payments) {
+    const entry = months.find((m) => m.month === monthKey(new Date(payment.paidOn)));
+    if (entry) entry.amount = roundCents(entry.amount + Number(payment.amount));
+  }
+  return months;
+}
+
+/**
+ * Days-to-pay for one supplier: a paid invoice counts from its issue date to
+ * the payment that settled it.
+ */
+function supplierCompliance(
+  supplier: Pick<Supplier, "id" | "name">,
+  supplierInvoices: Invoice[],
+  payments: Payment[],
+  today: Date,
+): SupplierPaymentCompliance {
+  const days: number[] = [];
+  let unpaidPastTerms = 0;
+  for (const invoice of supplierInvoices) {
+    if (invoice.status === "draft" || invoice.status === "cancelled" || !invoice.issuedAt) continue;
+    if (invoice.status === "paid") {
+      const settledOn = payments
+        .filter((p) => p.invoiceId === invoice.id)
+        .reduce<Date | null>((latest, p) => (!latest || p.paidOn > latest ? new Date(p.paidOn) : latest), null);
+      if (settledOn) days.push(daysToPay(new Date(invoice.issuedAt), settledOn));
+    } else if (daysToPay(new Date(invoice.issuedAt), today) > PFMA_PAYMENT_DAYS) {
+      unpaidPastTerms++;
+    }
+  }
+
+  const paidWithinTerms = days.filter((d) => d <= PFMA_PAYMENT_DAYS).length;
+  return {
+    supplierId: supplier.id,
+    supplierName: supplier.name,
+    paidInvoices: days.length,
+    averageDaysToPay: days.length > 0 ? Math.round((days.reduce((sum, d) => sum + d, 0) / days.length) * 10) / 10 : null,
+    paidWithinTerms,
+    paidLate: days.length - paidWithinTerms,
+    unpaidPastTerms,
+    complianceRate: days.length > 0 ? paidWithinTerms / days.length : null,
+  };
+}
+
+/** Builds the payment report over every issued invoice. */
+export function buildInvoiceReport(
+  invoices: Invoice[],
+  payments: Payment[],
+  suppliers: Supplier[],
+  today: Date,
+): InvoiceReport {
+  const issued = invoices.filter((i) => i.status !== "draft");
+  const overdue = issued.filter((i) => i.status === "overdue");
+  const totals = {
+    invoiced: roundCents(issued.reduce((sum, i) => sum + Number(i.amount) - Number(i.amountCredited), 0)),
+    credited: roundCents(issued.reduce((sum, i) => sum + Number(i.amountCredited), 0)),
+    paid: roundCents(issued.reduce((sum, i) => sum + Number(i.amountPaid), 0)),
+    outstanding: roundCents(issued.reduce((sum, i) => sum + invoiceBalance(i), 0)),
+    overdue: roundCents(overdue.reduce((sum, i) => sum + invoiceBalance(i), 0)),
+    overdueCount: overdue.length,
+  };
+
+  const paymentCompliance = suppliers
+    .map((supplier) => ({ supplier, supplierInvoices: issued.filter((i) => i.supplierId === supplier.id) }))
+    .filter(({ supplierInvoices }) => supplierInvoices.length > 0)
+    .map(({ supplier, supplierInvoices }) => supplierCompliance(supplier, supplierInvoices, payments, today))
+    .sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+
+  return { totals, monthlySpend: monthlySpend(payments, today), paymentCompliance };
+}
+
+/**
+ * A supplier's account: its issued invoices, credit notes and payments in
+ * date order with the running amount owed.
+ */
+export function buildSupplierStatement(
+  supplier: Pick<Supplier, "id" | "name">,
+  invoices: Invoice[],
+  creditNotes: CreditNote[],
+  payments: Payment[],
+): SupplierStatement {
+  const issued = invoices.filter((i) => i.supplierId === supplier.id && i.status !== "draft");
+  const numberOf = (invoiceId: string) => issued.find((i) => i.id === invoiceId)?.invoiceNumber ?? invoiceId;
+  const dated = [
+    ...issued.map((i) => ({
+      at: new Date(i.issuedAt ?? i.createdAt),
+      entry: { type: "invoice" as const, reference: i.invoiceNumber, description: "Invoice", debit: Number(i.amount), credit: 0 },
+    })),
+    ...creditNotes.filter((c) => issued.some((i) => i.id === c.invoiceId)).map((c) => ({
+      at: new Date(c.issuedAt),
+      entry: { type: "credit_note" as const, reference: c.creditNoteNumber, description: `Credit against ${numberOf(c.invoiceId)}: ${c.reason}`, debit: 0, credit: Number(c.amount) },
+    })),
+    ...payments.filter((p) => issued.some((i) => i.id === p.invoiceId)).map((p) => ({
+      at: new Date(p.paidOn),
+      entry: { type: "payment" as const, reference: p.reference, description: `Payment of ${numberOf(p.invoiceId)}`, debit: 0, credit: Number(p.amount) },
+    })),
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  let balance = 0;
+  const entries = dated.map(({ at, entry }): StatementEntry => {
+    balance = roundCents(balance + entry.debit - entry.credit);
+    return { date: at.toISOString(), ...entry, balance };
+  });
+  const sumOf = (type: StatementEntry["type"], field: "debit" | "credit") =>
+    roundCents(entries.filter((e) => e.type === type).reduce((sum, e) => sum + e[field], 0));
+
+  return {
+    supplierId: supplier.id,
+    supplierName: supplier.name,
+    entries,
+    totals: {
+      invoiced: sumOf("invoice", "debit"),
+      credited: sumOf("credit_note", "credit"),
+      paid: sumOf("payment", "credit"),
+      balance,
+    },
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * @file PDF rendering of tax invoices and campaign post-flight reports.
+ *
+ * Documents are drawn in-process with pdfkit using its built-in Helvetica
+ * fonts, so nothing leaves the server. Output is held in memory and refused
+ * once it passes the document download limit; proof photos in the report are
+ * downscaled and stop being embedded well before that.
+ */
+
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import {
+  MAX_DOCUMENT_BYTES,
+  type Booking,
+  type Campaign,
+  type Document,
+  type Invoice,
+  type InvoiceLine,
+  type Supplier,
+} from "@shared/schema";
+import type { CampaignBudget } from "@shared/budget";
+import { VAT_RATE } from "@shared/pricing";
+
+/** Thrown when a rendered PDF is larger than the download limit. */
+export class PdfTooLargeError extends Error {
+  constructor(public size: number) {
+    super("The generated PDF is larger than the download limit");
+  }
+}
+
+/** The department invoices are addressed to, as printed on tax invoices. */
+export interface DepartmentDetails {
+  name: string;
+  address: string | null;
+  vatNumber: string | null;
+}
+
+let cachedDepartment: DepartmentDetails | undefined;
+
+/** Reads DEPARTMENT_NAME, DEPARTMENT_ADDRESS and DEPARTMENT_VAT_NUMBER. */
+export function getDepartmentDetails(): DepartmentDetails {
+  if (!cachedDepartment) {
+    const name = process.env.DEPARTMENT_NAME?.trim() || "Government Department";
+    const vatNumber = process.env.DEPARTMENT_VAT_NUMBER?.trim() || null;
+    if (vatNumber && !/^4\d{9}$/.test(vatNumber)) {
+      throw new Error(`Invalid DEPARTMENT_VAT_NUMBER "${vatNumber}"; expected a 10-digit number starting with 4`);
+    }
+    cachedDepartment = { name, address: process.env.DEPARTMENT_ADDRESS?.trim() || null, vatNumber };
+  }
+  return cachedDepartment;
+}
+
+/** Proof photos are embedded until they take up this much of the PDF. */
+const PHOTO_BUDGET_BYTES = Math.floor(MAX_DOCUMENT_BYTES * 0.8);
+const PHOTO_WIDTH_PX = 640;
+
+const PAGE_MARGIN = 50;
+
+/** en-ZA currency with plain spaces; the standard PDF fonts cannot draw narrow no-break spaces. */
+const formatCurrency = (value: string | number | null) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(value ?? 0)).replace(/\s/g, " ");
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString("en-ZA") : "—");
+
+const formatPeriod = (start: Date | null, end: Date | null) =>
+  start || end ? `${formatDate(start)} – ${formatDate(end)}` : "—";
+
+interface Column {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+/** Collects the document's output, failing once it passes the download limit. */
+function renderToBuffer(doc: PDFKit.PDFDocument, draw: () => Promise<void> | void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    doc.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      chunks.push(chunk);
+    });
+    doc.on("end", () => (size > MAX_DOCUMENT_BYTES ? reject(new PdfTooLargeError(size)) : resolve(Buffer.concat(chunks))));
+    doc.on("error", reject);
+    Promise.resolve()
+      .then(draw)
+      .then(() => doc.end(), reject);
+  });
+}
+
+/** Starts a new page when fewer than `height` points are left on this one. */
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) doc.addPage();
+}
+
+/** Draws a simple ruled table from the left margin, repeating the header on each new page. */
+function drawTable(doc: PDFKit.PDFDocument, columns: Column[], rows: string[][]) {
+  const left = PAGE_MARGIN;
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 6 }))) + 6;
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      if (!bold) drawRow(columns.map((c) => c.header), true);
+      doc.font("Helvetica").fontSize(9);
+    }
+    const top = doc.y;
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, top + 3, { width: columns[i].width - 6, align: columns[i].align ?? "left" });
+      x += columns[i].width;
+    });
+    doc.moveTo(left, top + height).lineTo(x, top + height).strokeColor("#cbd5e1").lineWidth(0.5).stroke();
+    doc.x = left;
+    doc.y = top + height;
+  };
+  drawRow(columns.map((c) => c.header), true);
+  rows.forEach((row) => drawRow(row, false));
+  doc.moveDown(0.5);
+}
+
+/** Two-column label/value lines, e.g. for totals. */
+function drawKeyValues(doc: PDFKit.PDFDocument, pairs: [string, string][], options: { x: number; width: number }) {
+  doc.fontSize(10);
+  for (const [label, value] of pairs) {
+    ensureSpace(doc, 16);
+    const top = doc.y;
+    doc.font("Helvetica").text(label, options.x, top, { width: options.width / 2 });
+    doc.font("Helvetica-Bold").text(value, options.x + options.width / 2, top, { width: options.width / 2, align: "right" });
+    doc.y = Math.max(doc.y, top + 14);
+  }
+  doc.x = PAGE_MARGIN;
+}
+
+function addressBlock(doc: PDFKit.PDFDocument, heading: string, lines: (string | null)[], x: number, y: number, width: number) {
+  doc.font("Helvetica-Bold").fontSize(10).text(heading, x, y, { width });
+  doc.font("Helvetica").fontSize(9);
+  lines.filter((line): line is string => !!line).forEach((line) => doc.text(line, x, doc.y, { width }));
+  return doc.y;
+}
+
+export interface InvoicePdfInput {
+  invoice: Invoice;
+  lines: InvoiceLine[];
+  supplier: Supplier | undefined;
+  campaign: Campaign | undefined;
+  department: DepartmentDetails;
+}
+
+/**
+ * Renders a tax invoice: supplier and recipient with their VAT numbers, the
+ * invoice number and dates, one row per line, subtotal, VAT and total, and
+ * the supplier's banking details for payment.
+ */
+export function renderInvoicePdf({ invoice, lines, supplier, campaign, department }: InvoicePdfInput): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: { Title: `Tax Invoice ${invoice.invoiceNumber}`, Author: supplier?.name ?? department.name },
+  });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+  return renderToBuffer(doc, () => {
+    doc.font("Helvetica-Bold").fontSize(20).text("TAX INVOICE", PAGE_MARGIN, PAGE_MARGIN);
+    doc.font("Helvetica").fontSize(10).text(invoice.invoiceNumber, { continued: false });
+    doc.moveDown();
+
+    const top = doc.y;
+    const half = contentWidth / 2 - 10;
+    const supplierBottom = addressBlock(doc, "From", [
+      supplier?.name ?? "Unknown supplier",
+      supplier?.address ?? null,
+      supplier ? `${supplier.contactPerson} · ${supplier.email}` : null,
+      supplier?.phone ?? null,
+      `VAT No: ${supplier?.vatNumber ?? "not on record"}`,
+    ], PAGE_MARGIN, top, half);
+    const departmentBottom = addressBlock(doc, "To", [
+      department.name,
+      department.address,
+      department.vatNumber ? `VAT No: ${department.vatNumber}` : null,
+    ], PAGE_MARGIN + half + 20, top, half);
+    doc.x = PAGE_MARGIN;
+    doc.y = Math.max(supplierBottom, departmentBottom);
+    doc.moveDown();
+
+    drawKeyValues(doc, [
+      ["Invoice number", invoice.invoiceNumber],
+      ["Date of issue", formatDate(invoice.issuedAt ?? invoice.createdAt)],
+      ["Due date", formatDate(invoice.dueDate)],
+      ["Campaign", campaign?.name ?? invoice.campaignId],
+    ], { x: PAGE_MARGIN, width: half });
+    doc.moveDown();
+
+    drawTable(doc, [
+      { header: "Description", width: contentWidth - 320 },
+      { header: "Period", width: 120 },
+      { header: "Days", width: 40, align: "right" },
+      { header: "Daily rate", width: 75, align: "right" },
+      { header: "Amount (excl. VAT)", width: 85, align: "right" },
+    ], lines.length > 0
+      ? lines.map((line) => [
+        line.description,
+        formatPeriod(line.periodStart, line.periodEnd),
+        String(line.units),
+        formatCurrency(line.unitPrice),
+        formatCurrency(line.amount),
+      ])
+      : [["Outdoor advertising services", "—", "—", "—", formatCurrency(invoice.subtotal ?? invoice.amount)]]);
+
+    const subtotal = invoice.subtotal ?? invoice.amount;
+    drawKeyValues(doc, [
+      ["Subtotal", formatCurrency(subtotal)],
+      [`VAT (${Math.round(VAT_RATE * 100)}%)`, formatCurrency(invoice.vatAmount ?? 0)],
+      ["Total (incl. VAT)", formatCurrency(invoice.amount)],
+    ], { x: PAGE_MARGIN + contentWidth - 220, width: 220 });
+    doc.moveDown();
+
+    ensureSpace(doc, 80);
+    doc.font("Helvetica-Bold").fontSize(10).text("Banking details", PAGE_MARGIN);
+    doc.font("Helvetica").fontSize(9);
+    if (supplier?.bankName && supplier.bankAccountNumber) {
+      doc.text(`Account holder: ${supplier.name}`);
+      doc.text(`Bank: ${supplier.bankName}`);
+      doc.text(`Account number: ${supplier.bankAccountNumber}`);
+      if (supplier.bankBranchCode) doc.text(`Branch code: ${supplier.bankBranchCode}`);
+      doc.text(`Reference: ${invoice.invoiceNumber}`);
+    } else {
+      doc.text("The supplier's banking details are not on record.");
+    }
+  });
+}
+
+export interface CampaignReportInput {
+  campaign: Campaign;
+  bookings: Booking[];
+  suppliers: Supplier[];
+  budget: CampaignBudget;
+  /** Proof-of-flighting documents, with their photo bytes where the file could be read. */
+  proofs: { document: Document; photo: Buffer | null }[];
+}
+
+/**
+ * Renders a campaign's post-flight report: campaign details, spend against
+ * budget, the booked sites with their proof-of-flighting status, and the
+ * approved or validated proof photos, downscaled, as far as the size budget
+ * allows.
+ */
+export function renderCampaignReportPdf({ campaign, bookings, suppliers, budget, proofs }: CampaignReportInput): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: { Title: `Post-flight report: ${campaign.name}` },
+  });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const supplierName = (id: string) => suppliers.find((s) => s.id === id)?.name ?? id;
+  const verified = (d: Document) => d.status === "approved" || d.status === "validated";
+
+  return renderToBuffer(doc, async () => {
+    doc.font("Helvetica-Bold").fontSize(18).text("Post-Flight Report", PAGE_MARGIN, PAGE_MARGIN);
+    doc.font("Helvetica").fontSize(12).text(campaign.name);
+    doc.fontSize(9).fillColor("#475569").text(`Generated ${new Date().toLocaleString("en-ZA")}`).fillColor("black");
+    doc.moveDown();
+
+    drawKeyValues(doc, [
+      ["Status", campaign.status.replace(/_/g, " ")],
+      ["Region", campaign.region ?? "—"],
+      ["Flighting period", formatPeriod(campaign.startDate, campaign.endDate)],
+      ["Target reach", campaign.targetReach != null ? campaign.targetReach.toLocaleString("en-ZA") : "—"],
+      ["Budget", budget.budget != null ? formatCurrency(budget.budget) : "—"],
+      ["Committed", formatCurrency(budget.committed)],
+      ["Invoiced", formatCurrency(budget.invoiced)],
+      ["Paid", formatCurrency(budget.paid)],
+    ], { x: PAGE_MARGIN, width: 300 });
+    doc.moveDown();
+
+    const flighted = bookings.filter((b) => b.status !== "rejected" && b.status !== "pending");
+    doc.font("Helvetica-Bold").fontSize(12).text("Sites", PAGE_MARGIN);
+    doc.moveDown(0.3);
+    drawTable(doc, [
+      { header: "Site", width: contentWidth - 345 },
+      { header: "Supplier", width: 95 },
+      { header: "Period", width: 110 },
+      { header: "Cost", width: 75, align: "right" },
+      { header: "Proof", width: 65 },
+    ], flighted.map((booking) => {
+      const bookingProofs = proofs.filter((p) => p.document.bookingId === booking.id);
+      const proofStatus = bookingProofs.some((p) => verified(p.document))
+        ? "Verified"
+        : bookingProofs.length > 0 ? "Unverified" : "None";
+      return [
+        booking.location ? `${booking.siteDescription}\n${booking.location}` : booking.siteDescription,
+        supplierName(booking.supplierId),
+        formatPeriod(booking.startDate, booking.endDate),
+        formatCurrency(booking.cost),
+        proofStatus,
+      ];
+    }));
+
+    const photos = proofs.filter((p) => verified(p.document) && p.photo);
+    if (photos.length === 0) return;
+
+    doc.addPage();
+    doc.font("Helvetica-Bold").fontSize(12).text("Proof of Flighting", PAGE_MARGIN);
+    doc.moveDown(0.5);
+    let embedded = 0;
+    let omitted = 0;
+    for (const { document, photo } of photos) {
+      let image: Buffer;
+      try {
+        image = await sharp(photo!).rotate().resize({ width: PHOTO_WIDTH_PX, withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer();
+      } catch {
+        continue;
+      }
+      if (embedded + image.length > PHOTO_BUDGET_BYTES) {
+        omitted++;
+        continue;
+      }
+      embedded += image.length;
+      const booking = bookings.find((b) => b.id === document.bookingId);
+      ensureSpace(doc, 250);
+      doc.image(image, PAGE_MARGIN, doc.y, { fit: [contentWidth, 200] });
+      doc.y += 205;
+      doc.font("Helvetica").fontSize(8).text(
+        [
+          booking?.siteDescription ?? document.fileName,
+          document.capturedAt ? `captured ${new Date(document.capturedAt).toLocaleString("en-ZA")}` : null,
+          document.gpsLatitude && document.gpsLongitude ? `GPS ${document.gpsLatitude}, ${document.gpsLongitude}` : null,
+        ].filter(Boolean).join(" · "),
+        PAGE_MARGIN,
+      );
+      doc.moveDown();
+    }
+    if (omitted > 0) {
+      doc.font("Helvetica").fontSize(9).fillColor("#475569")
+        .text(`${omitted} further photo${omitted === 1 ? "" : "s"} not included to keep the report within the download limit.`)
+        .fillColor("black");
+    }
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * @file Pricing engine for screen bookings.
+ *
+ * Prices a booking from the screen's rate card by choosing the cheapest
+ * combination of monthly (30-day), weekly (7-day) and daily units that covers
+ * every booked day — buying a longer unit than strictly needed when that is
+ * cheaper — then applies the supplier's discounts and surcharges pro rata to
+ * the days they cover, and finally VAT. All arithmetic is done in cents.
+ * Negotiated contract rates replace the screen's rate card and are final:
+ * the supplier's adjustments are not applied on top of them.
+ */
+
+import type { ContractRate, Inventory, PricingAdjustment, SupplierContract } from "@shared/schema";
+import {
+  VAT_RATE,
+  RATE_UNIT_DAYS,
+  type Quote,
+  type QuoteAdjustmentLine,
+  type QuoteRateLine,
+  type RateUnit,
+} from "@shared/pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest booking that can be quoted, to bound the calculation. */
+const MAX_BOOKING_DAYS = 3 * 366;
+
+/** The supplier contract covering a booking and its negotiated rates for the screen, if any. */
+export interface ContractPricing {
+  contract: SupplierContract;
+  rate?: ContractRate;
+}
+
+/** A booking that cannot be priced, e.g. an inverted or overlong date range. */
+export class PricingError extends Error {}
+
+/** Truncates a date to midnight UTC, the form booking dates are stored in. */
+function toUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function toCents(value: string | number): number {
+  return Math.round(Number(value) * 100);
+}
+
+function toRand(cents: number): number {
+  return cents / 100;
+}
+
+/** Number of days in both inclusive ranges; open-ended window bounds are unbounded. */
+function overlapDays(start: number, end: number, windowStart: Date | null, windowEnd: Date | null): number {
+  const from = Math.max(start, windowStart ? toUtcDay(windowStart) : -Infinity);
+  const to = Math.min(end, windowEnd ? toUtcDay(windowEnd) : Infinity);
+  return to < from ? 0 : Math.round((to - from) / DAY_MS) + 1;
+}
+
+/**
+ * Finds the cheapest way to cover `days` days with the available units.
+ * best[d] is the cheapest cost of covering d days; each step may overshoot,
+ * so a weekly unit can cover the last 5 days when that beats 5 daily units.
+ */
+function cheapestUnits(days: number, rates: Partial<Record<RateUnit, number>>): QuoteRateLine[] {
+  const units = (Object.keys(RATE_UNIT_DAYS) as RateUnit[]).filter((u) => rates[u] !== undefined);
+  const best: number[] = [0];
+  const choice: RateUnit[] = [];
+
+  for (let d = 1; d <= days; d++) {
+    best[d] = Infinity;
+    for (const unit of units) {
+      const cost = best[Math.max(0, d - RATE_UNIT_DAYS[unit])] + rates[unit]!;
+      if (cost < best[d]) {
+        best[d] = cost;
+        choice[d] = unit;
+      }
+    }
+  }
+
+  const counts: Partial<Record<RateUnit, number>> = {};
+  for (let d = days; d > 0; d = Math.max(0, d - RATE_UNIT_DAYS[choice[d]])) {
+    counts[choice[d]] = (counts[choice[d]] ?? 0) + 1;
+  }
+  return units
+    .filter((unit) => counts[unit])
+    .map((unit) => ({
+      unit,
+      quantity: counts[unit]!,
+      unitPrice: toRand(rates[unit]!),
+      amount: toRand(counts[unit]! * rates[unit]!),
+    }));
+}
+
+/**
+ * Prices a booking of `screen` from `startDate` to `endDate` inclusive.
+ * `adjustments` may contain any of the supplier's adjustments; those that are
+ * inactive, for another screen, outside the booking window or below their
+ * minimum booking length are skipped. Under a contract with a negotiated rate
+ * for the screen, that rate card is used and no adjustments apply.
+ */
+export function calculateQuote(
+  screen: Inventory,
+  startDate: Date,
+  endDate: Date,
+  adjustments: PricingAdjustment[],
+  contract: ContractPricing | null = null,
+): Quote {
+  const start = toUtcDay(startDate);
+  const end = toUtcDay(endDate);
+  if (end < start) {
+    throw new PricingError("End date must be on or after the start date");
+  }
+  const days = Math.round((end - start) / DAY_MS) + 1;
+  if (days > MAX_BOOKING_DAYS) {
+    throw new PricingError(`Bookings can be quoted for at most ${MAX_BOOKING_DAYS} days`);
+  }
+
+  const rateCard = contract?.rate ?? screen;
+  const rates: Partial<Record<RateUnit, number>> = { daily: toCents(rateCard.dailyRate) };
+  if (rateCard.weeklyRate) rates.weekly = toCents(rateCard.weeklyRate);
+  if (rateCard.monthlyRate) rates.monthly = toCents(rateCard.monthlyRate);
+
+  const rateLines = cheapestUnits(days, rates);
+  const baseCents = rateLines.reduce((total, line) => total + toCents(line.amount), 0);
+
+  const adjustmentLines: QuoteAdjustmentLine[] = [];
+  let adjustmentCents = 0;
+  for (const adjustment of contract?.rate ? [] : adjustments) {
+    if (!adjustment.active || adjustment.supplierId !== screen.supplierId) continue;
+    if (adjustment.inventoryId && adjustment.inventoryId !== screen.id) continue;
+    if (adjustment.minDays && days < adjustment.minDays) continue;
+    const coveredDays = overlapDays(start, end, adjustment.startDate, adjustment.endDate);
+    if (coveredDays === 0) continue;
+
+    const percentage = Number(adjustment.percentage);
+    const magnitude = Math.round((baseCents * coveredDays * percentage) / days / 100);
+    const cents = adjustment.kind === "discount" ? -magnitude : magnitude;
+    adjustmentCents += cents;
+    adjustmentLines.push({
+      adjustmentId: adjustment.id,
+      kind: adjustment.kind,
+      name: adjustment.name,
+      percentage,
+      days: coveredDays,
+      amount: toRand(cents),
+    });
+  }
+
+  const subtotalCents = Math.max(0, baseCents + adjustmentCents);
+  const vatCents = Math.round(subtotalCents * VAT_RATE);
+
+  return {
+    inventoryId: screen.id,
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(end).toISOString(),
+    days,
+    rateLines,
+    baseAmount: toRand(baseCents),
+    adjustments: adjustmentLines,
+    subtotal: toRand(subtotalCents),
+    vatRate: VAT_RATE,
+    vat: toRand(vatCents),
+    total: toRand(subtotalCents + vatCents),
+    contract: contract && {
+      contractId: contract.contract.id,
+      contractNumber: contract.contract.contractNumber,
+      negotiatedRates: !!contract.rate,
+    },
+    quotedAt: new Date().toISOString(),
+  };
+}
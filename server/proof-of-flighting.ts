@@ -0,0 +1,157 @@
+/**
+ * @file Proof-of-flighting verification.
+ *
+ * Proof photos are checked against the booking they are uploaded for: the
+ * GPS position and DateTimeOriginal are read from the photo's EXIF data (JPEG
+ * or HEIC), the position must lie within PROOF_GEOFENCE_RADIUS_METERS of the
+ * booked screen, and the photo must have been taken during the booking
+ * period. Photos that fail a check are rejected with the reason recorded.
+ */
+
+import exifr from "exifr";
+import type { Booking, Inventory } from "@shared/schema";
+
+/** MIME types accepted as proof-of-flighting photos. */
+export const PROOF_PHOTO_MIME_TYPES = ["image/jpeg", "image/heic", "image/heif"];
+
+/** Location and capture time read from a photo's EXIF data; fields are null when absent. */
+export interface PhotoMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  capturedAt: Date | null;
+  /** Calendar date of capture (YYYY-MM-DD) in the camera's local time. */
+  capturedOn: string | null;
+}
+
+export interface ProofVerification {
+  status: "validated" | "rejected" | "uploaded";
+  reason: string | null;
+  /** Metres between the photo and the screen, when both have coordinates. */
+  distanceMeters: number | null;
+}
+
+let cachedRadius: number | undefined;
+
+/** Reads PROOF_GEOFENCE_RADIUS_METERS, the largest allowed distance between a photo and its screen (default 200m). */
+export function getGeofenceRadius(): number {
+  if (cachedRadius === undefined) {
+    const configured = process.env.PROOF_GEOFENCE_RADIUS_METERS ?? "200";
+    const radius = Number(configured);
+    if (!Number.isFinite(radius) || radius <= 0) {
+      throw new Error(`Invalid PROOF_GEOFENCE_RADIUS_METERS "${configured}"; expected a positive number of metres`);
+    }
+    cachedRadius = radius;
+  }
+  return cachedRadius;
+}
+
+let cachedOffset: string | undefined;
+
+/**
+ * Reads PROOF_DEFAULT_UTC_OFFSET, the offset assumed for photos whose EXIF
+ * has no OffsetTimeOriginal (default "+02:00", South African time).
+ */
+export function getDefaultUtcOffset(): string {
+  if (cachedOffset === undefined) {
+    const configured = process.env.PROOF_DEFAULT_UTC_OFFSET ?? "+02:00";
+    if (!/^[+-]\d{2}:\d{2}$/.test(configured)) {
+      throw new Error(`Invalid PROOF_DEFAULT_UTC_OFFSET "${configured}"; expected an offset such as "+02:00"`);
+    }
+    cachedOffset = configured;
+  }
+  return cachedOffset;
+}
+
+/** Parses an EXIF "YYYY:MM:DD HH:MM:SS" timestamp in the given UTC offset. */
+function parseExifDate(value: unknown, offset: unknown): { at: Date; day: string } | null {
+  if (typeof value !== "string") return null;
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset.trim()) ? offset.trim() : getDefaultUtcOffset();
+  const at = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  if (Number.isNaN(at.getTime())) return null;
+  return { at, day: `${year}-${month}-${day}` };
+}
+
+/** Reads GPS position and capture time from a JPEG or HEIC photo. Files without EXIF yield empty metadata. */
+export async function extractPhotoMetadata(data: Buffer): Promise<PhotoMetadata> {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    // reviveValues is off so DateTimeOriginal stays the camera's local wall-clock string.
+    tags = await exifr.parse(data, {
+      gps: true,
+      reviveValues: false,
+      pick: ["DateTimeOriginal", "OffsetTimeOriginal", "GPSLatitude", "GPSLatitudeRef", "GPSLongitude", "GPSLongitudeRef"],
+    });
+  } catch {
+    tags = undefined;
+  }
+  const latitude = typeof tags?.latitude === "number" && Number.isFinite(tags.latitude) ? tags.latitude : null;
+  const longitude = typeof tags?.longitude === "number" && Number.isFinite(tags.longitude) ? tags.longitude : null;
+  const captured = parseExifDate(tags?.DateTimeOriginal, tags?.OffsetTimeOriginal);
+  return {
+    latitude: latitude != null && longitude != null ? latitude : null,
+    longitude: latitude != null && longitude != null ? longitude : null,
+    capturedAt: captured?.at ?? null,
+    capturedOn: captured?.day ?? null,
+  };
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/** Great-circle distance in metres between two WGS84 coordinates (haversine formula). */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function parseCoordinate(value: string | null) {
+  if (value == null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Checks a photo against the booking it proves. A photo without GPS or a
+ * capture time is rejected; one whose screen has no coordinates cannot be
+ * geofenced and is left "uploaded" for manual review.
+ */
+export function verifyProof(photo: PhotoMetadata, booking: Booking, screen: Inventory | undefined): ProofVerification {
+  if (photo.latitude == null || photo.longitude == null) {
+    return { status: "rejected", reason: "The photo has no GPS location in its EXIF data", distanceMeters: null };
+  }
+  if (!photo.capturedOn) {
+    return { status: "rejected", reason: "The photo has no capture date in its EXIF data", distanceMeters: null };
+  }
+
+  const bookedFrom = booking.startDate?.toISOString().slice(0, 10);
+  const bookedTo = booking.endDate?.toISOString().slice(0, 10);
+  if ((bookedFrom && photo.capturedOn < bookedFrom) || (bookedTo && photo.capturedOn > bookedTo)) {
+    return {
+      status: "rejected",
+      reason: `The photo was taken on ${photo.capturedOn}, outside the booking period ${bookedFrom ?? "…"} to ${bookedTo ?? "…"}`,
+      distanceMeters: null,
+    };
+  }
+
+  const screenLatitude = parseCoordinate(screen?.gpsLatitude ?? null);
+  const screenLongitude = parseCoordinate(screen?.gpsLongitude ?? null);
+  if (screenLatitude == null || screenLongitude == null) {
+    return { status: "uploaded", reason: null, distanceMeters: null };
+  }
+
+  const distance = Math.round(distanceMeters(photo.latitude, photo.longitude, screenLatitude, screenLongitude));
+  const radius = getGeofenceRadius();
+  if (distance > radius) {
+    return {
+      status: "rejected",
+      reason: `The photo was taken ${distance}m from the booked screen, beyond the ${radius}m geofence`,
+      distanceMeters: distance,
+    };
+  }
+  return { status: "validated", reason: null, distanceMeters: distance };
+}
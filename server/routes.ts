@@ -4,20 +4,138 @@
  * Registers all HTTP endpoints for authentication, user management, supplier
  * management, campaign lifecycle, booking operations, document handling,
  * invoice processing, inventory management, and seed data generation.
+ * Every route except login, logout and session lookup is guarded by the
+ * `authorize` middleware, which applies the shared policy in `@shared/permissions`.
+ * Mutations and authentication events are written to the audit trail.
  */
 
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { ZodError } from "zod";
+import { createHash, randomUUID } from "crypto";
+import multer from "multer";
+import {
+  storage,
+  BookingConflictError,
+  BudgetExceededError,
+  ContractCeilingExceededError,
+  ContractOverlapError,
+  AlreadyInvoicedError,
+  OverpaymentError,
+  CreditExceedsLineError,
+  type AuditEventFilter,
+  type BookingWriteOptions,
+  type SupplierScope,
+} from "./storage";
+import {
+  hashPassword,
+  verifyPassword,
+  isPasswordHash,
+  sanitizeUser,
+  getRequestUser,
+  establishSession,
+  beginMfaChallenge,
+  getMfaSubject,
+  destroySession,
+  authorize,
+  SESSION_COOKIE_NAME,
+} from "./auth";
+import {
+  generateSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  renderQrCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "./totp";
+import { getOidcConfig, beginAuthorization, completeAuthorization, provisionUser, OidcError } from "./oidc";
+import { recordAudit, verifyAuditChain, auditEventsToCsv } from "./audit";
+import { getApprovalLevels, planTransition, WorkflowError } from "./campaign-workflow";
+import type { CampaignTransition } from "@shared/campaign-workflow";
+import { calculateQuote, PricingError } from "./pricing";
+import { getOverspendPolicy, summarizeBudget, budgetBurndown } from "./budget";
+import { getContractWarningThresholds } from "./contracts";
+import { consumesContract, contractConsumption, contractTransitions, crossedThresholds } from "@shared/contracts";
+import { getBlobStore, readBlob, BlobNotFoundError } from "./blob-store";
+import {
+  extractPhotoMetadata,
+  verifyProof,
+  getGeofenceRadius,
+  getDefaultUtcOffset,
+  PROOF_PHOTO_MIME_TYPES,
+} from "./proof-of-flighting";
+import { inspectArtwork, validateArtwork, artworkRejectionReason } from "./artwork-validation";
+import { canResubmit, documentReviewTransitions, type DocumentReviewDecision } from "@shared/document-review";
+import { canNegotiate, isSettledResponse, negotiationTransitions, type NegotiationAction } from "@shared/booking-negotiation";
+import { canMoveBooking, isCommittedStatus } from "@shared/booking-workflow";
+import { isComplianceType, isCompliant } from "@shared/compliance";
+import {
+  CHECKED_ONBOARDING_ACTIONS,
+  canReviewBankChange,
+  isBookable,
+  isEditableBySupplier,
+  isOnboardingComplete,
+  isOnboardingDocumentType,
+  onboardingChecklist,
+  onboardingTransitions,
+  type OnboardingAction,
+} from "@shared/supplier-onboarding";
+import { getExpiryWarningDays, complianceFor, complianceMatrix } from "./compliance";
+import { buildInvoice, invoiceLineFor, isInvoiceable } from "./invoicing";
+import { matchInvoice, getMatchTolerance, getProofCoverageInterval } from "./invoice-match";
+import { sameMatchOutcome } from "@shared/invoice-match";
+import { buildInvoiceReport, buildSupplierStatement } from "./payments";
+import { getInvitationTtlHours, getPublicBaseUrl, hashInvitationToken, invitationUrl, newInvitationToken } from "./invitations";
+import {
+  XLSX_MIME_TYPE,
+  buildWorkbook,
+  invoiceColumns,
+  bookingColumns,
+  campaignColumns,
+  inventoryColumns,
+} from "./excel-export";
+import { bookingMatches, campaignMatches, inventoryMatches, invoiceMatches } from "@shared/list-filters";
+import { can, requiresMfa, supplierRoles } from "@shared/permissions";
+import { getDepartmentDetails, renderInvoicePdf, renderCampaignReportPdf, PdfTooLargeError } from "./pdf-reports";
+import { z, ZodError } from "zod";
 import {
   insertUserSchema,
-  insertSupplierSchema,
+  userUpdateSchema,
+  userInvitationRequestSchema,
+  invitationAcceptSchema,
+  supplierUserUpdateSchema,
+  supplierRequestSchema,
+  supplierOnboardingSchema,
+  supplierOnboardingStepSchema,
+  supplierBankChangeRequestSchema,
   insertCampaignSchema,
-  insertBookingSchema,
-  insertDocumentSchema,
-  insertInvoiceSchema,
+  campaignUpdateSchema,
+  bookingRequestSchema,
+  bookingUpdateSchema,
+  bookingDeclineSchema,
+  bookingCounterOfferSchema,
+  negotiationCommentSchema,
+  documentUploadSchema,
+  MAX_DOCUMENT_BYTES,
+  invoiceGenerationSchema,
+  invoiceUpdateSchema,
+  invoiceMatchOverrideSchema,
+  paymentRequestSchema,
+  creditNoteRequestSchema,
   insertInventorySchema,
+  inventoryUpdateSchema,
+  insertPricingAdjustmentSchema,
+  insertSupplierContractSchema,
+  supplierContractUpdateSchema,
+  contractRateCardSchema,
+  type Booking,
+  type Campaign,
+  type InsertBooking,
+  type Supplier,
+  type SupplierContract,
+  type UserInvitation,
+  type Document,
+  type Inventory,
+  type Invoice,
 } from "@shared/schema";
 
 export async function registerRoutes(
@@ -29,6 +147,13 @@ export async function registerRoutes(
   // Authentication Routes
   // ---------------------------------------------------------------------------
 
+  /**
+   * Verifies credentials and starts a server-side session. Users still holding
+   * a legacy plaintext password are transparently migrated to a scrypt hash.
+   * When the user has MFA enabled, or their role requires it, only a pending
+   * session is started and the response tells the client which MFA step
+   * follows: `{ mfa: "verify" }` or `{ mfa: "enroll" }`.
+   */
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
       const { username, password } = req.body;
@@ -36,11 +161,36 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Username and password are required" });
       }
       const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) {
+      // Always runs scrypt, so response times do not reveal which usernames exist.
+      const passwordValid = await verifyPassword(password, user?.password);
+      if (!user || !user.active || !passwordValid) {
+        await recordAudit(req, { action: "login_failed", entityType: "session", actor: user ?? { username: String(username) } });
         return res.status(401).json({ message: "Invalid credentials" });
       }
-      const { password: _, ...userWithoutPassword } = user;
-      return res.json(userWithoutPassword);
+      if (!isPasswordHash(user.password)) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
+      if (user.mfaEnabled || requiresMfa(user.role)) {
+        await beginMfaChallenge(req, user);
+        return res.json({ mfa: user.mfaEnabled ? "verify" : "enroll" });
+      }
+      await establishSession(req, user);
+      await recordAudit(req, { action: "login", entityType: "session", actor: user });
+      return res.json(sanitizeUser(user));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    try {
+      const user = await getRequestUser(req);
+      if (user) {
+        await recordAudit(req, { action: "logout", entityType: "session", actor: user });
+      }
+      await destroySession(req);
+      res.clearCookie(SESSION_COOKIE_NAME);
+      return res.status(204).send();
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
@@ -48,39 +198,221 @@ export async function registerRoutes(
 
   app.get("/api/auth/me", async (req: Request, res: Response) => {
     try {
-      const userId = req.headers["user-id"] as string;
-      if (!userId) {
+      const user = await getRequestUser(req);
+      if (!user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      return res.json(sanitizeUser(user));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Multi-Factor Authentication (TOTP)
+  //
+  // The verify endpoint completes a pending login. The enrol endpoints serve
+  // both a pending login whose role requires MFA and a signed-in user who
+  // opts in; the secret is held in the session until a valid code confirms it.
+  // ---------------------------------------------------------------------------
+
+  /** Failed codes allowed per session, verifying or enrolling, before the password step must be repeated. */
+  const MAX_MFA_ATTEMPTS = 5;
+
+  /**
+   * Counts a wrong code against the session. Once the limit is reached the
+   * session is destroyed and true returned, so the caller can refuse further codes.
+   */
+  async function countFailedMfaAttempt(req: Request): Promise<boolean> {
+    req.session.mfaFailedAttempts = (req.session.mfaFailedAttempts ?? 0) + 1;
+    if (req.session.mfaFailedAttempts < MAX_MFA_ATTEMPTS) return false;
+    await destroySession(req);
+    return true;
+  }
+
+  app.post("/api/auth/mfa/verify", async (req: Request, res: Response) => {
+    try {
+      const subject = await getMfaSubject(req);
+      const user = subject?.pending ? subject.user : undefined;
+      if (!user?.mfaEnabled || !user.mfaSecret) {
+        return res.status(401).json({ message: "No sign-in awaiting verification" });
+      }
+      const { code, recoveryCode } = req.body;
+
+      if (typeof recoveryCode === "string" && recoveryCode) {
+        if (await storage.useRecoveryCode(user.id, hashRecoveryCode(recoveryCode))) {
+          await establishSession(req, user);
+          await recordAudit(req, { action: "mfa_verified", entityType: "session", actor: user, after: { method: "recovery_code" } });
+          return res.json(sanitizeUser(user));
+        }
+      } else if (typeof code === "string") {
+        const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+        if (step !== null && await storage.useTotpStep(user.id, step)) {
+          await establishSession(req, user);
+          await recordAudit(req, { action: "mfa_verified", entityType: "session", actor: user, after: { method: "totp" } });
+          return res.json(sanitizeUser(user));
+        }
+      }
+
+      await recordAudit(req, { action: "mfa_failed", entityType: "session", actor: user });
+      if (await countFailedMfaAttempt(req)) {
+        return res.status(401).json({ message: "Too many failed attempts. Please sign in again." });
+      }
+      return res.status(401).json({ message: "Invalid verification code" });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/mfa/enroll", async (req: Request, res: Response) => {
+    try {
+      const subject = await getMfaSubject(req);
+      if (!subject) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (subject.user.mfaEnabled) {
+        return res.status(409).json({ message: "Multi-factor authentication is already enabled" });
+      }
+      const secret = generateSecret();
+      const otpauthUri = buildOtpauthUri(secret, subject.user.username);
+      req.session.mfaEnrollmentSecret = secret;
+      return res.json({ secret, otpauthUri, qrCode: await renderQrCode(otpauthUri) });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Confirms enrolment with a code from the authenticator app and returns the
+   * recovery codes. They are shown exactly once; only their hashes are stored.
+   */
+  app.post("/api/auth/mfa/enroll/confirm", async (req: Request, res: Response) => {
+    try {
+      const subject = await getMfaSubject(req);
+      const secret = req.session.mfaEnrollmentSecret;
+      if (!subject || !secret) {
+        return res.status(401).json({ message: "No enrolment in progress" });
+      }
+      const step = verifyTotp(secret, String(req.body.code ?? ""));
+      if (step === null) {
+        await recordAudit(req, { action: "mfa_failed", entityType: "session", actor: subject.user });
+        if (await countFailedMfaAttempt(req)) {
+          return res.status(401).json({ message: "Too many failed attempts. Please sign in again." });
+        }
+        return res.status(400).json({ message: "Invalid verification code" });
       }
-      const { password: _, ...userWithoutPassword } = user;
-      return res.json(userWithoutPassword);
+
+      const recoveryCodes = generateRecoveryCodes();
+      const user = await storage.updateUser(subject.user.id, {
+        mfaEnabled: true,
+        mfaSecret: secret,
+        mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        mfaLastUsedStep: step,
+      });
+      delete req.session.mfaEnrollmentSecret;
+      delete req.session.mfaFailedAttempts;
+      if (subject.pending) {
+        await establishSession(req, user!);
+      }
+      await recordAudit(req, { action: "mfa_enrolled", entityType: "user", entityId: subject.user.id, actor: subject.user });
+      return res.json({ recoveryCodes });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Single Sign-On (OpenID Connect)
+  //
+  // Browser-facing redirects rather than JSON endpoints: /login starts the
+  // authorization-code + PKCE flow and /callback finishes it, provisioning the
+  // user and establishing a session. Failures are sent back to the login page
+  // as an ?error= message.
+  // ---------------------------------------------------------------------------
+
+  app.get("/api/auth/oidc/config", async (_req: Request, res: Response) => {
+    try {
+      const config = getOidcConfig();
+      return res.json({ enabled: !!config, displayName: config?.displayName });
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  app.get("/api/auth/oidc/login", async (req: Request, res: Response) => {
+    try {
+      const config = getOidcConfig();
+      if (!config) {
+        return res.status(404).json({ message: "Single sign-on is not configured" });
+      }
+      return res.redirect(await beginAuthorization(req, config));
+    } catch (error) {
+      const message = error instanceof OidcError ? error.message : "Single sign-on is unavailable";
+      return res.redirect(`/login?error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req: Request, res: Response) => {
+    try {
+      const config = getOidcConfig();
+      if (!config) {
+        return res.status(404).json({ message: "Single sign-on is not configured" });
+      }
+      const claims = await completeAuthorization(req, config);
+      const user = await provisionUser(config, claims);
+      await establishSession(req, user);
+      await recordAudit(req, { action: "login", entityType: "session", actor: user, after: { method: "oidc" } });
+      return res.redirect("/");
+    } catch (error) {
+      const message = error instanceof OidcError ? error.message : "Single sign-on failed";
+      return res.redirect(`/login?error=${encodeURIComponent(message)}`);
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // User Management Routes
   // ---------------------------------------------------------------------------
 
-  app.get("/api/users", async (_req: Request, res: Response) => {
+  app.get("/api/users", authorize("users", "read"), async (_req: Request, res: Response) => {
     try {
       const allUsers = await storage.getUsers();
-      return res.json(allUsers);
+      return res.json(allUsers.map(sanitizeUser));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/users", async (req: Request, res: Response) => {
+  app.post("/api/users", authorize("users", "create"), async (req: Request, res: Response) => {
     try {
       const data = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(data);
-      return res.status(201).json(user);
+      const user = await storage.createUser({
+        ...data,
+        password: await hashPassword(data.password),
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaRecoveryCodes: null,
+        mfaLastUsedStep: null,
+      });
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: user });
+      return res.status(201).json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/users/:id", authorize("users", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = userUpdateSchema.parse(req.body);
+      const before = await storage.getUser(req.params.id as string);
+      const user = await storage.updateUser(req.params.id as string, data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, before, after: user });
+      return res.json(sanitizeUser(user));
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -89,14 +421,213 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/users/:id", async (req: Request, res: Response) => {
+  /**
+   * Clears a user's MFA enrolment, e.g. after a lost phone. If their role
+   * requires MFA they will be asked to enrol again at their next sign-in.
+   */
+  app.post("/api/users/:id/mfa/reset", authorize("users", "update"), async (req: Request, res: Response) => {
     try {
-      const user = await storage.updateUser(req.params.id as string, req.body);
+      const user = await storage.updateUser(req.params.id as string, {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaRecoveryCodes: null,
+        mfaLastUsedStep: null,
+      });
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      return res.json(user);
+      await recordAudit(req, { action: "mfa_reset", entityType: "user", entityId: user.id });
+      return res.json(sanitizeUser(user));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Supplier Team Routes
+  //
+  // Supplier admins invite, deactivate and change the role of their own
+  // supplier's users, limited to the supplier roles. An invitation is a link
+  // that expires; the invitee chooses a username and password when accepting
+  // it and is signed in. The invitation endpoints are public: the token in
+  // the link is the credential.
+  // ---------------------------------------------------------------------------
+
+  getInvitationTtlHours();
+  getPublicBaseUrl();
+
+  const sendNotLinked = (res: Response) => res.status(403).json({ message: "Your account is not linked to a supplier" });
+
+  /** An invitation as shown to the supplier admin, without its token hash. */
+  const withoutTokenHash = ({ tokenHash: _hash, ...invitation }: UserInvitation) => invitation;
+
+  /** The supplier's users and its pending invitations. */
+  app.get("/api/supplier/users", authorize("supplier_users", "read"), async (req: Request, res: Response) => {
+    try {
+      const supplierId = req.currentUser!.supplierId;
+      if (!supplierId) return sendNotLinked(res);
+      const [team, invitations] = await Promise.all([
+        storage.getUsers({ supplierId }),
+        storage.getUserInvitations(supplierId),
+      ]);
+      return res.json({ users: team.map(sanitizeUser), invitations: invitations.map(withoutTokenHash) });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Invites someone to the admin's supplier. The response carries the link
+   * to send them (`inviteUrl`); it is not stored and cannot be shown again.
+   */
+  app.post("/api/supplier/invitations", authorize("supplier_users", "create"), async (req: Request, res: Response) => {
+    try {
+      const data = userInvitationRequestSchema.parse(req.body);
+      const supplierId = req.currentUser!.supplierId;
+      if (!supplierId) return sendNotLinked(res);
+      if (data.supplierId && data.supplierId !== supplierId) {
+        return res.status(403).json({ message: "You can only invite users to your own supplier" });
+      }
+      if (!supplierRoles.includes(data.role)) {
+        return res.status(403).json({ message: "Supplier admins can only give the supplier admin or supplier user role" });
+      }
+      const { token, tokenHash, expiresAt } = newInvitationToken();
+      const invitation = await storage.createUserInvitation({
+        supplierId,
+        email: data.email,
+        fullName: data.fullName,
+        role: data.role,
+        tokenHash,
+        expiresAt,
+        invitedBy: req.currentUser!.id,
+      });
+      await recordAudit(req, { action: "create", entityType: "user_invitation", entityId: invitation.id, after: withoutTokenHash(invitation) });
+      return res.status(201).json({
+        ...withoutTokenHash(invitation),
+        inviteUrl: invitationUrl(token),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/supplier/invitations/:id/revoke", authorize("supplier_users", "update"), async (req: Request, res: Response) => {
+    try {
+      const supplierId = req.currentUser!.supplierId;
+      if (!supplierId) return sendNotLinked(res);
+      const revoked = await storage.revokeUserInvitation(req.params.id as string, supplierId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "user_invitation", entityId: revoked.id, after: withoutTokenHash(revoked) });
+      return res.json(withoutTokenHash(revoked));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Changes the role of, deactivates or reactivates one of the supplier's
+   * users. Admins cannot change themselves, so a supplier always keeps an
+   * active admin who set it up.
+   */
+  app.patch("/api/supplier/users/:id", authorize("supplier_users", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = supplierUserUpdateSchema.parse(req.body);
+      const supplierId = req.currentUser!.supplierId;
+      if (!supplierId) return sendNotLinked(res);
+      if (data.role && !supplierRoles.includes(data.role)) {
+        return res.status(403).json({ message: "Supplier admins can only give the supplier admin or supplier user role" });
+      }
+      if (req.params.id === req.currentUser!.id) {
+        return res.status(409).json({ message: "You cannot change your own role or deactivate yourself" });
+      }
+      const before = await storage.getUser(req.params.id as string);
+      const user = await storage.updateUser(req.params.id as string, data, { supplierId });
+      if (!before || !user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, before, after: user });
+      return res.json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Looks up the invitation a link's token belongs to, sending 404 if it is
+   * unknown, used or revoked and 410 if it has expired.
+   */
+  async function pendingInvitation(token: string, res: Response): Promise<UserInvitation | undefined> {
+    const invitation = await storage.getUserInvitationByTokenHash(hashInvitationToken(token));
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+      res.status(404).json({ message: "This invitation is not valid" });
+      return undefined;
+    }
+    if (invitation.expiresAt <= new Date()) {
+      res.status(410).json({ message: "This invitation has expired; ask your administrator for a new one" });
+      return undefined;
+    }
+    return invitation;
+  }
+
+  /** What the invitee is shown before choosing their sign-in details. */
+  app.get("/api/invitations/:token", async (req: Request, res: Response) => {
+    try {
+      const invitation = await pendingInvitation(req.params.token as string, res);
+      if (!invitation) return;
+      const supplier = await storage.getSupplier(invitation.supplierId);
+      return res.json({
+        fullName: invitation.fullName,
+        email: invitation.email,
+        role: invitation.role,
+        supplierName: supplier?.name ?? null,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Creates the invited user with the username and password they chose and signs them in. */
+  app.post("/api/invitations/:token/accept", async (req: Request, res: Response) => {
+    try {
+      const data = invitationAcceptSchema.parse(req.body);
+      const invitation = await pendingInvitation(req.params.token as string, res);
+      if (!invitation) return;
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      const user = await storage.acceptUserInvitation(invitation, {
+        username: data.username,
+        password: await hashPassword(data.password),
+        fullName: invitation.fullName,
+        email: invitation.email,
+        role: invitation.role,
+        supplierId: invitation.supplierId,
+        active: true,
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaRecoveryCodes: null,
+        mfaLastUsedStep: null,
+      });
+      if (!user) {
+        return res.status(410).json({ message: "This invitation is no longer valid" });
+      }
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: user, actor: user });
+      await establishSession(req, user);
+      await recordAudit(req, { action: "login", entityType: "session", actor: user });
+      return res.status(201).json(sanitizeUser(user));
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -105,19 +636,41 @@ export async function registerRoutes(
   // Supplier Management Routes
   // ---------------------------------------------------------------------------
 
-  app.get("/api/suppliers", async (_req: Request, res: Response) => {
+  /**
+   * A supplier as shown to the user: roles that do not review onboarding
+   * (campaign planners and supplier users) get it without its banking details.
+   */
+  function supplierFor(req: Request, supplier: Supplier) {
+    if (can(req.currentUser!.role, "supplier_onboarding", "read")) return supplier;
+    const { bankName, bankAccountNumber, bankBranchCode, ...visible } = supplier;
+    return visible;
+  }
+
+  /** All suppliers for government users; supplier users get only their own. */
+  app.get("/api/suppliers", authorize("suppliers", "read"), async (req: Request, res: Response) => {
     try {
-      const allSuppliers = await storage.getSuppliers();
-      return res.json(allSuppliers);
+      const allSuppliers = await storage.getSuppliers(supplierScope(req));
+      return res.json(allSuppliers.map((s) => supplierFor(req, s)));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/suppliers", async (req: Request, res: Response) => {
+  /** Responds 409 if another supplier already holds the CSD number. */
+  async function sendCsdNumberTaken(res: Response, csdNumber: string | null | undefined, supplierId?: string) {
+    if (!csdNumber) return undefined;
+    const holder = (await storage.getSuppliers()).find((s) => s.csdNumber === csdNumber && s.id !== supplierId);
+    return holder ? res.status(409).json({ message: `CSD number ${csdNumber} is already registered to ${holder.name}` }) : undefined;
+  }
+
+  /** Registers a supplier in draft; its banking details are added through a verified change request. */
+  app.post("/api/suppliers", authorize("suppliers", "create"), async (req: Request, res: Response) => {
     try {
-      const data = insertSupplierSchema.parse(req.body);
+      const data = supplierRequestSchema.parse(req.body);
+      const taken = await sendCsdNumberTaken(res, data.csdNumber);
+      if (taken) return taken;
       const supplier = await storage.createSupplier(data);
+      await recordAudit(req, { action: "create", entityType: "supplier", entityId: supplier.id, after: supplier });
       return res.status(201).json(supplier);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -127,48 +680,218 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/suppliers/:id", async (req: Request, res: Response) => {
+  app.patch("/api/suppliers/:id", authorize("suppliers", "update"), async (req: Request, res: Response) => {
     try {
-      const supplier = await storage.updateSupplier(req.params.id as string, req.body);
+      const data = supplierRequestSchema.partial().parse(req.body);
+      const taken = await sendCsdNumberTaken(res, data.csdNumber, req.params.id as string);
+      if (taken) return taken;
+      const before = await storage.getSupplier(req.params.id as string);
+      const supplier = await storage.updateSupplier(req.params.id as string, data);
       if (!supplier) {
         return res.status(404).json({ message: "Supplier not found" });
       }
+      await recordAudit(req, { action: "update", entityType: "supplier", entityId: supplier.id, before, after: supplier });
       return res.json(supplier);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // ---------------------------------------------------------------------------
-  // Campaign Routes
+  // Supplier Onboarding Routes
+  //
+  // A supplier admin fills in their supplier's CSD, registration, VAT,
+  // B-BBEE and tax details while it is in draft, uploads the certificates
+  // as onboarding documents and submits it. Department admins and finance
+  // officers verify it, return it to draft, suspend or reinstate it; only
+  // verified suppliers can be booked. Banking details change through
+  // requests that someone other than the requester verifies. Supplier users
+  // only ever see their own supplier (see shared/supplier-onboarding.ts).
   // ---------------------------------------------------------------------------
 
-  app.get("/api/campaigns", async (_req: Request, res: Response) => {
+  /** The supplier named in the URL, if the current user may see it: their own, or any for government users. */
+  async function getOnboardingSupplier(req: Request): Promise<Supplier | undefined> {
+    const scope = supplierScope(req);
+    if (scope && scope.supplierId !== req.params.id) return undefined;
+    return storage.getSupplier(req.params.id as string);
+  }
+
+  /** Notifies the supplier's active admins, who look after its onboarding. */
+  async function notifySupplierAdmins(supplier: Supplier, title: string, message: string) {
+    const admins = (await storage.getUsers({ supplierId: supplier.id })).filter((u) => u.role === "supplier_admin" && u.active);
+    await storage.createNotifications(admins.map((u) => ({ userId: u.id, title, message, link: "/onboarding" })));
+  }
+
+  /** Notifies the active users who review onboarding, except whoever triggered it. */
+  async function notifyOnboardingReviewers(req: Request, supplier: Supplier, title: string, message: string) {
+    const reviewers = (await storage.getUsers()).filter(
+      (u) => u.active && u.id !== req.currentUser!.id && !isSupplierRole(u.role) && can(u.role, "supplier_onboarding", "update"),
+    );
+    await storage.createNotifications(reviewers.map((u) => ({ userId: u.id, title, message, link: `/onboarding/${supplier.id}` })));
+  }
+
+  /** The supplier's onboarding documents, excluding replaced versions. */
+  async function onboardingDocumentsOf(supplierId: string) {
+    return (await storage.getDocuments()).filter(
+      (d) => d.supplierId === supplierId && isOnboardingDocumentType(d.type) && d.status !== "superseded",
+    );
+  }
+
+  /**
+   * The supplier with its onboarding checklist, history, banking change
+   * requests and onboarding documents.
+   */
+  app.get("/api/suppliers/:id/onboarding", authorize("supplier_onboarding", "read"), async (req: Request, res: Response) => {
     try {
-      const allCampaigns = await storage.getCampaigns();
-      return res.json(allCampaigns);
+      const supplier = await getOnboardingSupplier(req);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      const [documents, reviews, bankChanges, users] = await Promise.all([
+        onboardingDocumentsOf(supplier.id),
+        storage.getSupplierOnboardingReviews(supplier.id),
+        storage.getSupplierBankChanges(supplier.id),
+        storage.getUsers(),
+      ]);
+      const names = new Map(users.map((u) => [u.id, u.fullName]));
+      const checklist = onboardingChecklist(supplier, documents);
+      return res.json({
+        supplier,
+        checklist,
+        complete: isOnboardingComplete(checklist),
+        reviews: reviews.map((review) => ({ ...review, actorName: names.get(review.actorId) ?? null })),
+        bankChanges: bankChanges.map((change) => ({
+          ...change,
+          requestedByName: names.get(change.requestedBy) ?? null,
+          reviewedByName: change.reviewedBy ? names.get(change.reviewedBy) ?? null : null,
+        })),
+        documents,
+      });
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/campaigns/:id", async (req: Request, res: Response) => {
+  /**
+   * Updates the onboarding details. A supplier's own admins may only do so
+   * while it is in draft; reviewers may correct them at any time.
+   */
+  app.patch("/api/suppliers/:id/onboarding", authorize("supplier_onboarding", "update"), async (req: Request, res: Response) => {
     try {
-      const campaign = await storage.getCampaign(req.params.id as string);
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const data = supplierOnboardingSchema.parse(req.body);
+      const before = await getOnboardingSupplier(req);
+      if (!before) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
-      return res.json(campaign);
+      const scope = supplierScope(req);
+      if (scope && !isEditableBySupplier(before)) {
+        return res.status(409).json({ message: `The supplier is ${before.onboardingStatus}; its details can only be changed in draft` });
+      }
+      const taken = await sendCsdNumberTaken(res, data.csdNumber, before.id);
+      if (taken) return taken;
+      const supplier = await storage.updateSupplier(before.id, data, scope ? ["draft"] : undefined);
+      if (!supplier) {
+        return res.status(409).json({ message: "The supplier was changed by someone else. Please refresh and try again." });
+      }
+      await recordAudit(req, { action: "update", entityType: "supplier", entityId: supplier.id, before, after: supplier });
+      return res.json(supplier);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/campaigns", async (req: Request, res: Response) => {
+  const onboardingStepMessages: Record<OnboardingAction, string> = {
+    submit: "submitted for verification",
+    verify: "verified",
+    return: "returned to draft",
+    suspend: "suspended",
+    reinstate: "reinstated",
+  };
+
+  /** Builds the handler for one onboarding step. */
+  function onboardingStep(action: OnboardingAction) {
+    return async (req: Request, res: Response) => {
+      try {
+        const { comment } = supplierOnboardingStepSchema.parse(req.body ?? {});
+        const { from, to, by, needsComment } = onboardingTransitions[action];
+        const supplier = await getOnboardingSupplier(req);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+        if (by === "reviewer" && supplierScope(req)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (needsComment && !comment) {
+          return res.status(400).json({ message: "A comment is required" });
+        }
+        if (!from.includes(supplier.onboardingStatus)) {
+          return res.status(409).json({ message: `A ${supplier.onboardingStatus} supplier cannot be ${onboardingStepMessages[action]}` });
+        }
+        if (CHECKED_ONBOARDING_ACTIONS.includes(action)) {
+          const checklist = onboardingChecklist(supplier, await onboardingDocumentsOf(supplier.id));
+          if (!isOnboardingComplete(checklist)) {
+            return res.status(409).json({ message: "The supplier's onboarding details are incomplete", checklist });
+          }
+        }
+        const updated = await storage.transitionSupplierOnboarding(supplier, {
+          action,
+          toStatus: to,
+          actorId: req.currentUser!.id,
+          comment: comment || null,
+        });
+        if (!updated) {
+          return res.status(409).json({ message: "The supplier was changed by someone else. Please refresh and try again." });
+        }
+        await recordAudit(req, { action: "update", entityType: "supplier", entityId: supplier.id, before: supplier, after: updated });
+        const message = `${updated.name} was ${onboardingStepMessages[action]}${comment ? `: ${comment}` : "."}`;
+        if (by === "supplier") {
+          await notifyOnboardingReviewers(req, updated, "Supplier onboarding submitted", message);
+        } else {
+          await notifySupplierAdmins(updated, "Onboarding update", message);
+        }
+        return res.json(updated);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    };
+  }
+
+  for (const action of Object.keys(onboardingTransitions) as OnboardingAction[]) {
+    app.post(`/api/suppliers/:id/onboarding/${action}`, authorize("supplier_onboarding", "update"), onboardingStep(action));
+  }
+
+  /**
+   * Requests new banking details for the supplier, backed by a bank
+   * confirmation letter already uploaded for it. The supplier keeps its
+   * current details until the change is verified.
+   */
+  app.post("/api/suppliers/:id/bank-changes", authorize("supplier_onboarding", "update"), async (req: Request, res: Response) => {
     try {
-      const data = insertCampaignSchema.parse(req.body);
-      const campaign = await storage.createCampaign(data);
-      return res.status(201).json(campaign);
+      const data = supplierBankChangeRequestSchema.parse(req.body);
+      const supplier = await getOnboardingSupplier(req);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      const letter = await storage.getDocument(data.documentId, supplierScope(req));
+      if (!letter || letter.type !== "bank_confirmation" || letter.supplierId !== supplier.id) {
+        return res.status(400).json({ message: "Attach a bank confirmation letter uploaded for this supplier" });
+      }
+      const change = await storage.createSupplierBankChange({ ...data, supplierId: supplier.id, requestedBy: req.currentUser!.id });
+      if (!change) {
+        return res.status(409).json({ message: "A banking change for this supplier is already awaiting verification" });
+      }
+      await recordAudit(req, { action: "create", entityType: "supplier_bank_change", entityId: change.id, after: change });
+      await notifyOnboardingReviewers(req, supplier, "Banking change to verify", `${supplier.name} has new banking details awaiting verification.`);
+      return res.status(201).json(change);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -177,158 +900,2011 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/campaigns/:id", async (req: Request, res: Response) => {
+  /** Builds the handler for a reviewer verifying or rejecting a banking change. */
+  function bankChangeDecision(status: "verified" | "rejected") {
+    return async (req: Request, res: Response) => {
+      try {
+        const { comment } = supplierOnboardingStepSchema.parse(req.body ?? {});
+        if (supplierScope(req)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const change = await storage.getSupplierBankChange(req.params.changeId as string);
+        if (!change || change.supplierId !== req.params.id) {
+          return res.status(404).json({ message: "Banking change not found" });
+        }
+        if (status === "rejected" && !comment) {
+          return res.status(400).json({ message: "A comment is required" });
+        }
+        if (change.status !== "pending") {
+          return res.status(409).json({ message: `This banking change has already been ${change.status}` });
+        }
+        if (!canReviewBankChange(change, req.currentUser!.id)) {
+          return res.status(403).json({ message: "A banking change must be verified by someone other than whoever requested it" });
+        }
+        const before = await storage.getSupplier(change.supplierId);
+        const reviewed = await storage.reviewSupplierBankChange(change.id, {
+          status,
+          reviewedBy: req.currentUser!.id,
+          comment: comment || undefined,
+        });
+        if (!reviewed) {
+          return res.status(409).json({ message: "The banking change was reviewed by someone else. Please refresh." });
+        }
+        await recordAudit(req, { action: "update", entityType: "supplier_bank_change", entityId: change.id, before: change, after: reviewed });
+        const supplier = await storage.getSupplier(change.supplierId);
+        if (status === "verified" && supplier) {
+          await recordAudit(req, { action: "update", entityType: "supplier", entityId: supplier.id, before, after: supplier });
+        }
+        if (supplier) {
+          await notifySupplierAdmins(
+            supplier,
+            status === "verified" ? "Banking details verified" : "Banking change rejected",
+            status === "verified"
+              ? `The new banking details for ${supplier.name} are now on record.`
+              : `The banking change for ${supplier.name} was rejected: ${comment}`,
+          );
+        }
+        return res.json(reviewed);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    };
+  }
+
+  app.post("/api/suppliers/:id/bank-changes/:changeId/verify", authorize("supplier_onboarding", "update"), bankChangeDecision("verified"));
+  app.post("/api/suppliers/:id/bank-changes/:changeId/reject", authorize("supplier_onboarding", "update"), bankChangeDecision("rejected"));
+
+  // ---------------------------------------------------------------------------
+  // Campaign Routes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A campaign as shown to the user: roles that may not read budgets (supplier
+   * staff) get neither the budget nor the approval progress, which follows it.
+   */
+  function campaignFor(req: Request, campaign: Campaign) {
+    if (can(req.currentUser!.role, "budgets", "read")) return campaign;
+    const { budget, approvalLevel, submittedBy, submittedAt, ...visible } = campaign;
+    return visible;
+  }
+
+  app.get("/api/campaigns", authorize("campaigns", "read"), async (req: Request, res: Response) => {
+    try {
+      const allCampaigns = await storage.getCampaigns();
+      return res.json(allCampaigns.map((c) => campaignFor(req, c)));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** The budget thresholds and roles of the approval chain, for display and button state. */
+  app.get("/api/campaigns/approval-levels", authorize("campaigns", "read"), async (_req: Request, res: Response) => {
+    try {
+      return res.json(getApprovalLevels());
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Budget, committed, invoiced and paid totals for every campaign, for the campaign list. */
+  app.get("/api/campaigns/budgets", authorize("budgets", "read"), async (_req: Request, res: Response) => {
+    try {
+      const [allCampaigns, allBookings, allInvoices] = await Promise.all([
+        storage.getCampaigns(),
+        storage.getBookings(),
+        storage.getInvoices(),
+      ]);
+      return res.json(allCampaigns.map((campaign) =>
+        summarizeBudget(
+          campaign,
+          allBookings.filter((b) => b.campaignId === campaign.id),
+          allInvoices.filter((i) => i.campaignId === campaign.id),
+        ),
+      ));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** One campaign's budget totals plus its burn-down, for the campaign page. */
+  app.get("/api/campaigns/:id/budget", authorize("budgets", "read"), async (req: Request, res: Response) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id as string);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const [campaignBookings, campaignInvoices] = await Promise.all([
+        storage.getBookingsByCampaign(campaign.id),
+        storage.getInvoicesByCampaign(campaign.id),
+      ]);
+      return res.json({
+        ...summarizeBudget(campaign, campaignBookings, campaignInvoices),
+        burndown: budgetBurndown(campaign, campaignBookings),
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/campaigns/:id", authorize("campaigns", "read"), async (req: Request, res: Response) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id as string);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      return res.json(campaignFor(req, campaign));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/campaigns", authorize("campaigns", "create"), async (req: Request, res: Response) => {
+    try {
+      const data = insertCampaignSchema.parse(req.body);
+      const campaign = await storage.createCampaign({
+        ...data,
+        status: "draft",
+        approvalLevel: 0,
+        submittedBy: null,
+        submittedAt: null,
+      });
+      await recordAudit(req, { action: "create", entityType: "campaign", entityId: campaign.id, after: campaign });
+      return res.status(201).json(campaign);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/campaigns/:id", authorize("campaigns", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = campaignUpdateSchema.parse(req.body);
+      const before = await storage.getCampaign(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (before.status !== "draft") {
+        return res.status(409).json({ message: "Only draft campaigns can be edited" });
+      }
+      const campaign = await storage.updateCampaign(req.params.id as string, data);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "campaign", entityId: campaign.id, before, after: campaign });
+      return res.json(campaign);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/campaigns/:id", authorize("campaigns", "delete"), async (req: Request, res: Response) => {
+    try {
+      const before = await storage.getCampaign(req.params.id as string);
+      const deleted = await storage.deleteCampaign(req.params.id as string);
+      if (!deleted) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      await recordAudit(req, { action: "delete", entityType: "campaign", entityId: req.params.id as string, before });
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Campaign Approval Workflow
+  //
+  // Status changes go through these endpoints only. Each request needs read
+  // access to campaigns; the workflow itself decides which roles may perform
+  // each transition (approvers depend on the campaign budget), answering 403
+  // for the wrong role, 409 for the wrong status and 400 for a missing reason.
+  // ---------------------------------------------------------------------------
+
+  // Parse the approval chain now so a malformed CAMPAIGN_APPROVAL_LEVELS fails at startup.
+  getApprovalLevels();
+
+  app.get("/api/campaigns/:id/approvals", authorize("campaigns", "read"), async (req: Request, res: Response) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id as string);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const [history, users] = await Promise.all([storage.getCampaignApprovals(campaign.id), storage.getUsers()]);
+      const names = new Map(users.map((u) => [u.id, u.fullName]));
+      return res.json(history.map((entry) => ({ ...entry, actorName: names.get(entry.actorId) ?? null })));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Builds the handler for POST /api/campaigns/:id/<transition>; the body may carry a `comment`. */
+  function campaignTransition(transition: CampaignTransition) {
+    return async (req: Request, res: Response) => {
+      try {
+        const user = req.currentUser!;
+        const campaign = await storage.getCampaign(req.params.id as string);
+        if (!campaign) {
+          return res.status(404).json({ message: "Campaign not found" });
+        }
+        const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() || undefined : undefined;
+        const history = await storage.getCampaignApprovals(campaign.id);
+        const plan = planTransition(campaign, transition, user, comment, history);
+        const updated = await storage.transitionCampaign(campaign, plan.update, {
+          transition,
+          toStatus: plan.toStatus,
+          level: plan.level,
+          actorId: user.id,
+          comment: comment ?? null,
+        });
+        if (!updated) {
+          return res.status(409).json({ message: "The campaign was changed by someone else. Please refresh and try again." });
+        }
+        await recordAudit(req, { action: "update", entityType: "campaign", entityId: campaign.id, before: campaign, after: updated });
+        return res.json(updated);
+      } catch (error) {
+        if (error instanceof WorkflowError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    };
+  }
+
+  app.post("/api/campaigns/:id/submit", authorize("campaigns", "read"), campaignTransition("submit"));
+  app.post("/api/campaigns/:id/approve", authorize("campaigns", "read"), campaignTransition("approve"));
+  app.post("/api/campaigns/:id/reject", authorize("campaigns", "read"), campaignTransition("reject"));
+  app.post("/api/campaigns/:id/start", authorize("campaigns", "read"), campaignTransition("start"));
+  app.post("/api/campaigns/:id/complete", authorize("campaigns", "read"), campaignTransition("complete"));
+  app.post("/api/campaigns/:id/cancel", authorize("campaigns", "read"), campaignTransition("cancel"));
+
+  // ---------------------------------------------------------------------------
+  // Booking Routes
+  //
+  // Bookings reserve an inventory screen for an inclusive date range. Storage
+  // rejects overlaps with other non-rejected bookings of the same screen,
+  // which these routes report as 409 with the conflicting bookings listed.
+  // Storage also refuses bookings that would take the campaign over budget
+  // (409 with the budget and projected spend). Under the soft overspend
+  // policy the client may resend with `acknowledgeOverspend: true`, which is
+  // recorded in the audit trail as a budget override.
+  // Every booking must fall inside an active contract with its supplier
+  // (409 otherwise), which is re-resolved whenever the screen or dates change
+  // and checked again on approval. Approved bookings consume the contract's
+  // value, which storage refuses to take over the ceiling; crossing a
+  // warning threshold notifies the contract managers.
+  // The cost of a screen booking is never taken from the client: it is the
+  // pricing engine's quote subtotal (excluding VAT, which is added when
+  // invoicing), recalculated whenever the screen or dates change.
+  // ---------------------------------------------------------------------------
+
+  /** Sends the 409 response for a double booking. */
+  function sendBookingConflict(res: Response, error: BookingConflictError) {
+    return res.status(409).json({
+      message: error.message,
+      conflicts: error.conflicts.map((b) => ({
+        id: b.id,
+        campaignId: b.campaignId,
+        status: b.status,
+        startDate: b.startDate,
+        endDate: b.endDate,
+      })),
+    });
+  }
+
+  // Parse the policy now so a malformed BUDGET_OVERSPEND_POLICY fails at startup.
+  const overspendPolicy = getOverspendPolicy();
+
+  /** Sends the 409 response for a booking over the campaign budget. */
+  function sendBudgetExceeded(res: Response, error: BudgetExceededError) {
+    return res.status(409).json({
+      message: error.message,
+      budget: error.budget,
+      projected: error.projected,
+      canOverride: overspendPolicy === "soft",
+    });
+  }
+
+  /**
+   * Runs a booking write with the budget guard on. If it fails on budget and
+   * the soft policy applies and the user acknowledged the overspend, retries
+   * without the guard and reports the overspend so it can be audited.
+   */
+  async function writeWithinBudget<T>(req: Request, write: (options: BookingWriteOptions) => Promise<T>) {
+    try {
+      return { result: await write({}), overspend: undefined };
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError) || overspendPolicy !== "soft" || req.body?.acknowledgeOverspend !== true) {
+        throw error;
+      }
+      return { result: await write({ allowOverspend: true }), overspend: error };
+    }
+  }
+
+  /** Records a booking accepted over budget under the soft policy. */
+  async function recordBudgetOverride(req: Request, booking: Booking, overspend: BudgetExceededError) {
+    await recordAudit(req, {
+      action: "budget_override",
+      entityType: "booking",
+      entityId: booking.id,
+      after: { campaignId: booking.campaignId, budget: overspend.budget, projected: overspend.projected },
+    });
+  }
+
+  /** Site details copied onto a booking from the screen it reserves. */
+  function siteDetailsFrom(screen: Inventory) {
+    return {
+      supplierId: screen.supplierId,
+      siteDescription: screen.screenName,
+      location: screen.location,
+      mediaType: screen.screenType,
+    };
+  }
+
+  /** Responds 409 for a screen whose supplier is inactive or has not been verified in onboarding. */
+  function sendNotBookable(res: Response, supplier: Supplier | undefined) {
+    if (!supplier) {
+      return res.status(400).json({ message: "Supplier not found" });
+    }
+    return res.status(409).json({
+      message: supplier.active
+        ? `${supplier.name} cannot be booked until its onboarding has been verified (currently ${supplier.onboardingStatus})`
+        : `${supplier.name} is inactive and cannot be booked`,
+      onboardingStatus: supplier.onboardingStatus,
+    });
+  }
+
+  /**
+   * Prices a booking of the screen under the supplier's active contract
+   * covering the dates: from the contract's negotiated rates for the screen
+   * if it has any, otherwise from the screen's rate card and the supplier's
+   * current adjustments.
+   */
+  async function quoteBooking(screen: Inventory, startDate: Date, endDate: Date) {
+    const contract = await storage.getCoveringContract(screen.supplierId, startDate, endDate);
+    const rate = contract && (await storage.getContractRate(contract.id, screen.id));
+    const adjustments = await storage.getPricingAdjustmentsBySupplier(screen.supplierId);
+    return calculateQuote(screen, startDate, endDate, adjustments, contract ? { contract, rate } : null);
+  }
+
+  /** Booking fields set from a quote, including the contract it falls under. */
+  function costFrom(quote: Awaited<ReturnType<typeof quoteBooking>>) {
+    return { cost: quote.subtotal.toFixed(2), quote, contractId: quote.contract?.contractId ?? null };
+  }
+
+  const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+  /** Responds 409 for booking dates no active contract with the supplier covers. */
+  function sendOutsideContract(res: Response, startDate: Date, endDate: Date) {
+    return res.status(409).json({
+      message: `No active contract with this supplier covers ${formatDay(startDate)} to ${formatDay(endDate)}`,
+    });
+  }
+
+  /** Sends the 409 response for a booking that would take its contract over the ceiling. */
+  function sendContractCeilingExceeded(res: Response, error: ContractCeilingExceededError) {
+    return res.status(409).json({
+      message: error.message,
+      contractNumber: error.contractNumber,
+      ceiling: error.ceiling,
+      projected: error.projected,
+    });
+  }
+
+  // Parse the thresholds now so a malformed CONTRACT_WARNING_THRESHOLDS fails at startup.
+  const contractWarningThresholds = getContractWarningThresholds();
+
+  /** The part of a contract's consumed value that the booking accounts for. */
+  const consumedBy = (booking: Booking | undefined, contractId: string) =>
+    booking && booking.contractId === contractId && consumesContract(booking.status) ? Number(booking.cost ?? 0) : 0;
+
+  /**
+   * Notifies the contract managers (department admins and finance officers)
+   * when a booking change takes its contract's consumption across a warning
+   * threshold.
+   */
+  async function warnOnContractConsumption(before: Booking | undefined, after: Booking) {
+    if (!after.contractId) return;
+    const contract = await storage.getContract(after.contractId);
+    if (!contract) return;
+    const consumed = (await storage.getContractConsumption([contract.id])).get(contract.id) ?? 0;
+    const previous = consumed - consumedBy(after, contract.id) + consumedBy(before, contract.id);
+    const crossed = crossedThresholds(previous, consumed, Number(contract.ceilingValue), contractWarningThresholds);
+    if (crossed.length === 0) return;
+    const { percentConsumed, remaining } = contractConsumption(contract, consumed, contractWarningThresholds);
+    const managers = (await storage.getUsers()).filter(
+      (u) => u.active && !isSupplierRole(u.role) && can(u.role, "contracts", "update"),
+    );
+    await storage.createNotifications(managers.map((u) => ({
+      userId: u.id,
+      title: "Contract value running low",
+      message: `Contract ${contract.contractNumber} is ${percentConsumed}% consumed; R${remaining.toFixed(2)} of its ceiling remains.`,
+      link: `/contracts/${contract.id}`,
+    })));
+  }
+
+  app.get("/api/bookings", authorize("bookings", "read"), async (req: Request, res: Response) => {
+    try {
+      const { campaignId } = req.query;
+      const scope = supplierScope(req);
+      if (campaignId) {
+        const filtered = await storage.getBookingsByCampaign(campaignId as string, scope);
+        return res.json(filtered);
+      }
+      const allBookings = await storage.getBookings(scope);
+      return res.json(allBookings);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/bookings/:id", authorize("bookings", "read"), async (req: Request, res: Response) => {
+    try {
+      const booking = await storage.getBooking(req.params.id as string, supplierScope(req));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      return res.json(booking);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/bookings", authorize("bookings", "create"), async (req: Request, res: Response) => {
+    try {
+      const data = bookingRequestSchema.parse(req.body);
+      const screen = await storage.getInventoryItem(data.inventoryId);
+      if (!screen || !screen.active) {
+        return res.status(400).json({ message: "Screen not found or no longer active" });
+      }
+      const supplier = await storage.getSupplier(screen.supplierId);
+      if (!supplier || !isBookable(supplier)) {
+        return sendNotBookable(res, supplier);
+      }
+      const quote = await quoteBooking(screen, data.startDate, data.endDate);
+      if (!quote.contract) {
+        return sendOutsideContract(res, data.startDate, data.endDate);
+      }
+      const { result: booking, overspend } = await writeWithinBudget(req, (options) =>
+        storage.createBooking({ ...data, ...siteDetailsFrom(screen), ...costFrom(quote) }, options),
+      );
+      await recordAudit(req, { action: "create", entityType: "booking", entityId: booking.id, after: booking });
+      if (overspend) await recordBudgetOverride(req, booking, overspend);
+      return res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof BookingConflictError) {
+        return sendBookingConflict(res, error);
+      }
+      if (error instanceof BudgetExceededError) {
+        return sendBudgetExceeded(res, error);
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Changes a booking's screen, dates or status. A new screen or new dates are
+   * re-quoted and checked for double bookings, budget and contract as a new
+   * booking is, and only a pending booking can be moved: the move goes back
+   * to the supplier, whose earlier answer no longer applies.
+   */
+  app.patch("/api/bookings/:id", authorize("bookings", "update"), async (req: Request, res: Response) => {
+    try {
+      const { acknowledgeOverspend: _ack, ...changes } = bookingUpdateSchema.parse(req.body);
+      const before = await storage.getBooking(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const data: Partial<InsertBooking> = { ...changes };
+      const inventoryId = changes.inventoryId ?? before.inventoryId;
+      const startDate = changes.startDate ?? before.startDate;
+      const endDate = changes.endDate ?? before.endDate;
+      if (startDate && endDate && endDate < startDate) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+      const moved =
+        inventoryId !== before.inventoryId ||
+        startDate?.getTime() !== before.startDate?.getTime() ||
+        endDate?.getTime() !== before.endDate?.getTime();
+      if (moved) {
+        if (before.status !== "pending") {
+          return res.status(409).json({ message: "Only a pending booking can move to another screen or other dates" });
+        }
+        data.supplierResponse = "awaiting";
+      }
+      const statusChanged = changes.status !== undefined && changes.status !== before.status;
+      if (statusChanged && !canMoveBooking(before.status, changes.status!)) {
+        return res.status(409).json({ message: `A ${before.status.replace("_", " ")} booking cannot be set to ${changes.status!.replace("_", " ")}` });
+      }
+      if ((statusChanged || moved) && !isSettledResponse(before)) {
+        return res.status(409).json({
+          message: before.supplierResponse === "declined"
+            ? "The supplier declined this booking"
+            : "The supplier has made a counter-offer; accept or reject it first",
+        });
+      }
+      if (changes.status === "approved" && before.status !== "approved" && moved) {
+        return res.status(409).json({ message: "The supplier has not answered the new screen or dates yet" });
+      }
+      // Every way into a committed status is gated, not only approval.
+      if (statusChanged && isCommittedStatus(changes.status!) && !isCommittedStatus(before.status)) {
+        const compliance = complianceFor(before.supplierId, before.campaignId, await storage.getDocuments());
+        if (!isCompliant(compliance)) {
+          return res.status(409).json({
+            message: "The supplier's SBD and CSO compliance documents for this campaign are missing or expired",
+            compliance,
+          });
+        }
+      }
+      if (changes.inventoryId && changes.inventoryId !== before.inventoryId) {
+        const screen = await storage.getInventoryItem(changes.inventoryId);
+        if (!screen || !screen.active) {
+          return res.status(400).json({ message: "Screen not found or no longer active" });
+        }
+        if (screen.supplierId !== before.supplierId) {
+          const supplier = await storage.getSupplier(screen.supplierId);
+          if (!supplier || !isBookable(supplier)) {
+            return sendNotBookable(res, supplier);
+          }
+        }
+        Object.assign(data, siteDetailsFrom(screen));
+      }
+      const screen = moved && inventoryId && startDate && endDate ? await storage.getInventoryItem(inventoryId) : undefined;
+      if (screen && startDate && endDate) {
+        const quote = await quoteBooking(screen, startDate, endDate);
+        if (!quote.contract) {
+          return sendOutsideContract(res, startDate, endDate);
+        }
+        Object.assign(data, costFrom(quote));
+      } else if (startDate && endDate && changes.status && consumesContract(changes.status) && !consumesContract(before.status)) {
+        const contract = await storage.getCoveringContract(before.supplierId, startDate, endDate);
+        if (!contract) {
+          return sendOutsideContract(res, startDate, endDate);
+        }
+        data.contractId = contract.id;
+      }
+      const { result: booking, overspend } = await writeWithinBudget(req, (options) =>
+        storage.updateBooking(req.params.id as string, data, options),
+      );
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "booking", entityId: booking.id, before, after: booking });
+      if (overspend) await recordBudgetOverride(req, booking, overspend);
+      await warnOnContractConsumption(before, booking);
+      if (moved) {
+        await notifySupplier(booking, "Booking changed", `A booking was moved to ${describeBooking(booking)}; please respond to it again.`);
+      }
+      return res.json(booking);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof BookingConflictError) {
+        return sendBookingConflict(res, error);
+      }
+      if (error instanceof BudgetExceededError) {
+        return sendBudgetExceeded(res, error);
+      }
+      if (error instanceof ContractCeilingExceededError) {
+        return sendContractCeilingExceeded(res, error);
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Booking Negotiation Routes
+  //
+  // Suppliers answer the bookings made with them from their inbox: accept,
+  // decline with a reason (which rejects the booking) or counter-offer
+  // another of their screens, other dates or another price. The campaign's
+  // planner accepts or rejects a counter-offer. Each step is recorded in the
+  // booking's negotiation history and the other side is notified.
+  // ---------------------------------------------------------------------------
+
+  /** Notifies the planner who created the booking's campaign. */
+  async function notifyPlanner(booking: Booking, title: string, message: string) {
+    const campaign = await storage.getCampaign(booking.campaignId);
+    if (!campaign) return;
+    await storage.createNotifications([{ userId: campaign.createdBy, title, message, link: "/bookings" }]);
+  }
+
+  /** Notifies the active users of the booking's supplier. */
+  async function notifySupplier(booking: Booking, title: string, message: string) {
+    const supplierUsers = (await storage.getUsers()).filter((u) => u.supplierId === booking.supplierId && u.active);
+    await storage.createNotifications(supplierUsers.map((u) => ({ userId: u.id, title, message, link: "/inbox" })));
+  }
+
+  /** The booking if it was made with the current supplier user's supplier. */
+  async function getOwnBooking(req: Request): Promise<Booking | undefined> {
+    return storage.getBooking(req.params.id as string, { supplierId: req.currentUser!.supplierId });
+  }
+
+  const describeBooking = (booking: Booking) =>
+    `${booking.siteDescription} (${booking.startDate?.toISOString().slice(0, 10) ?? "?"} – ${booking.endDate?.toISOString().slice(0, 10) ?? "?"})`;
+
+  /** The supplier's bookings, newest first, each with its negotiation history. */
+  app.get("/api/supplier/bookings", authorize("booking_responses", "read"), async (req: Request, res: Response) => {
+    try {
+      const supplierId = req.currentUser!.supplierId;
+      if (!supplierId) {
+        return res.status(403).json({ message: "Your account is not linked to a supplier" });
+      }
+      const own = (await storage.getBookings({ supplierId }))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      const history = await storage.getBookingNegotiations(own.map((b) => b.id));
+      return res.json(own.map((b) => ({ ...b, negotiations: history.filter((n) => n.bookingId === b.id) })));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/bookings/:id/negotiations", authorize("bookings", "read"), async (req: Request, res: Response) => {
+    try {
+      const booking = await storage.getBooking(req.params.id as string, supplierScope(req));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      return res.json(await storage.getBookingNegotiations([booking.id]));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Sends the 409 response for a negotiation step the booking is not in a state for. */
+  function sendNotNegotiable(res: Response, booking: Booking, action: NegotiationAction) {
+    return res.status(409).json({
+      message: `Cannot ${action.replace(/_/g, " ")} a booking that is ${booking.status} with supplier response ${booking.supplierResponse}`,
+    });
+  }
+
+  const sendChangedConcurrently = (res: Response) =>
+    res.status(409).json({ message: "The booking was changed by someone else. Please refresh and try again." });
+
+  /** Builds the handler for a supplier accepting or declining a booking. */
+  function supplierDecision(action: "accept" | "decline") {
+    return async (req: Request, res: Response) => {
+      try {
+        const comment = action === "decline"
+          ? bookingDeclineSchema.parse(req.body).reason
+          : negotiationCommentSchema.parse(req.body ?? {}).comment;
+        const booking = await getOwnBooking(req);
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        if (!canNegotiate(booking, action)) {
+          return sendNotNegotiable(res, booking, action);
+        }
+        const { to } = negotiationTransitions[action];
+        const update: Partial<InsertBooking> = action === "decline"
+          ? { supplierResponse: to, status: "rejected" }
+          : { supplierResponse: to };
+        const updated = await storage.respondToBooking(booking, update, {
+          action,
+          toResponse: to,
+          actorId: req.currentUser!.id,
+          comment: comment || null,
+        });
+        if (!updated) {
+          return sendChangedConcurrently(res);
+        }
+        await recordAudit(req, { action: "update", entityType: "booking", entityId: booking.id, before: booking, after: updated });
+        await notifyPlanner(
+          updated,
+          action === "accept" ? "Booking accepted" : "Booking declined",
+          action === "accept"
+            ? `The supplier accepted ${describeBooking(updated)}.`
+            : `The supplier declined ${describeBooking(updated)}: ${comment}`,
+        );
+        return res.json(updated);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    };
+  }
+
+  app.post("/api/bookings/:id/accept", authorize("booking_responses", "update"), supplierDecision("accept"));
+  app.post("/api/bookings/:id/decline", authorize("booking_responses", "update"), supplierDecision("decline"));
+
+  /**
+   * Records a supplier's counter-offer. An offered screen must be one of the
+   * supplier's active screens and the offered dates must fall inside one of
+   * its active contracts; without a price the proposal is priced from the
+   * offered screen's rate card (or contract rates) for the offered dates.
+   */
+  app.post("/api/bookings/:id/counter-offer", authorize("booking_responses", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = bookingCounterOfferSchema.parse(req.body);
+      const booking = await getOwnBooking(req);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canNegotiate(booking, "counter")) {
+        return sendNotNegotiable(res, booking, "counter");
+      }
+      const startDate = data.startDate ?? booking.startDate;
+      const endDate = data.endDate ?? booking.endDate;
+      if (startDate && endDate && endDate < startDate) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+      const inventoryId = data.inventoryId ?? booking.inventoryId;
+      const screen = inventoryId ? await storage.getInventoryItem(inventoryId) : undefined;
+      if (data.inventoryId && (!screen || !screen.active || screen.supplierId !== booking.supplierId)) {
+        return res.status(400).json({ message: "Offer one of your own active screens" });
+      }
+      if (startDate && endDate && !(await storage.getCoveringContract(booking.supplierId, startDate, endDate))) {
+        return sendOutsideContract(res, startDate, endDate);
+      }
+      let proposedCost = data.cost;
+      if (proposedCost === undefined) {
+        if (!screen || !startDate || !endDate) {
+          return res.status(400).json({ message: "Propose a price; this booking has no screen and dates to price from" });
+        }
+        proposedCost = (await quoteBooking(screen, startDate, endDate)).subtotal;
+      }
+
+      const { to } = negotiationTransitions.counter;
+      const updated = await storage.respondToBooking(booking, { supplierResponse: to }, {
+        action: "counter",
+        toResponse: to,
+        actorId: req.currentUser!.id,
+        comment: data.comment || null,
+        proposedInventoryId: data.inventoryId ?? null,
+        proposedStartDate: data.startDate ?? null,
+        proposedEndDate: data.endDate ?? null,
+        proposedCost: proposedCost.toFixed(2),
+      });
+      if (!updated) {
+        return sendChangedConcurrently(res);
+      }
+      await recordAudit(req, {
+        action: "update",
+        entityType: "booking",
+        entityId: booking.id,
+        before: booking,
+        after: { ...updated, counterOffer: { ...data, cost: proposedCost } },
+      });
+      await notifyPlanner(
+        updated,
+        "Counter-offer received",
+        `The supplier made a counter-offer on ${describeBooking(updated)} at R${proposedCost.toFixed(2)} excl. VAT.`,
+      );
+      return res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Applies the supplier's open counter-offer to the booking: the offered
+   * screen and dates, and the offered price as the booking cost. The quote is
+   * kept only when the price is the rate card price. Double bookings,
+   * overspend and dates outside an active contract are refused as for any
+   * booking change.
+   */
+  app.post("/api/bookings/:id/counter-offer/accept", authorize("bookings", "update"), async (req: Request, res: Response) => {
+    try {
+      const { comment } = negotiationCommentSchema.parse(req.body ?? {});
+      const booking = await storage.getBooking(req.params.id as string);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canNegotiate(booking, "accept_counter")) {
+        return sendNotNegotiable(res, booking, "accept_counter");
+      }
+      const offer = (await storage.getBookingNegotiations([booking.id])).filter((n) => n.action === "counter").at(-1);
+      if (!offer) {
+        return res.status(409).json({ message: "The booking has no open counter-offer" });
+      }
+
+      const update: Partial<InsertBooking> = { supplierResponse: negotiationTransitions.accept_counter.to };
+      const inventoryId = offer.proposedInventoryId ?? booking.inventoryId;
+      const screen = inventoryId ? await storage.getInventoryItem(inventoryId) : undefined;
+      if (offer.proposedInventoryId && offer.proposedInventoryId !== booking.inventoryId) {
+        if (!screen || !screen.active) {
+          return res.status(409).json({ message: "The offered screen is no longer active" });
+        }
+        Object.assign(update, { inventoryId: screen.id, ...siteDetailsFrom(screen) });
+      }
+      if (offer.proposedStartDate) update.startDate = offer.proposedStartDate;
+      if (offer.proposedEndDate) update.endDate = offer.proposedEndDate;
+      const startDate = update.startDate ?? booking.startDate;
+      const endDate = update.endDate ?? booking.endDate;
+      const quote = screen && startDate && endDate ? await quoteBooking(screen, startDate, endDate) : null;
+      if (quote && !quote.contract) {
+        return sendOutsideContract(res, startDate!, endDate!);
+      }
+      if (quote) update.contractId = quote.contract!.contractId;
+      update.cost = offer.proposedCost;
+      update.quote = quote && quote.subtotal.toFixed(2) === offer.proposedCost ? quote : null;
+
+      const { result: updated, overspend } = await writeWithinBudget(req, (options) =>
+        storage.respondToBooking(booking, update, {
+          action: "accept_counter",
+          toResponse: negotiationTransitions.accept_counter.to,
+          actorId: req.currentUser!.id,
+          comment: comment || null,
+        }, options),
+      );
+      if (!updated) {
+        return sendChangedConcurrently(res);
+      }
+      await recordAudit(req, { action: "update", entityType: "booking", entityId: booking.id, before: booking, after: updated });
+      if (overspend) await recordBudgetOverride(req, updated, overspend);
+      await warnOnContractConsumption(booking, updated);
+      await notifySupplier(updated, "Counter-offer accepted", `Your counter-offer on ${describeBooking(updated)} was accepted.`);
+      return res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof BookingConflictError) {
+        return sendBookingConflict(res, error);
+      }
+      if (error instanceof BudgetExceededError) {
+        return sendBudgetExceeded(res, error);
+      }
+      if (error instanceof ContractCeilingExceededError) {
+        return sendContractCeilingExceeded(res, error);
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Rejects the supplier's open counter-offer with a comment, returning the booking to the supplier's inbox. */
+  app.post("/api/bookings/:id/counter-offer/reject", authorize("bookings", "update"), async (req: Request, res: Response) => {
+    try {
+      const { comment } = negotiationCommentSchema.parse(req.body ?? {});
+      if (!comment) {
+        return res.status(400).json({ message: "A comment is required" });
+      }
+      const booking = await storage.getBooking(req.params.id as string);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canNegotiate(booking, "reject_counter")) {
+        return sendNotNegotiable(res, booking, "reject_counter");
+      }
+      const { to } = negotiationTransitions.reject_counter;
+      const updated = await storage.respondToBooking(booking, { supplierResponse: to }, {
+        action: "reject_counter",
+        toResponse: to,
+        actorId: req.currentUser!.id,
+        comment,
+      });
+      if (!updated) {
+        return sendChangedConcurrently(res);
+      }
+      await recordAudit(req, { action: "update", entityType: "booking", entityId: booking.id, before: booking, after: updated });
+      await notifySupplier(updated, "Counter-offer rejected", `Your counter-offer on ${describeBooking(updated)} was rejected: ${comment}`);
+      return res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Supplier Contract Routes
+  //
+  // Department admins and finance officers record the framework contracts
+  // signed with each supplier: number, period, ceiling value and terms, and
+  // an optional rate card of negotiated rates per screen. Contracts start in
+  // draft; only active ones can be booked against, a supplier may not have
+  // two active contracts covering the same day, and terminated contracts are
+  // final. Each contract is returned with its consumption (see
+  // shared/contracts.ts). Supplier users see only their own contracts.
+  // ---------------------------------------------------------------------------
+
+  /** Responds 409 if another contract already has the number. */
+  async function sendContractNumberTaken(res: Response, contractNumber: string | undefined, contractId?: string) {
+    if (!contractNumber) return undefined;
+    const holder = (await storage.getContracts()).find((c) => c.contractNumber === contractNumber && c.id !== contractId);
+    return holder ? res.status(409).json({ message: `Contract number ${contractNumber} is already in use` }) : undefined;
+  }
+
+  /** Sends the 409 response for an active contract overlapping another. */
+  function sendContractOverlap(res: Response, error: ContractOverlapError) {
+    return res.status(409).json({
+      message: error.message,
+      overlapping: {
+        id: error.overlapping.id,
+        contractNumber: error.overlapping.contractNumber,
+        startDate: error.overlapping.startDate,
+        endDate: error.overlapping.endDate,
+      },
+    });
+  }
+
+  /** The contracts with their consumption figures. */
+  async function withConsumption(contracts: SupplierContract[]) {
+    const consumed = await storage.getContractConsumption(contracts.map((c) => c.id));
+    return contracts.map((c) => ({
+      ...c,
+      consumption: contractConsumption(c, consumed.get(c.id) ?? 0, contractWarningThresholds),
+    }));
+  }
+
+  app.get("/api/contracts", authorize("contracts", "read"), async (req: Request, res: Response) => {
+    try {
+      const { supplierId } = req.query;
+      let contracts = await storage.getContracts(supplierScope(req));
+      if (supplierId) {
+        contracts = contracts.filter((c) => c.supplierId === supplierId);
+      }
+      return res.json(await withConsumption(contracts));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** A contract with its consumption, rate card, the supplier's screens and the bookings made under it. */
+  app.get("/api/contracts/:id", authorize("contracts", "read"), async (req: Request, res: Response) => {
+    try {
+      const scope = supplierScope(req);
+      const contract = await storage.getContract(req.params.id as string, scope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const [withFigures] = await withConsumption([contract]);
+      const rates = await storage.getContractRates(contract.id);
+      const screens = await storage.getInventoryBySupplier(contract.supplierId);
+      const contractBookings = await storage.getBookingsByContract(contract.id, scope);
+      return res.json({ ...withFigures, rates, screens, bookings: contractBookings });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/contracts", authorize("contracts", "create"), async (req: Request, res: Response) => {
+    try {
+      const data = insertSupplierContractSchema.parse(req.body);
+      const supplier = await storage.getSupplier(data.supplierId);
+      if (!supplier) {
+        return res.status(400).json({ message: "Supplier not found" });
+      }
+      const taken = await sendContractNumberTaken(res, data.contractNumber);
+      if (taken) return taken;
+      const contract = await storage.createContract({ ...data, createdBy: req.currentUser!.id });
+      await recordAudit(req, { action: "create", entityType: "supplier_contract", entityId: contract.id, after: contract });
+      return res.status(201).json(contract);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ContractOverlapError) {
+        return sendContractOverlap(res, error);
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Edits a contract or moves it along draft → active → terminated. The
+   * period cannot shrink past the contract's non-rejected bookings, nor the
+   * ceiling below the value already consumed.
+   */
+  app.patch("/api/contracts/:id", authorize("contracts", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = supplierContractUpdateSchema.parse(req.body);
+      const before = await storage.getContract(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (before.status === "terminated") {
+        return res.status(409).json({ message: "Terminated contracts cannot be changed" });
+      }
+      if (data.status && data.status !== before.status && !contractTransitions[before.status].includes(data.status)) {
+        return res.status(409).json({ message: `Cannot move a contract from ${before.status} to ${data.status}` });
+      }
+      const startDate = data.startDate ?? before.startDate;
+      const endDate = data.endDate ?? before.endDate;
+      if (endDate < startDate) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+      const outside = (await storage.getBookingsByContract(before.id)).filter(
+        (b) => b.status !== "rejected" && b.startDate && b.endDate && (b.startDate < startDate || b.endDate > endDate),
+      );
+      if (outside.length > 0) {
+        return res.status(409).json({
+          message: "Some of the contract's bookings fall outside the new period",
+          bookings: outside.map((b) => ({ id: b.id, startDate: b.startDate, endDate: b.endDate })),
+        });
+      }
+      const taken = await sendContractNumberTaken(res, data.contractNumber, before.id);
+      if (taken) return taken;
+      const contract = await storage.updateContract(before.id, data);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "supplier_contract", entityId: contract.id, before, after: contract });
+      return res.json(contract);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ContractOverlapError) {
+        return sendContractOverlap(res, error);
+      }
+      if (error instanceof ContractCeilingExceededError) {
+        return sendContractCeilingExceeded(res, error);
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Replaces the contract's rate card. Every screen must belong to the
+   * contract's supplier. New quotes use the new rates; bookings already
+   * priced keep their cost.
+   */
+  app.put("/api/contracts/:id/rates", authorize("contracts", "update"), async (req: Request, res: Response) => {
+    try {
+      const { rates } = contractRateCardSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id as string);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (contract.status === "terminated") {
+        return res.status(409).json({ message: "Terminated contracts cannot be changed" });
+      }
+      const screenIds = new Set((await storage.getInventoryBySupplier(contract.supplierId)).map((i) => i.id));
+      if (rates.some((r) => !screenIds.has(r.inventoryId))) {
+        return res.status(400).json({ message: "Rates can only be set for the contract supplier's screens" });
+      }
+      const before = await storage.getContractRates(contract.id);
+      const after = await storage.replaceContractRates(contract.id, rates);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "supplier_contract",
+        entityId: contract.id,
+        before: { rates: before },
+        after: { rates: after },
+      });
+      return res.json(after);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Notification Routes
+  // ---------------------------------------------------------------------------
+
+  app.get("/api/notifications", authorize("dashboard", "read"), async (req: Request, res: Response) => {
+    try {
+      return res.json(await storage.getNotifications(req.currentUser!.id));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Marks the listed notifications (`ids`), or all of the user's notifications, as read. */
+  app.post("/api/notifications/read", authorize("dashboard", "read"), async (req: Request, res: Response) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).optional() }).parse(req.body ?? {});
+      await storage.markNotificationsRead(req.currentUser!.id, ids);
+      return res.status(204).end();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Document Routes
+  //
+  // Documents are uploaded as multipart/form-data with the file in a `file`
+  // field. The bytes go to the blob store and the row records where they are
+  // and their SHA-256; file name, size, type and uploader are taken from the
+  // upload and the session, never from the form.
+  //
+  // Proof-of-flighting photos must name their booking; their GPS position and
+  // capture time come from the photo's EXIF data and are checked against the
+  // booked screen and booking period before the row is written. Artwork
+  // uploaded against a booking is validated against the booked screen's
+  // specifications and stored with its validation report.
+  //
+  // Planners and admins approve or reject documents with a mandatory comment.
+  // A rejected document is corrected by uploading a new version that names it
+  // in `supersedesId`; the new version goes through the same checks.
+  //
+  // SBD and CSO documents belong to a supplier and carry issue and expiry
+  // dates; approved, unexpired ones make up the compliance matrix.
+  // ---------------------------------------------------------------------------
+
+  const blobStore = getBlobStore();
+  getGeofenceRadius();
+  getDefaultUtcOffset();
+  getExpiryWarningDays();
+
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DOCUMENT_BYTES, files: 1 },
+  }).single("file");
+
+  /** Runs the multipart parser, resolving once the file is buffered in `req.file`. */
+  function receiveDocumentUpload(req: Request, res: Response) {
+    return new Promise<void>((resolve, reject) => {
+      documentUpload(req, res, (error: unknown) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /** Content-Disposition for a download, with an ASCII fallback and the UTF-8 file name. */
+  function attachmentHeader(fileName: string) {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+    const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+  }
+
+  app.get("/api/documents", authorize("documents", "read"), async (req: Request, res: Response) => {
+    try {
+      const { campaignId, bookingId } = req.query;
+      const scope = supplierScope(req);
+      if (campaignId) {
+        const filtered = await storage.getDocumentsByCampaign(campaignId as string, scope);
+        return res.json(filtered);
+      }
+      if (bookingId) {
+        const filtered = await storage.getDocumentsByBooking(bookingId as string, scope);
+        return res.json(filtered);
+      }
+      const allDocuments = await storage.getDocuments(scope);
+      return res.json(allDocuments);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/documents", authorize("documents", "create"), async (req: Request, res: Response) => {
+    try {
+      await receiveDocumentUpload(req, res);
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+      // Multipart fields arrive as strings; treat empty ones as not given.
+      const fields = Object.fromEntries(Object.entries(req.body ?? {}).filter(([, value]) => value !== ""));
+      let data = documentUploadSchema.parse(fields);
+      const mimeType = file.mimetype || "application/octet-stream";
+      const scope = supplierScope(req);
+
+      const previous = data.supersedesId ? await storage.getDocument(data.supersedesId, scope) : undefined;
+      if (data.supersedesId) {
+        if (!previous) {
+          return res.status(404).json({ message: "Document to replace not found" });
+        }
+        if (!canResubmit(previous)) {
+          return res.status(409).json({ message: "Only a rejected document can be replaced by a new version" });
+        }
+        data = {
+          ...data,
+          campaignId: previous.campaignId,
+          bookingId: previous.bookingId,
+          type: previous.type,
+          supplierId: previous.supplierId,
+        };
+      }
+
+      // Suppliers file compliance and onboarding documents for themselves and everything else against one of their bookings.
+      const supplierDocument = isComplianceType(data.type) || isOnboardingDocumentType(data.type);
+      if (scope) {
+        if (supplierDocument) {
+          if (data.supplierId && data.supplierId !== scope.supplierId) {
+            return res.status(403).json({ message: "Access denied" });
+          }
+          data = { ...data, supplierId: scope.supplierId ?? undefined };
+        } else if (!data.bookingId) {
+          return res.status(400).json({ message: "Upload the document against one of your bookings" });
+        }
+      }
+      if (data.bookingId && !supplierDocument && !(await storage.getBooking(data.bookingId, scope))) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (isComplianceType(data.type)) {
+        if (!data.supplierId || !data.issuedAt || !data.expiresAt) {
+          return res.status(400).json({ message: "Compliance documents need a supplier, issue date and expiry date" });
+        }
+        if (data.expiresAt <= data.issuedAt) {
+          return res.status(400).json({ message: "The expiry date must be after the issue date" });
+        }
+        if (!(await storage.getSupplier(data.supplierId))) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+      } else if (isOnboardingDocumentType(data.type)) {
+        if (!data.supplierId) {
+          return res.status(400).json({ message: "Onboarding documents need a supplier" });
+        }
+        if (data.issuedAt && data.expiresAt && data.expiresAt <= data.issuedAt) {
+          return res.status(400).json({ message: "The expiry date must be after the issue date" });
+        }
+        if (!(await storage.getSupplier(data.supplierId))) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+        data = { ...data, campaignId: undefined, bookingId: undefined };
+      } else {
+        data = { ...data, supplierId: undefined, issuedAt: undefined, expiresAt: undefined };
+      }
+
+      let checked: Partial<Pick<Document, "campaignId" | "gpsLatitude" | "gpsLongitude" | "capturedAt" | "status" | "rejectionReason" | "validationReport">> | undefined;
+      if (data.type === "proof_of_flighting") {
+        if (!PROOF_PHOTO_MIME_TYPES.includes(mimeType)) {
+          return res.status(400).json({ message: "Proof of flighting must be a JPEG or HEIC photo" });
+        }
+        if (!data.bookingId) {
+          return res.status(400).json({ message: "Proof of flighting must be uploaded against a booking" });
+        }
+        const booking = await storage.getBooking(data.bookingId);
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        const screen = booking.inventoryId ? await storage.getInventoryItem(booking.inventoryId) : undefined;
+        const photo = await extractPhotoMetadata(file.buffer);
+        const verification = verifyProof(photo, booking, screen);
+        checked = {
+          campaignId: booking.campaignId,
+          gpsLatitude: photo.latitude?.toFixed(6) ?? null,
+          gpsLongitude: photo.longitude?.toFixed(6) ?? null,
+          capturedAt: photo.capturedAt,
+          status: verification.status,
+          rejectionReason: verification.reason,
+        };
+      } else if (data.type === "artwork" && data.bookingId) {
+        const booking = await storage.getBooking(data.bookingId);
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        checked = { campaignId: booking.campaignId };
+        const screen = booking.inventoryId ? await storage.getInventoryItem(booking.inventoryId) : undefined;
+        if (screen) {
+          const report = validateArtwork(await inspectArtwork(file.buffer), screen);
+          checked.validationReport = report;
+          checked.status = report.passed ? "validated" : "rejected";
+          checked.rejectionReason = artworkRejectionReason(report);
+        }
+      }
+
+      const storageKey = `documents/${randomUUID()}`;
+      await blobStore.put(storageKey, file.buffer, mimeType);
+      try {
+        const values = {
+          ...data,
+          fileName: file.originalname,
+          fileSize: file.size,
+          mimeType,
+          storageKey,
+          sha256: createHash("sha256").update(file.buffer).digest("hex"),
+          status: "uploaded",
+          uploadedBy: req.currentUser!.id,
+          ...checked,
+        };
+        const document = previous ? await storage.createDocumentVersion(previous, values) : await storage.createDocument(values);
+        if (!document) {
+          await blobStore.delete(storageKey).catch(() => undefined);
+          return res.status(409).json({ message: "The document was changed by someone else. Please refresh and try again." });
+        }
+        await recordAudit(req, { action: "create", entityType: "document", entityId: document.id, after: document });
+        if (previous) {
+          await recordAudit(req, {
+            action: "update",
+            entityType: "document",
+            entityId: previous.id,
+            before: previous,
+            after: { ...previous, status: "superseded" },
+          });
+        }
+        return res.status(201).json(document);
+      } catch (error) {
+        await blobStore.delete(storageKey).catch(() => undefined);
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: `Files may be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB` });
+        }
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Compliance status of each supplier booked on each campaign, optionally
+   * narrowed to one campaign or supplier.
+   */
+  app.get("/api/compliance", authorize("documents", "read"), async (req: Request, res: Response) => {
+    try {
+      const { campaignId, supplierId } = req.query;
+      const scope = supplierScope(req);
+      const [allBookings, allDocuments] = await Promise.all([storage.getBookings(scope), storage.getDocuments(scope)]);
+      const matrix = complianceMatrix(allBookings, allDocuments).filter(
+        (entry) => (!campaignId || entry.campaignId === campaignId) && (!supplierId || entry.supplierId === supplierId),
+      );
+      return res.json(matrix);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * A document's version chain, oldest first, and the review decisions made
+   * on any of its versions, with reviewer names.
+   */
+  app.get("/api/documents/:id/history", authorize("documents", "read"), async (req: Request, res: Response) => {
+    try {
+      const versions = await storage.getDocumentVersions(req.params.id as string, supplierScope(req));
+      if (!versions) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const [reviews, users] = await Promise.all([storage.getDocumentReviews(versions.map((v) => v.id)), storage.getUsers()]);
+      const names = new Map(users.map((u) => [u.id, u.fullName]));
+      return res.json({
+        versions,
+        reviews: reviews.map((review) => ({ ...review, actorName: names.get(review.actorId) ?? null })),
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Builds the handler for POST /api/documents/:id/<decision>; the body must carry a `comment`. */
+  function documentReview(decision: DocumentReviewDecision) {
+    return async (req: Request, res: Response) => {
+      try {
+        const user = req.currentUser!;
+        const document = await storage.getDocument(req.params.id as string);
+        if (!document) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+        if (!comment) {
+          return res.status(400).json({ message: "A comment is required" });
+        }
+        const { from, to } = documentReviewTransitions[decision];
+        if (!(from as readonly string[]).includes(document.status)) {
+          return res.status(409).json({ message: `Cannot ${decision} a document that is ${document.status}` });
+        }
+        if (document.uploadedBy === user.id) {
+          return res.status(403).json({ message: "You cannot review a document you uploaded" });
+        }
+        const updated = await storage.reviewDocument(
+          document,
+          { status: to, rejectionReason: decision === "reject" ? comment : null },
+          { decision, toStatus: to, actorId: user.id, comment },
+        );
+        if (!updated) {
+          return res.status(409).json({ message: "The document was changed by someone else. Please refresh and try again." });
+        }
+        await recordAudit(req, { action: "update", entityType: "document", entityId: document.id, before: document, after: updated });
+        return res.json(updated);
+      } catch (error) {
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    };
+  }
+
+  app.post("/api/documents/:id/approve", authorize("documents", "update"), documentReview("approve"));
+  app.post("/api/documents/:id/reject", authorize("documents", "update"), documentReview("reject"));
+
+  /** Streams a document's file to the client as an attachment. */
+  app.get("/api/documents/:id/download", authorize("documents", "read"), async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocument(req.params.id as string, supplierScope(req));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!document.storageKey) {
+        return res.status(404).json({ message: "No file is stored for this document" });
+      }
+      const stream = await blobStore.get(document.storageKey);
+      await recordAudit(req, { action: "download", entityType: "document", entityId: document.id });
+      res.setHeader("Content-Type", document.mimeType || "application/octet-stream");
+      res.setHeader("Content-Length", String(document.fileSize));
+      res.setHeader("Content-Disposition", attachmentHeader(document.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (document.sha256) res.setHeader("X-Content-SHA256", document.sha256);
+      stream.on("error", () => res.destroy());
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "The stored file is missing" });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Invoice Routes
+  // ---------------------------------------------------------------------------
+
+  getDepartmentDetails();
+  getMatchTolerance();
+  getProofCoverageInterval();
+
+  app.get("/api/invoices", authorize("invoices", "read"), async (req: Request, res: Response) => {
+    try {
+      const { campaignId } = req.query;
+      const scope = supplierScope(req);
+      if (campaignId) {
+        const filtered = await storage.getInvoicesByCampaign(campaignId as string, scope);
+        return res.json(filtered);
+      }
+      const allInvoices = await storage.getInvoices(scope);
+      return res.json(allInvoices);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** A supplier's approved bookings on a campaign that are not yet invoiced. */
+  async function uninvoicedBookings(campaignId: string, supplierId: string): Promise<Booking[]> {
+    const candidates = (await storage.getBookingsByCampaign(campaignId))
+      .filter((b) => b.supplierId === supplierId && isInvoiceable(b));
+    const invoiced = new Set((await storage.getInvoiceLinesByBookings(candidates.map((b) => b.id))).map((l) => l.bookingId));
+    return candidates.filter((b) => !invoiced.has(b.id));
+  }
+
+  /**
+   * Previews the lines an invoice for a supplier on a campaign would have:
+   * one per approved, flighting or flighted booking not yet invoiced.
+   */
+  app.get("/api/invoices/billable", authorize("invoices", "create"), async (req: Request, res: Response) => {
+    try {
+      const { campaignId, supplierId } = req.query;
+      if (typeof campaignId !== "string" || typeof supplierId !== "string") {
+        return res.status(400).json({ message: "campaignId and supplierId are required" });
+      }
+      const bookings = await uninvoicedBookings(campaignId, supplierId);
+      return res.json(bookings.map(invoiceLineFor));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/invoices/:id", authorize("invoices", "read"), async (req: Request, res: Response) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id as string, supplierScope(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const lines = await storage.getInvoiceLines([invoice.id]);
+      return res.json({ ...invoice, lines });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Sends a rendered PDF as a download, or 413 when it came out larger than the download limit. */
+  async function sendPdf(res: Response, fileName: string, render: () => Promise<Buffer>) {
+    try {
+      const pdf = await render();
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", String(pdf.length));
+      res.setHeader("Content-Disposition", attachmentHeader(fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      return res.send(pdf);
+    } catch (error) {
+      if (error instanceof PdfTooLargeError) {
+        return res.status(413).json({ message: error.message, size: error.size, limit: MAX_DOCUMENT_BYTES });
+      }
+      throw error;
+    }
+  }
+
+  /** Renders the invoice as a tax invoice PDF. */
+  app.get("/api/invoices/:id/pdf", authorize("invoices", "read"), async (req: Request, res: Response) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id as string, supplierScope(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const [lines, supplier, campaign] = await Promise.all([
+        storage.getInvoiceLines([invoice.id]),
+        invoice.supplierId ? storage.getSupplier(invoice.supplierId) : Promise.resolve(undefined),
+        storage.getCampaign(invoice.campaignId),
+      ]);
+      await recordAudit(req, { action: "export", entityType: "invoice", entityId: invoice.id, after: { format: "pdf" } });
+      return await sendPdf(res, `${invoice.invoiceNumber.replace(/\//g, "-")}.pdf`, () =>
+        renderInvoicePdf({ invoice, lines, supplier, campaign, department: getDepartmentDetails() }),
+      );
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Generates a draft invoice from a supplier's bookings on a campaign: the
+   * selected bookings, or every one not yet invoiced. The invoice number,
+   * lines, subtotal, 15% VAT and total are worked out here; bookings already
+   * on another invoice are refused with 409.
+   */
+  app.post("/api/invoices", authorize("invoices", "create"), async (req: Request, res: Response) => {
+    try {
+      const data = invoiceGenerationSchema.parse(req.body);
+      const campaign = await storage.getCampaign(data.campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const available = await uninvoicedBookings(data.campaignId, data.supplierId);
+      let selected = available;
+      if (data.bookingIds) {
+        const unavailable = data.bookingIds.filter((id) => !available.some((b) => b.id === id));
+        if (unavailable.length > 0) {
+          return res.status(409).json({
+            message: "Some bookings are not approved bookings of this supplier on this campaign, or are already invoiced",
+            bookingIds: unavailable,
+          });
+        }
+        selected = available.filter((b) => data.bookingIds!.includes(b.id));
+      }
+      if (selected.length === 0) {
+        return res.status(400).json({ message: "There are no approved bookings left to invoice for this supplier and campaign" });
+      }
+
+      const draft = buildInvoice(data.campaignId, data.supplierId, selected, new Date(), data.dueDate);
+      const created = await storage.createInvoiceWithLines(draft.invoice, draft.lines);
+      const invoice = await runInvoiceMatch(created.invoice);
+      const lines = created.lines;
+      await recordAudit(req, { action: "create", entityType: "invoice", entityId: invoice.id, after: { ...invoice, lines } });
+      return res.status(201).json({ ...invoice, lines });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AlreadyInvoicedError) {
+        return res.status(409).json({ message: error.message, bookingIds: error.lines.map((l) => l.bookingId) });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Runs the three-way match for an invoice against its bookings and their
+   * proof-of-flighting documents, and stores the result on the invoice.
+   */
+  async function runInvoiceMatch(invoice: Invoice): Promise<Invoice> {
+    const lines = await storage.getInvoiceLines([invoice.id]);
+    const bookingIds = lines.map((l) => l.bookingId);
+    const [lineBookings, proofs] = await Promise.all([
+      Promise.all(bookingIds.map((id) => storage.getBooking(id))),
+      Promise.all(bookingIds.map((id) => storage.getDocumentsByBooking(id))),
+    ]);
+    const report = matchInvoice(
+      lines,
+      lineBookings.filter((b): b is Booking => !!b),
+      proofs.flat(),
+      { tolerance: getMatchTolerance(), proofIntervalDays: getProofCoverageInterval(), now: new Date() },
+    );
+    // An override justifies the exceptions it was recorded against; a different outcome needs a new one.
+    const overrideLapsed = invoice.matchOverriddenAt && !sameMatchOutcome(invoice.matchReport, report);
+    const updated = await storage.updateInvoice(invoice.id, {
+      matchStatus: report.status,
+      matchReport: report,
+      ...(overrideLapsed ? { matchOverrideBy: null, matchOverrideReason: null, matchOverriddenAt: null } : {}),
+    });
+    return updated ?? invoice;
+  }
+
+  /** Re-runs the three-way match and returns the invoice with its report. */
+  app.post("/api/invoices/:id/match", authorize("invoices", "update"), async (req: Request, res: Response) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id as string);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const matched = await runInvoiceMatch(invoice);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "invoice",
+        entityId: invoice.id,
+        before: { matchStatus: invoice.matchStatus, matchReport: invoice.matchReport },
+        after: { matchStatus: matched.matchStatus, matchReport: matched.matchReport },
+      });
+      return res.json(matched);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Records a finance officer's decision to pay an invoice despite match
+   * exceptions. The reason and the exceptions it covers go to the audit trail.
+   */
+  app.post("/api/invoices/:id/match/override", authorize("invoices", "update"), async (req: Request, res: Response) => {
+    try {
+      const user = req.currentUser!;
+      if (user.role !== "finance_officer") {
+        return res.status(403).json({ message: "Only a finance officer can override a match exception" });
+      }
+      const { reason } = invoiceMatchOverrideSchema.parse(req.body);
+      const current = await storage.getInvoice(req.params.id as string);
+      if (!current) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const matched = await runInvoiceMatch(current);
+      if (matched.matchStatus !== "exception") {
+        return res.status(409).json({ message: "The invoice has no match exceptions to override", invoice: matched });
+      }
+      const invoice = await storage.updateInvoice(matched.id, {
+        matchOverrideBy: user.id,
+        matchOverrideReason: reason,
+        matchOverriddenAt: new Date(),
+      });
+      await recordAudit(req, {
+        action: "match_override",
+        entityType: "invoice",
+        entityId: matched.id,
+        after: { reason, exceptions: matched.matchReport?.reasons ?? [] },
+      });
+      return res.json(invoice);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Issues a draft invoice (status "sent") or moves its due date; its number,
+   * lines and amounts are fixed when generated. Issued invoices cannot be
+   * changed: they are settled by payments and corrected by credit notes.
+   */
+  app.patch("/api/invoices/:id", authorize("invoices", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = invoiceUpdateSchema.parse(req.body);
+      const before = await storage.getInvoice(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (before.status !== "draft") {
+        return res.status(409).json({ message: "An issued invoice cannot be changed; issue a credit note to correct it" });
+      }
+      const invoice = await storage.updateInvoice(before.id, data);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "invoice", entityId: invoice.id, before, after: invoice });
+      return res.json(invoice);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/invoices/:id/payments", authorize("invoices", "read"), async (req: Request, res: Response) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id as string, supplierScope(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      return res.json(await storage.getPayments([invoice.id]));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * Records a full or partial payment against an issued invoice. The
+   * three-way match is re-run first and a payment is refused with 409 on
+   * exceptions unless a finance officer has recorded an override; a payment
+   * larger than the balance is refused with 409.
+   */
+  app.post("/api/invoices/:id/payments", authorize("invoices", "update"), async (req: Request, res: Response) => {
+    try {
+      const data = paymentRequestSchema.parse(req.body);
+      const before = await storage.getInvoice(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (before.status === "draft") {
+        return res.status(409).json({ message: "Issue the invoice before recording a payment against it" });
+      }
+      const matched = await runInvoiceMatch(before);
+      if (matched.matchStatus === "exception" && !matched.matchOverriddenAt) {
+        return res.status(409).json({
+          message: "The invoice does not match its bookings and proof of flighting; a finance officer must record an override before it is paid",
+          match: matched.matchReport,
+        });
+      }
+      const recorded = await storage.recordPayment(before.id, {
+        ...data,
+        amount: data.amount.toFixed(2),
+        recordedBy: req.currentUser!.id,
+      });
+      if (!recorded) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      await recordAudit(req, {
+        action: "payment",
+        entityType: "invoice",
+        entityId: before.id,
+        before: { status: before.status, amountPaid: before.amountPaid },
+        after: { status: recorded.invoice.status, amountPaid: recorded.invoice.amountPaid, payment: recorded.payment },
+      });
+      return res.status(201).json(recorded);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof OverpaymentError) {
+        return res.status(409).json({ message: error.message, balance: error.balance });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** The invoice's credit notes, each with the lines it reverses. */
+  app.get("/api/invoices/:id/credit-notes", authorize("invoices", "read"), async (req: Request, res: Response) => {
     try {
-      const campaign = await storage.updateCampaign(req.params.id as string, req.body);
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const invoice = await storage.getInvoice(req.params.id as string, supplierScope(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      return res.json(campaign);
+      const notes = await storage.getCreditNotes([invoice.id]);
+      const lines = await storage.getCreditNoteLines(notes.map((n) => n.id));
+      return res.json(notes.map((note) => ({ ...note, lines: lines.filter((l) => l.creditNoteId === note.id) })));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/campaigns/:id", async (req: Request, res: Response) => {
+  /**
+   * Issues a credit note reversing all or part of some of an issued
+   * invoice's lines. Crediting a line in full frees its booking to be
+   * invoiced again; crediting every line cancels the invoice. A credit larger
+   * than what is left uncredited on a line is refused with 409.
+   */
+  app.post("/api/invoices/:id/credit-notes", authorize("invoices", "create"), async (req: Request, res: Response) => {
     try {
-      const deleted = await storage.deleteCampaign(req.params.id as string);
-      if (!deleted) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const data = creditNoteRequestSchema.parse(req.body);
+      const before = await storage.getInvoice(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      return res.status(204).send();
+      if (before.status === "draft") {
+        return res.status(409).json({ message: "Only an issued invoice can be credited" });
+      }
+      const created = await storage.createCreditNote(
+        before.id,
+        { reason: data.reason, createdBy: req.currentUser!.id, issuedAt: new Date() },
+        data.lines,
+      );
+      if (!created) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      await recordAudit(req, {
+        action: "create",
+        entityType: "credit_note",
+        entityId: created.creditNote.id,
+        before: { invoiceId: before.id, status: before.status, amountCredited: before.amountCredited },
+        after: { ...created.creditNote, lines: created.lines, invoiceStatus: created.invoice.status },
+      });
+      return res.status(201).json({ ...created.creditNote, lines: created.lines, invoice: created.invoice });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof CreditExceedsLineError) {
+        return res.status(409).json({ message: error.message, invoiceLineId: error.invoiceLineId, remaining: error.remaining });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // ---------------------------------------------------------------------------
-  // Booking Routes
+  // Report Routes
   // ---------------------------------------------------------------------------
 
-  app.get("/api/bookings", async (req: Request, res: Response) => {
+  /**
+   * Payments by month, balances by status and each supplier's days-to-pay
+   * against the PFMA requirement to pay within 30 days of invoice.
+   */
+  app.get("/api/reports/invoices", authorize("invoices", "read"), async (req: Request, res: Response) => {
     try {
-      const { campaignId } = req.query;
-      if (campaignId) {
-        const filtered = await storage.getBookingsByCampaign(campaignId as string);
-        return res.json(filtered);
-      }
-      const allBookings = await storage.getBookings();
-      return res.json(allBookings);
+      const [allInvoices, allPayments, allSuppliers] = await Promise.all([
+        storage.getInvoices(),
+        storage.getPayments(),
+        storage.getSuppliers(),
+      ]);
+      return res.json(buildInvoiceReport(allInvoices, allPayments, allSuppliers, new Date()));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/bookings/:id", async (req: Request, res: Response) => {
+  /**
+   * A supplier's statement: issued invoices, credit notes and payments in
+   * date order with the running balance owed.
+   */
+  app.get("/api/suppliers/:id/statement", authorize("invoices", "read"), async (req: Request, res: Response) => {
     try {
-      const booking = await storage.getBooking(req.params.id as string);
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      const supplier = await storage.getSupplier(req.params.id as string);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
-      return res.json(booking);
-    } catch (error) {
-      return res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
-  app.post("/api/bookings", async (req: Request, res: Response) => {
-    try {
-      const data = insertBookingSchema.parse(req.body);
-      const booking = await storage.createBooking(data);
-      return res.status(201).json(booking);
+      const supplierInvoices = (await storage.getInvoices()).filter((i) => i.supplierId === supplier.id);
+      const invoiceIds = supplierInvoices.map((i) => i.id);
+      const [notes, supplierPayments] = await Promise.all([
+        storage.getCreditNotes(invoiceIds),
+        storage.getPayments(invoiceIds),
+      ]);
+      return res.json(buildSupplierStatement(supplier, supplierInvoices, notes, supplierPayments));
     } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/bookings/:id", async (req: Request, res: Response) => {
+  /**
+   * Renders a campaign's post-flight report PDF: campaign details, spend
+   * against budget, booked sites with their proof status, and the verified
+   * proof-of-flighting photos.
+   */
+  app.get("/api/campaigns/:id/report/pdf", authorize("budgets", "read"), async (req: Request, res: Response) => {
     try {
-      const booking = await storage.updateBooking(req.params.id as string, req.body);
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      const campaign = await storage.getCampaign(req.params.id as string);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
       }
-      return res.json(booking);
+      const [campaignBookings, campaignInvoices, campaignDocuments, allSuppliers] = await Promise.all([
+        storage.getBookingsByCampaign(campaign.id),
+        storage.getInvoicesByCampaign(campaign.id),
+        storage.getDocumentsByCampaign(campaign.id),
+        storage.getSuppliers(),
+      ]);
+      const proofs = await Promise.all(
+        campaignDocuments
+          .filter((d) => d.type === "proof_of_flighting" && d.status !== "superseded" && d.status !== "rejected")
+          .map(async (document) => ({
+            document,
+            photo: document.storageKey ? await readBlob(blobStore, document.storageKey).catch(() => null) : null,
+          })),
+      );
+      await recordAudit(req, { action: "export", entityType: "campaign", entityId: campaign.id, after: { format: "pdf", report: "post_flight" } });
+      return await sendPdf(res, `post-flight-report-${campaign.name.replace(/[^\w-]+/g, "-")}.pdf`, () =>
+        renderCampaignReportPdf({
+          campaign,
+          bookings: campaignBookings,
+          suppliers: allSuppliers,
+          budget: summarizeBudget(campaign, campaignBookings, campaignInvoices),
+          proofs,
+        }),
+      );
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // ---------------------------------------------------------------------------
-  // Document Routes
+  // Export Routes
+  //
+  // XLSX downloads of the list pages. Each takes the same filters as its page
+  // (see shared/list-filters.ts) and the same role scoping as the list
+  // endpoint: supplier users only get their own organisation's rows.
   // ---------------------------------------------------------------------------
 
-  app.get("/api/documents", async (req: Request, res: Response) => {
-    try {
-      const { campaignId, bookingId } = req.query;
-      if (campaignId) {
-        const filtered = await storage.getDocumentsByCampaign(campaignId as string);
-        return res.json(filtered);
-      }
-      if (bookingId) {
-        const filtered = await storage.getDocumentsByBooking(bookingId as string);
-        return res.json(filtered);
-      }
-      const allDocuments = await storage.getDocuments();
-      return res.json(allDocuments);
-    } catch (error) {
-      return res.status(500).json({ message: "Internal server error" });
+  /** The string-valued query parameters among `keys`, as a list filter. */
+  function exportFilter<K extends string>(req: Request, keys: readonly K[]): Partial<Record<K, string>> {
+    const filter: Partial<Record<K, string>> = {};
+    for (const key of keys) {
+      const value = req.query[key];
+      if (typeof value === "string") filter[key] = value;
     }
-  });
+    return filter;
+  }
+
+  /** Sends a workbook as a download and records the export in the audit trail. */
+  async function sendWorkbook(req: Request, res: Response, entityType: string, fileName: string, filter: object, rows: number, workbook: Buffer) {
+    await recordAudit(req, { action: "export", entityType, after: { format: "xlsx", filter, rows } });
+    res.setHeader("Content-Type", XLSX_MIME_TYPE);
+    res.setHeader("Content-Length", String(workbook.length));
+    res.setHeader("Content-Disposition", attachmentHeader(`${fileName}-${new Date().toISOString().slice(0, 10)}.xlsx`));
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return res.send(workbook);
+  }
 
-  app.post("/api/documents", async (req: Request, res: Response) => {
+  app.get("/api/exports/invoices", authorize("invoices", "read"), async (req: Request, res: Response) => {
     try {
-      const data = insertDocumentSchema.parse(req.body);
-      const document = await storage.createDocument(data);
-      return res.status(201).json(document);
+      const filter = exportFilter(req, ["status", "campaignId", "supplierId"] as const);
+      const [allInvoices, allCampaigns, allSuppliers] = await Promise.all([
+        storage.getInvoices(supplierScope(req)),
+        storage.getCampaigns(),
+        storage.getSuppliers(),
+      ]);
+      const rows = allInvoices.filter((i) => invoiceMatches(i, filter));
+      const workbook = await buildWorkbook("Invoices", invoiceColumns({ campaigns: allCampaigns, suppliers: allSuppliers }), rows);
+      return await sendWorkbook(req, res, "invoice", "invoices", filter, rows.length, workbook);
     } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // ---------------------------------------------------------------------------
-  // Invoice Routes
-  // ---------------------------------------------------------------------------
-
-  app.get("/api/invoices", async (req: Request, res: Response) => {
+  app.get("/api/exports/bookings", authorize("bookings", "read"), async (req: Request, res: Response) => {
     try {
-      const { campaignId } = req.query;
-      if (campaignId) {
-        const filtered = await storage.getInvoicesByCampaign(campaignId as string);
-        return res.json(filtered);
-      }
-      const allInvoices = await storage.getInvoices();
-      return res.json(allInvoices);
+      const filter = exportFilter(req, ["search", "status", "campaignId"] as const);
+      const [allBookings, allCampaigns, allSuppliers] = await Promise.all([
+        storage.getBookings(supplierScope(req)),
+        storage.getCampaigns(),
+        storage.getSuppliers(),
+      ]);
+      const rows = allBookings.filter((b) => bookingMatches(b, filter));
+      const workbook = await buildWorkbook("Bookings", bookingColumns({ campaigns: allCampaigns, suppliers: allSuppliers }), rows);
+      return await sendWorkbook(req, res, "booking", "bookings", filter, rows.length, workbook);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices", async (req: Request, res: Response) => {
+  /** Supplier users get the campaigns their organisation has bookings on; budgets only go to roles that may read them. */
+  app.get("/api/exports/campaigns", authorize("campaigns", "read"), async (req: Request, res: Response) => {
     try {
-      const data = insertInvoiceSchema.parse(req.body);
-      const invoice = await storage.createInvoice(data);
-      return res.status(201).json(invoice);
-    } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      const user = req.currentUser!;
+      const filter = exportFilter(req, ["status"] as const);
+      let allCampaigns = await storage.getCampaigns();
+      const scope = supplierScope(req);
+      if (scope) {
+        const booked = new Set((await storage.getBookings(scope)).map((b) => b.campaignId));
+        allCampaigns = allCampaigns.filter((c) => booked.has(c.id));
       }
+      const rows = allCampaigns.filter((c) => campaignMatches(c, filter));
+      const workbook = await buildWorkbook("Campaigns", campaignColumns(can(user.role, "budgets", "read")), rows);
+      return await sendWorkbook(req, res, "campaign", "campaigns", filter, rows.length, workbook);
+    } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/invoices/:id", async (req: Request, res: Response) => {
+  app.get("/api/exports/inventory", authorize("inventory", "read"), async (req: Request, res: Response) => {
     try {
-      const invoice = await storage.updateInvoice(req.params.id as string, req.body);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
-      }
-      return res.json(invoice);
+      const filter = exportFilter(req, ["search", "region", "status", "screenType", "supplierId"] as const);
+      const [items, allSuppliers] = await Promise.all([storage.getInventory(supplierScope(req)), storage.getSuppliers()]);
+      const rows = items.filter((i) => inventoryMatches(i, filter));
+      const workbook = await buildWorkbook("Inventory", inventoryColumns({ suppliers: allSuppliers }), rows);
+      return await sendWorkbook(req, res, "inventory", "inventory", filter, rows.length, workbook);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
@@ -339,22 +2915,13 @@ export async function registerRoutes(
   //
   // Inventory endpoints enforce supplier-scoped access control. When the
   // authenticated user has a supplier role (supplier_admin or supplier_user),
-  // results are automatically filtered to only include inventory items
-  // belonging to that user's supplier. Non-supplier users (e.g. department
-  // admins, planners) may view all inventory or filter by supplier explicitly.
+  // storage only reads and writes inventory items belonging to that user's
+  // supplier, so another supplier's screen is not found (404). Non-supplier
+  // users (e.g. department admins, planners) may view all inventory or filter
+  // by supplier explicitly. Bookings, documents and invoices are scoped in
+  // storage the same way (see supplierScope).
   // ---------------------------------------------------------------------------
 
-  /**
-   * Extracts the authenticated user from the request by reading the "user-id"
-   * header and looking up the corresponding user record in storage.
-   * Returns undefined if the header is missing or the user does not exist.
-   */
-  async function getRequestUser(req: Request) {
-    const userId = req.headers["user-id"] as string;
-    if (!userId) return undefined;
-    return storage.getUser(userId);
-  }
-
   /**
    * Determines whether the given role string represents a supplier-level role.
    * Supplier roles are restricted to viewing and managing only their own
@@ -364,17 +2931,31 @@ export async function registerRoutes(
     return role === "supplier_admin" || role === "supplier_user";
   }
 
-  app.get("/api/inventory", async (req: Request, res: Response) => {
+  /**
+   * The storage scope for the request: supplier users read only their own
+   * supplier's screens, bookings, documents and invoices, so another
+   * supplier's rows are simply not found (404). Other roles are unscoped.
+   */
+  function supplierScope(req: Request): SupplierScope | undefined {
+    const user = req.currentUser!;
+    return isSupplierRole(user.role) ? { supplierId: user.supplierId } : undefined;
+  }
+
+  /**
+   * "booked" and "reserved" are derived from the booking calendar, so only
+   * "available" and "maintenance" may be set by hand.
+   */
+  function isManualInventoryStatus(status: unknown) {
+    return status === undefined || status === "available" || status === "maintenance";
+  }
+
+  const MANUAL_STATUS_MESSAGE = "Booked and reserved are set by bookings; a screen can only be marked available or under maintenance";
+
+  app.get("/api/inventory", authorize("inventory", "read"), async (req: Request, res: Response) => {
     try {
       const { supplierId, region, status, screenType } = req.query;
-      const user = await getRequestUser(req);
-      let items = await storage.getInventory();
-
-      if (user && isSupplierRole(user.role) && user.supplierId) {
-        items = items.filter(i => i.supplierId === user.supplierId);
-      } else if (supplierId) {
-        items = items.filter(i => i.supplierId === supplierId);
-      }
+      const scope = supplierScope(req) ?? (typeof supplierId === "string" && supplierId ? { supplierId } : undefined);
+      let items = await storage.getInventory(scope);
 
       if (region) {
         items = items.filter(i => i.region === region);
@@ -391,31 +2972,72 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/inventory/:id", async (req: Request, res: Response) => {
+  app.get("/api/inventory/:id", authorize("inventory", "read"), async (req: Request, res: Response) => {
     try {
-      const user = await getRequestUser(req);
-      const item = await storage.getInventoryItem(req.params.id as string);
+      const item = await storage.getInventoryItem(req.params.id as string, supplierScope(req));
       if (!item) {
         return res.status(404).json({ message: "Inventory item not found" });
       }
-      if (user && isSupplierRole(user.role) && user.supplierId && item.supplierId !== user.supplierId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
       return res.json(item);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/inventory", async (req: Request, res: Response) => {
+  /** The screen's booking calendar: every booking of it, earliest first. */
+  app.get("/api/inventory/:id/bookings", authorize("bookings", "read"), async (req: Request, res: Response) => {
     try {
-      const user = await getRequestUser(req);
+      const item = await storage.getInventoryItem(req.params.id as string, supplierScope(req));
+      if (!item) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      return res.json(await storage.getBookingsByInventory(item.id, supplierScope(req)));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const quoteQuerySchema = z
+    .object({ startDate: z.coerce.date(), endDate: z.coerce.date() })
+    .refine((q) => q.endDate >= q.startDate, { message: "End date must be on or after the start date", path: ["endDate"] });
+
+  /**
+   * Line-by-line quote for booking the screen from startDate to endDate
+   * (inclusive), as charged by POST /api/bookings.
+   */
+  app.get("/api/inventory/:id/quote", authorize("inventory", "read"), async (req: Request, res: Response) => {
+    try {
+      const { startDate, endDate } = quoteQuerySchema.parse(req.query);
+      const item = await storage.getInventoryItem(req.params.id as string, supplierScope(req));
+      if (!item) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      return res.json(await quoteBooking(item, startDate, endDate));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inventory", authorize("inventory", "create"), async (req: Request, res: Response) => {
+    try {
+      const scope = supplierScope(req);
       const body = { ...req.body };
-      if (user && isSupplierRole(user.role) && user.supplierId) {
-        body.supplierId = user.supplierId;
+      if (scope) {
+        if (!scope.supplierId) return sendNotLinked(res);
+        body.supplierId = scope.supplierId;
+      }
+      if (!isManualInventoryStatus(body.status)) {
+        return res.status(400).json({ message: MANUAL_STATUS_MESSAGE });
       }
       const data = insertInventorySchema.parse(body);
       const item = await storage.createInventoryItem(data);
+      await recordAudit(req, { action: "create", entityType: "inventory", entityId: item.id, after: item });
       return res.status(201).json(item);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -425,50 +3047,222 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/inventory/:id", async (req: Request, res: Response) => {
+  app.patch("/api/inventory/:id", authorize("inventory", "update"), async (req: Request, res: Response) => {
     try {
-      const user = await getRequestUser(req);
-      const existing = await storage.getInventoryItem(req.params.id as string);
+      const existing = await storage.getInventoryItem(req.params.id as string, supplierScope(req));
       if (!existing) {
         return res.status(404).json({ message: "Inventory item not found" });
       }
-      if (user && isSupplierRole(user.role) && user.supplierId && existing.supplierId !== user.supplierId) {
-        return res.status(403).json({ message: "Access denied" });
+      const data = inventoryUpdateSchema.parse(req.body);
+      if (!isManualInventoryStatus(data.status)) {
+        return res.status(400).json({ message: MANUAL_STATUS_MESSAGE });
+      }
+      const item = await storage.updateInventoryItem(existing.id, data, supplierScope(req));
+      if (!item) {
+        return res.status(404).json({ message: "Inventory item not found" });
       }
-      const item = await storage.updateInventoryItem(req.params.id as string, req.body);
+      await recordAudit(req, { action: "update", entityType: "inventory", entityId: existing.id, before: existing, after: item });
       return res.json(item);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/inventory/:id", async (req: Request, res: Response) => {
+  app.delete("/api/inventory/:id", authorize("inventory", "delete"), async (req: Request, res: Response) => {
     try {
-      const user = await getRequestUser(req);
-      const existing = await storage.getInventoryItem(req.params.id as string);
+      const existing = await storage.getInventoryItem(req.params.id as string, supplierScope(req));
       if (!existing) {
         return res.status(404).json({ message: "Inventory item not found" });
       }
-      if (user && isSupplierRole(user.role) && user.supplierId && existing.supplierId !== user.supplierId) {
-        return res.status(403).json({ message: "Access denied" });
+      await storage.deleteInventoryItem(existing.id, supplierScope(req));
+      await recordAudit(req, { action: "delete", entityType: "inventory", entityId: existing.id, before: existing });
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Pricing Adjustment Routes
+  //
+  // Percentage discounts and surcharges applied by the pricing engine. Like
+  // inventory, supplier users only see and manage their own supplier's
+  // adjustments (another supplier's are not found, and a supplier user not
+  // linked to a supplier has none), and a screen-specific adjustment must be
+  // for one of the supplier's screens.
+  // ---------------------------------------------------------------------------
+
+  /** Returns an error message if the adjustment names a screen of another supplier. */
+  async function checkAdjustmentScreen(supplierId: string, inventoryId: string | null | undefined) {
+    if (!inventoryId) return undefined;
+    const screen = await storage.getInventoryItem(inventoryId);
+    if (!screen || screen.supplierId !== supplierId) {
+      return "Screen not found for this supplier";
+    }
+    return undefined;
+  }
+
+  app.get("/api/pricing-adjustments", authorize("pricing", "read"), async (req: Request, res: Response) => {
+    try {
+      const { supplierId } = req.query;
+      const scope = supplierScope(req) ?? (typeof supplierId === "string" && supplierId ? { supplierId } : undefined);
+      return res.json(await storage.getPricingAdjustments(scope));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/pricing-adjustments", authorize("pricing", "create"), async (req: Request, res: Response) => {
+    try {
+      const scope = supplierScope(req);
+      const body = { ...req.body };
+      if (scope) {
+        if (!scope.supplierId) return sendNotLinked(res);
+        body.supplierId = scope.supplierId;
+      }
+      const data = insertPricingAdjustmentSchema.parse(body);
+      const screenError = await checkAdjustmentScreen(data.supplierId, data.inventoryId);
+      if (screenError) {
+        return res.status(400).json({ message: screenError });
+      }
+      const adjustment = await storage.createPricingAdjustment(data);
+      await recordAudit(req, { action: "create", entityType: "pricing_adjustment", entityId: adjustment.id, after: adjustment });
+      return res.status(201).json(adjustment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/pricing-adjustments/:id", authorize("pricing", "update"), async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getPricingAdjustment(req.params.id as string, supplierScope(req));
+      if (!existing) {
+        return res.status(404).json({ message: "Pricing adjustment not found" });
+      }
+      // Validate the adjustment as it will be after the change, so a new end
+      // date is checked against the stored start date and vice versa.
+      const { id, createdAt, ...current } = existing;
+      const data = insertPricingAdjustmentSchema.parse({ ...current, ...req.body, supplierId: existing.supplierId });
+      const screenError = await checkAdjustmentScreen(data.supplierId, data.inventoryId);
+      if (screenError) {
+        return res.status(400).json({ message: screenError });
+      }
+      const adjustment = await storage.updatePricingAdjustment(existing.id, data, supplierScope(req));
+      if (!adjustment) {
+        return res.status(404).json({ message: "Pricing adjustment not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "pricing_adjustment", entityId: existing.id, before: existing, after: adjustment });
+      return res.json(adjustment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/pricing-adjustments/:id", authorize("pricing", "delete"), async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getPricingAdjustment(req.params.id as string, supplierScope(req));
+      if (!existing) {
+        return res.status(404).json({ message: "Pricing adjustment not found" });
       }
-      await storage.deleteInventoryItem(req.params.id as string);
+      await storage.deletePricingAdjustment(existing.id, supplierScope(req));
+      await recordAudit(req, { action: "delete", entityType: "pricing_adjustment", entityId: existing.id, before: existing });
       return res.status(204).send();
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // Audit Trail
+  //
+  // Read-only access to the hash-chained audit log. Nothing here writes to
+  // the trail except the export itself, which is recorded as an event.
+  // ---------------------------------------------------------------------------
+
+  /** Largest number of events returned by a single export. */
+  const MAX_AUDIT_EXPORT = 10000;
+
+  /** Builds an audit filter from query-string parameters. */
+  function parseAuditFilter(query: Request["query"]): AuditEventFilter {
+    const text = (key: string) => (typeof query[key] === "string" && query[key] ? (query[key] as string) : undefined);
+    const date = (key: string) => {
+      const value = text(key);
+      const parsed = value ? new Date(value) : undefined;
+      return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+    };
+    return {
+      actorId: text("actorId"),
+      action: text("action"),
+      entityType: text("entityType"),
+      entityId: text("entityId"),
+      from: date("from"),
+      to: date("to"),
+    };
+  }
+
+  app.get("/api/audit", authorize("audit", "read"), async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      const events = await storage.getAuditEvents({ ...parseAuditFilter(req.query), limit, offset });
+      return res.json(events);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/audit/export", authorize("audit", "read"), async (req: Request, res: Response) => {
+    try {
+      const filter = parseAuditFilter(req.query);
+      const events = await storage.getAuditEvents({ ...filter, limit: MAX_AUDIT_EXPORT });
+      await recordAudit(req, { action: "export", entityType: "audit", after: { filter, rows: events.length } });
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      return res.send(auditEventsToCsv(events));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /** Recomputes every hash in the chain and reports the first broken link, if any. */
+  app.get("/api/audit/verify", authorize("audit", "read"), async (_req: Request, res: Response) => {
+    try {
+      return res.json(await verifyAuditChain());
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Seed Data
   // ---------------------------------------------------------------------------
 
+  /**
+   * Seeding an empty database must work before anyone can log in, so the
+   * system permission is only required once at least one user exists.
+   */
+  const authorizeSeed: RequestHandler = async (req, res, next) => {
+    const existingUsers = await storage.getUsers();
+    if (existingUsers.length === 0) return next();
+    return authorize("system", "create")(req, res, next);
+  };
+
   /**
    * Populates the database with initial test data including default users,
    * suppliers, campaigns, bookings, invoices, and inventory items. This
    * endpoint is idempotent -- it skips creation if seed data already exists.
    */
-  app.post("/api/seed", async (_req: Request, res: Response) => {
+  app.post("/api/seed", authorizeSeed, async (req: Request, res: Response) => {
     try {
       const existing = await storage.getUserByUsername("admin");
       const existingInventory = await storage.getInventory();
@@ -477,10 +3271,12 @@ export async function registerRoutes(
       }
 
       let admin = existing;
+      let finance = existing;
+      const seededBookings: Booking[] = [];
       if (!existing) {
         admin = await storage.createUser({
           username: "admin",
-          password: "admin123",
+          password: await hashPassword("admin123"),
           fullName: "System Administrator",
           email: "admin@gov.za",
           role: "department_admin",
@@ -489,16 +3285,16 @@ export async function registerRoutes(
 
         await storage.createUser({
           username: "planner",
-          password: "planner123",
+          password: await hashPassword("planner123"),
           fullName: "Jane Mokoena",
           email: "jane.mokoena@gov.za",
           role: "campaign_planner",
           active: true,
         });
 
-        await storage.createUser({
+        finance = await storage.createUser({
           username: "finance",
-          password: "finance123",
+          password: await hashPassword("finance123"),
           fullName: "Thabo Nkosi",
           email: "thabo.nkosi@gov.za",
           role: "finance_officer",
@@ -515,6 +3311,17 @@ export async function registerRoutes(
           email: "sarah@jcdecaux.co.za",
           phone: "+27 11 555 0001",
           address: "Johannesburg, Gauteng",
+          vatNumber: "4100000001",
+          bankName: "Standard Bank",
+          bankAccountNumber: "000000001",
+          bankBranchCode: "051001",
+          csdNumber: "MAAA0000001",
+          registrationNumber: "1998/004523/07",
+          bbbeeLevel: "level_1",
+          bbbeeExpiresAt: new Date("2027-05-31"),
+          taxComplianceStatus: "compliant",
+          taxComplianceExpiresAt: new Date("2027-02-28"),
+          onboardingStatus: "verified",
           active: true,
         });
 
@@ -524,12 +3331,23 @@ export async function registerRoutes(
           email: "david@primedia.co.za",
           phone: "+27 21 555 0002",
           address: "Cape Town, Western Cape",
+          vatNumber: "4100000002",
+          bankName: "First National Bank",
+          bankAccountNumber: "000000002",
+          bankBranchCode: "250655",
+          csdNumber: "MAAA0000002",
+          registrationNumber: "2001/017845/07",
+          bbbeeLevel: "level_2",
+          bbbeeExpiresAt: new Date("2027-05-31"),
+          taxComplianceStatus: "compliant",
+          taxComplianceExpiresAt: new Date("2027-02-28"),
+          onboardingStatus: "verified",
           active: true,
         });
 
         await storage.createUser({
           username: "supplier",
-          password: "supplier123",
+          password: await hashPassword("supplier123"),
           fullName: "Supplier Manager",
           email: "manager@supplier.co.za",
           role: "supplier_admin",
@@ -539,7 +3357,7 @@ export async function registerRoutes(
 
         await storage.createUser({
           username: "auditor",
-          password: "auditor123",
+          password: await hashPassword("auditor123"),
           fullName: "Audit Officer",
           email: "audit@gov.za",
           role: "auditor",
@@ -570,68 +3388,67 @@ export async function registerRoutes(
           createdBy: admin!.id,
         });
 
-        await storage.createBooking({
+        seededBookings.push(await storage.createBooking({
           campaignId: campaign1.id,
           supplierId: supplier1.id,
-          siteDescription: "N1 Highway Billboard - Midrand",
-          location: "Midrand, Gauteng",
+          siteDescription: "N1 Midrand Billboard A",
+          location: "N1 Highway, Midrand",
           mediaType: "Billboard",
           cost: "85000.00",
           status: "approved",
+          supplierResponse: "accepted",
           startDate: new Date("2026-01-15"),
           endDate: new Date("2026-03-31"),
-        });
+        }));
 
-        await storage.createBooking({
+        seededBookings.push(await storage.createBooking({
           campaignId: campaign1.id,
           supplierId: supplier2.id,
-          siteDescription: "Sandton City Digital Screen",
-          location: "Sandton, Gauteng",
+          siteDescription: "Menlyn Mall Digital",
+          location: "Menlyn Park Shopping Centre",
           mediaType: "Digital",
           cost: "120000.00",
           status: "in_progress",
+          supplierResponse: "accepted",
           startDate: new Date("2026-02-01"),
           endDate: new Date("2026-03-31"),
-        });
+        }));
 
-        await storage.createBooking({
+        seededBookings.push(await storage.createBooking({
           campaignId: campaign2.id,
           supplierId: supplier2.id,
-          siteDescription: "N2 Cape Town Airport Approach",
-          location: "Cape Town, Western Cape",
+          siteDescription: "N2 Airport Approach CPT",
+          location: "N2 Highway, Cape Town Airport",
           mediaType: "Billboard",
           cost: "95000.00",
           status: "pending",
           startDate: new Date("2026-04-01"),
           endDate: new Date("2026-04-30"),
+        }));
+
+        const paidInvoice = buildInvoice(
+          campaign1.id, supplier1.id, [seededBookings[0]], new Date("2026-01-20"), new Date("2026-02-19"),
+        );
+        const seededPaid = await storage.createInvoiceWithLines({ ...paidInvoice.invoice, status: "sent" }, paidInvoice.lines);
+        await storage.recordPayment(seededPaid.invoice.id, {
+          paidOn: new Date("2026-02-10"),
+          amount: seededPaid.invoice.amount,
+          reference: "EFT-20260210-0041",
+          method: "eft",
+          recordedBy: finance!.id,
         });
 
-        await storage.createInvoice({
-          campaignId: campaign1.id,
-          supplierId: supplier1.id,
-          invoiceNumber: "INV-2026-001",
-          amount: "85000.00",
-          status: "paid",
-          issuedAt: new Date("2026-01-20"),
-          dueDate: new Date("2026-02-20"),
-        });
-
-        await storage.createInvoice({
-          campaignId: campaign1.id,
-          supplierId: supplier2.id,
-          invoiceNumber: "INV-2026-002",
-          amount: "120000.00",
-          status: "sent",
-          issuedAt: new Date("2026-02-05"),
-          dueDate: new Date("2026-03-05"),
-        });
+        const sentInvoice = buildInvoice(
+          campaign1.id, supplier2.id, [seededBookings[1]], new Date("2026-02-05"), new Date("2026-03-07"),
+        );
+        await storage.createInvoiceWithLines({ ...sentInvoice.invoice, status: "sent" }, sentInvoice.lines);
       } else {
         const allSuppliers = await storage.getSuppliers();
         supplier1 = allSuppliers[0];
         supplier2 = allSuppliers[1] || allSuppliers[0];
       }
 
-      await storage.createInventoryItem({
+      const midrandScreen = await storage.createInventoryItem({
         supplierId: supplier1.id,
         screenName: "N1 Midrand Billboard A",
         screenType: "Billboard",
@@ -665,7 +3482,7 @@ export async function registerRoutes(
         dailyRate: "5500.00",
         weeklyRate: "32000.00",
         monthlyRate: "120000.00",
-        status: "booked",
+        status: "available",
         illuminated: true,
         digital: true,
         trafficCount: 80000,
@@ -713,7 +3530,7 @@ export async function registerRoutes(
         active: true,
       });
 
-      await storage.createInventoryItem({
+      const capeTownAirportScreen = await storage.createInventoryItem({
         supplierId: supplier2.id,
         screenName: "N2 Airport Approach CPT",
         screenType: "Billboard",
@@ -775,7 +3592,7 @@ export async function registerRoutes(
         active: true,
       });
 
-      await storage.createInventoryItem({
+      const menlynScreen = await storage.createInventoryItem({
         supplierId: supplier2.id,
         screenName: "Menlyn Mall Digital",
         screenType: "Digital Screen",
@@ -789,13 +3606,107 @@ export async function registerRoutes(
         dailyRate: "3000.00",
         weeklyRate: "17000.00",
         monthlyRate: "60000.00",
-        status: "reserved",
+        status: "available",
         illuminated: true,
         digital: true,
         trafficCount: 40000,
         active: true,
       });
 
+      await storage.createPricingAdjustment({
+        supplierId: supplier1.id,
+        kind: "discount",
+        name: "Long-term booking discount",
+        percentage: "10.00",
+        minDays: 90,
+        active: true,
+      });
+      await storage.createPricingAdjustment({
+        supplierId: supplier1.id,
+        kind: "surcharge",
+        name: "Festive season surcharge",
+        percentage: "20.00",
+        startDate: new Date("2026-12-01"),
+        endDate: new Date("2027-01-15"),
+        active: true,
+      });
+
+      // Supplier-wide compliance for JCDecaux; Primedia has not submitted any yet.
+      for (const type of ["compliance_sbd", "compliance_cso"] as const) {
+        await storage.createDocument({
+          type,
+          supplierId: supplier1.id,
+          fileName: type === "compliance_sbd" ? "JCDecaux SBD 4 Declaration.pdf" : "JCDecaux CSO Certificate.pdf",
+          fileSize: 245760,
+          mimeType: "application/pdf",
+          status: "approved",
+          issuedAt: new Date("2026-04-01"),
+          expiresAt: new Date("2027-03-31"),
+          uploadedBy: admin!.id,
+        });
+      }
+
+      // Both suppliers were onboarded with their B-BBEE certificate and tax clearance on file.
+      for (const supplier of [supplier1, supplier2]) {
+        for (const type of ["bbbee_certificate", "tax_clearance"] as const) {
+          await storage.createDocument({
+            type,
+            supplierId: supplier.id,
+            fileName: `${supplier.name} ${type === "bbbee_certificate" ? "B-BBEE Certificate" : "Tax Clearance"}.pdf`,
+            fileSize: 184320,
+            mimeType: "application/pdf",
+            status: "approved",
+            uploadedBy: admin!.id,
+          });
+        }
+      }
+
+      // Framework contracts with both suppliers, one with negotiated rates for the Midrand billboard.
+      const contracts: SupplierContract[] = [];
+      if (!existing) {
+        contracts.push(await storage.createContract({
+          supplierId: supplier1.id,
+          contractNumber: "DOC-OOH-2026-001",
+          title: "Outdoor media framework agreement",
+          startDate: new Date("2026-01-01"),
+          endDate: new Date("2027-12-31"),
+          ceilingValue: "1500000.00",
+          terms: "Rates fixed for the contract period. Flighting proof within 5 working days of each flight.",
+          status: "active",
+          createdBy: admin!.id,
+        }));
+        contracts.push(await storage.createContract({
+          supplierId: supplier2.id,
+          contractNumber: "DOC-OOH-2026-002",
+          title: "Western Cape digital and billboard services",
+          startDate: new Date("2026-01-01"),
+          endDate: new Date("2026-12-31"),
+          ceilingValue: "300000.00",
+          status: "active",
+          createdBy: admin!.id,
+        }));
+        await storage.replaceContractRates(contracts[0].id, [
+          { inventoryId: midrandScreen.id, dailyRate: "3200.00", weeklyRate: "18500.00", monthlyRate: "70000.00" },
+        ]);
+      }
+
+      await recordAudit(req, { action: "seed", entityType: "system" });
+      // Link the bookings seeded above to the screen each occupies, found among its own
+      // supplier's screens, and to that supplier's contract. Their supplier stays as booked.
+      const bookedScreens = [midrandScreen, menlynScreen, capeTownAirportScreen];
+      for (const booking of seededBookings) {
+        const screen = bookedScreens.find((s) => s.supplierId === booking.supplierId && s.screenName === booking.siteDescription);
+        if (!screen) {
+          throw new Error(`No seeded screen of the booking's supplier is named "${booking.siteDescription}"`);
+        }
+        const { supplierId: _, ...site } = siteDetailsFrom(screen);
+        await storage.updateBooking(booking.id, {
+          inventoryId: screen.id,
+          ...site,
+          contractId: contracts.find((c) => c.supplierId === booking.supplierId)?.id ?? null,
+        });
+      }
+
       return res.status(201).json({ message: "Seed data created successfully" });
     } catch (error) {
       console.error("Seed error:", error);
@@ -803,9 +3714,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/dashboard/stats", async (_req: Request, res: Response) => {
+  app.get("/api/dashboard/stats", authorize("dashboard", "read"), async (req: Request, res: Response) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const stats = await storage.getDashboardStats(supplierScope(req));
       return res.json(stats);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
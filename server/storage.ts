@@ -7,21 +7,45 @@
 
 import { Pool } from "pg";
 import { drizzle } from "drizzle-orm/node-postgres";
-import { eq, count, sum, and } from "drizzle-orm";
+import { QueryBuilder, type PgColumn, type PgDatabase, type PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { eq, ne, count, sum, max, and, or, gt, gte, lt, lte, asc, desc, inArray, isNotNull, isNull, sql, type SQL } from "drizzle-orm";
 import * as schema from "@shared/schema";
+import { financialYearOf, formatCreditNoteNumber, formatInvoiceNumber, invoiceTotals } from "@shared/invoicing";
+import { derivedInvoiceStatus, invoiceBalance } from "@shared/payments";
+import { COMMITTED_BOOKING_STATUSES } from "@shared/budget";
+import { consumesContract, periodsOverlap } from "@shared/contracts";
 import {
   type User, type InsertUser,
   type Supplier, type InsertSupplier,
+  type SupplierOnboardingReview, type InsertSupplierOnboardingReview,
+  type SupplierBankChange, type InsertSupplierBankChange,
+  type SupplierContract, type InsertSupplierContract,
+  type ContractRate, type InsertContractRate,
   type Campaign, type InsertCampaign,
+  type CampaignApproval, type InsertCampaignApproval,
   type Booking, type InsertBooking,
   type Document, type InsertDocument,
+  type DocumentReview, type InsertDocumentReview,
   type Invoice, type InsertInvoice,
+  type InvoiceLine, type InsertInvoiceLine,
+  type Payment, type InsertPayment,
+  type CreditNote, type CreditNoteLine,
+  type BookingNegotiation, type InsertBookingNegotiation,
+  type Notification, type InsertNotification,
+  type UserInvitation, type InsertUserInvitation,
   type Inventory, type InsertInventory,
-  users, suppliers, campaigns, bookings, documents, invoices, inventory,
+  type PricingAdjustment, type InsertPricingAdjustment,
+  type AuditEvent, type InsertAuditEvent,
+  users, suppliers, supplierOnboardingReviews, supplierBankChanges, supplierContracts, contractRates, campaigns, campaignApprovals, bookings, documents, documentReviews, invoices, invoiceLines, payments, creditNotes, creditNoteLines, bookingNegotiations, notifications, userInvitations, inventory, pricingAdjustments, auditEvents,
 } from "@shared/schema";
 
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-const db = drizzle(pool, { schema });
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+/** A Drizzle database over the application schema, whichever PostgreSQL driver it uses. */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/** A transaction handle as passed to `db.transaction` callbacks. */
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 /** Aggregated statistics displayed on the main dashboard. */
 export interface DashboardStats {
@@ -33,6 +57,162 @@ export interface DashboardStats {
   completedBookings: number;
 }
 
+/** Criteria for querying the audit trail; all fields are optional and combined with AND. */
+export interface AuditEventFilter {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/** Audit event content supplied by callers; chain fields are filled in by appendAuditEvent. */
+export type NewAuditEvent = Omit<InsertAuditEvent, "id" | "sequence" | "occurredAt" | "prevHash" | "hash">;
+
+/** Computes a row's hash from its content, timestamp and the previous row's hash. */
+export type AuditSealer = (event: NewAuditEvent, occurredAt: Date, prevHash: string) => string;
+
+/** Thrown when a booking would overlap an existing non-rejected booking of the same screen. */
+export class BookingConflictError extends Error {
+  constructor(public conflicts: Booking[]) {
+    super("This screen is already booked for overlapping dates");
+  }
+}
+
+/**
+ * Thrown when a booking would take its campaign's booked spend (all
+ * non-rejected bookings) over the campaign budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(public budget: number, public projected: number) {
+    super("This booking would exceed the campaign budget");
+  }
+}
+
+/**
+ * Thrown when a change would take a supplier contract's consumed value (the
+ * cost of its approved, in-progress and completed bookings) over its ceiling.
+ */
+export class ContractCeilingExceededError extends Error {
+  constructor(public contractNumber: string, public ceiling: number, public projected: number) {
+    super(`This would take contract ${contractNumber} over its ceiling value`);
+  }
+}
+
+/** Thrown when a supplier would have two active contracts covering the same day. */
+export class ContractOverlapError extends Error {
+  constructor(public overlapping: SupplierContract) {
+    super(`The supplier's active contract ${overlapping.contractNumber} already covers part of this period`);
+  }
+}
+
+/** Thrown when bookings being invoiced already appear on another invoice. */
+export class AlreadyInvoicedError extends Error {
+  constructor(public lines: InvoiceLine[]) {
+    super("Some of these bookings have already been invoiced");
+  }
+}
+
+/** Thrown when a payment is more than the invoice's outstanding balance. */
+export class OverpaymentError extends Error {
+  constructor(public balance: number) {
+    super("This payment is more than the balance outstanding on the invoice");
+  }
+}
+
+/** Thrown when a credit note would reverse more of an invoice line than is left uncredited. */
+export class CreditExceedsLineError extends Error {
+  constructor(public invoiceLineId: string, public remaining: number) {
+    super("The credit is more than is left uncredited on the invoice line");
+  }
+}
+
+/** An invoice line and a credit against it; the amount defaults to the rest of the line. */
+export interface CreditRequestLine {
+  invoiceLineId: string;
+  amount?: number;
+}
+
+/** A generated invoice before it is numbered; the number is allocated from its issue date. */
+export type NewInvoice = Omit<InsertInvoice, "invoiceNumber" | "financialYear" | "sequence">;
+
+/**
+ * Restricts reads to one supplier's rows. Requests from supplier users carry
+ * their supplier's scope; government users' requests carry none. A supplier
+ * user not linked to a supplier sees nothing.
+ */
+export interface SupplierScope {
+  supplierId: string | null;
+}
+
+/** Options for creating or updating a booking. */
+export interface BookingWriteOptions {
+  /** Allow the booking even if it takes the campaign over budget. */
+  allowOverspend?: boolean;
+}
+
+/** Booking statuses that make a screen show as booked (rather than reserved) while they run. */
+const CONFIRMED_BOOKING_STATUSES: Booking["status"][] = ["approved", "in_progress", "completed"];
+
+/** Booking statuses whose cost consumes the value of the booking's contract. */
+const CONSUMING_BOOKING_STATUSES: Booking["status"][] = [...COMMITTED_BOOKING_STATUSES];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Condition limiting a table's rows to the scope's supplier; none when unscoped. */
+function withinSupplier(column: PgColumn, scope?: SupplierScope): SQL | undefined {
+  if (!scope) return undefined;
+  return scope.supplierId ? eq(column, scope.supplierId) : sql`false`;
+}
+
+/**
+ * Condition limiting documents to those a supplier may see: its compliance
+ * documents, documents on its bookings, and campaign-wide documents (such as
+ * artwork) on campaigns it has bookings on.
+ */
+function documentsWithinSupplier(scope?: SupplierScope): SQL | undefined {
+  if (!scope) return undefined;
+  if (!scope.supplierId) return sql`false`;
+  const qb = new QueryBuilder();
+  const supplierBookings = qb.select({ id: bookings.id }).from(bookings).where(eq(bookings.supplierId, scope.supplierId));
+  const supplierCampaigns = qb.select({ id: bookings.campaignId }).from(bookings).where(eq(bookings.supplierId, scope.supplierId));
+  return or(
+    eq(documents.supplierId, scope.supplierId),
+    inArray(documents.bookingId, supplierBookings),
+    and(isNull(documents.bookingId), isNull(documents.supplierId), inArray(documents.campaignId, supplierCampaigns)),
+  );
+}
+
+/**
+ * Invoice lines billing any of the bookings, leaving out lines that credit
+ * notes have fully reversed so their bookings can be invoiced again.
+ */
+function openInvoiceLines(executor: Database | Transaction, bookingIds: string[]) {
+  return executor
+    .select()
+    .from(invoiceLines)
+    .where(and(
+      inArray(invoiceLines.bookingId, bookingIds),
+      sql`${invoiceLines.amount} > coalesce((select sum(${creditNoteLines.amount}) from ${creditNoteLines} where ${creditNoteLines.invoiceLineId} = ${invoiceLines.id}), 0)`,
+    ));
+}
+
+/** Start of the current UTC day; booking dates are stored as UTC midnight. */
+function startOfToday(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+/** Hash used as prevHash for the first event in the chain. */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** Advisory lock key serialising appends so the chain cannot fork under concurrency. */
+const AUDIT_CHAIN_LOCK = 7_004_211;
+
 /**
  * Defines all CRUD operations available for persistent storage.
  * Each entity exposes standard get, create, and update methods;
@@ -41,268 +221,1316 @@ export interface DashboardStats {
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByExternalId(externalId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getUsers(): Promise<User[]>;
-  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
+  getUsers(scope?: SupplierScope): Promise<User[]>;
+  updateUser(id: string, data: Partial<InsertUser>, scope?: SupplierScope): Promise<User | undefined>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+
+  getUserInvitations(supplierId: string): Promise<UserInvitation[]>;
+  getUserInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined>;
+  createUserInvitation(data: InsertUserInvitation): Promise<UserInvitation>;
+  revokeUserInvitation(id: string, supplierId: string): Promise<UserInvitation | undefined>;
+  acceptUserInvitation(invitation: UserInvitation, user: InsertUser): Promise<User | undefined>;
 
-  getSuppliers(): Promise<Supplier[]>;
+  getSuppliers(scope?: SupplierScope): Promise<Supplier[]>;
   getSupplier(id: string): Promise<Supplier | undefined>;
   createSupplier(data: InsertSupplier): Promise<Supplier>;
-  updateSupplier(id: string, data: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  updateSupplier(id: string, data: Partial<InsertSupplier>, statuses?: Supplier["onboardingStatus"][]): Promise<Supplier | undefined>;
+  transitionSupplierOnboarding(
+    current: Supplier,
+    entry: Omit<InsertSupplierOnboardingReview, "id" | "supplierId" | "fromStatus" | "createdAt">,
+  ): Promise<Supplier | undefined>;
+  getSupplierOnboardingReviews(supplierId: string): Promise<SupplierOnboardingReview[]>;
+  getSupplierBankChanges(supplierId: string): Promise<SupplierBankChange[]>;
+  getSupplierBankChange(id: string): Promise<SupplierBankChange | undefined>;
+  createSupplierBankChange(data: InsertSupplierBankChange): Promise<SupplierBankChange | undefined>;
+  reviewSupplierBankChange(
+    id: string,
+    decision: { status: "verified" | "rejected"; reviewedBy: string; comment?: string },
+  ): Promise<SupplierBankChange | undefined>;
 
   getCampaigns(): Promise<Campaign[]>;
   getCampaign(id: string): Promise<Campaign | undefined>;
   createCampaign(data: InsertCampaign): Promise<Campaign>;
   updateCampaign(id: string, data: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  transitionCampaign(
+    current: Campaign,
+    update: Partial<InsertCampaign>,
+    entry: Omit<InsertCampaignApproval, "id" | "campaignId" | "fromStatus" | "createdAt">,
+  ): Promise<Campaign | undefined>;
+  getCampaignApprovals(campaignId: string): Promise<CampaignApproval[]>;
   deleteCampaign(id: string): Promise<boolean>;
 
-  getBookings(): Promise<Booking[]>;
-  getBookingsByCampaign(campaignId: string): Promise<Booking[]>;
-  getBooking(id: string): Promise<Booking | undefined>;
-  createBooking(data: InsertBooking): Promise<Booking>;
-  updateBooking(id: string, data: Partial<InsertBooking>): Promise<Booking | undefined>;
+  getBookings(scope?: SupplierScope): Promise<Booking[]>;
+  getBookingsByCampaign(campaignId: string, scope?: SupplierScope): Promise<Booking[]>;
+  getBookingsByInventory(inventoryId: string, scope?: SupplierScope): Promise<Booking[]>;
+  getBooking(id: string, scope?: SupplierScope): Promise<Booking | undefined>;
+  createBooking(data: InsertBooking, options?: BookingWriteOptions): Promise<Booking>;
+  updateBooking(id: string, data: Partial<InsertBooking>, options?: BookingWriteOptions): Promise<Booking | undefined>;
+  respondToBooking(
+    current: Booking,
+    update: Partial<InsertBooking>,
+    entry: Omit<InsertBookingNegotiation, "bookingId" | "fromResponse">,
+    options?: BookingWriteOptions,
+  ): Promise<Booking | undefined>;
+  getBookingNegotiations(bookingIds: string[]): Promise<BookingNegotiation[]>;
+  getBookingsByContract(contractId: string, scope?: SupplierScope): Promise<Booking[]>;
 
-  getDocuments(): Promise<Document[]>;
-  getDocumentsByCampaign(campaignId: string): Promise<Document[]>;
-  getDocumentsByBooking(bookingId: string): Promise<Document[]>;
-  getDocument(id: string): Promise<Document | undefined>;
+  getNotifications(userId: string): Promise<Notification[]>;
+  createNotifications(data: InsertNotification[]): Promise<void>;
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+
+  getDocuments(scope?: SupplierScope): Promise<Document[]>;
+  getDocumentsByCampaign(campaignId: string, scope?: SupplierScope): Promise<Document[]>;
+  getDocumentsByBooking(bookingId: string, scope?: SupplierScope): Promise<Document[]>;
+  getDocument(id: string, scope?: SupplierScope): Promise<Document | undefined>;
+  getDocumentVersions(id: string, scope?: SupplierScope): Promise<Document[] | undefined>;
   createDocument(data: InsertDocument): Promise<Document>;
   updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document | undefined>;
+  createDocumentVersion(previous: Document, data: InsertDocument): Promise<Document | undefined>;
+  reviewDocument(
+    current: Document,
+    update: Partial<InsertDocument>,
+    entry: Omit<InsertDocumentReview, "id" | "documentId" | "fromStatus" | "createdAt">,
+  ): Promise<Document | undefined>;
+  getDocumentReviews(documentIds: string[]): Promise<DocumentReview[]>;
 
-  getInvoices(): Promise<Invoice[]>;
-  getInvoicesByCampaign(campaignId: string): Promise<Invoice[]>;
-  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoices(scope?: SupplierScope): Promise<Invoice[]>;
+  getInvoicesByCampaign(campaignId: string, scope?: SupplierScope): Promise<Invoice[]>;
+  getInvoice(id: string, scope?: SupplierScope): Promise<Invoice | undefined>;
   createInvoice(data: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: string, data: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+  createInvoiceWithLines(invoice: NewInvoice, lines: Omit<InsertInvoiceLine, "invoiceId">[]): Promise<{ invoice: Invoice; lines: InvoiceLine[] }>;
+  getInvoiceLines(invoiceIds: string[]): Promise<InvoiceLine[]>;
+  getInvoiceLinesByBookings(bookingIds: string[]): Promise<InvoiceLine[]>;
+  getPayments(invoiceIds?: string[]): Promise<Payment[]>;
+  getCreditNotes(invoiceIds?: string[]): Promise<CreditNote[]>;
+  getCreditNoteLines(creditNoteIds: string[]): Promise<CreditNoteLine[]>;
+  createCreditNote(
+    invoiceId: string,
+    note: { reason: string; createdBy: string; issuedAt: Date },
+    lines: CreditRequestLine[],
+  ): Promise<{ creditNote: CreditNote; lines: CreditNoteLine[]; invoice: Invoice } | undefined>;
+  recordPayment(invoiceId: string, payment: Omit<InsertPayment, "invoiceId">): Promise<{ invoice: Invoice; payment: Payment } | undefined>;
 
-  getDashboardStats(): Promise<DashboardStats>;
+  getDashboardStats(scope?: SupplierScope): Promise<DashboardStats>;
 
-  getInventory(): Promise<Inventory[]>;
+  getInventory(scope?: SupplierScope): Promise<Inventory[]>;
   getInventoryBySupplier(supplierId: string): Promise<Inventory[]>;
-  getInventoryItem(id: string): Promise<Inventory | undefined>;
+  getInventoryItem(id: string, scope?: SupplierScope): Promise<Inventory | undefined>;
   createInventoryItem(data: InsertInventory): Promise<Inventory>;
-  updateInventoryItem(id: string, data: Partial<InsertInventory>): Promise<Inventory | undefined>;
-  deleteInventoryItem(id: string): Promise<boolean>;
+  updateInventoryItem(id: string, data: Partial<InsertInventory>, scope?: SupplierScope): Promise<Inventory | undefined>;
+  deleteInventoryItem(id: string, scope?: SupplierScope): Promise<boolean>;
+
+  getPricingAdjustments(scope?: SupplierScope): Promise<PricingAdjustment[]>;
+  getPricingAdjustmentsBySupplier(supplierId: string): Promise<PricingAdjustment[]>;
+  getPricingAdjustment(id: string, scope?: SupplierScope): Promise<PricingAdjustment | undefined>;
+  createPricingAdjustment(data: InsertPricingAdjustment): Promise<PricingAdjustment>;
+  updatePricingAdjustment(id: string, data: Partial<InsertPricingAdjustment>, scope?: SupplierScope): Promise<PricingAdjustment | undefined>;
+  deletePricingAdjustment(id: string, scope?: SupplierScope): Promise<boolean>;
+
+  getContracts(scope?: SupplierScope): Promise<SupplierContract[]>;
+  getContract(id: string, scope?: SupplierScope): Promise<SupplierContract | undefined>;
+  getCoveringContract(supplierId: string, startDate: Date, endDate: Date): Promise<SupplierContract | undefined>;
+  createContract(data: InsertSupplierContract & { createdBy: string }): Promise<SupplierContract>;
+  updateContract(id: string, data: Partial<InsertSupplierContract>): Promise<SupplierContract | undefined>;
+  getContractConsumption(contractIds: string[]): Promise<Map<string, number>>;
+  getContractRates(contractId: string): Promise<ContractRate[]>;
+  getContractRate(contractId: string, inventoryId: string): Promise<ContractRate | undefined>;
+  replaceContractRates(contractId: string, rates: Omit<InsertContractRate, "id" | "contractId">[]): Promise<ContractRate[]>;
+
+  appendAuditEvent(event: NewAuditEvent, seal: AuditSealer): Promise<AuditEvent>;
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]>;
+  getAuditEventsAfter(sequence: number, limit: number): Promise<AuditEvent[]>;
 }
 
-/** PostgreSQL-backed implementation of IStorage using Drizzle ORM queries. */
+/**
+ * PostgreSQL-backed implementation of IStorage using Drizzle ORM queries.
+ * The application uses the singleton below; tests may construct one over
+ * another database.
+ */
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
   // --- User operations ---
 
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByExternalId(externalId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.externalId, externalId));
     return user;
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const [created] = await db.insert(users).values(user).returning();
+    const [created] = await this.db.insert(users).values(user).returning();
     return created;
   }
 
-  async getUsers(): Promise<User[]> {
-    return db.select().from(users);
+  async getUsers(scope?: SupplierScope): Promise<User[]> {
+    return this.db.select().from(users).where(withinSupplier(users.supplierId, scope));
   }
 
-  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
-    const [updated] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+  async updateUser(id: string, data: Partial<InsertUser>, scope?: SupplierScope): Promise<User | undefined> {
+    const [updated] = await this.db
+      .update(users)
+      .set(data)
+      .where(and(eq(users.id, id), withinSupplier(users.supplierId, scope)))
+      .returning();
     return updated;
   }
 
+  /**
+   * Removes a recovery code's hash from the user's unused codes in a single
+   * conditional update. Returns false if the code was not there, including
+   * when a concurrent request used it first.
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await this.db
+      .update(users)
+      .set({ mfaRecoveryCodes: sql`array_remove(${users.mfaRecoveryCodes}, ${codeHash})` })
+      .where(and(eq(users.id, userId), sql`${codeHash} = ANY(${users.mfaRecoveryCodes})`))
+      .returning({ id: users.id });
+    return used.length > 0;
+  }
+
+  /**
+   * Records a TOTP time step as the last one used, only if it is later than
+   * the stored one. Returns false if this or a later step was already used,
+   * so a code cannot be replayed by concurrent requests.
+   */
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const used = await this.db
+      .update(users)
+      .set({ mfaLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, step))))
+      .returning({ id: users.id });
+    return used.length > 0;
+  }
+
+  // --- User invitation operations ---
+
+  /** The supplier's invitations that are neither accepted nor revoked, newest first. */
+  async getUserInvitations(supplierId: string): Promise<UserInvitation[]> {
+    return this.db
+      .select()
+      .from(userInvitations)
+      .where(and(eq(userInvitations.supplierId, supplierId), isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt)))
+      .orderBy(desc(userInvitations.createdAt));
+  }
+
+  async getUserInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await this.db.select().from(userInvitations).where(eq(userInvitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async createUserInvitation(data: InsertUserInvitation): Promise<UserInvitation> {
+    const [created] = await this.db.insert(userInvitations).values(data).returning();
+    return created;
+  }
+
+  /** Revokes a pending invitation of the supplier; undefined if there is none. */
+  async revokeUserInvitation(id: string, supplierId: string): Promise<UserInvitation | undefined> {
+    const [revoked] = await this.db
+      .update(userInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(userInvitations.id, id),
+        eq(userInvitations.supplierId, supplierId),
+        isNull(userInvitations.acceptedAt),
+        isNull(userInvitations.revokedAt),
+      ))
+      .returning();
+    return revoked;
+  }
+
+  /**
+   * Creates the invited user and uses up the invitation in one transaction.
+   * Returns undefined if the invitation was accepted, revoked or expired in
+   * the meantime.
+   */
+  async acceptUserInvitation(invitation: UserInvitation, user: InsertUser): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(userInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(userInvitations.id, invitation.id),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt),
+          gt(userInvitations.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!claimed) return undefined;
+      const [created] = await tx.insert(users).values(user).returning();
+      await tx.update(userInvitations).set({ acceptedUserId: created.id }).where(eq(userInvitations.id, invitation.id));
+      return created;
+    });
+  }
+
   // --- Supplier operations ---
 
-  async getSuppliers(): Promise<Supplier[]> {
-    return db.select().from(suppliers);
+  async getSuppliers(scope?: SupplierScope): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).where(withinSupplier(suppliers.id, scope));
   }
 
   async getSupplier(id: string): Promise<Supplier | undefined> {
-    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
     return supplier;
   }
 
   async createSupplier(data: InsertSupplier): Promise<Supplier> {
-    const [created] = await db.insert(suppliers).values(data).returning();
+    const [created] = await this.db.insert(suppliers).values(data).returning();
     return created;
   }
 
-  async updateSupplier(id: string, data: Partial<InsertSupplier>): Promise<Supplier | undefined> {
-    const [updated] = await db.update(suppliers).set(data).where(eq(suppliers.id, id)).returning();
+  /** Updates the supplier; with `statuses`, only while its onboarding status is one of them. */
+  async updateSupplier(
+    id: string,
+    data: Partial<InsertSupplier>,
+    statuses?: Supplier["onboardingStatus"][],
+  ): Promise<Supplier | undefined> {
+    const [updated] = await this.db
+      .update(suppliers)
+      .set(data)
+      .where(and(eq(suppliers.id, id), statuses ? inArray(suppliers.onboardingStatus, statuses) : undefined))
+      .returning();
     return updated;
   }
 
+  /**
+   * Moves the supplier to the entry's onboarding status and records the step
+   * in its history. Returns undefined if the status changed since `current`
+   * was read.
+   */
+  async transitionSupplierOnboarding(
+    current: Supplier,
+    entry: Omit<InsertSupplierOnboardingReview, "id" | "supplierId" | "fromStatus" | "createdAt">,
+  ): Promise<Supplier | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(suppliers)
+        .set({ onboardingStatus: entry.toStatus })
+        .where(and(eq(suppliers.id, current.id), eq(suppliers.onboardingStatus, current.onboardingStatus)))
+        .returning();
+      if (!updated) return undefined;
+      await tx.insert(supplierOnboardingReviews).values({ ...entry, supplierId: current.id, fromStatus: current.onboardingStatus });
+      return updated;
+    });
+  }
+
+  async getSupplierOnboardingReviews(supplierId: string): Promise<SupplierOnboardingReview[]> {
+    return this.db
+      .select()
+      .from(supplierOnboardingReviews)
+      .where(eq(supplierOnboardingReviews.supplierId, supplierId))
+      .orderBy(asc(supplierOnboardingReviews.createdAt));
+  }
+
+  /** The supplier's banking change requests, newest first. */
+  async getSupplierBankChanges(supplierId: string): Promise<SupplierBankChange[]> {
+    return this.db
+      .select()
+      .from(supplierBankChanges)
+      .where(eq(supplierBankChanges.supplierId, supplierId))
+      .orderBy(desc(supplierBankChanges.requestedAt));
+  }
+
+  async getSupplierBankChange(id: string): Promise<SupplierBankChange | undefined> {
+    const [change] = await this.db.select().from(supplierBankChanges).where(eq(supplierBankChanges.id, id));
+    return change;
+  }
+
+  /**
+   * Records a banking change request. The supplier's row is locked so two
+   * requests cannot both pass the check; returns undefined if the supplier
+   * already has one pending.
+   */
+  async createSupplierBankChange(data: InsertSupplierBankChange): Promise<SupplierBankChange | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, data.supplierId)).for("update");
+      const [pending] = await tx
+        .select({ id: supplierBankChanges.id })
+        .from(supplierBankChanges)
+        .where(and(eq(supplierBankChanges.supplierId, data.supplierId), eq(supplierBankChanges.status, "pending")));
+      if (pending) return undefined;
+      const [created] = await tx.insert(supplierBankChanges).values(data).returning();
+      return created;
+    });
+  }
+
+  /**
+   * Verifies or rejects a pending banking change; verifying copies the new
+   * details onto the supplier in the same transaction. Whoever requested the
+   * change cannot review it. Returns undefined if the change is no longer
+   * pending or the reviewer requested it.
+   */
+  async reviewSupplierBankChange(
+    id: string,
+    decision: { status: "verified" | "rejected"; reviewedBy: string; comment?: string },
+  ): Promise<SupplierBankChange | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [reviewed] = await tx
+        .update(supplierBankChanges)
+        .set({ ...decision, reviewedAt: new Date() })
+        .where(and(
+          eq(supplierBankChanges.id, id),
+          eq(supplierBankChanges.status, "pending"),
+          ne(supplierBankChanges.requestedBy, decision.reviewedBy),
+        ))
+        .returning();
+      if (!reviewed) return undefined;
+      if (reviewed.status === "verified") {
+        await tx
+          .update(suppliers)
+          .set({
+            bankName: reviewed.bankName,
+            bankAccountNumber: reviewed.bankAccountNumber,
+            bankBranchCode: reviewed.bankBranchCode,
+          })
+          .where(eq(suppliers.id, reviewed.supplierId));
+      }
+      return reviewed;
+    });
+  }
+
   // --- Campaign operations ---
 
   async getCampaigns(): Promise<Campaign[]> {
-    return db.select().from(campaigns);
+    return this.db.select().from(campaigns);
   }
 
   async getCampaign(id: string): Promise<Campaign | undefined> {
-    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    const [campaign] = await this.db.select().from(campaigns).where(eq(campaigns.id, id));
     return campaign;
   }
 
   async createCampaign(data: InsertCampaign): Promise<Campaign> {
-    const [created] = await db.insert(campaigns).values(data).returning();
+    const [created] = await this.db.insert(campaigns).values(data).returning();
     return created;
   }
 
   async updateCampaign(id: string, data: Partial<InsertCampaign>): Promise<Campaign | undefined> {
-    const [updated] = await db.update(campaigns).set(data).where(eq(campaigns.id, id)).returning();
+    const [updated] = await this.db.update(campaigns).set(data).where(eq(campaigns.id, id)).returning();
     return updated;
   }
 
+  /**
+   * Applies a workflow transition and records it in the approval history in
+   * one transaction. The update only matches if the campaign's status and
+   * approval level are unchanged since `current` was read, so two concurrent
+   * approvals cannot both succeed; returns undefined when the campaign moved on.
+   */
+  async transitionCampaign(
+    current: Campaign,
+    update: Partial<InsertCampaign>,
+    entry: Omit<InsertCampaignApproval, "id" | "campaignId" | "fromStatus" | "createdAt">,
+  ): Promise<Campaign | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(campaigns)
+        .set(update)
+        .where(and(
+          eq(campaigns.id, current.id),
+          eq(campaigns.status, current.status),
+          eq(campaigns.approvalLevel, current.approvalLevel),
+        ))
+        .returning();
+      if (!updated) return undefined;
+      await tx.insert(campaignApprovals).values({ ...entry, campaignId: current.id, fromStatus: current.status });
+      return updated;
+    });
+  }
+
+  async getCampaignApprovals(campaignId: string): Promise<CampaignApproval[]> {
+    return this.db
+      .select()
+      .from(campaignApprovals)
+      .where(eq(campaignApprovals.campaignId, campaignId))
+      .orderBy(asc(campaignApprovals.createdAt));
+  }
+
   async deleteCampaign(id: string): Promise<boolean> {
-    const result = await db.delete(campaigns).where(eq(campaigns.id, id)).returning();
+    const result = await this.db.delete(campaigns).where(eq(campaigns.id, id)).returning();
     return result.length > 0;
   }
 
   // --- Booking operations ---
 
-  async getBookings(): Promise<Booking[]> {
-    return db.select().from(bookings);
+  async getBookings(scope?: SupplierScope): Promise<Booking[]> {
+    return this.db.select().from(bookings).where(withinSupplier(bookings.supplierId, scope));
+  }
+
+  async getBookingsByCampaign(campaignId: string, scope?: SupplierScope): Promise<Booking[]> {
+    return this.db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.campaignId, campaignId), withinSupplier(bookings.supplierId, scope)));
   }
 
-  async getBookingsByCampaign(campaignId: string): Promise<Booking[]> {
-    return db.select().from(bookings).where(eq(bookings.campaignId, campaignId));
+  async getBookingsByInventory(inventoryId: string, scope?: SupplierScope): Promise<Booking[]> {
+    return this.db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.inventoryId, inventoryId), withinSupplier(bookings.supplierId, scope)))
+      .orderBy(asc(bookings.startDate));
   }
 
-  async getBooking(id: string): Promise<Booking | undefined> {
-    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+  async getBooking(id: string, scope?: SupplierScope): Promise<Booking | undefined> {
+    const [booking] = await this.db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.id, id), withinSupplier(bookings.supplierId, scope)));
     return booking;
   }
 
-  async createBooking(data: InsertBooking): Promise<Booking> {
-    const [created] = await db.insert(bookings).values(data).returning();
-    return created;
+  /**
+   * Locks a screen's booking calendar for the rest of the transaction and
+   * throws BookingConflictError if the booking would overlap another
+   * non-rejected booking of the same screen. Date ranges are inclusive.
+   */
+  private async assertScreenAvailable(tx: Transaction, booking: Partial<Booking>, excludeId?: string): Promise<void> {
+    if (!booking.inventoryId || booking.status === "rejected" || !booking.startDate || !booking.endDate) return;
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`booking:${booking.inventoryId}`}))`);
+    const conditions: SQL[] = [
+      eq(bookings.inventoryId, booking.inventoryId),
+      ne(bookings.status, "rejected"),
+      lte(bookings.startDate, booking.endDate),
+      gte(bookings.endDate, booking.startDate),
+    ];
+    if (excludeId) conditions.push(ne(bookings.id, excludeId));
+    const conflicts = await tx.select().from(bookings).where(and(...conditions));
+    if (conflicts.length > 0) {
+      throw new BookingConflictError(conflicts);
+    }
   }
 
-  async updateBooking(id: string, data: Partial<InsertBooking>): Promise<Booking | undefined> {
-    const [updated] = await db.update(bookings).set(data).where(eq(bookings.id, id)).returning();
-    return updated;
+  /**
+   * Locks the campaign's budget for the rest of the transaction and throws
+   * BudgetExceededError if the campaign's non-rejected bookings, with this
+   * one, would cost more than its budget. Campaigns without a budget are not
+   * limited.
+   */
+  private async assertWithinBudget(tx: Transaction, booking: Partial<Booking>, excludeId?: string): Promise<void> {
+    if (!booking.campaignId || booking.status === "rejected" || !booking.cost) return;
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`campaign-budget:${booking.campaignId}`}))`);
+    const [campaign] = await tx.select({ budget: campaigns.budget }).from(campaigns).where(eq(campaigns.id, booking.campaignId));
+    if (!campaign || campaign.budget == null) return;
+    const conditions: SQL[] = [eq(bookings.campaignId, booking.campaignId), ne(bookings.status, "rejected")];
+    if (excludeId) conditions.push(ne(bookings.id, excludeId));
+    const [booked] = await tx.select({ total: sum(bookings.cost) }).from(bookings).where(and(...conditions));
+    const projected = Number(booked.total ?? 0) + Number(booking.cost);
+    if (projected > Number(campaign.budget)) {
+      throw new BudgetExceededError(Number(campaign.budget), Math.round(projected * 100) / 100);
+    }
+  }
+
+  /**
+   * Locks the contract's value for the rest of the transaction and throws
+   * ContractCeilingExceededError if its consuming bookings, with this one,
+   * would cost more than its ceiling. Unlike the budget, the ceiling cannot
+   * be overridden.
+   */
+  private async assertWithinContract(tx: Transaction, booking: Partial<Booking>, excludeId?: string): Promise<void> {
+    if (!booking.contractId || !booking.status || !consumesContract(booking.status) || !booking.cost) return;
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`contract-value:${booking.contractId}`}))`);
+    const [contract] = await tx.select().from(supplierContracts).where(eq(supplierContracts.id, booking.contractId));
+    if (!contract) return;
+    const conditions: SQL[] = [
+      eq(bookings.contractId, booking.contractId),
+      inArray(bookings.status, CONSUMING_BOOKING_STATUSES),
+    ];
+    if (excludeId) conditions.push(ne(bookings.id, excludeId));
+    const [consumed] = await tx.select({ total: sum(bookings.cost) }).from(bookings).where(and(...conditions));
+    const projected = Number(consumed.total ?? 0) + Number(booking.cost);
+    if (projected > Number(contract.ceilingValue)) {
+      throw new ContractCeilingExceededError(contract.contractNumber, Number(contract.ceilingValue), roundCents(projected));
+    }
+  }
+
+  /** True if the change makes the booking consume more of a contract's value. */
+  private addsConsumption(existing: Booking, next: Booking): boolean {
+    if (!consumesContract(next.status)) return false;
+    return (
+      !consumesContract(existing.status) ||
+      next.contractId !== existing.contractId ||
+      Number(next.cost ?? 0) > Number(existing.cost ?? 0)
+    );
+  }
+
+  async createBooking(data: InsertBooking, options: BookingWriteOptions = {}): Promise<Booking> {
+    return this.db.transaction(async (tx) => {
+      await this.assertScreenAvailable(tx, data);
+      if (!options.allowOverspend) await this.assertWithinBudget(tx, data);
+      await this.assertWithinContract(tx, data);
+      const [created] = await tx.insert(bookings).values(data).returning();
+      return created;
+    });
+  }
+
+  /**
+   * Updates a booking. The budget is only checked when the change adds spend
+   * to a campaign — a higher cost, a move to another campaign, or reinstating
+   * a rejected booking — or moves the booking to another screen or dates,
+   * which is checked as a new booking would be; an overcommitted campaign's
+   * bookings can still be edited in other ways. Likewise the contract ceiling
+   * is only checked when the booking starts consuming contract value or
+   * consumes more of it.
+   */
+  async updateBooking(id: string, data: Partial<InsertBooking>, options: BookingWriteOptions = {}): Promise<Booking | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bookings).where(eq(bookings.id, id)).for("update");
+      if (!existing) return undefined;
+      const next = { ...existing, ...data };
+      await this.assertScreenAvailable(tx, next, id);
+      const moved =
+        next.inventoryId !== existing.inventoryId ||
+        next.startDate?.getTime() !== existing.startDate?.getTime() ||
+        next.endDate?.getTime() !== existing.endDate?.getTime();
+      const addsSpend =
+        existing.status === "rejected" ||
+        next.campaignId !== existing.campaignId ||
+        Number(next.cost ?? 0) > Number(existing.cost ?? 0);
+      if ((moved || addsSpend) && !options.allowOverspend) await this.assertWithinBudget(tx, next, id);
+      if (this.addsConsumption(existing, next)) await this.assertWithinContract(tx, next, id);
+      const [updated] = await tx.update(bookings).set(data).where(eq(bookings.id, id)).returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Applies a negotiation step to a booking and records it in the booking's
+   * history. Returns undefined if the booking's supplier response changed
+   * since `current` was read. A counter-offer being accepted is checked for
+   * double bookings and, when it costs more, against the budget, as in
+   * updateBooking.
+   */
+  async respondToBooking(
+    current: Booking,
+    update: Partial<InsertBooking>,
+    entry: Omit<InsertBookingNegotiation, "bookingId" | "fromResponse">,
+    options: BookingWriteOptions = {},
+  ): Promise<Booking | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bookings).where(eq(bookings.id, current.id)).for("update");
+      if (!existing || existing.supplierResponse !== current.supplierResponse) return undefined;
+      const next = { ...existing, ...update };
+      await this.assertScreenAvailable(tx, next, existing.id);
+      const addsSpend = Number(next.cost ?? 0) > Number(existing.cost ?? 0);
+      if (addsSpend && !options.allowOverspend) await this.assertWithinBudget(tx, next, existing.id);
+      if (this.addsConsumption(existing, next)) await this.assertWithinContract(tx, next, existing.id);
+      const [updated] = await tx.update(bookings).set(update).where(eq(bookings.id, existing.id)).returning();
+      await tx.insert(bookingNegotiations).values({ ...entry, bookingId: existing.id, fromResponse: existing.supplierResponse });
+      return updated;
+    });
+  }
+
+  async getBookingsByContract(contractId: string, scope?: SupplierScope): Promise<Booking[]> {
+    return this.db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.contractId, contractId), withinSupplier(bookings.supplierId, scope)))
+      .orderBy(asc(bookings.startDate));
+  }
+
+  async getBookingNegotiations(bookingIds: string[]): Promise<BookingNegotiation[]> {
+    if (bookingIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(bookingNegotiations)
+      .where(inArray(bookingNegotiations.bookingId, bookingIds))
+      .orderBy(asc(bookingNegotiations.createdAt));
+  }
+
+  // --- Notification operations ---
+
+  /** The user's 50 most recent notifications, newest first. */
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(50);
+  }
+
+  async createNotifications(data: InsertNotification[]): Promise<void> {
+    if (data.length === 0) return;
+    await this.db.insert(notifications).values(data);
+  }
+
+  /** Marks the given notifications, or all of them, as read for the user. */
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    const conditions: SQL[] = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    await this.db.update(notifications).set({ readAt: new Date() }).where(and(...conditions));
   }
 
   // --- Document operations ---
 
-  async getDocuments(): Promise<Document[]> {
-    return db.select().from(documents);
+  async getDocuments(scope?: SupplierScope): Promise<Document[]> {
+    return this.db.select().from(documents).where(documentsWithinSupplier(scope));
   }
 
-  async getDocumentsByCampaign(campaignId: string): Promise<Document[]> {
-    return db.select().from(documents).where(eq(documents.campaignId, campaignId));
+  async getDocumentsByCampaign(campaignId: string, scope?: SupplierScope): Promise<Document[]> {
+    return this.db.select().from(documents).where(and(eq(documents.campaignId, campaignId), documentsWithinSupplier(scope)));
   }
 
-  async getDocumentsByBooking(bookingId: string): Promise<Document[]> {
-    return db.select().from(documents).where(eq(documents.bookingId, bookingId));
+  async getDocumentsByBooking(bookingId: string, scope?: SupplierScope): Promise<Document[]> {
+    return this.db.select().from(documents).where(and(eq(documents.bookingId, bookingId), documentsWithinSupplier(scope)));
   }
 
-  async getDocument(id: string): Promise<Document | undefined> {
-    const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+  async getDocument(id: string, scope?: SupplierScope): Promise<Document | undefined> {
+    const [doc] = await this.db.select().from(documents).where(and(eq(documents.id, id), documentsWithinSupplier(scope)));
     return doc;
   }
 
+  /**
+   * Every version of the document the scope may see, first to latest, found
+   * by following supersedesId back and forward. Undefined if the document
+   * itself is outside the scope.
+   */
+  async getDocumentVersions(id: string, scope?: SupplierScope): Promise<Document[] | undefined> {
+    const document = await this.getDocument(id, scope);
+    if (!document) return undefined;
+    const versions = [document];
+    while (versions[0].supersedesId) {
+      const previous = await this.getDocument(versions[0].supersedesId, scope);
+      if (!previous) break;
+      versions.unshift(previous);
+    }
+    for (;;) {
+      const [next] = await this.db
+        .select()
+        .from(documents)
+        .where(and(eq(documents.supersedesId, versions[versions.length - 1].id), documentsWithinSupplier(scope)));
+      if (!next) break;
+      versions.push(next);
+    }
+    return versions;
+  }
+
   async createDocument(data: InsertDocument): Promise<Document> {
-    const [created] = await db.insert(documents).values(data).returning();
+    const [created] = await this.db.insert(documents).values(data).returning();
     return created;
   }
 
   async updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document | undefined> {
-    const [updated] = await db.update(documents).set(data).where(eq(documents.id, id)).returning();
+    const [updated] = await this.db.update(documents).set(data).where(eq(documents.id, id)).returning();
     return updated;
   }
 
+  /**
+   * Stores a corrected version of a rejected document and marks the rejected
+   * one superseded, in one transaction. Returns undefined if `previous` is no
+   * longer rejected (reviewed again, or already superseded by another upload).
+   */
+  async createDocumentVersion(previous: Document, data: InsertDocument): Promise<Document | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [superseded] = await tx
+        .update(documents)
+        .set({ status: "superseded" })
+        .where(and(eq(documents.id, previous.id), eq(documents.status, "rejected")))
+        .returning();
+      if (!superseded) return undefined;
+      const [created] = await tx
+        .insert(documents)
+        .values({ ...data, supersedesId: previous.id, version: previous.version + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  /**
+   * Applies a review decision and records it in the review history in one
+   * transaction. Like transitionCampaign, the update only matches if the
+   * document's status is unchanged since `current` was read.
+   */
+  async reviewDocument(
+    current: Document,
+    update: Partial<InsertDocument>,
+    entry: Omit<InsertDocumentReview, "id" | "documentId" | "fromStatus" | "createdAt">,
+  ): Promise<Document | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(documents)
+        .set(update)
+        .where(and(eq(documents.id, current.id), eq(documents.status, current.status)))
+        .returning();
+      if (!updated) return undefined;
+      await tx.insert(documentReviews).values({ ...entry, documentId: current.id, fromStatus: current.status });
+      return updated;
+    });
+  }
+
+  async getDocumentReviews(documentIds: string[]): Promise<DocumentReview[]> {
+    if (documentIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(documentReviews)
+      .where(inArray(documentReviews.documentId, documentIds))
+      .orderBy(asc(documentReviews.createdAt));
+  }
+
   // --- Invoice operations ---
 
-  async getInvoices(): Promise<Invoice[]> {
-    return db.select().from(invoices);
+  /**
+   * Replaces the stored status with the one implied by payments and today's
+   * date, so an issued invoice shows as overdue the day after it falls due
+   * without anything having to update it.
+   */
+  private withPaymentStatus(items: Invoice[]): Invoice[] {
+    const today = startOfToday();
+    return items.map((i) => ({ ...i, status: derivedInvoiceStatus(i, today) }));
+  }
+
+  async getInvoices(scope?: SupplierScope): Promise<Invoice[]> {
+    return this.withPaymentStatus(await this.db.select().from(invoices).where(withinSupplier(invoices.supplierId, scope)));
   }
 
-  async getInvoicesByCampaign(campaignId: string): Promise<Invoice[]> {
-    return db.select().from(invoices).where(eq(invoices.campaignId, campaignId));
+  async getInvoicesByCampaign(campaignId: string, scope?: SupplierScope): Promise<Invoice[]> {
+    return this.withPaymentStatus(
+      await this.db
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.campaignId, campaignId), withinSupplier(invoices.supplierId, scope))),
+    );
   }
 
-  async getInvoice(id: string): Promise<Invoice | undefined> {
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
-    return invoice;
+  async getInvoice(id: string, scope?: SupplierScope): Promise<Invoice | undefined> {
+    const [invoice] = await this.db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.id, id), withinSupplier(invoices.supplierId, scope)));
+    return invoice && this.withPaymentStatus([invoice])[0];
   }
 
   async createInvoice(data: InsertInvoice): Promise<Invoice> {
-    const [created] = await db.insert(invoices).values(data).returning();
+    const [created] = await this.db.insert(invoices).values(data).returning();
     return created;
   }
 
   async updateInvoice(id: string, data: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const [updated] = await db.update(invoices).set(data).where(eq(invoices.id, id)).returning();
-    return updated;
+    const [updated] = await this.db.update(invoices).set(data).where(eq(invoices.id, id)).returning();
+    return updated && this.withPaymentStatus([updated])[0];
+  }
+
+  /**
+   * Creates an invoice and its lines in one transaction. The supplier's
+   * invoicing is locked while the bookings are checked, so the same booking
+   * cannot land on two invoices (AlreadyInvoicedError), and the financial
+   * year's numbering is locked while the next sequence number is allocated.
+   */
+  async createInvoiceWithLines(
+    invoice: NewInvoice,
+    lines: Omit<InsertInvoiceLine, "invoiceId">[],
+  ): Promise<{ invoice: Invoice; lines: InvoiceLine[] }> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`invoice-bookings:${invoice.supplierId ?? invoice.campaignId}`}))`);
+      const bookingIds = lines.map((line) => line.bookingId);
+      const invoiced = bookingIds.length > 0 ? await openInvoiceLines(tx, bookingIds) : [];
+      if (invoiced.length > 0) {
+        throw new AlreadyInvoicedError(invoiced);
+      }
+
+      const financialYear = financialYearOf(invoice.issuedAt ?? new Date());
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`invoice-number:${financialYear}`}))`);
+      const [last] = await tx
+        .select({ sequence: max(invoices.sequence) })
+        .from(invoices)
+        .where(eq(invoices.financialYear, financialYear));
+      const sequence = (last?.sequence ?? 0) + 1;
+
+      const [created] = await tx
+        .insert(invoices)
+        .values({ ...invoice, financialYear, sequence, invoiceNumber: formatInvoiceNumber(financialYear, sequence) })
+        .returning();
+      const createdLines = lines.length > 0
+        ? await tx.insert(invoiceLines).values(lines.map((line) => ({ ...line, invoiceId: created.id }))).returning()
+        : [];
+      return { invoice: created, lines: createdLines };
+    });
+  }
+
+  async getInvoiceLines(invoiceIds: string[]): Promise<InvoiceLine[]> {
+    if (invoiceIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(invoiceLines)
+      .where(inArray(invoiceLines.invoiceId, invoiceIds))
+      .orderBy(asc(invoiceLines.periodStart));
+  }
+
+  /** Lines still billing the bookings; fully credited lines are left out. */
+  async getInvoiceLinesByBookings(bookingIds: string[]): Promise<InvoiceLine[]> {
+    if (bookingIds.length === 0) return [];
+    return openInvoiceLines(this.db, bookingIds);
+  }
+
+  async getPayments(invoiceIds?: string[]): Promise<Payment[]> {
+    if (invoiceIds?.length === 0) return [];
+    return this.db
+      .select()
+      .from(payments)
+      .where(invoiceIds ? inArray(payments.invoiceId, invoiceIds) : undefined)
+      .orderBy(asc(payments.paidOn), asc(payments.createdAt));
+  }
+
+  async getCreditNotes(invoiceIds?: string[]): Promise<CreditNote[]> {
+    if (invoiceIds?.length === 0) return [];
+    return this.db
+      .select()
+      .from(creditNotes)
+      .where(invoiceIds ? inArray(creditNotes.invoiceId, invoiceIds) : undefined)
+      .orderBy(asc(creditNotes.issuedAt));
+  }
+
+  async getCreditNoteLines(creditNoteIds: string[]): Promise<CreditNoteLine[]> {
+    if (creditNoteIds.length === 0) return [];
+    return this.db.select().from(creditNoteLines).where(inArray(creditNoteLines.creditNoteId, creditNoteIds));
+  }
+
+  /**
+   * Issues a credit note against an invoice and adds it to the amount
+   * credited. The invoice row is locked while earlier credits are checked,
+   * so no line is reversed by more than its amount (CreditExceedsLineError),
+   * and the financial year's credit note numbering is locked while the next
+   * sequence number is allocated. VAT is worked out on the credited lines;
+   * the note that reverses the last of the invoice takes whatever is left of
+   * its total, so a cancelled invoice nets to exactly zero.
+   */
+  async createCreditNote(
+    invoiceId: string,
+    note: { reason: string; createdBy: string; issuedAt: Date },
+    lines: CreditRequestLine[],
+  ): Promise<{ creditNote: CreditNote; lines: CreditNoteLine[]; invoice: Invoice } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!invoice) return undefined;
+      const existingLines = await tx.select().from(invoiceLines).where(eq(invoiceLines.invoiceId, invoiceId));
+      const credited = existingLines.length > 0
+        ? await tx
+          .select({ invoiceLineId: creditNoteLines.invoiceLineId, total: sum(creditNoteLines.amount) })
+          .from(creditNoteLines)
+          .where(inArray(creditNoteLines.invoiceLineId, existingLines.map((l) => l.id)))
+          .groupBy(creditNoteLines.invoiceLineId)
+        : [];
+      const remaining = new Map(existingLines.map((line) => [
+        line.id,
+        roundCents(Number(line.amount) - Number(credited.find((c) => c.invoiceLineId === line.id)?.total ?? 0)),
+      ]));
+
+      const creditLines = lines.map((requested) => {
+        const line = existingLines.find((l) => l.id === requested.invoiceLineId);
+        const left = remaining.get(requested.invoiceLineId) ?? 0;
+        const amount = requested.amount ?? left;
+        if (!line || amount <= 0 || amount > left) throw new CreditExceedsLineError(requested.invoiceLineId, left);
+        remaining.set(line.id, roundCents(left - amount));
+        return { invoiceLineId: line.id, description: line.description, amount };
+      });
+
+      const uncredited = roundCents(Number(invoice.amount) - Number(invoice.amountCredited));
+      const fullyCredited = Array.from(remaining.values()).every((left) => left <= 0);
+      const totals = invoiceTotals(creditLines.map((c) => c.amount));
+      if (fullyCredited || totals.total > uncredited) {
+        totals.total = uncredited;
+        totals.vat = roundCents(uncredited - totals.subtotal);
+      }
+
+      const financialYear = financialYearOf(note.issuedAt);
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`credit-note-number:${financialYear}`}))`);
+      const [last] = await tx
+        .select({ sequence: max(creditNotes.sequence) })
+        .from(creditNotes)
+        .where(eq(creditNotes.financialYear, financialYear));
+      const sequence = (last?.sequence ?? 0) + 1;
+
+      const [creditNote] = await tx
+        .insert(creditNotes)
+        .values({
+          ...note,
+          creditNoteNumber: formatCreditNoteNumber(financialYear, sequence),
+          financialYear,
+          sequence,
+          invoiceId,
+          campaignId: invoice.campaignId,
+          supplierId: invoice.supplierId,
+          subtotal: totals.subtotal.toFixed(2),
+          vatAmount: totals.vat.toFixed(2),
+          amount: totals.total.toFixed(2),
+        })
+        .returning();
+      const createdLines = await tx
+        .insert(creditNoteLines)
+        .values(creditLines.map((c) => ({ ...c, creditNoteId: creditNote.id, amount: c.amount.toFixed(2) })))
+        .returning();
+
+      const amountCredited = roundCents(Number(invoice.amountCredited) + totals.total).toFixed(2);
+      const status = derivedInvoiceStatus({ ...invoice, amountCredited }, startOfToday());
+      const [updated] = await tx.update(invoices).set({ amountCredited, status }).where(eq(invoices.id, invoiceId)).returning();
+      return { creditNote, lines: createdLines, invoice: updated };
+    });
+  }
+
+  /**
+   * Records a payment against an invoice and adds it to the amount paid. The
+   * invoice row is locked so concurrent payments cannot together exceed the
+   * balance (OverpaymentError).
+   */
+  async recordPayment(
+    invoiceId: string,
+    payment: Omit<InsertPayment, "invoiceId">,
+  ): Promise<{ invoice: Invoice; payment: Payment } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!invoice) return undefined;
+      const balance = invoiceBalance(invoice);
+      if (Number(payment.amount) > balance) {
+        throw new OverpaymentError(balance);
+      }
+
+      const [created] = await tx.insert(payments).values({ ...payment, invoiceId }).returning();
+      const amountPaid = (Math.round((Number(invoice.amountPaid) + Number(payment.amount)) * 100) / 100).toFixed(2);
+      const status = derivedInvoiceStatus({ ...invoice, amountPaid, status: "sent" }, startOfToday());
+      const [updated] = await tx.update(invoices).set({ amountPaid, status }).where(eq(invoices.id, invoiceId)).returning();
+      return { invoice: updated, payment: created };
+    });
   }
 
   // --- Inventory operations ---
 
-  async getInventory(): Promise<Inventory[]> {
-    return db.select().from(inventory);
+  /**
+   * Replaces the stored status of in-service screens with the status implied
+   * by their booking calendar: "booked" while an approved, running or
+   * completed booking covers today, "reserved" while only a pending one does,
+   * otherwise "available". Screens under maintenance keep that status.
+   */
+  private async withBookingStatus(items: Inventory[]): Promise<Inventory[]> {
+    const ids = items.filter((i) => i.status !== "maintenance").map((i) => i.id);
+    if (ids.length === 0) return items;
+    const today = startOfToday();
+    const current = await this.db
+      .select({ inventoryId: bookings.inventoryId, status: bookings.status })
+      .from(bookings)
+      .where(and(
+        isNotNull(bookings.inventoryId),
+        inArray(bookings.inventoryId, ids),
+        ne(bookings.status, "rejected"),
+        lte(bookings.startDate, today),
+        gte(bookings.endDate, today),
+      ));
+    const derived = new Map<string, Inventory["status"]>();
+    for (const b of current) {
+      const status = CONFIRMED_BOOKING_STATUSES.includes(b.status) ? "booked" : "reserved";
+      if (derived.get(b.inventoryId!) !== "booked") derived.set(b.inventoryId!, status);
+    }
+    return items.map((i) =>
+      i.status === "maintenance" ? i : { ...i, status: derived.get(i.id) ?? "available" },
+    );
+  }
+
+  async getInventory(scope?: SupplierScope): Promise<Inventory[]> {
+    return this.withBookingStatus(await this.db.select().from(inventory).where(withinSupplier(inventory.supplierId, scope)));
   }
 
   async getInventoryBySupplier(supplierId: string): Promise<Inventory[]> {
-    return db.select().from(inventory).where(eq(inventory.supplierId, supplierId));
+    return this.withBookingStatus(await this.db.select().from(inventory).where(eq(inventory.supplierId, supplierId)));
   }
 
-  async getInventoryItem(id: string): Promise<Inventory | undefined> {
-    const [item] = await db.select().from(inventory).where(eq(inventory.id, id));
-    return item;
+  async getInventoryItem(id: string, scope?: SupplierScope): Promise<Inventory | undefined> {
+    const [item] = await this.db.select().from(inventory).where(and(eq(inventory.id, id), withinSupplier(inventory.supplierId, scope)));
+    if (!item) return undefined;
+    const [derived] = await this.withBookingStatus([item]);
+    return derived;
   }
 
   async createInventoryItem(data: InsertInventory): Promise<Inventory> {
-    const [created] = await db.insert(inventory).values(data).returning();
+    const [created] = await this.db.insert(inventory).values(data).returning();
     return created;
   }
 
-  async updateInventoryItem(id: string, data: Partial<InsertInventory>): Promise<Inventory | undefined> {
-    const [updated] = await db.update(inventory).set({ ...data, updatedAt: new Date() }).where(eq(inventory.id, id)).returning();
+  async updateInventoryItem(id: string, data: Partial<InsertInventory>, scope?: SupplierScope): Promise<Inventory | undefined> {
+    const [updated] = await this.db
+      .update(inventory)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(inventory.id, id), withinSupplier(inventory.supplierId, scope)))
+      .returning();
+    if (!updated) return undefined;
+    const [derived] = await this.withBookingStatus([updated]);
+    return derived;
+  }
+
+  async deleteInventoryItem(id: string, scope?: SupplierScope): Promise<boolean> {
+    const result = await this.db.delete(inventory).where(and(eq(inventory.id, id), withinSupplier(inventory.supplierId, scope))).returning();
+    return result.length > 0;
+  }
+
+  // --- Pricing adjustment operations ---
+
+  async getPricingAdjustments(scope?: SupplierScope): Promise<PricingAdjustment[]> {
+    return this.db
+      .select()
+      .from(pricingAdjustments)
+      .where(withinSupplier(pricingAdjustments.supplierId, scope))
+      .orderBy(asc(pricingAdjustments.createdAt));
+  }
+
+  async getPricingAdjustmentsBySupplier(supplierId: string): Promise<PricingAdjustment[]> {
+    return this.db
+      .select()
+      .from(pricingAdjustments)
+      .where(eq(pricingAdjustments.supplierId, supplierId))
+      .orderBy(asc(pricingAdjustments.createdAt));
+  }
+
+  async getPricingAdjustment(id: string, scope?: SupplierScope): Promise<PricingAdjustment | undefined> {
+    const [adjustment] = await this.db
+      .select()
+      .from(pricingAdjustments)
+      .where(and(eq(pricingAdjustments.id, id), withinSupplier(pricingAdjustments.supplierId, scope)));
+    return adjustment;
+  }
+
+  async createPricingAdjustment(data: InsertPricingAdjustment): Promise<PricingAdjustment> {
+    const [created] = await this.db.insert(pricingAdjustments).values(data).returning();
+    return created;
+  }
+
+  async updatePricingAdjustment(id: string, data: Partial<InsertPricingAdjustment>, scope?: SupplierScope): Promise<PricingAdjustment | undefined> {
+    const [updated] = await this.db
+      .update(pricingAdjustments)
+      .set(data)
+      .where(and(eq(pricingAdjustments.id, id), withinSupplier(pricingAdjustments.supplierId, scope)))
+      .returning();
     return updated;
   }
 
-  async deleteInventoryItem(id: string): Promise<boolean> {
-    const result = await db.delete(inventory).where(eq(inventory.id, id)).returning();
+  async deletePricingAdjustment(id: string, scope?: SupplierScope): Promise<boolean> {
+    const result = await this.db
+      .delete(pricingAdjustments)
+      .where(and(eq(pricingAdjustments.id, id), withinSupplier(pricingAdjustments.supplierId, scope)))
+      .returning();
     return result.length > 0;
   }
 
+  // --- Supplier contract operations ---
+
+  async getContracts(scope?: SupplierScope): Promise<SupplierContract[]> {
+    return this.db
+      .select()
+      .from(supplierContracts)
+      .where(withinSupplier(supplierContracts.supplierId, scope))
+      .orderBy(desc(supplierContracts.startDate));
+  }
+
+  async getContract(id: string, scope?: SupplierScope): Promise<SupplierContract | undefined> {
+    const [contract] = await this.db
+      .select()
+      .from(supplierContracts)
+      .where(and(eq(supplierContracts.id, id), withinSupplier(supplierContracts.supplierId, scope)));
+    return contract;
+  }
+
+  /** The supplier's active contract covering the whole inclusive period, if any. */
+  async getCoveringContract(supplierId: string, startDate: Date, endDate: Date): Promise<SupplierContract | undefined> {
+    const [contract] = await this.db
+      .select()
+      .from(supplierContracts)
+      .where(and(
+        eq(supplierContracts.supplierId, supplierId),
+        eq(supplierContracts.status, "active"),
+        lte(supplierContracts.startDate, startDate),
+        gte(supplierContracts.endDate, endDate),
+      ));
+    return contract;
+  }
+
+  /**
+   * Locks the supplier's contracts for the rest of the transaction and throws
+   * ContractOverlapError if an active contract would overlap another of the
+   * supplier's active contracts.
+   */
+  private async assertNoOverlap(tx: Transaction, contract: Pick<SupplierContract, "supplierId" | "status" | "startDate" | "endDate">, excludeId?: string): Promise<void> {
+    if (contract.status !== "active") return;
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`supplier-contracts:${contract.supplierId}`}))`);
+    const conditions: SQL[] = [eq(supplierContracts.supplierId, contract.supplierId), eq(supplierContracts.status, "active")];
+    if (excludeId) conditions.push(ne(supplierContracts.id, excludeId));
+    const active = await tx.select().from(supplierContracts).where(and(...conditions));
+    const overlapping = active.find((other) => periodsOverlap(contract, other));
+    if (overlapping) {
+      throw new ContractOverlapError(overlapping);
+    }
+  }
+
+  async createContract(data: InsertSupplierContract & { createdBy: string }): Promise<SupplierContract> {
+    return this.db.transaction(async (tx) => {
+      await this.assertNoOverlap(tx, { ...data, status: data.status ?? "draft" });
+      const [created] = await tx.insert(supplierContracts).values(data).returning();
+      return created;
+    });
+  }
+
+  /**
+   * Updates a contract. Activating it or changing an active contract's dates
+   * is checked for overlaps, and lowering the ceiling is refused below the
+   * value already consumed.
+   */
+  async updateContract(id: string, data: Partial<InsertSupplierContract>): Promise<SupplierContract | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(supplierContracts).where(eq(supplierContracts.id, id)).for("update");
+      if (!existing) return undefined;
+      const next = { ...existing, ...data };
+      await this.assertNoOverlap(tx, next, id);
+      if (Number(next.ceilingValue) < Number(existing.ceilingValue)) {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`contract-value:${id}`}))`);
+        const [consumed] = await tx
+          .select({ total: sum(bookings.cost) })
+          .from(bookings)
+          .where(and(eq(bookings.contractId, id), inArray(bookings.status, CONSUMING_BOOKING_STATUSES)));
+        if (Number(consumed.total ?? 0) > Number(next.ceilingValue)) {
+          throw new ContractCeilingExceededError(existing.contractNumber, Number(next.ceilingValue), roundCents(Number(consumed.total)));
+        }
+      }
+      const [updated] = await tx.update(supplierContracts).set(data).where(eq(supplierContracts.id, id)).returning();
+      return updated;
+    });
+  }
+
+  /** Cost of each contract's approved, in-progress and completed bookings; contracts with none are left out. */
+  async getContractConsumption(contractIds: string[]): Promise<Map<string, number>> {
+    if (contractIds.length === 0) return new Map();
+    const rows = await this.db
+      .select({ contractId: bookings.contractId, total: sum(bookings.cost) })
+      .from(bookings)
+      .where(and(inArray(bookings.contractId, contractIds), inArray(bookings.status, CONSUMING_BOOKING_STATUSES)))
+      .groupBy(bookings.contractId);
+    return new Map(rows.map((row) => [row.contractId!, Number(row.total ?? 0)]));
+  }
+
+  async getContractRates(contractId: string): Promise<ContractRate[]> {
+    return this.db.select().from(contractRates).where(eq(contractRates.contractId, contractId));
+  }
+
+  async getContractRate(contractId: string, inventoryId: string): Promise<ContractRate | undefined> {
+    const [rate] = await this.db
+      .select()
+      .from(contractRates)
+      .where(and(eq(contractRates.contractId, contractId), eq(contractRates.inventoryId, inventoryId)));
+    return rate;
+  }
+
+  /** Replaces the contract's whole rate card. Bookings already priced keep their quoted cost. */
+  async replaceContractRates(contractId: string, rates: Omit<InsertContractRate, "id" | "contractId">[]): Promise<ContractRate[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(contractRates).where(eq(contractRates.contractId, contractId));
+      if (rates.length === 0) return [];
+      return tx.insert(contractRates).values(rates.map((rate) => ({ ...rate, contractId }))).returning();
+    });
+  }
+
+  // --- Audit trail operations (append-only: no update or delete) ---
+
+  /**
+   * Appends an event to the hash chain. A transaction-scoped advisory lock
+   * makes reading the last hash and inserting the new row atomic.
+   */
+  async appendAuditEvent(event: NewAuditEvent, seal: AuditSealer): Promise<AuditEvent> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+      const [last] = await tx
+        .select({ hash: auditEvents.hash })
+        .from(auditEvents)
+        .orderBy(desc(auditEvents.sequence))
+        .limit(1);
+      const prevHash = last?.hash ?? AUDIT_GENESIS_HASH;
+      const occurredAt = new Date();
+      const [created] = await tx
+        .insert(auditEvents)
+        .values({ ...event, occurredAt, prevHash, hash: seal(event, occurredAt, prevHash) })
+        .returning();
+      return created;
+    });
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    const conditions: SQL[] = [];
+    if (filter.actorId) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+    if (filter.entityType) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.from) conditions.push(gte(auditEvents.occurredAt, filter.from));
+    if (filter.to) conditions.push(lte(auditEvents.occurredAt, filter.to));
+
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.sequence))
+      .limit(filter.limit ?? 100)
+      .offset(filter.offset ?? 0);
+  }
+
+  async getAuditEventsAfter(sequence: number, limit: number): Promise<AuditEvent[]> {
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(gt(auditEvents.sequence, sequence))
+      .orderBy(asc(auditEvents.sequence))
+      .limit(limit);
+  }
+
   // --- Dashboard statistics ---
 
   /**
    * Aggregates key metrics across campaigns and bookings by running
    * individual count/sum queries for total campaigns, active campaigns,
-   * total bookings, cumulative spend, pending bookings, and completed bookings.
+   * total bookings, committed spend (approved, in-progress and completed
+   * bookings), pending bookings, and completed bookings. Booking figures are
+   * limited to the scope's supplier.
    */
-  async getDashboardStats(): Promise<DashboardStats> {
-    const [campaignStats] = await db
+  async getDashboardStats(scope?: SupplierScope): Promise<DashboardStats> {
+    const ownBookings = withinSupplier(bookings.supplierId, scope);
+
+    const [campaignStats] = await this.db
       .select({ total: count() })
       .from(campaigns);
 
-    const [activeStats] = await db
+    const [activeStats] = await this.db
       .select({ total: count() })
       .from(campaigns)
       .where(eq(campaigns.status, "in_progress"));
 
-    const [bookingStats] = await db
+    const [bookingStats] = await this.db
       .select({ total: count() })
-      .from(bookings);
+      .from(bookings)
+      .where(ownBookings);
 
-    const [spendStats] = await db
+    const [spendStats] = await this.db
       .select({ total: sum(bookings.cost) })
-      .from(bookings);
+      .from(bookings)
+      .where(and(inArray(bookings.status, CONFIRMED_BOOKING_STATUSES), ownBookings));
 
-    const [pendingStats] = await db
+    const [pendingStats] = await this.db
       .select({ total: count() })
       .from(bookings)
-      .where(eq(bookings.status, "pending"));
+      .where(and(eq(bookings.status, "pending"), ownBookings));
 
-    const [completedStats] = await db
+    const [completedStats] = await this.db
       .select({ total: count() })
       .from(bookings)
-      .where(eq(bookings.status, "completed"));
+      .where(and(eq(bookings.status, "completed"), ownBookings));
 
     return {
       totalCampaigns: campaignStats.total,
@@ -315,4 +1543,4 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = new DatabaseStorage(drizzle(pool, { schema }));
@@ -0,0 +1,395 @@
+/**
+ * @file Supplier row-level scoping, end to end.
+ *
+ * Signs in as the supplier admin of one supplier and checks that another
+ * supplier's screens, discounts and surcharges, bookings, documents,
+ * compliance, onboarding and contracts are not listed, and that reading or
+ * writing them by id returns 404 (403 where the API refuses the request
+ * outright, as it does for all invoices). A supplier user whose account is
+ * not linked to a supplier must match nothing at all.
+ *
+ * The routes run in-process against an in-memory PGlite database with the
+ * schema pushed from shared/schema.ts, so `npm test` needs no PostgreSQL server.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import session from "express-session";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { pushSchema } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+import type { Booking, Document, Inventory, Invoice, PricingAdjustment, Supplier, SupplierContract } from "@shared/schema";
+import { storage, type Database } from "./storage";
+import { setupAuth, hashPassword } from "./auth";
+import { registerRoutes } from "./routes";
+import { buildInvoice } from "./invoicing";
+
+/** Fixtures of one supplier. */
+interface SupplierFixture {
+  supplier: Supplier;
+  screen: Inventory;
+  adjustment: PricingAdjustment;
+  booking: Booking;
+  bookingDocument: Document;
+  complianceDocument: Document;
+  invoice: Invoice;
+  contract: SupplierContract;
+}
+
+/** Sends a request as one signed-in user. */
+type Caller = (method: string, path: string, body?: unknown) => Promise<Response>;
+
+describe("supplier scoping", () => {
+  let client: PGlite;
+  let server: Server;
+  let baseUrl: string;
+  let call: Caller;
+  let callUnlinked: Caller;
+  let callPlanner: Caller;
+  let own: SupplierFixture;
+  let other: SupplierFixture;
+
+  const callerFor = (cookie: string): Caller => (method, path, body) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { cookie, ...(body === undefined || body instanceof FormData ? {} : { "content-type": "application/json" }) },
+      body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+    });
+
+  const signIn = async (username: string, password: string): Promise<Caller> => {
+    const login = await callerFor("")("POST", "/api/auth/login", { username, password });
+    assert.equal(login.status, 200);
+    return callerFor(login.headers.getSetCookie().map((c) => c.split(";")[0]).join("; "));
+  };
+
+  const ids = async (res: Response) => ((await res.json()) as { id: string }[]).map((row) => row.id);
+
+  before(async () => {
+    client = new PGlite();
+    await (await pushSchema(schema, drizzle(client))).apply();
+    // The routes use the storage singleton; point its queries at the in-memory database.
+    const database: Database = drizzle(client, { schema });
+    Object.assign(storage, { db: database });
+
+    const admin = await storage.createUser({
+      username: "scoping-admin",
+      password: await hashPassword(randomUUID()),
+      fullName: "Scoping Admin",
+      email: "admin@example.gov.za",
+      role: "department_admin",
+    });
+    const campaign = await storage.createCampaign({ name: "Scoping", createdBy: admin.id });
+
+    const createFixture = async (name: string): Promise<SupplierFixture> => {
+      const supplier = await storage.createSupplier({ name, contactPerson: name, email: "sales@example.co.za" });
+      const screen = await storage.createInventoryItem({
+        supplierId: supplier.id,
+        screenName: `${name} Billboard`,
+        screenType: "Billboard",
+        location: "N1 Highway",
+        region: "Gauteng",
+        dailyRate: "1000.00",
+      });
+      const adjustment = await storage.createPricingAdjustment({
+        supplierId: supplier.id,
+        kind: "discount",
+        name: `${name} loyalty discount`,
+        percentage: "10",
+      });
+      const booking = await storage.createBooking({
+        campaignId: campaign.id,
+        supplierId: supplier.id,
+        inventoryId: screen.id,
+        siteDescription: screen.screenName,
+        cost: "7000.00",
+        status: "approved",
+        startDate: new Date("2026-03-01"),
+        endDate: new Date("2026-03-07"),
+      });
+      const bookingDocument = await storage.createDocument({
+        type: "proof_of_flighting",
+        campaignId: campaign.id,
+        bookingId: booking.id,
+        fileName: "proof.jpg",
+        fileSize: 1024,
+        uploadedBy: admin.id,
+      });
+      const complianceDocument = await storage.createDocument({
+        type: "compliance_sbd",
+        supplierId: supplier.id,
+        fileName: "sbd4.pdf",
+        fileSize: 1024,
+        uploadedBy: admin.id,
+      });
+      const built = buildInvoice(campaign.id, supplier.id, [booking], new Date("2026-03-08"));
+      const { invoice } = await storage.createInvoiceWithLines(built.invoice, built.lines);
+      const contract = await storage.createContract({
+        supplierId: supplier.id,
+        contractNumber: `SCOPE-${name}`,
+        title: "Framework agreement",
+        startDate: new Date("2026-01-01"),
+        endDate: new Date("2026-12-31"),
+        ceilingValue: "100000.00",
+        status: "active",
+        createdBy: admin.id,
+      });
+      return { supplier, screen, adjustment, booking, bookingDocument, complianceDocument, invoice, contract };
+    };
+    own = await createFixture("Own");
+    other = await createFixture("Other");
+
+    const password = randomUUID();
+    for (const [username, supplierId] of [["scoping-supplier", own.supplier.id], ["scoping-unlinked", null]] as const) {
+      await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        fullName: "Supplier Admin",
+        email: "admin@example.co.za",
+        role: "supplier_admin",
+        supplierId,
+      });
+    }
+    await storage.createUser({
+      username: "scoping-planner",
+      password: await hashPassword(password),
+      fullName: "Campaign Planner",
+      email: "planner@example.gov.za",
+      role: "campaign_planner",
+    });
+
+    const app = express();
+    app.use(express.json());
+    setupAuth(app, new session.MemoryStore());
+    server = createServer(app);
+    await registerRoutes(server, app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    call = await signIn("scoping-supplier", password);
+    callUnlinked = await signIn("scoping-unlinked", password);
+    callPlanner = await signIn("scoping-planner", password);
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    await client?.close();
+  });
+
+  describe("lists", () => {
+    const listsOnlyOwn = (path: string, rowId: (f: SupplierFixture) => string) => async () => {
+      const listed = await ids(await call("GET", path));
+      assert.ok(listed.includes(rowId(own)), path);
+      assert.ok(!listed.includes(rowId(other)), path);
+    };
+
+    it("only lists the supplier itself among suppliers", async () => {
+      assert.deepEqual(await ids(await call("GET", "/api/suppliers")), [own.supplier.id]);
+    });
+    it("only lists the supplier's own screens", listsOnlyOwn("/api/inventory", (f) => f.screen.id));
+    it("does not list another supplier's screens when asked for them", async () => {
+      const listed = await ids(await call("GET", `/api/inventory?supplierId=${other.supplier.id}`));
+      assert.ok(!listed.includes(other.screen.id));
+    });
+    it("only lists the supplier's own discounts and surcharges", listsOnlyOwn("/api/pricing-adjustments", (f) => f.adjustment.id));
+    it("does not list another supplier's discounts and surcharges when asked for them", async () => {
+      const listed = await ids(await call("GET", `/api/pricing-adjustments?supplierId=${other.supplier.id}`));
+      assert.ok(!listed.includes(other.adjustment.id));
+    });
+    it("only lists the supplier's own bookings", listsOnlyOwn("/api/bookings", (f) => f.booking.id));
+    it("only lists the supplier's own booking documents", listsOnlyOwn("/api/documents", (f) => f.bookingDocument.id));
+    it("only lists the supplier's own compliance documents", listsOnlyOwn("/api/documents", (f) => f.complianceDocument.id));
+    it("only lists the supplier's own contracts", listsOnlyOwn("/api/contracts", (f) => f.contract.id));
+
+    it("only reports the supplier's own compliance, even when asked for another supplier's", async () => {
+      const all = (await (await call("GET", "/api/compliance")).json()) as { supplierId: string }[];
+      assert.ok(all.some((entry) => entry.supplierId === own.supplier.id));
+      assert.ok(!all.some((entry) => entry.supplierId === other.supplier.id));
+      const asked = (await (await call("GET", `/api/compliance?supplierId=${other.supplier.id}`)).json()) as unknown[];
+      assert.deepEqual(asked, []);
+    });
+  });
+
+  describe("reads by id", () => {
+    const notFound = (path: (f: SupplierFixture) => string) => async () => {
+      assert.equal((await call("GET", path(own))).status, 200);
+      assert.equal((await call("GET", path(other))).status, 404);
+    };
+
+    it("does not find another supplier's screen", notFound((f) => `/api/inventory/${f.screen.id}`));
+    it("does not find another supplier's booking calendar", notFound((f) => `/api/inventory/${f.screen.id}/bookings`));
+    it("does not quote another supplier's screen", notFound((f) => `/api/inventory/${f.screen.id}/quote?startDate=2026-04-01&endDate=2026-04-07`));
+    it("does not find another supplier's booking", notFound((f) => `/api/bookings/${f.booking.id}`));
+    it("does not find another supplier's negotiation history", notFound((f) => `/api/bookings/${f.booking.id}/negotiations`));
+    it("does not find another supplier's document", notFound((f) => `/api/documents/${f.bookingDocument.id}/history`));
+    it("does not find another supplier's compliance document", notFound((f) => `/api/documents/${f.complianceDocument.id}/history`));
+    it("does not find another supplier's contract", notFound((f) => `/api/contracts/${f.contract.id}`));
+    it("does not find another supplier's onboarding", notFound((f) => `/api/suppliers/${f.supplier.id}/onboarding`));
+
+    it("does not download another supplier's document", async () => {
+      assert.equal((await call("GET", `/api/documents/${other.bookingDocument.id}/download`)).status, 404);
+    });
+
+    it("refuses invoices to suppliers altogether", async () => {
+      for (const path of ["/api/invoices", `/api/invoices/${other.invoice.id}`, `/api/invoices/${other.invoice.id}/payments`]) {
+        assert.equal((await call("GET", path)).status, 403, path);
+      }
+    });
+  });
+
+  describe("writes", () => {
+    it("does not update another supplier's screen", async () => {
+      const res = await call("PATCH", `/api/inventory/${other.screen.id}`, { status: "maintenance" });
+      assert.equal(res.status, 404);
+      assert.equal((await storage.getInventoryItem(other.screen.id))?.status, other.screen.status);
+    });
+
+    it("does not delete another supplier's screen", async () => {
+      assert.equal((await call("DELETE", `/api/inventory/${other.screen.id}`)).status, 404);
+      assert.ok(await storage.getInventoryItem(other.screen.id));
+    });
+
+    it("refuses to move its own screen to another supplier", async () => {
+      const res = await call("PATCH", `/api/inventory/${own.screen.id}`, { supplierId: other.supplier.id });
+      assert.equal(res.status, 400);
+    });
+
+    it("adds screens to its own supplier whichever supplier is named", async () => {
+      const res = await call("POST", "/api/inventory", {
+        supplierId: other.supplier.id,
+        screenName: "Own Street Pole",
+        screenType: "Street Pole",
+        location: "Main Road",
+        region: "Gauteng",
+        dailyRate: "100.00",
+      });
+      assert.equal(res.status, 201);
+      assert.equal((await res.json()).supplierId, own.supplier.id);
+    });
+
+    it("adds discounts to its own supplier whichever supplier is named", async () => {
+      const res = await call("POST", "/api/pricing-adjustments", {
+        supplierId: other.supplier.id,
+        kind: "discount",
+        name: "Winter special",
+        percentage: 5,
+      });
+      assert.equal(res.status, 201);
+      assert.equal((await res.json()).supplierId, own.supplier.id);
+    });
+
+    it("does not update another supplier's discount", async () => {
+      const res = await call("PATCH", `/api/pricing-adjustments/${other.adjustment.id}`, { percentage: 50 });
+      assert.equal(res.status, 404);
+      assert.equal(Number((await storage.getPricingAdjustment(other.adjustment.id))?.percentage), 10);
+    });
+
+    it("does not delete another supplier's discount", async () => {
+      assert.equal((await call("DELETE", `/api/pricing-adjustments/${other.adjustment.id}`)).status, 404);
+      assert.ok(await storage.getPricingAdjustment(other.adjustment.id));
+    });
+
+    it("does not answer another supplier's booking", async () => {
+      for (const action of ["accept", "decline", "counter-offer"]) {
+        const res = await call("POST", `/api/bookings/${other.booking.id}/${action}`, { reason: "No", cost: 100 });
+        assert.equal(res.status, 404, action);
+      }
+    });
+
+    it("does not upload against another supplier's booking", async () => {
+      const form = new FormData();
+      form.set("type", "proof_of_flighting");
+      form.set("campaignId", other.booking.campaignId);
+      form.set("bookingId", other.booking.id);
+      form.set("file", new Blob([Buffer.from("not a photo")], { type: "image/jpeg" }), "proof.jpg");
+      assert.equal((await call("POST", "/api/documents", form)).status, 404);
+    });
+
+    it("refuses to file a compliance document for another supplier", async () => {
+      const form = new FormData();
+      form.set("type", "compliance_sbd");
+      form.set("supplierId", other.supplier.id);
+      form.set("issuedAt", "2026-01-01");
+      form.set("expiresAt", "2026-12-31");
+      form.set("file", new Blob([Buffer.from("%PDF-1.4")], { type: "application/pdf" }), "sbd4.pdf");
+      assert.equal((await call("POST", "/api/documents", form)).status, 403);
+    });
+
+    it("does not replace another supplier's document", async () => {
+      const form = new FormData();
+      form.set("type", "proof_of_flighting");
+      form.set("supersedesId", other.bookingDocument.id);
+      form.set("file", new Blob([Buffer.from("not a photo")], { type: "image/jpeg" }), "proof.jpg");
+      assert.equal((await call("POST", "/api/documents", form)).status, 404);
+    });
+
+    it("does not change another supplier's onboarding details", async () => {
+      const res = await call("PATCH", `/api/suppliers/${other.supplier.id}/onboarding`, { contactPerson: "Taken Over" });
+      assert.equal(res.status, 404);
+      assert.equal((await storage.getSupplier(other.supplier.id))?.contactPerson, other.supplier.contactPerson);
+    });
+
+    it("does not submit another supplier's onboarding", async () => {
+      assert.equal((await call("POST", `/api/suppliers/${other.supplier.id}/onboarding/submit`, {})).status, 404);
+    });
+
+    it("does not request a banking change for another supplier", async () => {
+      const res = await call("POST", `/api/suppliers/${other.supplier.id}/bank-changes`, {
+        bankName: "First National Bank",
+        bankAccountNumber: "62000000000",
+        bankBranchCode: "250655",
+        documentId: other.complianceDocument.id,
+      });
+      assert.equal(res.status, 404);
+    });
+  });
+
+  describe("supplier users not linked to a supplier", () => {
+    it("lists nothing", async () => {
+      for (const path of ["/api/suppliers", "/api/inventory", "/api/pricing-adjustments", "/api/bookings", "/api/documents", "/api/contracts"]) {
+        assert.deepEqual(await ids(await callUnlinked("GET", path)), [], path);
+      }
+    });
+
+    it("finds no supplier's screens or discounts", async () => {
+      assert.equal((await callUnlinked("GET", `/api/inventory/${other.screen.id}`)).status, 404);
+      assert.equal((await callUnlinked("PATCH", `/api/pricing-adjustments/${other.adjustment.id}`, { percentage: 50 })).status, 404);
+      assert.equal((await callUnlinked("DELETE", `/api/pricing-adjustments/${other.adjustment.id}`)).status, 404);
+    });
+
+    it("cannot add screens or discounts for any supplier", async () => {
+      const screen = await callUnlinked("POST", "/api/inventory", {
+        supplierId: other.supplier.id,
+        screenName: "Unlinked Billboard",
+        screenType: "Billboard",
+        location: "N1 Highway",
+        region: "Gauteng",
+        dailyRate: "1000.00",
+      });
+      assert.equal(screen.status, 403);
+      const adjustment = await callUnlinked("POST", "/api/pricing-adjustments", {
+        supplierId: other.supplier.id,
+        kind: "surcharge",
+        name: "Unlinked surcharge",
+        percentage: 5,
+      });
+      assert.equal(adjustment.status, 403);
+    });
+  });
+
+  describe("government roles that do not review onboarding", () => {
+    it("list suppliers without their banking details", async () => {
+      await storage.updateSupplier(other.supplier.id, { bankName: "First National Bank", bankAccountNumber: "62000000000", bankBranchCode: "250655" });
+      const listed = (await (await callPlanner("GET", "/api/suppliers")).json()) as Record<string, unknown>[];
+      const supplier = listed.find((s) => s.id === other.supplier.id);
+      assert.ok(supplier);
+      for (const field of ["bankName", "bankAccountNumber", "bankBranchCode"]) {
+        assert.ok(!(field in supplier), field);
+      }
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @file Time-based one-time passwords (RFC 6238) and MFA recovery codes.
+ *
+ * Generates base32 shared secrets compatible with Microsoft Authenticator and
+ * other authenticator apps, verifies 6-digit codes with a one-step tolerance
+ * for clock drift, and issues single-use recovery codes stored as hashes.
+ */
+
+import { createHmac, createHash, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Number of 30-second steps either side of "now" that are accepted. */
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+/** Issuer label shown in authenticator apps. */
+const ISSUER = "OOH Booking System";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** Generates a new 160-bit shared secret, base32 encoded. */
+export function generateSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** Computes the HOTP value for a given time step (RFC 4226 dynamic truncation). */
+function codeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Verifies a TOTP code. Returns the matched time step, or null if the code is
+ * wrong or belongs to a step at or before `lastUsedStep` (replay).
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(codeForStep(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** Builds the otpauth:// URI that authenticator apps import. */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** Renders the otpauth URI as a QR code data URL for display during enrolment. */
+export function renderQrCode(otpauthUri: string): Promise<string> {
+  return QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 });
+}
+
+/** Normalises a recovery code for hashing (case- and dash-insensitive). */
+function normaliseRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z2-7]/g, "");
+}
+
+/** Hashes a recovery code for storage. Codes carry 80 bits of entropy, so a fast hash suffices. */
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normaliseRecoveryCode(code)).digest("hex");
+}
+
+/** Generates a fresh set of recovery codes formatted as XXXX-XXXX-XXXX-XXXX. */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    base32Encode(randomBytes(10)).match(/.{4}/g)!.join("-"),
+  );
+}
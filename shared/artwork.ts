@@ -0,0 +1,54 @@
+/**
+ * @file Artwork validation rules and the report stored on artwork documents.
+ *
+ * Artwork uploaded against a booking is checked against the booked screen:
+ * digital screens take static JPEG/PNG images or MP4 video at the screen's
+ * resolution, print billboards take CMYK JPEG or TIFF files at a print DPI
+ * in the proportions of the board.
+ */
+
+import { MAX_DOCUMENT_BYTES } from "./schema";
+
+/** Limits applied to artwork, by kind of screen and file. */
+export const ARTWORK_LIMITS = {
+  /** Static images for digital screens; most players reject larger stills. */
+  maxDigitalImageBytes: 2 * 1024 * 1024,
+  maxVideoBytes: MAX_DOCUMENT_BYTES,
+  maxPrintBytes: MAX_DOCUMENT_BYTES,
+  minPrintDpi: 150,
+  /** Largest allowed relative difference between the artwork's and the screen's aspect ratio. */
+  aspectRatioTolerance: 0.01,
+} as const;
+
+export type ArtworkCheckRule = "format" | "dimensions" | "aspect_ratio" | "colour_mode" | "dpi" | "file_size";
+
+/** One rule applied to the artwork; "skipped" when the screen does not specify what to check against. */
+export interface ArtworkCheck {
+  rule: ArtworkCheckRule;
+  result: "passed" | "failed" | "skipped";
+  expected: string;
+  actual: string;
+  message: string;
+}
+
+/** What was read from the artwork file itself. */
+export interface ArtworkProperties {
+  /** Detected from the file contents, e.g. "jpeg", "png", "tiff", "mp4"; null when unrecognised. */
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  /** "cmyk", "srgb", "b-w" and so on, for images. */
+  colourMode: string | null;
+  dpi: number | null;
+  fileSize: number;
+}
+
+export interface ArtworkValidationReport {
+  inventoryId: string;
+  screenName: string;
+  digital: boolean;
+  checkedAt: string;
+  passed: boolean;
+  artwork: ArtworkProperties;
+  checks: ArtworkCheck[];
+}
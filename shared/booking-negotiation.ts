@@ -0,0 +1,52 @@
+/**
+ * @file Supplier responses to bookings, shared by the API and the client.
+ *
+ * A booking waits in its supplier's inbox ("awaiting") until one of the
+ * supplier's users accepts it, declines it with a reason, which rejects the
+ * booking, or counter-offers another of its screens, other dates or another
+ * price. The campaign planner then accepts the counter-offer, which applies
+ * it to the booking, or rejects it with a comment, which returns the booking
+ * to the supplier's inbox. The other side is notified of every step.
+ */
+
+import type { Booking } from "./schema";
+
+export type SupplierResponse = "awaiting" | "accepted" | "declined" | "countered";
+
+/**
+ * Negotiation steps. Supplier steps are exposed as POST
+ * /api/bookings/:id/<accept|decline|counter-offer>, planner steps as POST
+ * /api/bookings/:id/counter-offer/<accept|reject>.
+ */
+export type NegotiationAction = "accept" | "decline" | "counter" | "accept_counter" | "reject_counter";
+
+export const negotiationTransitions: Record<
+  NegotiationAction,
+  { from: SupplierResponse; to: SupplierResponse; by: "supplier" | "planner" }
+> = {
+  accept: { from: "awaiting", to: "accepted", by: "supplier" },
+  decline: { from: "awaiting", to: "declined", by: "supplier" },
+  counter: { from: "awaiting", to: "countered", by: "supplier" },
+  accept_counter: { from: "countered", to: "accepted", by: "planner" },
+  reject_counter: { from: "countered", to: "awaiting", by: "planner" },
+};
+
+/** Booking statuses a supplier may still respond to; later bookings are already flighting or closed. */
+export const RESPONDABLE_BOOKING_STATUSES: readonly Booking["status"][] = ["pending", "approved"];
+
+/** Returns true if the step may be taken on the booking as it stands. */
+export function canNegotiate(booking: Pick<Booking, "status" | "supplierResponse">, action: NegotiationAction): boolean {
+  return (
+    RESPONDABLE_BOOKING_STATUSES.includes(booking.status) &&
+    booking.supplierResponse === negotiationTransitions[action].from
+  );
+}
+
+/**
+ * Returns true if government users may change the booking's status, screen
+ * or dates: not while it is declined or a counter-offer is open, which only
+ * the negotiation steps may settle.
+ */
+export function isSettledResponse(booking: Pick<Booking, "supplierResponse">): boolean {
+  return booking.supplierResponse !== "declined" && booking.supplierResponse !== "countered";
+}
@@ -0,0 +1,33 @@
+/**
+ * @file Booking status rules shared by the API and the client.
+ *
+ * Government users move a booking pending → approved → in_progress →
+ * completed, or reject it while it is pending. Rejected and completed
+ * bookings are closed. Approved, in-progress and completed bookings are
+ * committed (see COMMITTED_BOOKING_STATUSES), and a booking may only become
+ * committed while its supplier is compliant for the campaign.
+ */
+
+import type { Booking } from "./schema";
+import { COMMITTED_BOOKING_STATUSES } from "./budget";
+
+export type BookingStatus = Booking["status"];
+
+/** Statuses a booking may move to from each status. */
+export const bookingTransitions: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["in_progress"],
+  rejected: [],
+  in_progress: ["completed"],
+  completed: [],
+};
+
+/** Returns true if a booking may move from one status to the other. */
+export function canMoveBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return bookingTransitions[from].includes(to);
+}
+
+/** Returns true if a booking in this status is committed against its campaign budget. */
+export function isCommittedStatus(status: BookingStatus): boolean {
+  return (COMMITTED_BOOKING_STATUSES as readonly string[]).includes(status);
+}
@@ -0,0 +1,42 @@
+/**
+ * @file Campaign budget figures returned by the budget endpoints.
+ *
+ * Amounts are in ZAR. Booking amounts are booking costs (excluding VAT);
+ * invoiced and paid amounts are invoice amounts as captured.
+ */
+
+/** Booking statuses whose cost is committed against the campaign budget. */
+export const COMMITTED_BOOKING_STATUSES = ["approved", "in_progress", "completed"] as const;
+
+/** How a booking that would take a campaign over budget is handled: refused outright, or allowed once acknowledged. */
+export type OverspendPolicy = "hard" | "soft";
+
+export interface CampaignBudget {
+  campaignId: string;
+  /** The campaign budget, or null when none is set (no overspend guard applies). */
+  budget: number | null;
+  /** Cost of approved, in-progress and completed bookings. */
+  committed: number;
+  /** Cost of bookings still awaiting approval. */
+  pending: number;
+  /** Issued invoices, whether or not paid, less their credit notes. */
+  invoiced: number;
+  /** Payments recorded against the campaign's invoices. */
+  paid: number;
+  /** Budget less committed spend; negative when overcommitted. */
+  remaining: number | null;
+  /** True when committed plus pending bookings exceed the budget. */
+  overcommitted: boolean;
+}
+
+/** One point of a budget burn-down: the budget left once bookings that have started are paid for. */
+export interface BurndownPoint {
+  date: string;
+  remaining: number;
+  /** Straight-line burn from the full budget at the campaign start to zero at its end. */
+  ideal: number | null;
+}
+
+export interface CampaignBudgetDetail extends CampaignBudget {
+  burndown: BurndownPoint[];
+}
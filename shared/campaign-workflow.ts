@@ -0,0 +1,89 @@
+/**
+ * @file Campaign approval workflow rules shared by the API and the client.
+ *
+ * Campaigns move draft → pending_approval → approved → in_progress → completed,
+ * and may be cancelled at any point before completion. A submitted campaign
+ * needs one approval per level whose budget threshold it meets, granted in
+ * level order by a holder of that level's role. The server applies these
+ * rules; the client uses them to decide which workflow buttons to show.
+ */
+
+import type { Campaign } from "./schema";
+import type { Role } from "./permissions";
+
+export type CampaignStatus = Campaign["status"];
+
+/** Workflow actions, each exposed as POST /api/campaigns/:id/<transition>. */
+export type CampaignTransition = "submit" | "approve" | "reject" | "start" | "complete" | "cancel";
+
+/** One level of sign-off, required when the campaign budget is at least `minBudget` (ZAR). */
+export interface ApprovalLevel {
+  level: number;
+  minBudget: number;
+  role: Role;
+}
+
+/**
+ * Default approval chain: every campaign needs department admin sign-off, and
+ * campaigns of R500 000 or more also need a finance officer. Overridden by the
+ * CAMPAIGN_APPROVAL_LEVELS environment variable.
+ */
+export const DEFAULT_APPROVAL_LEVELS: readonly ApprovalLevel[] = [
+  { level: 1, minBudget: 0, role: "department_admin" },
+  { level: 2, minBudget: 500000, role: "finance_officer" },
+];
+
+/**
+ * Statuses each transition may start from and the roles allowed to perform it.
+ * Approve and reject have no fixed roles: they belong to whoever holds the
+ * role of the level currently awaiting sign-off.
+ */
+export const campaignTransitions: Record<CampaignTransition, { from: readonly CampaignStatus[]; roles?: readonly Role[] }> = {
+  submit: { from: ["draft"], roles: ["department_admin", "campaign_planner"] },
+  approve: { from: ["pending_approval"] },
+  reject: { from: ["pending_approval"] },
+  start: { from: ["approved"], roles: ["department_admin", "campaign_planner"] },
+  complete: { from: ["in_progress"], roles: ["department_admin", "campaign_planner"] },
+  cancel: { from: ["draft", "pending_approval", "approved", "in_progress"], roles: ["department_admin", "campaign_planner"] },
+};
+
+/** Transitions that must be accompanied by a reason. */
+export const transitionsRequiringReason: readonly CampaignTransition[] = ["reject", "cancel"];
+
+/** Returns the approval levels that apply to a campaign's budget, in level order. */
+export function requiredApprovalLevels(
+  campaign: Pick<Campaign, "budget">,
+  levels: readonly ApprovalLevel[],
+): ApprovalLevel[] {
+  const budget = Number(campaign.budget ?? 0);
+  return levels.filter((l) => budget >= l.minBudget).sort((a, b) => a.level - b.level);
+}
+
+/** Returns the level awaiting sign-off on a pending campaign, or undefined if none is. */
+export function pendingApprovalLevel(
+  campaign: Pick<Campaign, "status" | "budget" | "approvalLevel">,
+  levels: readonly ApprovalLevel[],
+): ApprovalLevel | undefined {
+  if (campaign.status !== "pending_approval") return undefined;
+  return requiredApprovalLevels(campaign, levels)[campaign.approvalLevel];
+}
+
+/**
+ * Returns true if the role may perform the transition on the campaign in its
+ * current state. Segregation-of-duties checks that depend on who submitted or
+ * already approved the campaign are made by the server.
+ */
+export function canTransition(
+  campaign: Pick<Campaign, "status" | "budget" | "approvalLevel">,
+  transition: CampaignTransition,
+  role: Role | undefined,
+  levels: readonly ApprovalLevel[],
+): boolean {
+  if (!role) return false;
+  const rule = campaignTransitions[transition];
+  if (!rule.from.includes(campaign.status)) return false;
+  if (transition === "approve" || transition === "reject") {
+    return pendingApprovalLevel(campaign, levels)?.role === role;
+  }
+  return rule.roles?.includes(role) ?? false;
+}
@@ -0,0 +1,84 @@
+/**
+ * @file Supplier compliance rules shared by the API and the client.
+ *
+ * National Treasury requires a current SBD declaration and CSO certificate
+ * from every supplier on a campaign. A compliance document belongs to a
+ * supplier and either one campaign or, when it has no campaign, all of them;
+ * it counts once a reviewer has approved it and until it expires.
+ */
+
+import type { Document } from "./schema";
+
+/** Document types every supplier on a campaign must hold. */
+export const REQUIRED_COMPLIANCE_TYPES = ["compliance_sbd", "compliance_cso"] as const;
+
+export type ComplianceDocumentType = (typeof REQUIRED_COMPLIANCE_TYPES)[number];
+
+/** Worst first: "missing" outranks "expired", which outranks "expiring". */
+export type ComplianceStatus = "missing" | "expired" | "expiring" | "complete";
+
+const SEVERITY: ComplianceStatus[] = ["missing", "expired", "expiring", "complete"];
+
+/** Days before expiry at which a document is reported as expiring, unless configured otherwise. */
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+export function isComplianceType(type: string): type is ComplianceDocumentType {
+  return (REQUIRED_COMPLIANCE_TYPES as readonly string[]).includes(type);
+}
+
+/** The best document held for one required type. */
+export interface ComplianceItem {
+  type: ComplianceDocumentType;
+  status: ComplianceStatus;
+  documentId: string | null;
+  expiresAt: string | null;
+  /** True when a matching document has been uploaded but not yet approved. */
+  awaitingReview: boolean;
+}
+
+export interface SupplierCompliance {
+  supplierId: string;
+  campaignId: string;
+  status: ComplianceStatus;
+  items: ComplianceItem[];
+}
+
+/** True when bookings with the supplier may be approved: nothing missing or expired. */
+export function isCompliant(compliance: Pick<SupplierCompliance, "status">): boolean {
+  return compliance.status === "complete" || compliance.status === "expiring";
+}
+
+/**
+ * Works out a supplier's compliance for a campaign from its compliance
+ * documents. For each required type the approved document that expires last
+ * is used; `now` and `warningDays` decide whether it is expired or expiring.
+ */
+export function supplierCompliance(
+  supplierId: string,
+  campaignId: string,
+  documents: Document[],
+  now: Date,
+  warningDays: number,
+): SupplierCompliance {
+  const warnFrom = now.getTime() + warningDays * 24 * 60 * 60 * 1000;
+  const applicable = documents.filter(
+    (d) => d.supplierId === supplierId && (d.campaignId == null || d.campaignId === campaignId),
+  );
+
+  const items = REQUIRED_COMPLIANCE_TYPES.map((type): ComplianceItem => {
+    const ofType = applicable.filter((d) => d.type === type);
+    const approved = ofType
+      .filter((d) => d.status === "approved" && d.expiresAt)
+      .sort((a, b) => new Date(b.expiresAt!).getTime() - new Date(a.expiresAt!).getTime())[0];
+    const awaitingReview = ofType.some((d) => d.status === "uploaded" || d.status === "validated");
+    if (!approved) {
+      return { type, status: "missing", documentId: null, expiresAt: null, awaitingReview };
+    }
+    const expiresAt = new Date(approved.expiresAt!).getTime();
+    const status: ComplianceStatus = expiresAt < now.getTime() ? "expired" : expiresAt < warnFrom ? "expiring" : "complete";
+    return { type, status, documentId: approved.id, expiresAt: new Date(expiresAt).toISOString(), awaitingReview };
+  });
+
+  const status = SEVERITY.find((s) => items.some((item) => item.status === s)) ?? "complete";
+  return { supplierId, campaignId, status, items };
+}
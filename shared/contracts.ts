@@ -0,0 +1,80 @@
+/**
+ * @file Supplier contract rules and consumption figures shared by the API and the client.
+ *
+ * Every booking with a supplier falls under the supplier's active framework
+ * contract covering its dates. A contract's value is consumed by the cost
+ * (excluding VAT) of its approved, in-progress and completed bookings, and
+ * may not exceed the contract's ceiling. Warnings are raised as consumption
+ * crosses the configured thresholds (CONTRACT_WARNING_THRESHOLDS).
+ */
+
+import type { Booking, SupplierContract } from "./schema";
+import { COMMITTED_BOOKING_STATUSES } from "./budget";
+
+export type ContractStatus = SupplierContract["status"];
+
+/** Statuses a contract may move to from each status; terminated contracts stay terminated. */
+export const contractTransitions: Record<ContractStatus, readonly ContractStatus[]> = {
+  draft: ["active", "terminated"],
+  active: ["terminated"],
+  terminated: [],
+};
+
+/** Returns true if a booking in this status consumes contract value. */
+export function consumesContract(status: Booking["status"]): boolean {
+  return (COMMITTED_BOOKING_STATUSES as readonly string[]).includes(status);
+}
+
+/** Returns true if the two contracts' inclusive periods share at least one day. */
+export function periodsOverlap(
+  a: Pick<SupplierContract, "startDate" | "endDate">,
+  b: Pick<SupplierContract, "startDate" | "endDate">,
+): boolean {
+  return new Date(a.startDate) <= new Date(b.endDate) && new Date(b.startDate) <= new Date(a.endDate);
+}
+
+export interface ContractConsumption {
+  contractId: string;
+  ceiling: number;
+  /** Cost of the contract's approved, in-progress and completed bookings. */
+  consumed: number;
+  /** Ceiling less consumed; negative only if the ceiling was lowered below it. */
+  remaining: number;
+  /** Consumed as a percentage of the ceiling, to one decimal place. */
+  percentConsumed: number;
+  /** The highest warning threshold reached, or null when none has been. */
+  warningThreshold: number | null;
+}
+
+const percentOf = (consumed: number, ceiling: number) => (ceiling > 0 ? (consumed / ceiling) * 100 : 0);
+
+/** Consumption figures for a contract given the cost of its consuming bookings. */
+export function contractConsumption(
+  contract: Pick<SupplierContract, "id" | "ceilingValue">,
+  consumed: number,
+  thresholds: readonly number[],
+): ContractConsumption {
+  const ceiling = Number(contract.ceilingValue);
+  const percent = percentOf(consumed, ceiling);
+  const reached = thresholds.filter((t) => percent >= t);
+  return {
+    contractId: contract.id,
+    ceiling,
+    consumed: Math.round(consumed * 100) / 100,
+    remaining: Math.round((ceiling - consumed) * 100) / 100,
+    percentConsumed: Math.round(percent * 10) / 10,
+    warningThreshold: reached.length > 0 ? Math.max(...reached) : null,
+  };
+}
+
+/** Warning thresholds (percentages) that consumption moving from `previous` to `current` crossed upwards. */
+export function crossedThresholds(
+  previous: number,
+  current: number,
+  ceiling: number,
+  thresholds: readonly number[],
+): number[] {
+  const before = percentOf(previous, ceiling);
+  const after = percentOf(current, ceiling);
+  return thresholds.filter((t) => before < t && after >= t);
+}
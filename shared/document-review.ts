@@ -0,0 +1,39 @@
+/**
+ * @file Document review rules shared by the API and the client.
+ *
+ * Uploaded documents wait in the review queue as "uploaded" (not checked
+ * automatically) or "validated" (passed the artwork or proof checks) until a
+ * planner or admin approves or rejects them with a comment. A rejected
+ * document, whether rejected by a reviewer or by the automatic checks, can
+ * be corrected by uploading a new version, which supersedes it.
+ */
+
+import type { Document } from "./schema";
+
+export type DocumentStatus = "uploaded" | "validated" | "rejected" | "approved" | "superseded";
+
+/** Review decisions, each exposed as POST /api/documents/:id/<decision>. */
+export type DocumentReviewDecision = "approve" | "reject";
+
+/**
+ * Statuses each decision may be made from. A reviewer may approve a document
+ * the automatic checks rejected (e.g. a screen whose coordinates are wrong),
+ * but only once no newer version has replaced it.
+ */
+export const documentReviewTransitions: Record<DocumentReviewDecision, { from: readonly DocumentStatus[]; to: DocumentStatus }> = {
+  approve: { from: ["uploaded", "validated", "rejected"], to: "approved" },
+  reject: { from: ["uploaded", "validated"], to: "rejected" },
+};
+
+/** Statuses listed in the review queue. */
+export const AWAITING_REVIEW_STATUSES: readonly DocumentStatus[] = ["uploaded", "validated"];
+
+/** Returns true if the document is waiting for a reviewer. */
+export function isAwaitingReview(document: Pick<Document, "status">): boolean {
+  return (AWAITING_REVIEW_STATUSES as readonly string[]).includes(document.status);
+}
+
+/** Returns true if a corrected version of the document may be uploaded. */
+export function canResubmit(document: Pick<Document, "status">): boolean {
+  return document.status === "rejected";
+}
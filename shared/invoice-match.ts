@@ -0,0 +1,54 @@
+/**
+ * @file Three-way match of invoice lines against bookings and proof of flighting.
+ *
+ * Before an invoice is paid each line is checked against its booking (it
+ * must be approved), the booking's proof-of-flighting photos (verified
+ * photos must cover the booking period flighted so far) and the booked cost
+ * (the invoiced amount must agree within a tolerance). An invoice with an
+ * exception can only be paid once a finance officer records an override.
+ */
+
+/** Worst first: an exception outranks a partial match. */
+export type MatchStatus = "exception" | "partial" | "matched";
+
+export const MATCH_SEVERITY: readonly MatchStatus[] = ["exception", "partial", "matched"];
+
+export type MatchCheckRule = "booking" | "proof" | "amount";
+
+export interface MatchCheck {
+  rule: MatchCheckRule;
+  status: MatchStatus;
+  message: string;
+}
+
+export interface LineMatch {
+  lineId: string;
+  bookingId: string;
+  description: string;
+  status: MatchStatus;
+  checks: MatchCheck[];
+}
+
+export interface InvoiceMatchReport {
+  status: MatchStatus;
+  checkedAt: string;
+  /** Relative difference allowed between the invoiced amount and the booked cost, e.g. 0.01 for 1%. */
+  tolerance: number;
+  /** Length in days of each period of a booking that needs its own verified proof photo. */
+  proofIntervalDays: number;
+  lines: LineMatch[];
+  /** Messages of every check that did not match, for display and audit. */
+  reasons: string[];
+}
+
+/** The worst of the given statuses; "matched" when there are none. */
+export function worstMatchStatus(statuses: MatchStatus[]): MatchStatus {
+  return MATCH_SEVERITY.find((s) => statuses.includes(s)) ?? "matched";
+}
+
+/** Returns true if two reports reached the same outcome, ignoring when each was checked. */
+export function sameMatchOutcome(a: InvoiceMatchReport | null, b: InvoiceMatchReport | null): boolean {
+  if (!a || !b) return a === b;
+  const outcome = (report: InvoiceMatchReport) => JSON.stringify({ ...report, checkedAt: null });
+  return outcome(a) === outcome(b);
+}
@@ -0,0 +1,47 @@
+/**
+ * @file Invoice numbering and totals shared by the API and the client.
+ *
+ * Invoices are generated from a supplier's approved bookings on a campaign,
+ * one line per booking, and numbered sequentially within the government
+ * financial year (1 April to 31 March), e.g. INV-2026/27-0001. Credit notes
+ * have their own sequence in the same form, e.g. CN-2026/27-0001.
+ */
+
+import { COMMITTED_BOOKING_STATUSES } from "./budget";
+import { VAT_RATE } from "./pricing";
+
+/** Month (1-12) in which the financial year starts. */
+export const FINANCIAL_YEAR_START_MONTH = 4;
+
+/** Days allowed for payment when no due date is given. */
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+/** Booking statuses that may be invoiced: the same bookings that commit budget. */
+export const INVOICEABLE_BOOKING_STATUSES = COMMITTED_BOOKING_STATUSES;
+
+/** The financial year a date falls in, written "2026/27" for 1 April 2026 to 31 March 2027. */
+export function financialYearOf(date: Date): string {
+  const startYear = date.getUTCMonth() + 1 >= FINANCIAL_YEAR_START_MONTH ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `INV-${financialYear}-${String(sequence).padStart(4, "0")}`;
+}
+
+export function formatCreditNoteNumber(financialYear: string, sequence: number): string {
+  return `CN-${financialYear}-${String(sequence).padStart(4, "0")}`;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  vat: number;
+  total: number;
+}
+
+/** Adds up line amounts (excluding VAT) and applies VAT, working in cents. */
+export function invoiceTotals(lineAmounts: number[]): InvoiceTotals {
+  const subtotalCents = lineAmounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0);
+  const vatCents = Math.round(subtotalCents * VAT_RATE);
+  return { subtotal: subtotalCents / 100, vat: vatCents / 100, total: (subtotalCents + vatCents) / 100 };
+}
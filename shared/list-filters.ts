@@ -0,0 +1,92 @@
+/**
+ * @file Filters applied to the bookings, inventory, campaign and invoice lists.
+ *
+ * The list pages filter in the browser and pass the same values to the
+ * export endpoints, which apply these predicates on the server, so an export
+ * contains exactly the rows on screen. "all" or an empty value means no
+ * filter.
+ */
+
+import type { Booking, Campaign, Inventory, Invoice } from "./schema";
+
+/** Value of a select filter that matches every row. */
+export const ALL = "all";
+
+const isSet = (value: string | undefined): value is string => !!value && value !== ALL;
+
+const contains = (text: string | null | undefined, search: string) =>
+  (text ?? "").toLowerCase().includes(search.toLowerCase());
+
+export interface BookingFilter {
+  search?: string;
+  status?: string;
+  campaignId?: string;
+}
+
+/** Matches bookings on site, location or media type and on status. */
+export function bookingMatches(booking: Booking, filter: BookingFilter): boolean {
+  const search = filter.search?.trim();
+  const matchesSearch =
+    !search ||
+    contains(booking.siteDescription, search) ||
+    contains(booking.location, search) ||
+    contains(booking.mediaType, search);
+  return (
+    matchesSearch &&
+    (!isSet(filter.status) || booking.status === filter.status) &&
+    (!isSet(filter.campaignId) || booking.campaignId === filter.campaignId)
+  );
+}
+
+export interface InventoryFilter {
+  search?: string;
+  region?: string;
+  status?: string;
+  screenType?: string;
+  supplierId?: string;
+}
+
+/** Matches screens on name or location and on region, status, screen type and supplier. */
+export function inventoryMatches(item: Inventory, filter: InventoryFilter): boolean {
+  const search = filter.search?.trim();
+  const matchesSearch = !search || contains(item.screenName, search) || contains(item.location, search);
+  return (
+    matchesSearch &&
+    (!isSet(filter.region) || item.region === filter.region) &&
+    (!isSet(filter.status) || item.status === filter.status) &&
+    (!isSet(filter.screenType) || item.screenType === filter.screenType) &&
+    (!isSet(filter.supplierId) || item.supplierId === filter.supplierId)
+  );
+}
+
+export interface CampaignFilter {
+  status?: string;
+}
+
+export function campaignMatches(campaign: Campaign, filter: CampaignFilter): boolean {
+  return !isSet(filter.status) || campaign.status === filter.status;
+}
+
+export interface InvoiceFilter {
+  status?: string;
+  campaignId?: string;
+  supplierId?: string;
+}
+
+export function invoiceMatches(invoice: Invoice, filter: InvoiceFilter): boolean {
+  return (
+    (!isSet(filter.status) || invoice.status === filter.status) &&
+    (!isSet(filter.campaignId) || invoice.campaignId === filter.campaignId) &&
+    (!isSet(filter.supplierId) || invoice.supplierId === filter.supplierId)
+  );
+}
+
+/** Query string for an export endpoint, leaving out unset filters. */
+export function filterQuery(filter: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (typeof value === "string" && value.trim() && value !== ALL) params.set(key, value.trim());
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
@@ -0,0 +1,88 @@
+/**
+ * @file Invoice payment status, supplier statements and PFMA
+ * payment-compliance figures.
+ *
+ * The PFMA (Treasury Regulation 8.2.3) requires suppliers to be paid within
+ * 30 days of receiving their invoice; an invoice's issue date is taken as
+ * the day it was received. Amounts are VAT-inclusive ZAR.
+ */
+
+import type { Invoice } from "./schema";
+
+/** Days within which an invoice must be paid. */
+export const PFMA_PAYMENT_DAYS = 30;
+
+/** Below half a cent a balance counts as settled. */
+const SETTLED_EPSILON = 0.005;
+
+/** What is still owed on an invoice once payments and credit notes are taken off; never negative. */
+export function invoiceBalance(invoice: Pick<Invoice, "amount" | "amountPaid" | "amountCredited">): number {
+  const owed = Number(invoice.amount) - Number(invoice.amountPaid ?? 0) - Number(invoice.amountCredited ?? 0);
+  return Math.max(0, Math.round(owed * 100) / 100);
+}
+
+/**
+ * The status an invoice has given what has been paid and credited and
+ * today's date: cancelled once credit notes reverse all of it, paid once the
+ * balance is settled, overdue once issued and past its due date, otherwise
+ * partially paid or as issued.
+ */
+export function derivedInvoiceStatus(
+  invoice: Pick<Invoice, "status" | "amount" | "amountPaid" | "amountCredited" | "dueDate">,
+  today: Date,
+): Invoice["status"] {
+  const paid = Number(invoice.amountPaid ?? 0);
+  if (Number(invoice.amount) - Number(invoice.amountCredited ?? 0) < SETTLED_EPSILON) return "cancelled";
+  if (invoiceBalance(invoice) < SETTLED_EPSILON) return "paid";
+  if (invoice.status === "draft" && paid === 0) return "draft";
+  if (invoice.dueDate && new Date(invoice.dueDate).getTime() < today.getTime()) return "overdue";
+  return paid > 0 ? "partially_paid" : "sent";
+}
+
+export interface MonthlySpend {
+  /** "2026-02" */
+  month: string;
+  amount: number;
+}
+
+/** Days-to-pay figures for one supplier's invoices. */
+export interface SupplierPaymentCompliance {
+  supplierId: string;
+  supplierName: string;
+  paidInvoices: number;
+  /** Average days from issue to final payment, or null when nothing has been paid. */
+  averageDaysToPay: number | null;
+  paidWithinTerms: number;
+  paidLate: number;
+  /** Unpaid invoices issued more than PFMA_PAYMENT_DAYS ago. */
+  unpaidPastTerms: number;
+  /** Share of paid invoices paid within terms, from 0 to 1; null when nothing has been paid. */
+  complianceRate: number | null;
+}
+
+export interface InvoiceReport {
+  /** Invoiced is net of credit notes, which are also given separately. */
+  totals: { invoiced: number; credited: number; paid: number; outstanding: number; overdue: number; overdueCount: number };
+  /** Payments made in each of the last twelve months, oldest first. */
+  monthlySpend: MonthlySpend[];
+  paymentCompliance: SupplierPaymentCompliance[];
+}
+
+/** One line of a supplier statement; invoices are debits, credit notes and payments credits. */
+export interface StatementEntry {
+  date: string;
+  type: "invoice" | "credit_note" | "payment";
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  /** Amount owed to the supplier after this entry. */
+  balance: number;
+}
+
+export interface SupplierStatement {
+  supplierId: string;
+  supplierName: string;
+  entries: StatementEntry[];
+  totals: { invoiced: number; credited: number; paid: number; balance: number };
+}
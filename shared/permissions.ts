@@ -0,0 +1,159 @@
+/**
+ * @file Role-based access control and MFA policy shared by the API and the client.
+ *
+ * The server enforces this table on every route via the `authorize`
+ * middleware, and the client uses the same table to decide which navigation
+ * entries and actions to show, so the UI can never offer something the API
+ * would refuse.
+ */
+
+import type { User } from "./schema";
+
+/** One of the six roles defined by `userRoleEnum`. */
+export type Role = User["role"];
+
+/** Protected resources, roughly one per API route group. */
+export type Resource =
+  | "dashboard"
+  | "campaigns"
+  | "bookings"
+  | "booking_responses"
+  | "inventory"
+  | "pricing"
+  | "documents"
+  | "invoices"
+  | "budgets"
+  | "suppliers"
+  | "supplier_onboarding"
+  | "contracts"
+  | "users"
+  | "supplier_users"
+  | "audit"
+  | "system";
+
+/** Operations that can be performed on a resource. */
+export type Action = "read" | "create" | "update" | "delete";
+
+type Policy = Partial<Record<Resource, readonly Action[]>>;
+
+const FULL: readonly Action[] = ["read", "create", "update", "delete"];
+const READ: readonly Action[] = ["read"];
+
+/**
+ * Permission table mapping each role to the actions it may perform per resource.
+ * Anything not listed is denied. Auditors are strictly read-only, and only
+ * finance officers and department admins may write invoices. Discounts and
+ * surcharges ("pricing") are managed by supplier admins for their own screens,
+ * and campaign budget figures are not shown to suppliers. Reviewing documents
+ * ("documents" update) is for planners and department admins. Suppliers
+ * answer bookings made with them ("booking_responses") but cannot edit them.
+ * Supplier admins manage their own supplier's staff ("supplier_users") and
+ * fill in its onboarding details ("supplier_onboarding"), which department
+ * admins and finance officers verify. Supplier contracts and their rate
+ * cards ("contracts") are recorded by department admins and finance officers;
+ * suppliers see only their own.
+ * The audit trail is read-only for everyone; it is only ever written by the
+ * server itself.
+ */
+export const rolePermissions: Record<Role, Policy> = {
+  department_admin: {
+    dashboard: READ,
+    campaigns: FULL,
+    bookings: FULL,
+    inventory: FULL,
+    pricing: FULL,
+    documents: FULL,
+    invoices: FULL,
+    budgets: READ,
+    suppliers: FULL,
+    supplier_onboarding: ["read", "update"],
+    contracts: ["read", "create", "update"],
+    users: FULL,
+    audit: READ,
+    system: FULL,
+  },
+  campaign_planner: {
+    dashboard: READ,
+    campaigns: ["read", "create", "update"],
+    bookings: ["read", "create", "update"],
+    inventory: READ,
+    pricing: READ,
+    documents: ["read", "create", "update"],
+    budgets: READ,
+    suppliers: READ,
+    contracts: READ,
+  },
+  finance_officer: {
+    dashboard: READ,
+    campaigns: READ,
+    bookings: READ,
+    pricing: READ,
+    documents: READ,
+    invoices: ["read", "create", "update"],
+    budgets: READ,
+    suppliers: READ,
+    supplier_onboarding: ["read", "update"],
+    contracts: ["read", "create", "update"],
+  },
+  supplier_admin: {
+    dashboard: READ,
+    campaigns: READ,
+    bookings: READ,
+    booking_responses: ["read", "update"],
+    inventory: FULL,
+    pricing: FULL,
+    documents: ["read", "create"],
+    suppliers: READ,
+    supplier_onboarding: ["read", "update"],
+    contracts: READ,
+    supplier_users: ["read", "create", "update"],
+  },
+  supplier_user: {
+    dashboard: READ,
+    campaigns: READ,
+    bookings: READ,
+    booking_responses: ["read", "update"],
+    inventory: ["read", "create", "update"],
+    pricing: READ,
+    documents: ["read", "create"],
+    suppliers: READ,
+    contracts: READ,
+  },
+  auditor: {
+    dashboard: READ,
+    campaigns: READ,
+    bookings: READ,
+    inventory: READ,
+    pricing: READ,
+    documents: READ,
+    invoices: READ,
+    budgets: READ,
+    suppliers: READ,
+    supplier_onboarding: READ,
+    contracts: READ,
+    users: READ,
+    audit: READ,
+  },
+};
+
+/** Roles of supplier staff; the only roles supplier admins may give their users. */
+export const supplierRoles: readonly Role[] = ["supplier_admin", "supplier_user"];
+
+/** Returns true if the role is permitted to perform the action on the resource. */
+export function can(role: Role | undefined, resource: Resource, action: Action): boolean {
+  if (!role) return false;
+  return rolePermissions[role]?.[resource]?.includes(action) ?? false;
+}
+
+/**
+ * Roles that must complete TOTP multi-factor authentication on every
+ * password sign-in. Users holding these roles are made to enrol on their
+ * first sign-in after the policy applies to them. Single sign-on users are
+ * exempt because the identity provider enforces its own MFA.
+ */
+export const mfaRequiredRoles: readonly Role[] = ["department_admin", "finance_officer"];
+
+/** Returns true if the role must use multi-factor authentication. */
+export function requiresMfa(role: Role | undefined): boolean {
+  return !!role && mfaRequiredRoles.includes(role);
+}
@@ -0,0 +1,61 @@
+/**
+ * @file Quote types produced by the pricing engine and shown by the client.
+ *
+ * Amounts are in ZAR, rounded to the cent. A quote lists the rate-card units
+ * chosen to cover the booking (monthly, weekly, daily), then each discount or
+ * surcharge applied, then VAT on the adjusted subtotal.
+ */
+
+/** South African VAT rate applied to all quotes. */
+export const VAT_RATE = 0.15;
+
+/** Days covered by one unit of each rate-card period. */
+export const RATE_UNIT_DAYS = { monthly: 30, weekly: 7, daily: 1 } as const;
+
+export type RateUnit = keyof typeof RATE_UNIT_DAYS;
+
+/** A block of rate-card units, e.g. 2 × monthly at R60 000. */
+export interface QuoteRateLine {
+  unit: RateUnit;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/** A discount (negative amount) or surcharge (positive amount) applied to part or all of the booking. */
+export interface QuoteAdjustmentLine {
+  adjustmentId: string;
+  kind: "discount" | "surcharge";
+  name: string;
+  percentage: number;
+  /** Booked days the adjustment applied to. */
+  days: number;
+  amount: number;
+}
+
+/** The supplier contract a quote falls under. */
+export interface QuoteContract {
+  contractId: string;
+  contractNumber: string;
+  /** True when the contract's negotiated rates replaced the screen's list rates. */
+  negotiatedRates: boolean;
+}
+
+export interface Quote {
+  inventoryId: string;
+  startDate: string;
+  endDate: string;
+  /** Booked days, counting both the start and end date. */
+  days: number;
+  rateLines: QuoteRateLine[];
+  /** Cost of the rate lines before adjustments. */
+  baseAmount: number;
+  adjustments: QuoteAdjustmentLine[];
+  subtotal: number;
+  vatRate: number;
+  vat: number;
+  total: number;
+  /** The active contract covering the booking, or null when there is none (absent on older quotes). */
+  contract?: QuoteContract | null;
+  quotedAt: string;
+}
@@ -7,9 +7,19 @@
  */
 
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, decimal, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, timestamp, decimal, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { Quote } from "./pricing";
+import type { ArtworkValidationReport } from "./artwork";
+import type { InvoiceMatchReport } from "./invoice-match";
+import {
+  CSD_NUMBER_PATTERN,
+  REGISTRATION_NUMBER_PATTERN,
+  VAT_NUMBER_PATTERN,
+  BANK_ACCOUNT_NUMBER_PATTERN,
+  BRANCH_CODE_PATTERN,
+} from "./supplier-onboarding";
 
 /** Defines the set of roles a user can hold within the system. */
 export const userRoleEnum = pgEnum("user_role", [
@@ -40,12 +50,49 @@ export const bookingStatusEnum = pgEnum("booking_status", [
   "completed",
 ]);
 
+/**
+ * Where a booking stands with its supplier (see shared/booking-negotiation.ts):
+ * waiting for a response, accepted, declined, or answered with a
+ * counter-offer the planner has yet to decide on.
+ */
+export const supplierResponseEnum = pgEnum("supplier_response", ["awaiting", "accepted", "declined", "countered"]);
+
+/** Steps in the negotiation of a booking between its supplier and the planner. */
+export const negotiationActionEnum = pgEnum("negotiation_action", [
+  "accept",
+  "decline",
+  "counter",
+  "accept_counter",
+  "reject_counter",
+]);
+
+/**
+ * Invoice statuses. Draft and sent are set by finance; partially_paid and
+ * paid follow from recorded payments, cancelled from credit notes reversing
+ * the whole invoice, and overdue is derived on read from the due date (see
+ * shared/payments.ts).
+ */
+export const invoiceStatusEnum = pgEnum("invoice_status", [
+  "draft",
+  "sent",
+  "partially_paid",
+  "paid",
+  "overdue",
+  "cancelled",
+]);
+
+/** How a payment was made. */
+export const paymentMethodEnum = pgEnum("payment_method", ["eft", "cheque", "card", "other"]);
+
 /** Categorises documents uploaded to the system (artwork, proofs, compliance, invoices). */
 export const documentTypeEnum = pgEnum("document_type", [
   "artwork",
   "proof_of_flighting",
   "compliance_sbd",
   "compliance_cso",
+  "bbbee_certificate",
+  "tax_clearance",
+  "bank_confirmation",
   "invoice",
   "other",
 ]);
@@ -53,6 +100,10 @@ export const documentTypeEnum = pgEnum("document_type", [
 /**
  * System users including government staff and supplier personnel.
  * Each user is assigned a role and may optionally be linked to a supplier.
+ * Users signing in through OpenID Connect carry the identity provider's
+ * stable subject identifier in externalId. TOTP multi-factor state is kept
+ * alongside the account: the shared secret, SHA-256 hashes of unused recovery
+ * codes, and the last accepted time step (to reject code replay).
  */
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -63,11 +114,56 @@ export const users = pgTable("users", {
   role: userRoleEnum("role").notNull().default("campaign_planner"),
   supplierId: varchar("supplier_id"),
   active: boolean("active").notNull().default(true),
+  externalId: text("external_id").unique(),
+  mfaEnabled: boolean("mfa_enabled").notNull().default(false),
+  mfaSecret: text("mfa_secret"),
+  mfaRecoveryCodes: text("mfa_recovery_codes").array(),
+  mfaLastUsedStep: integer("mfa_last_used_step"),
 });
 
+/** Where a supplier stands in onboarding (see shared/supplier-onboarding.ts); only verified suppliers can be booked. */
+export const supplierOnboardingStatusEnum = pgEnum("supplier_onboarding_status", [
+  "draft",
+  "submitted",
+  "verified",
+  "suspended",
+]);
+
+/** Steps that move a supplier between onboarding statuses. */
+export const supplierOnboardingActionEnum = pgEnum("supplier_onboarding_action", [
+  "submit",
+  "verify",
+  "return",
+  "suspend",
+  "reinstate",
+]);
+
+/** B-BBEE contributor levels, from a supplier's verification certificate or affidavit. */
+export const bbbeeLevelEnum = pgEnum("bbbee_level", [
+  "level_1",
+  "level_2",
+  "level_3",
+  "level_4",
+  "level_5",
+  "level_6",
+  "level_7",
+  "level_8",
+  "non_compliant",
+]);
+
+/** A supplier's tax compliance status as reported by SARS. */
+export const taxComplianceStatusEnum = pgEnum("tax_compliance_status", ["compliant", "non_compliant"]);
+
+/** Review state of a requested change to a supplier's banking details. */
+export const bankChangeStatusEnum = pgEnum("bank_change_status", ["pending", "verified", "rejected"]);
+
 /**
  * OOH media suppliers who own and manage advertising inventory.
  * Referenced by users (supplier staff), bookings, invoices, and inventory.
+ * The VAT number and banking details are printed on the supplier's invoices.
+ * The CSD, registration, B-BBEE and tax fields are captured during
+ * onboarding; banking details only change through a verified
+ * supplier_bank_changes request.
  */
 export const suppliers = pgTable("suppliers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -76,13 +172,111 @@ export const suppliers = pgTable("suppliers", {
   email: text("email").notNull(),
   phone: text("phone"),
   address: text("address"),
+  vatNumber: text("vat_number"),
+  bankName: text("bank_name"),
+  bankAccountNumber: text("bank_account_number"),
+  bankBranchCode: text("bank_branch_code"),
+  csdNumber: text("csd_number").unique(),
+  registrationNumber: text("registration_number"),
+  bbbeeLevel: bbbeeLevelEnum("bbbee_level"),
+  bbbeeExpiresAt: timestamp("bbbee_expires_at"),
+  taxComplianceStatus: taxComplianceStatusEnum("tax_compliance_status"),
+  taxComplianceExpiresAt: timestamp("tax_compliance_expires_at"),
+  onboardingStatus: supplierOnboardingStatusEnum("onboarding_status").notNull().default("draft"),
   active: boolean("active").notNull().default(true),
 });
 
+/**
+ * History of a supplier's onboarding: who submitted, verified, returned,
+ * suspended or reinstated it, the status it moved from and to, and the
+ * comment given.
+ */
+export const supplierOnboardingReviews = pgTable("supplier_onboarding_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  action: supplierOnboardingActionEnum("action").notNull(),
+  fromStatus: supplierOnboardingStatusEnum("from_status").notNull(),
+  toStatus: supplierOnboardingStatusEnum("to_status").notNull(),
+  actorId: varchar("actor_id").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Requested changes to a supplier's banking details, each backed by a bank
+ * confirmation letter (documentId). A change is copied onto the supplier
+ * only when someone other than the requester verifies it; a supplier has at
+ * most one pending change.
+ */
+export const supplierBankChanges = pgTable("supplier_bank_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  bankName: text("bank_name").notNull(),
+  bankAccountNumber: text("bank_account_number").notNull(),
+  bankBranchCode: text("bank_branch_code").notNull(),
+  documentId: varchar("document_id").notNull(),
+  status: bankChangeStatusEnum("status").notNull().default("pending"),
+  requestedBy: varchar("requested_by").notNull(),
+  requestedAt: timestamp("requested_at").notNull().defaultNow(),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  comment: text("comment"),
+});
+
+/** Lifecycle of a supplier contract: only active contracts can be booked against. */
+export const contractStatusEnum = pgEnum("contract_status", ["draft", "active", "terminated"]);
+
+/**
+ * Framework contracts signed with a supplier. Bookings with the supplier
+ * must fall inside the dates of an active contract (contractId on the
+ * booking), and the cost of its approved, in-progress and completed
+ * bookings may not exceed the ceiling value (ZAR, excluding VAT). A
+ * supplier has at most one active contract covering any given day.
+ */
+export const supplierContracts = pgTable("supplier_contracts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  contractNumber: text("contract_number").notNull().unique(),
+  title: text("title").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  ceilingValue: decimal("ceiling_value", { precision: 14, scale: 2 }).notNull(),
+  terms: text("terms"),
+  status: contractStatusEnum("status").notNull().default("draft"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * A contract's negotiated rate card: rates for one of the supplier's screens
+ * that replace the screen's list rates when a booking falls under the
+ * contract. A contract has at most one rate per screen.
+ */
+export const contractRates = pgTable("contract_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull(),
+  inventoryId: varchar("inventory_id").notNull(),
+  dailyRate: decimal("daily_rate", { precision: 10, scale: 2 }).notNull(),
+  weeklyRate: decimal("weekly_rate", { precision: 10, scale: 2 }),
+  monthlyRate: decimal("monthly_rate", { precision: 12, scale: 2 }),
+});
+
+/** Workflow actions that move a campaign between statuses. */
+export const campaignTransitionEnum = pgEnum("campaign_transition", [
+  "submit",
+  "approve",
+  "reject",
+  "start",
+  "complete",
+  "cancel",
+]);
+
 /**
  * Advertising campaigns created by government departments.
  * A campaign groups one or more bookings and tracks budget, timeline, and region.
  * Related to bookings, documents, and invoices via campaignId.
+ * Status only changes through the approval workflow; approvalLevel counts the
+ * approvals granted since the campaign was last submitted.
  */
 export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -94,32 +288,126 @@ export const campaigns = pgTable("campaigns", {
   endDate: timestamp("end_date"),
   region: text("region"),
   targetReach: integer("target_reach"),
+  approvalLevel: integer("approval_level").notNull().default(0),
+  submittedBy: varchar("submitted_by"),
+  submittedAt: timestamp("submitted_at"),
   createdBy: varchar("created_by").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+/**
+ * History of every workflow transition applied to a campaign: who moved it,
+ * from which status to which, the approval level granted (for approvals),
+ * and the comment or rejection reason given.
+ */
+export const campaignApprovals = pgTable("campaign_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull(),
+  transition: campaignTransitionEnum("transition").notNull(),
+  fromStatus: campaignStatusEnum("from_status").notNull(),
+  toStatus: campaignStatusEnum("to_status").notNull(),
+  level: integer("level"),
+  actorId: varchar("actor_id").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 /**
  * Individual site bookings within a campaign, placed with a specific supplier.
  * Links a campaign to a supplier's OOH site and tracks cost, schedule, and status.
+ * New bookings reference the inventory screen they occupy; a screen cannot
+ * hold two non-rejected bookings whose date ranges overlap. Site description,
+ * location and media type are copied from the screen when it is booked.
+ * The cost of a screen booking is calculated by the pricing engine and the
+ * quote it was based on is kept alongside it.
  */
 export const bookings = pgTable("bookings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   campaignId: varchar("campaign_id").notNull(),
   supplierId: varchar("supplier_id").notNull(),
+  inventoryId: varchar("inventory_id"),
+  contractId: varchar("contract_id"),
   siteDescription: text("site_description").notNull(),
   location: text("location"),
   mediaType: text("media_type"),
   cost: decimal("cost", { precision: 12, scale: 2 }),
+  quote: jsonb("quote").$type<Quote>(),
   status: bookingStatusEnum("status").notNull().default("pending"),
+  supplierResponse: supplierResponseEnum("supplier_response").notNull().default("awaiting"),
   startDate: timestamp("start_date"),
   endDate: timestamp("end_date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+/**
+ * History of a booking's negotiation: each supplier response and planner
+ * decision, the supplier response it moved from and to, and the comment
+ * given. A counter-offer records the proposed screen, dates and price
+ * (excluding VAT); fields left null keep the booking's current value.
+ */
+export const bookingNegotiations = pgTable("booking_negotiations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  action: negotiationActionEnum("action").notNull(),
+  fromResponse: text("from_response").notNull(),
+  toResponse: text("to_response").notNull(),
+  actorId: varchar("actor_id").notNull(),
+  comment: text("comment"),
+  proposedInventoryId: varchar("proposed_inventory_id"),
+  proposedStartDate: timestamp("proposed_start_date"),
+  proposedEndDate: timestamp("proposed_end_date"),
+  proposedCost: decimal("proposed_cost", { precision: 12, scale: 2 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/** In-app messages to a user, e.g. a planner told that a supplier has responded to a booking. */
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Invitations from supplier admins to join their supplier. The link carries a
+ * random token of which only the SHA-256 hash is stored. Accepting it before
+ * `expiresAt` creates the user with the username and password they choose;
+ * an invitation is used once and can be revoked while pending.
+ */
+export const userInvitations = pgTable("user_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  email: text("email").notNull(),
+  fullName: text("full_name").notNull(),
+  role: userRoleEnum("role").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  invitedBy: varchar("invited_by").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: varchar("accepted_user_id"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/** Largest document file accepted for upload, in bytes (5 MB). */
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
 /**
  * Documents attached to campaigns or bookings, such as artwork files,
  * proof-of-flighting photos, compliance records, and invoices.
- * Optionally stores GPS coordinates for geotagged evidence.
+ * Proof-of-flighting photos carry the GPS position and capture time read from
+ * their EXIF data; artwork uploaded against a booking carries the report of its
+ * validation against the booked screen (see shared/artwork.ts).
+ * rejectionReason says why a document was rejected. A corrected upload is a
+ * new row with the next version number whose supersedesId points at the
+ * rejected one, which then becomes "superseded" (see shared/document-review.ts).
+ * SBD and CSO compliance documents name the supplier they belong to and the
+ * period they are valid for (see shared/compliance.ts).
+ * The file itself is kept in the blob store under storageKey; sha256 is the
+ * hex SHA-256 of its contents. Both are null for metadata-only legacy rows.
  */
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -129,27 +417,137 @@ export const documents = pgTable("documents", {
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
   mimeType: text("mime_type"),
+  storageKey: text("storage_key"),
+  sha256: text("sha256"),
   status: text("status").notNull().default("uploaded"),
   gpsLatitude: text("gps_latitude"),
   gpsLongitude: text("gps_longitude"),
   capturedAt: timestamp("captured_at"),
+  rejectionReason: text("rejection_reason"),
+  validationReport: jsonb("validation_report").$type<ArtworkValidationReport>(),
+  version: integer("version").notNull().default(1),
+  supersedesId: varchar("supersedes_id"),
+  supplierId: varchar("supplier_id"),
+  issuedAt: timestamp("issued_at"),
+  expiresAt: timestamp("expires_at"),
   uploadedBy: varchar("uploaded_by").notNull(),
   uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
 });
 
+/** The decisions a reviewer can make on a document. */
+export const documentReviewDecisionEnum = pgEnum("document_review_decision", [
+  "approve",
+  "reject",
+]);
+
+/**
+ * History of review decisions on documents: who approved or rejected which
+ * version, the status it moved from and to, and the reviewer's comment,
+ * which is required.
+ */
+export const documentReviews = pgTable("document_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull(),
+  decision: documentReviewDecisionEnum("decision").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  actorId: varchar("actor_id").notNull(),
+  comment: text("comment").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 /**
  * Financial invoices raised against campaigns, optionally linked to a supplier.
  * Tracks amounts, payment status, issue dates, and due dates.
+ * Invoices generated from bookings carry their lines in invoice_lines, with
+ * subtotal and VAT stored alongside amount (the VAT-inclusive total), and are
+ * numbered by financialYear and sequence (see shared/invoicing.ts).
+ * matchReport holds the latest three-way match against bookings and proof of
+ * flighting; a finance officer's override lets an invoice with exceptions be paid.
+ * amountPaid is the total of the invoice's payments and amountCredited the
+ * total of its credit notes. Once issued an invoice is never edited; it is
+ * corrected or cancelled with credit notes.
  */
 export const invoices = pgTable("invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   campaignId: varchar("campaign_id").notNull(),
   supplierId: varchar("supplier_id"),
   invoiceNumber: text("invoice_number").notNull().unique(),
+  financialYear: text("financial_year"),
+  sequence: integer("sequence"),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }),
+  vatAmount: decimal("vat_amount", { precision: 12, scale: 2 }),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
-  status: text("status").notNull().default("draft"),
+  status: invoiceStatusEnum("status").notNull().default("draft"),
+  amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull().default("0"),
+  amountCredited: decimal("amount_credited", { precision: 12, scale: 2 }).notNull().default("0"),
   issuedAt: timestamp("issued_at"),
   dueDate: timestamp("due_date"),
+  matchStatus: text("match_status"),
+  matchReport: jsonb("match_report").$type<InvoiceMatchReport>(),
+  matchOverrideBy: varchar("match_override_by"),
+  matchOverrideReason: text("match_override_reason"),
+  matchOverriddenAt: timestamp("match_overridden_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * One invoiced booking: the site, the booked period, the number of days and
+ * the average daily rate, and the booking's cost (excluding VAT) as the line
+ * amount. A booking can appear on only one invoice line that has not been
+ * fully credited.
+ */
+export const invoiceLines = pgTable("invoice_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull(),
+  bookingId: varchar("booking_id").notNull(),
+  description: text("description").notNull(),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  units: integer("units").notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+});
+
+/**
+ * A credit note reversing all or part of an issued invoice. It has its own
+ * number sequence per financial year (CN-2026/27-0001) and, like an
+ * invoice, a subtotal, VAT and VAT-inclusive amount.
+ */
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteNumber: text("credit_note_number").notNull().unique(),
+  financialYear: text("financial_year").notNull(),
+  sequence: integer("sequence").notNull(),
+  invoiceId: varchar("invoice_id").notNull(),
+  campaignId: varchar("campaign_id").notNull(),
+  supplierId: varchar("supplier_id"),
+  reason: text("reason").notNull(),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 12, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  createdBy: varchar("created_by").notNull(),
+});
+
+/** The amount (excluding VAT) a credit note reverses on one invoice line. */
+export const creditNoteLines = pgTable("credit_note_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteId: varchar("credit_note_id").notNull(),
+  invoiceLineId: varchar("invoice_line_id").notNull(),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+});
+
+/** A payment against an invoice; an invoice may be settled by several partial payments. */
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull(),
+  paidOn: timestamp("paid_on").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  reference: text("reference").notNull(),
+  method: paymentMethodEnum("method").notNull().default("eft"),
+  recordedBy: varchar("recorded_by").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -165,6 +563,9 @@ export const inventoryStatusEnum = pgEnum("inventory_status", [
  * Supplier-owned OOH advertising inventory (screens and sites).
  * Stores physical attributes, location data, pricing tiers, and availability.
  * Referenced by bookings when a site is reserved for a campaign.
+ * Only "available" and "maintenance" are stored; when read, an in-service
+ * screen reports "booked" or "reserved" while an approved or pending booking
+ * covers today (see DatabaseStorage.withBookingStatus).
  */
 export const inventory = pgTable("inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -192,29 +593,389 @@ export const inventory = pgTable("inventory", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+/** Whether a pricing adjustment reduces or increases the price. */
+export const pricingAdjustmentKindEnum = pgEnum("pricing_adjustment_kind", [
+  "discount",
+  "surcharge",
+]);
+
+/**
+ * Supplier-defined percentage discounts and surcharges applied by the pricing
+ * engine. An adjustment covers all of the supplier's screens unless
+ * inventoryId is set, applies only to booked days inside its optional date
+ * window (e.g. a festive-season surcharge), and only to bookings of at least
+ * minDays days when that is set (e.g. a long-booking discount).
+ */
+export const pricingAdjustments = pgTable("pricing_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  inventoryId: varchar("inventory_id"),
+  kind: pricingAdjustmentKindEnum("kind").notNull(),
+  name: text("name").notNull(),
+  percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(),
+  startDate: timestamp("start_date"),
+  endDate: timestamp("end_date"),
+  minDays: integer("min_days"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Append-only, tamper-evident audit trail of security-relevant and mutating
+ * actions. Each row stores the SHA-256 hash of the previous row (prevHash) and
+ * its own hash over its content plus prevHash, forming a chain in `sequence`
+ * order: editing or deleting any row breaks every hash after it.
+ */
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: serial("sequence").notNull().unique(),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  actorId: varchar("actor_id"),
+  actorUsername: text("actor_username"),
+  actorRole: text("actor_role"),
+  ipAddress: text("ip_address"),
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  changes: jsonb("changes"),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+});
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
 /** Insert schema and types for the inventory table (excludes auto-generated id and updatedAt). */
 export const insertInventorySchema = createInsertSchema(inventory).omit({ id: true, updatedAt: true });
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
+
+/** Request body for changing a screen; it cannot be moved to another supplier. */
+export const inventoryUpdateSchema = insertInventorySchema.omit({ supplierId: true }).partial().strict();
 export type Inventory = typeof inventory.$inferSelect;
 
+/** Insert schema for pricing adjustments; percentages are 0–100 and date windows may not be inverted. */
+export const insertPricingAdjustmentSchema = createInsertSchema(pricingAdjustments, {
+  percentage: z.coerce.number().gt(0).max(100).transform(String),
+  startDate: z.coerce.date().nullish(),
+  endDate: z.coerce.date().nullish(),
+  minDays: z.number().int().positive().nullish(),
+})
+  .omit({ id: true, createdAt: true })
+  .refine((a) => !a.startDate || !a.endDate || a.endDate >= a.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+export type InsertPricingAdjustment = z.infer<typeof insertPricingAdjustmentSchema>;
+export type PricingAdjustment = typeof pricingAdjustments.$inferSelect;
+
+/**
+ * Insert schema for suppliers. CSD, company registration and VAT numbers
+ * must be in their official formats (see shared/supplier-onboarding.ts).
+ */
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  email: z.string().trim().email(),
+  vatNumber: z.string().trim().regex(VAT_NUMBER_PATTERN, "VAT numbers have 10 digits starting with 4").nullish(),
+  csdNumber: z.string().trim().toUpperCase().regex(CSD_NUMBER_PATTERN, "CSD numbers are MAAA followed by 7 digits").nullish(),
+  registrationNumber: z
+    .string()
+    .trim()
+    .regex(REGISTRATION_NUMBER_PATTERN, "Registration numbers look like 2001/123456/07")
+    .nullish(),
+  bbbeeExpiresAt: z.coerce.date().nullish(),
+  taxComplianceExpiresAt: z.coerce.date().nullish(),
+}).omit({ id: true });
+
+/**
+ * Request body for a department admin registering or editing a supplier.
+ * Banking details change only through bank change requests and the
+ * onboarding status only through the onboarding steps.
+ */
+export const supplierRequestSchema = insertSupplierSchema.omit({
+  bankName: true,
+  bankAccountNumber: true,
+  bankBranchCode: true,
+  onboardingStatus: true,
+});
+
+/** The onboarding details a supplier admin fills in while their supplier is in draft. */
+export const supplierOnboardingSchema = supplierRequestSchema
+  .pick({
+    contactPerson: true,
+    email: true,
+    phone: true,
+    address: true,
+    vatNumber: true,
+    csdNumber: true,
+    registrationNumber: true,
+    bbbeeLevel: true,
+    bbbeeExpiresAt: true,
+    taxComplianceStatus: true,
+    taxComplianceExpiresAt: true,
+  })
+  .partial();
+
+/** An optional comment on an onboarding step; returning or suspending a supplier needs one. */
+export const supplierOnboardingStepSchema = z.object({
+  comment: z.string().trim().optional(),
+});
+
+/** Request body for changing a supplier's banking details, with the uploaded bank confirmation letter. */
+export const supplierBankChangeRequestSchema = z.object({
+  bankName: z.string().trim().min(1, "A bank is required"),
+  bankAccountNumber: z.string().trim().regex(BANK_ACCOUNT_NUMBER_PATTERN, "Account numbers have 6 to 11 digits"),
+  bankBranchCode: z.string().trim().regex(BRANCH_CODE_PATTERN, "Branch codes have 6 digits"),
+  documentId: z.string().min(1, "Attach a bank confirmation letter"),
+});
+
+/** Insert schema for supplier contracts; the contract period may not be inverted. */
+export const insertSupplierContractSchema = createInsertSchema(supplierContracts, {
+  contractNumber: z.string().trim().toUpperCase().min(1, "A contract number is required"),
+  title: z.string().trim().min(1, "A title is required"),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  ceilingValue: z.coerce.number().positive().multipleOf(0.01).transform(String),
+})
+  .omit({ id: true, createdBy: true, createdAt: true })
+  .refine((c) => c.endDate >= c.startDate, { message: "End date must be on or after the start date", path: ["endDate"] });
+
+/**
+ * The fields of a contract that may change. The supplier never changes; an
+ * inverted period is refused by the route once merged with the stored dates.
+ */
+export const supplierContractUpdateSchema = insertSupplierContractSchema.innerType().omit({ supplierId: true }).partial();
+
+/** Request body replacing a contract's rate card: one entry per screen, which must be the contract supplier's. */
+export const contractRateCardSchema = z.object({
+  rates: z.array(z.object({
+    inventoryId: z.string().min(1),
+    dailyRate: z.coerce.number().positive().multipleOf(0.01).transform(String),
+    weeklyRate: z.coerce.number().positive().multipleOf(0.01).transform(String).nullish(),
+    monthlyRate: z.coerce.number().positive().multipleOf(0.01).transform(String).nullish(),
+  })).refine((rates) => new Set(rates.map((r) => r.inventoryId)).size === rates.length, {
+    message: "Each screen may appear only once on a rate card",
+  }),
+});
+
 /** Insert schemas for all remaining tables (excludes auto-generated fields). */
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
-export const insertSupplierSchema = createInsertSchema(suppliers).omit({ id: true });
 export const insertCampaignSchema = createInsertSchema(campaigns).omit({ id: true, createdAt: true });
 export const insertBookingSchema = createInsertSchema(bookings).omit({ id: true, createdAt: true });
 export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, uploadedAt: true });
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true });
+export const insertInvoiceLineSchema = createInsertSchema(invoiceLines).omit({ id: true });
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
+export const insertBookingNegotiationSchema = createInsertSchema(bookingNegotiations).omit({ id: true, createdAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true, readAt: true });
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true, createdAt: true, acceptedAt: true, acceptedUserId: true, revokedAt: true,
+});
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true });
+export const insertCreditNoteLineSchema = createInsertSchema(creditNoteLines).omit({ id: true });
+
+/**
+ * Fields an administrator may change on a user. Passwords, MFA enrolment and
+ * the supplier a user belongs to are not edited through this request.
+ */
+export const userUpdateSchema = insertUserSchema
+  .pick({ fullName: true, email: true, role: true, active: true })
+  .partial()
+  .strict();
+
+/** Fields of a draft campaign that may be edited; status and approval progress only change through the workflow. */
+export const campaignUpdateSchema = insertCampaignSchema
+  .pick({ name: true, description: true, budget: true, region: true, targetReach: true })
+  .extend({
+    startDate: z.coerce.date().nullable(),
+    endDate: z.coerce.date().nullable(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Request body for booking a screen. The screen and an inclusive date range
+ * are required; supplier, site description, location and media type are
+ * copied from the screen, the cost is quoted by the pricing engine, and new
+ * bookings always start as pending.
+ */
+export const bookingRequestSchema = insertBookingSchema
+  .omit({ supplierId: true, contractId: true, siteDescription: true, location: true, mediaType: true, status: true, supplierResponse: true, cost: true, quote: true })
+  .extend({
+    inventoryId: z.string().min(1, "A screen is required"),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((b) => b.endDate >= b.startDate, { message: "End date must be on or after the start date", path: ["endDate"] });
+
+/**
+ * Request body for changing a booking: another screen, other dates or a new
+ * status. The campaign, supplier, cost and contract are never set directly;
+ * they follow from the screen and the pricing engine, and the supplier's
+ * response only changes through the negotiation endpoints.
+ * acknowledgeOverspend confirms a change over budget under the soft policy.
+ */
+export const bookingUpdateSchema = z.object({
+  inventoryId: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  status: z.enum(bookingStatusEnum.enumValues).optional(),
+  acknowledgeOverspend: z.boolean().optional(),
+}).strict();
+
+/** A supplier's reason for declining a booking. */
+export const bookingDeclineSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+/**
+ * A supplier's counter-offer: another of its screens, other dates and/or
+ * another price (excluding VAT). Without a price the proposal is priced
+ * from the screen's rate card.
+ */
+export const bookingCounterOfferSchema = z.object({
+  inventoryId: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  cost: z.coerce.number().positive().multipleOf(0.01).optional(),
+  comment: z.string().trim().optional(),
+}).refine(
+  (c) => c.inventoryId !== undefined || c.startDate !== undefined || c.endDate !== undefined || c.cost !== undefined,
+  { message: "Propose another screen, other dates or another price" },
+);
+
+/** An optional comment on accepting a booking or a counter-offer; rejecting a counter-offer needs one. */
+export const negotiationCommentSchema = z.object({
+  comment: z.string().trim().optional(),
+});
+
+/** Shortest password accepted when an invited user sets theirs. */
+export const MIN_PASSWORD_LENGTH = 12;
+
+/**
+ * Request body for a supplier admin inviting someone to their supplier. The
+ * supplier is the admin's own; the API refuses any role but the supplier roles.
+ */
+export const userInvitationRequestSchema = z.object({
+  email: z.string().trim().email(),
+  fullName: z.string().trim().min(1, "A name is required"),
+  role: z.enum(userRoleEnum.enumValues),
+  supplierId: z.string().optional(),
+});
+
+/** Request body for accepting an invitation: the new user's sign-in details. */
+export const invitationAcceptSchema = z.object({
+  username: z.string().trim().min(3, "Usernames have at least 3 characters"),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Passwords have at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+/** Request body for a supplier admin changing one of their supplier's users. */
+export const supplierUserUpdateSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues).optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Form fields sent with a document upload. File name, size, type, hash and
+ * uploader come from the uploaded file and the session, not the client; so do
+ * the GPS position and capture time of proof-of-flighting photos. A corrected
+ * version names the rejected document in supersedesId and takes its campaign,
+ * booking, type and supplier from it. Compliance documents also need their
+ * supplier and validity dates; campaignId may be left out for a document that
+ * covers all of the supplier's campaigns.
+ */
+export const documentUploadSchema = insertDocumentSchema
+  .pick({ campaignId: true, bookingId: true, type: true, supersedesId: true, supplierId: true })
+  .extend({ issuedAt: z.coerce.date().optional(), expiresAt: z.coerce.date().optional() });
+
+/**
+ * Request body for generating an invoice from a supplier's bookings on a
+ * campaign. Without bookingIds every approved booking not yet invoiced is
+ * included; the number, lines and totals are worked out by the server.
+ */
+export const invoiceGenerationSchema = z.object({
+  campaignId: z.string().min(1),
+  supplierId: z.string().min(1),
+  bookingIds: z.array(z.string()).optional(),
+  dueDate: z.coerce.date().optional(),
+});
+
+/** Invoice statuses, from generation to settlement. */
+export const INVOICE_STATUSES = invoiceStatusEnum.enumValues;
+
+/** Request body for recording a payment against an invoice. */
+export const paymentRequestSchema = z.object({
+  paidOn: z.coerce.date(),
+  amount: z.coerce.number().positive().multipleOf(0.01),
+  reference: z.string().trim().min(1, "A payment reference is required"),
+  method: z.enum(paymentMethodEnum.enumValues).default("eft"),
+});
+
+/**
+ * Request body for issuing a credit note: the invoice lines to reverse, each
+ * with the amount (excluding VAT) to credit, or the rest of the line when the
+ * amount is left out.
+ */
+export const creditNoteRequestSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+  lines: z.array(z.object({
+    invoiceLineId: z.string(),
+    amount: z.coerce.number().positive().multipleOf(0.01).optional(),
+  })).min(1, "Select at least one invoice line to credit"),
+});
+
+/** A finance officer's reason for paying an invoice despite match exceptions. */
+export const invoiceMatchOverrideSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+/**
+ * The fields of a draft invoice that may change: issuing it (draft to sent)
+ * and its due date. Issued invoices are settled by payments and corrected by
+ * credit notes.
+ */
+export const invoiceUpdateSchema = z.object({
+  status: z.literal("sent").optional(),
+  dueDate: z.coerce.date().optional(),
+});
 
 /** Insert and select types for each table, used throughout the application. */
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 export type Supplier = typeof suppliers.$inferSelect;
+export type SupplierOnboardingReview = typeof supplierOnboardingReviews.$inferSelect;
+export type InsertSupplierOnboardingReview = typeof supplierOnboardingReviews.$inferInsert;
+export type SupplierBankChange = typeof supplierBankChanges.$inferSelect;
+export type InsertSupplierBankChange = typeof supplierBankChanges.$inferInsert;
+export type InsertSupplierContract = z.infer<typeof insertSupplierContractSchema>;
+export type SupplierContract = typeof supplierContracts.$inferSelect;
+export type ContractRate = typeof contractRates.$inferSelect;
+export type InsertContractRate = typeof contractRates.$inferInsert;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
+export type CampaignApproval = typeof campaignApprovals.$inferSelect;
+export type InsertCampaignApproval = typeof campaignApprovals.$inferInsert;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+
 export type Document = typeof documents.$inferSelect;
+export type DocumentReview = typeof documentReviews.$inferSelect;
+export type InsertDocumentReview = typeof documentReviews.$inferInsert;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoiceLine = z.infer<typeof insertInvoiceLineSchema>;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertBookingNegotiation = z.infer<typeof insertBookingNegotiationSchema>;
+export type BookingNegotiation = typeof bookingNegotiations.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNoteLine = z.infer<typeof insertCreditNoteLineSchema>;
+export type CreditNoteLine = typeof creditNoteLines.$inferSelect;
@@ -0,0 +1,155 @@
+/**
+ * @file Supplier onboarding rules shared by the API and the client.
+ *
+ * A supplier can only be booked once the department has verified it. One of
+ * its supplier admins fills in its Central Supplier Database (CSD) number,
+ * company registration and VAT numbers, B-BBEE level and tax compliance
+ * status, attaches the B-BBEE certificate and tax clearance documents and
+ * submits the profile. A department admin or finance officer then verifies
+ * it or returns it to draft with a comment, and may later suspend it.
+ *
+ * Banking details are never edited directly: a change is requested with a
+ * bank confirmation letter and takes effect only once someone other than the
+ * person who requested it has verified it.
+ */
+
+import type { Document, Supplier, SupplierBankChange } from "./schema";
+
+export type OnboardingStatus = "draft" | "submitted" | "verified" | "suspended";
+
+/** Onboarding steps, each exposed as POST /api/suppliers/:id/onboarding/<action>. */
+export type OnboardingAction = "submit" | "verify" | "return" | "suspend" | "reinstate";
+
+/**
+ * Statuses each step may be taken from. The supplier's own admins (or a
+ * reviewer on their behalf) submit; only reviewers take the other steps,
+ * and returning or suspending a supplier needs a comment.
+ */
+export const onboardingTransitions: Record<
+  OnboardingAction,
+  { from: readonly OnboardingStatus[]; to: OnboardingStatus; by: "supplier" | "reviewer"; needsComment: boolean }
+> = {
+  submit: { from: ["draft"], to: "submitted", by: "supplier", needsComment: false },
+  verify: { from: ["submitted"], to: "verified", by: "reviewer", needsComment: false },
+  return: { from: ["submitted", "suspended"], to: "draft", by: "reviewer", needsComment: true },
+  suspend: { from: ["submitted", "verified"], to: "suspended", by: "reviewer", needsComment: true },
+  reinstate: { from: ["suspended"], to: "verified", by: "reviewer", needsComment: false },
+};
+
+/** Steps that need the onboarding checklist to be complete. */
+export const CHECKED_ONBOARDING_ACTIONS: readonly OnboardingAction[] = ["submit", "verify", "reinstate"];
+
+/** Returns true if the supplier may be booked. */
+export function isBookable(supplier: Pick<Supplier, "onboardingStatus" | "active">): boolean {
+  return supplier.active && supplier.onboardingStatus === "verified";
+}
+
+/** Returns true if the supplier's own users may still edit its onboarding details. */
+export function isEditableBySupplier(supplier: Pick<Supplier, "onboardingStatus">): boolean {
+  return supplier.onboardingStatus === "draft";
+}
+
+/** CSD supplier numbers: "MAAA" followed by seven digits. */
+export const CSD_NUMBER_PATTERN = /^MAAA\d{7}$/;
+
+/** CIPC company registration numbers, e.g. 2001/123456/07. */
+export const REGISTRATION_NUMBER_PATTERN = /^\d{4}\/\d{6}\/\d{2}$/;
+
+/** SARS VAT numbers: ten digits starting with 4. */
+export const VAT_NUMBER_PATTERN = /^4\d{9}$/;
+
+/** South African bank account numbers: six to eleven digits. */
+export const BANK_ACCOUNT_NUMBER_PATTERN = /^\d{6,11}$/;
+
+/** Universal and branch codes: six digits. */
+export const BRANCH_CODE_PATTERN = /^\d{6}$/;
+
+export type BbbeeLevel = NonNullable<Supplier["bbbeeLevel"]>;
+
+export const bbbeeLevelLabels: Record<BbbeeLevel, string> = {
+  level_1: "Level 1",
+  level_2: "Level 2",
+  level_3: "Level 3",
+  level_4: "Level 4",
+  level_5: "Level 5",
+  level_6: "Level 6",
+  level_7: "Level 7",
+  level_8: "Level 8",
+  non_compliant: "Non-compliant",
+};
+
+/** Documents filed against a supplier during onboarding rather than against a booking. */
+export const ONBOARDING_DOCUMENT_TYPES = ["bbbee_certificate", "tax_clearance", "bank_confirmation"] as const;
+
+export type OnboardingDocumentType = (typeof ONBOARDING_DOCUMENT_TYPES)[number];
+
+export function isOnboardingDocumentType(type: string): type is OnboardingDocumentType {
+  return (ONBOARDING_DOCUMENT_TYPES as readonly string[]).includes(type);
+}
+
+/** One item of the onboarding checklist. */
+export interface OnboardingRequirement {
+  key: "csd" | "registration" | "bbbee" | "bbbee_certificate" | "tax" | "tax_clearance" | "banking";
+  label: string;
+  met: boolean;
+}
+
+/** Returns true if the supplier holds a document of the type that has not been rejected or replaced. */
+function holds(supplierId: string, type: OnboardingDocumentType, documents: Pick<Document, "supplierId" | "type" | "status">[]) {
+  return documents.some(
+    (d) => d.supplierId === supplierId && d.type === type && d.status !== "rejected" && d.status !== "superseded",
+  );
+}
+
+const isFuture = (date: Date | string | null, now: Date) => !!date && new Date(date) > now;
+
+/**
+ * What the supplier still needs before it can be submitted or verified.
+ * Suppliers without a B-BBEE certificate may register as non-compliant
+ * contributors; everyone needs a current tax compliance status and verified
+ * banking details.
+ */
+export function onboardingChecklist(
+  supplier: Supplier,
+  documents: Pick<Document, "supplierId" | "type" | "status">[],
+  now = new Date(),
+): OnboardingRequirement[] {
+  const certified = !!supplier.bbbeeLevel && supplier.bbbeeLevel !== "non_compliant";
+  const checklist: OnboardingRequirement[] = [
+    { key: "csd", label: "CSD supplier number", met: !!supplier.csdNumber },
+    { key: "registration", label: "Company registration number", met: !!supplier.registrationNumber },
+    {
+      key: "bbbee",
+      label: "B-BBEE level and certificate expiry",
+      met: supplier.bbbeeLevel === "non_compliant" || (certified && isFuture(supplier.bbbeeExpiresAt, now)),
+    },
+    {
+      key: "tax",
+      label: "Current tax compliance status",
+      met: supplier.taxComplianceStatus === "compliant" && isFuture(supplier.taxComplianceExpiresAt, now),
+    },
+    { key: "tax_clearance", label: "Tax clearance document", met: holds(supplier.id, "tax_clearance", documents) },
+    {
+      key: "banking",
+      label: "Verified banking details",
+      met: !!supplier.bankName && !!supplier.bankAccountNumber && !!supplier.bankBranchCode,
+    },
+  ];
+  if (certified) {
+    checklist.splice(3, 0, {
+      key: "bbbee_certificate",
+      label: "B-BBEE certificate",
+      met: holds(supplier.id, "bbbee_certificate", documents),
+    });
+  }
+  return checklist;
+}
+
+export function isOnboardingComplete(checklist: OnboardingRequirement[]): boolean {
+  return checklist.every((r) => r.met);
+}
+
+/** Returns true if the user may verify or reject the banking change: anyone but whoever requested it. */
+export function canReviewBankChange(change: Pick<SupplierBankChange, "status" | "requestedBy">, userId: string): boolean {
+  return change.status === "pending" && change.requestedBy !== userId;
+}